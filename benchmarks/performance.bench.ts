@@ -4,12 +4,17 @@ import {
 	allSettledAsync,
 	analyze,
 	errs,
+	mapConcurrent,
 	oks,
 	partition,
 	partitionWith,
+	settleConcurrent,
 } from "../dist/batch.js";
-import { err, isErr, isOk, ok } from "../dist/core.js";
+import { err, isErr, isOk, match, ok } from "../dist/core.js";
+import { andThen, map } from "../dist/iter.js";
 import type { Err, Ok, Result } from "../dist/types.js";
+import * as unchecked from "../dist/unchecked.js";
+import { tap } from "../dist/utils.js";
 
 // =============================================================================
 // REALISTIC DATA GENERATORS
@@ -418,6 +423,34 @@ describe("Async Operations (Real-World)", () => {
 			.filter(({ result }) => isErr(result))
 			.map(({ result }) => (result as Err<unknown>).error);
 	});
+
+	const userIds = Array.from({ length: 200 }, (_, i) => i);
+
+	bench("✅ mapConcurrent() - 200 fetches, 10 at a time", async () => {
+		await mapConcurrent(userIds, (id) => createAsyncUserFetch(id, 1), {
+			concurrency: 10,
+			stopOnError: false,
+		});
+	});
+
+	bench("✅ settleConcurrent() - 200 fetches, 10 at a time", async () => {
+		await settleConcurrent(userIds, (id) => createAsyncUserFetch(id, 1), {
+			concurrency: 10,
+		});
+	});
+
+	bench("❌ Manual chunking with Promise.all - 200 fetches", async () => {
+		const results: Array<Result<User, string>> = [];
+		for (let i = 0; i < userIds.length; i += 10) {
+			const chunk = userIds.slice(i, i + 10);
+			results.push(
+				...(await Promise.all(chunk.map((id) => createAsyncUserFetch(id, 1)))),
+			);
+		}
+		const _errors = results
+			.map((result, index) => ({ result, index }))
+			.filter(({ result }) => isErr(result));
+	});
 });
 
 // =============================================================================
@@ -573,6 +606,74 @@ describe("Edge Cases Performance", () => {
 	});
 });
 
+// =============================================================================
+// VALIDATED VS UNCHECKED (Hot Paths)
+// =============================================================================
+
+const checkAge = (user: User): Result<User, ValidationError> =>
+	user.age >= 18
+		? ok(user)
+		: err({ field: "age", code: "UNDERAGE", message: "Must be 18+" });
+
+const describeUser = {
+	Ok: (user: User) => user.name,
+	Err: (error: ValidationError) => error.message,
+};
+
+describe("Validated vs Unchecked (Hot Paths)", () => {
+	bench("✅ iter map/andThen + match - validated", () => {
+		for (const result of largeUserResults) {
+			match(
+				andThen(
+					map(result, (user) => ({ ...user, age: user.age + 1 })),
+					checkAge,
+				),
+				describeUser,
+			);
+		}
+	});
+
+	bench("⚡ unchecked map/andThen + match", () => {
+		for (const result of largeUserResults) {
+			unchecked.match(
+				unchecked.andThen(
+					unchecked.map(result, (user) => ({ ...user, age: user.age + 1 })),
+					checkAge,
+				),
+				describeUser,
+			);
+		}
+	});
+
+	bench("✅ utils.tap() - validated with structuredClone", () => {
+		for (const result of mediumUserResults) {
+			tap(result, (user) => user.id);
+		}
+	});
+
+	bench("⚡ unchecked.tap() - no clone", () => {
+		for (const result of mediumUserResults) {
+			unchecked.tap(result, (user) => user.id);
+		}
+	});
+
+	bench("✅ batch.partition() - validated", () => {
+		partition(largeUserResults);
+	});
+
+	bench("⚡ unchecked.partition()", () => {
+		unchecked.partition(largeUserResults);
+	});
+
+	bench("✅ batch.analyze() - validated", () => {
+		analyze(largeUserResults);
+	});
+
+	bench("⚡ unchecked.analyze()", () => {
+		unchecked.analyze(largeUserResults);
+	});
+});
+
 // =============================================================================
 // SCALING TESTS (Updated)
 // =============================================================================
@@ -0,0 +1,278 @@
+// result-ts/async - Core essentials + thenable ResultAsync pipelines
+// Provides flat, awaitable chaining of async Result operations
+
+// Re-export all core essentials from core module
+export * from "@/core";
+
+import { handleWithAsync } from "@/core";
+// Import the shared ResultAsync implementation - result-ts/unchecked/async
+// builds the same pipelines without the checks
+import { type Checks, wrapAsync } from "@/ops";
+// Import types and constants for async implementations
+import { ERR, OK, type Result } from "@/types";
+
+// =============================================================================
+// RUNTIME VALIDATION HELPERS
+// =============================================================================
+
+/**
+ * Validates that a parameter is a proper Result object.
+ * Provides helpful error messages for common mistakes.
+ */
+const validateResult = <T, E>(
+	result: Result<T, E>,
+	functionName: string,
+): void => {
+	if (!result || typeof result !== "object") {
+		throw new TypeError(
+			`${functionName}: Expected a Result object, got ${typeof result}`,
+		);
+	}
+	const resultObj = result as unknown;
+	if (
+		typeof resultObj !== "object" ||
+		resultObj === null ||
+		!("type" in resultObj)
+	) {
+		throw new TypeError(
+			`${functionName}: Result must have a 'type' property (Ok or Err)`,
+		);
+	}
+	if (
+		(resultObj as Record<string, unknown>).type !== OK &&
+		(resultObj as Record<string, unknown>).type !== ERR
+	) {
+		throw new TypeError(
+			`${functionName}: Invalid Result type '${resultObj.type}', expected '${OK}' or '${ERR}'`,
+		);
+	}
+	if (resultObj.type === OK && !("value" in resultObj)) {
+		throw new TypeError(
+			`${functionName}: Ok Result must have a 'value' property`,
+		);
+	}
+	if (resultObj.type === ERR && !("error" in resultObj)) {
+		throw new TypeError(
+			`${functionName}: Err Result must have an 'error' property`,
+		);
+	}
+};
+
+/**
+ * Validates that a callback parameter is a function.
+ */
+const validateMapper = (
+	mapper: unknown,
+	functionName: string,
+	parameterName: string = "fn",
+): void => {
+	if (typeof mapper !== "function") {
+		throw new TypeError(
+			`${functionName}: ${parameterName} must be a function, got ${typeof mapper}`,
+		);
+	}
+};
+
+/**
+ * Validates that a parameter is a thenable (Promise or PromiseLike).
+ */
+const validatePromise = (promise: unknown, functionName: string): void => {
+	if (
+		!promise ||
+		(typeof promise !== "object" && typeof promise !== "function") ||
+		typeof (promise as Record<string, unknown>).then !== "function"
+	) {
+		throw new TypeError(
+			`${functionName}: First argument must be a Promise, got ${typeof promise}`,
+		);
+	}
+};
+
+// =============================================================================
+// RESULT ASYNC TYPE
+// =============================================================================
+
+/**
+ * An awaitable Result pipeline. Awaiting it yields a plain `Result<T, E>`.
+ * Every step accepts sync or async callbacks and returns a new ResultAsync,
+ * so pipelines stay flat instead of nesting awaits.
+ */
+export interface ResultAsync<T, E> extends PromiseLike<Result<T, E>> {
+	map<U>(fn: (value: T) => U | PromiseLike<U>): ResultAsync<U, E>;
+	mapErr<F>(fn: (error: E) => F | PromiseLike<F>): ResultAsync<T, F>;
+	andThen<U, F = E>(
+		fn: (value: T) => Result<U, F> | PromiseLike<Result<U, F>>,
+	): ResultAsync<U, E | F>;
+	orElse<U = T, F = E>(
+		fn: (error: E) => Result<U, F> | PromiseLike<Result<U, F>>,
+	): ResultAsync<T | U, F>;
+	tap(fn: (value: T) => unknown): ResultAsync<T, E>;
+	tapErr(fn: (error: E) => unknown): ResultAsync<T, E>;
+	match<U, V>(handlers: {
+		Ok: (value: T) => U | PromiseLike<U>;
+		Err: (error: E) => V | PromiseLike<V>;
+	}): Promise<U | V>;
+	unwrapOr(defaultValue: T): Promise<T>;
+}
+
+// validateResult() checks every settled Result, validateMapper() every callback
+const checks: Checks = { result: validateResult, fn: validateMapper };
+
+// =============================================================================
+// RESULT ASYNC CONSTRUCTORS (Individual Exports)
+// =============================================================================
+
+/**
+ * Wraps a Result, a Promise of a Result or another ResultAsync in a ResultAsync.
+ * Rejections of the underlying promise are not caught - use {@link fromPromise}
+ * for promises that may reject.
+ *
+ * @example
+ * ```typescript
+ * const user = await resultAsync(fetchUser(id)) // Promise<Result<User, ApiError>>
+ *   .andThen((user) => fetchProfile(user.id)) // Promise<Result<Profile, ApiError>>
+ *   .map((profile) => profile.displayName);
+ * // Returns: Result<string, ApiError>
+ *
+ * const fromSync = resultAsync(validate(input, Schema));
+ * // Returns: ResultAsync<Input, string>
+ * ```
+ *
+ * @param source - Result or PromiseLike of a Result to wrap
+ * @returns A ResultAsync resolving to the same Result
+ * @throws TypeError (as rejection) if the source does not resolve to a valid Result
+ * @see {@link fromPromise} for promises that may reject
+ */
+export function resultAsync<
+	T,
+	E extends Record<string, unknown> | string | Error,
+>(source: Result<T, E> | PromiseLike<Result<T, E>>): ResultAsync<T, E>;
+export function resultAsync<T, E>(
+	source: Result<T, E> | PromiseLike<Result<T, E>>,
+): ResultAsync<T, E>;
+export function resultAsync<T, E>(
+	source: Result<T, E> | PromiseLike<Result<T, E>>,
+): ResultAsync<T, E> {
+	return wrapAsync(Promise.resolve(source), checks);
+}
+
+/**
+ * Creates a ResultAsync that resolves to Ok with the given value.
+ *
+ * @example
+ * ```typescript
+ * const cached = okAsync(cachedUser);
+ * // Returns: ResultAsync<User, never>
+ * ```
+ *
+ * @param value - The success value to wrap
+ * @returns A ResultAsync resolving to Ok(value)
+ * @see {@link errAsync} for failed ResultAsync values
+ */
+export const okAsync = <T>(value: T): ResultAsync<T, never> =>
+	wrapAsync<T, never>(Promise.resolve({ type: OK, value }), checks);
+
+/**
+ * Creates a ResultAsync that resolves to Err with the given error.
+ *
+ * @example
+ * ```typescript
+ * const denied = errAsync({ code: "FORBIDDEN" });
+ * // Returns: ResultAsync<never, { code: string }>
+ * ```
+ *
+ * @param error - The error value to wrap
+ * @returns A ResultAsync resolving to Err(error)
+ * @see {@link okAsync} for successful ResultAsync values
+ */
+export const errAsync = <E>(error: E): ResultAsync<never, E> =>
+	wrapAsync<never, E>(Promise.resolve({ type: ERR, error }), checks);
+
+/**
+ * Converts a promise that may reject into a ResultAsync, mapping rejections to errors.
+ * Built on handleWithAsync(), so non-Error rejections are wrapped with Error.cause
+ * before reaching the error mapper.
+ *
+ * @example
+ * ```typescript
+ * const user = await fromPromise(
+ *   fetch(`/api/users/${id}`).then((res) => res.json()),
+ *   (error) => ({ code: "FETCH_FAILED", message: error.message }),
+ * )
+ *   .map((data) => UserSchema.parse(data))
+ *   .tapErr((error) => logger.warn(error.message));
+ * // Returns: Result<User, { code: string; message: string }>
+ * ```
+ *
+ * @param promise - The promise to convert
+ * @param errorMapper - Function mapping the rejection (as an Error) to the error type
+ * @returns A ResultAsync resolving to Ok with the value or Err with the mapped error
+ * @throws TypeError if promise is not a Promise or errorMapper is not a function
+ * @see {@link fromSafePromise} for promises that never reject
+ */
+export function fromPromise<
+	T,
+	E extends Record<string, unknown> | string | Error,
+>(
+	promise: PromiseLike<T>,
+	errorMapper: (error: Error) => E,
+): ResultAsync<T, E> {
+	validatePromise(promise, "fromPromise()");
+	validateMapper(errorMapper, "fromPromise()", "errorMapper");
+	return wrapAsync(
+		handleWithAsync(async () => promise, errorMapper),
+		checks,
+	);
+}
+
+/**
+ * Converts a promise that is known never to reject into a ResultAsync.
+ * If the promise rejects anyway, the ResultAsync rejects with the same reason.
+ *
+ * @example
+ * ```typescript
+ * const settings = fromSafePromise(loadDefaults()) // Promise<Settings>
+ *   .andThen((defaults) => validate(defaults, SettingsSchema));
+ * // Returns: ResultAsync<Settings, string>
+ * ```
+ *
+ * @param promise - The promise to convert
+ * @returns A ResultAsync resolving to Ok with the value
+ * @throws TypeError if promise is not a Promise
+ * @see {@link fromPromise} for promises that may reject
+ */
+export function fromSafePromise<T>(
+	promise: PromiseLike<T>,
+): ResultAsync<T, never> {
+	validatePromise(promise, "fromSafePromise()");
+	return wrapAsync<T, never>(
+		Promise.resolve(promise).then((value) => ({ type: OK, value })),
+		checks,
+	);
+}
+
+/**
+ * This entry point includes core essentials + thenable ResultAsync pipelines.
+ *
+ * Use for: async workflows that would otherwise nest mapAsync()/andThenAsync() calls
+ *
+ * Key functions: resultAsync(), fromPromise(), fromSafePromise(), okAsync(), errAsync()
+ *
+ * ResultAsync methods: map(), mapErr(), andThen(), orElse(), tap(), tapErr(), match(), unwrapOr()
+ *
+ * Behaviour notes:
+ * - Every method accepts sync or async callbacks
+ * - A ResultAsync is PromiseLike, so `await` yields a plain Result
+ * - andThen() widens the error type (E | F) instead of requiring one shared type
+ * - Exceptions thrown by callbacks reject the pipeline, matching mapAsync() in result-ts/iter
+ *
+ * Other available layers:
+ * - `result-ts` → core essentials only
+ * - `result-ts/iter` → core + data transformation
+ * - `result-ts/batch` → core + array processing
+ * - `result-ts/utils` → core + debugging utilities
+ * - `result-ts/patterns` → core + advanced patterns
+ * - `result-ts/schema` → core + Standard Schema validation (Zod, Valibot, ArkType, ...)
+ * - `result-ts/option` → core + Option type operations
+ * - `result-ts/errors` → core + tagged error toolkit
+ */
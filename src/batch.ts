@@ -5,7 +5,20 @@
 export * from "@/core";
 
 // Import types and constants for batch implementations
-import { ERR, OK, type Result } from "@/types";
+import { AbortError } from "@/core";
+import {
+	all as allImpl,
+	analyze as analyzeImpl,
+	errs as errsImpl,
+	findFirst as findFirstImpl,
+	first as firstImpl,
+	oks as oksImpl,
+	partition as partitionImpl,
+	partitionWith as partitionWithImpl,
+	reduce as reduceImpl,
+} from "@/ops";
+import { traced, tracer } from "@/tracing";
+import { ERR, type Err, OK, type Result } from "@/types";
 
 // =============================================================================
 // RUNTIME VALIDATION HELPERS
@@ -79,6 +92,91 @@ const validateResultArray = <T, E>(
 	}
 };
 
+// =============================================================================
+// FAIL-FAST HELPERS
+// =============================================================================
+
+/**
+ * A started Promise<Result>, or a factory starting one with a shared AbortSignal.
+ */
+export type AsyncTask<T, E> =
+	| Promise<Result<T, E>>
+	| ((signal: AbortSignal) => Promise<Result<T, E>>);
+
+/**
+ * Options for {@link allAsync}.
+ */
+export interface AllAsyncOptions {
+	/** Resolve on the first Err, abort the shared signal and report the failing index (default: false). */
+	failFast?: boolean;
+}
+
+/**
+ * Starts every task and settles on the first Err (or rejection), aborting the
+ * shared controller so factories can cancel their work. Later outcomes are
+ * ignored; null/undefined elements are skipped but keep their index.
+ */
+const raceFirstErr = <T, E>(
+	tasks: Array<AsyncTask<T, E>>,
+	functionName: string,
+): Promise<Result<T[], IndexedError<E>>> => {
+	const controller = new AbortController();
+
+	return new Promise((resolve, reject) => {
+		const values: T[] = [];
+		const present: number[] = [];
+		let pending = 0;
+		let settled = false;
+
+		const fail = (index: number, reason: string) => {
+			settled = true;
+			controller.abort(
+				new AbortError(`Cancelled because item ${index} ${reason}`),
+			);
+		};
+
+		for (let index = 0; index < tasks.length; index++) {
+			const task = tasks[index];
+			if (task == null) continue; // Skip null/undefined elements gracefully
+			present.push(index);
+			pending++;
+
+			new Promise<Result<T, E>>((start) =>
+				start(typeof task === "function" ? task(controller.signal) : task),
+			)
+				.then((result) => {
+					if (settled) return;
+					validateResult(result, functionName, index);
+					if (result.type === ERR) {
+						fail(index, "failed");
+						const failed: Err<IndexedError<E>> = {
+							type: ERR,
+							error: { index, error: result.error },
+						};
+						tracer?.step(result, failed, functionName);
+						resolve(failed);
+						return;
+					}
+					values[index] = result.value;
+					if (--pending === 0) {
+						settled = true;
+						resolve({ type: OK, value: present.map((i) => values[i] as T) });
+					}
+				})
+				.catch((thrown: unknown) => {
+					if (settled) return;
+					fail(index, "threw");
+					reject(thrown);
+				});
+		}
+
+		if (pending === 0) {
+			settled = true;
+			resolve({ type: OK, value: [] });
+		}
+	});
+};
+
 // =============================================================================
 // BATCH OPERATIONS (Individual Exports)
 // =============================================================================
@@ -127,18 +225,7 @@ export function all<T, E extends Record<string, unknown> | string | Error>(
 export function all<T, E>(results: Array<Result<T, E>>): Result<T[], E>;
 export function all<T, E>(results: Array<Result<T, E>>): Result<T[], E> {
 	validateResultArray(results, "all()");
-
-	const values = [];
-	for (const result of results) {
-		if (!result) continue; // Skip null/undefined elements gracefully
-		if (result.type === ERR) {
-			return result;
-		}
-		if (result.type === OK) {
-			values.push(result.value);
-		}
-	}
-	return { type: OK, value: values };
+	return allImpl(results);
 }
 
 /**
@@ -146,6 +233,12 @@ export function all<T, E>(results: Array<Result<T, E>>): Result<T[], E> {
  * Gracefully handles null/undefined array elements.
  * Error type constraint ensures consistent async error handling.
  *
+ * With `{ failFast: true }`, resolves as soon as any element yields Err instead
+ * of waiting for the slowest one, and reports the failing index. Elements may
+ * then also be task factories `(signal) => Promise<Result>`: they are started
+ * immediately and share one AbortController that is aborted on the first Err
+ * (or rejection), so the remaining work can actually stop.
+ *
  * @example
  * ```typescript
  * // API calls with consistent error structure
@@ -169,37 +262,85 @@ export function all<T, E>(results: Array<Result<T, E>>): Result<T[], E> {
  * const withNulls = [fetchUser(1), null, fetchUser(3)];
  * const safe = await allAsync(withNulls);
  * // Returns: Promise<Result<User[], Error>> → Ok([user1, user3]) - null elements ignored
+ *
+ * // Fail fast: resolve on the first Err and cancel the other requests
+ * const pages = await allAsync(
+ *   urls.map((url) => (signal: AbortSignal) => fetchPage(url, { signal })),
+ *   { failFast: true },
+ * );
+ * // Returns: Promise<Result<Page[], IndexedError<FetchError>>>
+ * if (isErr(pages)) console.error(`${urls[pages.error.index]} failed`, pages.error.error);
  * ```
  *
- * @param promises - Array of Promise<r> to await and combine (with consistent error type)
+ * @param promises - Array of Promise<r> (or task factories with failFast) to await and combine
+ * @param options - `{ failFast: true }` to resolve on the first Err with its index; `false` keeps the default behaviour
  * @returns Promise of Result containing all success values or first error
- * @throws TypeError if promises is not an array
+ * @throws TypeError if promises is not an array or options are invalid
  * @see {@link all} for synchronous version
  * @see {@link allSettledAsync} for non-failing version that returns both successes and errors
+ * @see {@link mapConcurrent} for bounded concurrency over large inputs
  */
+export function allAsync<T, E extends Record<string, unknown> | string | Error>(
+	promises: Array<AsyncTask<T, E>>,
+	options: AllAsyncOptions & { failFast: true },
+): Promise<Result<T[], IndexedError<E>>>;
+export function allAsync<T, E>(
+	promises: Array<AsyncTask<T, E>>,
+	options: AllAsyncOptions & { failFast: true },
+): Promise<Result<T[], IndexedError<E>>>;
 export function allAsync<T, E extends Record<string, unknown> | string | Error>(
 	promises: Array<Promise<Result<T, E>>>,
+	options?: AllAsyncOptions & { failFast?: false },
 ): Promise<Result<T[], E>>;
 export function allAsync<T, E>(
 	promises: Array<Promise<Result<T, E>>>,
+	options?: AllAsyncOptions & { failFast?: false },
 ): Promise<Result<T[], E>>;
-export async function allAsync<T, E>(
+export function allAsync<T, E extends Record<string, unknown> | string | Error>(
+	promises: Array<Promise<Result<T, E>>>,
+	options: AllAsyncOptions,
+): Promise<Result<T[], E | IndexedError<E>>>;
+export function allAsync<T, E>(
 	promises: Array<Promise<Result<T, E>>>,
-): Promise<Result<T[], E>> {
+	options: AllAsyncOptions,
+): Promise<Result<T[], E | IndexedError<E>>>;
+export async function allAsync<T, E>(
+	promises: Array<AsyncTask<T, E>>,
+	options?: AllAsyncOptions,
+): Promise<Result<T[], E | IndexedError<E>>> {
 	if (!Array.isArray(promises)) {
 		throw new TypeError(
 			`allAsync(): First argument must be an array of Promise<Result>, got ${typeof promises}`,
 		);
 	}
+	if (options !== undefined) {
+		if (!options || typeof options !== "object") {
+			throw new TypeError(
+				`allAsync(): options must be an object, got ${options === null ? "null" : typeof options}`,
+			);
+		}
+		if (
+			options.failFast !== undefined &&
+			typeof options.failFast !== "boolean"
+		) {
+			throw new TypeError(
+				`allAsync(): options.failFast must be a boolean, got ${typeof options.failFast}`,
+			);
+		}
+		if (options.failFast) {
+			return raceFirstErr(promises, "allAsync()");
+		}
+	}
 
 	const results = await Promise.all(promises.filter((p) => p != null)); // Filter nulls before Promise.all
 	const values = [];
 
 	for (let i = 0; i < results.length; i++) {
-		const result = results[i];
+		const result = results[i] as Result<T, E> | undefined;
 		if (!result) continue; // Extra safety
 		validateResult(result, "allAsync()", i);
 		if (result.type === ERR) {
+			tracer?.step(result, result, "allAsync()");
 			return result;
 		}
 		if (result.type === OK) {
@@ -322,14 +463,7 @@ export function oks<T, E extends Record<string, unknown> | string | Error>(
 export function oks<T, E>(results: Array<Result<T, E>>): T[];
 export function oks<T, E>(results: Array<Result<T, E>>): T[] {
 	validateResultArray(results, "oks()");
-
-	const values = [];
-	for (const result of results) {
-		if (result && result.type === OK) {
-			values.push(result.value);
-		}
-	}
-	return values;
+	return oksImpl(results);
 }
 
 /**
@@ -378,14 +512,7 @@ export function errs<T, E extends Record<string, unknown> | string | Error>(
 export function errs<T, E>(results: Array<Result<T, E>>): E[];
 export function errs<T, E>(results: Array<Result<T, E>>): E[] {
 	validateResultArray(results, "errs()");
-
-	const errors = [];
-	for (const result of results) {
-		if (result && result.type === ERR) {
-			errors.push(result.error);
-		}
-	}
-	return errors;
+	return errsImpl(results);
 }
 
 /**
@@ -435,20 +562,7 @@ export function partition<T, E>(
 	results: Array<Result<T, E>>,
 ): { oks: T[]; errors: E[] } {
 	validateResultArray(results, "partition()");
-
-	const oks = [];
-	const errors = [];
-
-	for (const result of results) {
-		if (!result) continue; // Skip null/undefined elements gracefully
-		if (result.type === OK) {
-			oks.push(result.value);
-		} else if (result.type === ERR) {
-			errors.push(result.error);
-		}
-	}
-
-	return { oks, errors };
+	return partitionImpl(results);
 }
 
 /**
@@ -518,25 +632,7 @@ export function partitionWith<T, E>(
 	total: number;
 } {
 	validateResultArray(results, "partitionWith()");
-
-	const oks = [];
-	const errors = [];
-
-	for (const result of results) {
-		if (result && result.type === OK) {
-			oks.push(result.value);
-		} else if (result && result.type === ERR) {
-			errors.push(result.error);
-		}
-	}
-
-	return {
-		oks,
-		errors,
-		okCount: oks.length,
-		errorCount: errors.length,
-		total: results.length,
-	};
+	return partitionWithImpl(results);
 }
 
 /**
@@ -605,25 +701,7 @@ export function analyze<T, E>(
 	isEmpty: boolean;
 } {
 	validateResultArray(results, "analyze()");
-
-	let okCount = 0;
-	let errorCount = 0;
-
-	for (const result of results) {
-		if (result && result.type === OK) {
-			okCount++;
-		} else if (result && result.type === ERR) {
-			errorCount++;
-		}
-	}
-
-	return {
-		okCount,
-		errorCount,
-		total: results.length,
-		hasErrors: errorCount > 0,
-		isEmpty: results.length === 0,
-	};
+	return analyzeImpl(results);
 }
 
 /**
@@ -692,29 +770,7 @@ export function findFirst<T, E>(
 	errorIndex: number;
 } {
 	validateResultArray(results, "findFirst()");
-
-	let firstOk: T | undefined;
-	let firstError: E | undefined;
-	let okIndex = -1;
-	let errorIndex = -1;
-
-	for (let i = 0; i < results.length; i++) {
-		const result = results[i];
-
-		if (result && result.type === OK && firstOk === undefined) {
-			firstOk = result.value;
-			okIndex = i;
-		} else if (result && result.type === ERR && firstError === undefined) {
-			firstError = result.error;
-			errorIndex = i;
-		}
-
-		if (firstOk !== undefined && firstError !== undefined) {
-			break;
-		}
-	}
-
-	return { firstOk, firstError, okIndex, errorIndex };
+	return findFirstImpl(results);
 }
 
 /**
@@ -791,20 +847,7 @@ export function reduce<T, E, Acc>(
 	initialValue: Acc,
 ): Acc {
 	validateResultArray(results, "reduce()");
-
-	let acc = initialValue;
-
-	for (let i = 0; i < results.length; i++) {
-		const result = results[i];
-
-		if (result && result.type === OK) {
-			acc = reducer.onOk(acc, result.value, i);
-		} else if (result && result.type === ERR) {
-			acc = reducer.onErr(acc, result.error, i);
-		}
-	}
-
-	return acc;
+	return reduceImpl(results, reducer, initialValue);
 }
 
 /**
@@ -858,20 +901,307 @@ export function first<T, E extends Record<string, unknown> | string | Error>(
 export function first<T, E>(results: Array<Result<T, E>>): Result<T, E[]>;
 export function first<T, E>(results: Array<Result<T, E>>): Result<T, E[]> {
 	validateResultArray(results, "first()");
+	return firstImpl(results);
+}
+
+// =============================================================================
+// CONCURRENCY-LIMITED OPERATIONS (Individual Exports)
+// =============================================================================
+
+/**
+ * Options for {@link mapConcurrent} and {@link settleConcurrent}.
+ */
+export interface ConcurrencyOptions {
+	/** Maximum number of tasks running at once (default: Infinity). */
+	concurrency?: number;
+	/** Stops starting new tasks once one returns Err (mapConcurrent only, default: true). */
+	stopOnError?: boolean;
+	/** Stops starting new tasks and is forwarded to running ones. */
+	signal?: AbortSignal;
+}
+
+/**
+ * An error paired with the input index that produced it.
+ */
+export interface IndexedError<E> {
+	index: number;
+	error: E;
+}
+
+/**
+ * Outcome of {@link settleConcurrent}.
+ */
+export interface SettledConcurrent<T, E> {
+	/** One Result per input item, in input order. */
+	results: Array<Result<T, E>>;
+	/** Success values, in input order. */
+	oks: T[];
+	/** Errors with the index of the item that produced them, in input order. */
+	errors: Array<IndexedError<E>>;
+}
+
+/**
+ * Validates mapConcurrent()/settleConcurrent() arguments.
+ */
+const validateConcurrentArgs = (
+	items: unknown,
+	fn: unknown,
+	options: ConcurrencyOptions,
+	functionName: string,
+): void => {
+	if (!Array.isArray(items)) {
+		throw new TypeError(
+			`${functionName}: First argument must be an array, got ${typeof items}`,
+		);
+	}
+	if (typeof fn !== "function") {
+		throw new TypeError(
+			`${functionName}: fn must be a function, got ${typeof fn}`,
+		);
+	}
+	if (!options || typeof options !== "object") {
+		throw new TypeError(
+			`${functionName}: options must be an object, got ${typeof options}`,
+		);
+	}
+	const { concurrency, signal } = options;
+	if (
+		concurrency !== undefined &&
+		concurrency !== Number.POSITIVE_INFINITY &&
+		(!Number.isInteger(concurrency) || concurrency < 1)
+	) {
+		throw new TypeError(
+			`${functionName}: concurrency must be a positive integer or Infinity, got ${String(concurrency)}`,
+		);
+	}
+	if (
+		signal !== undefined &&
+		(typeof signal !== "object" ||
+			signal === null ||
+			typeof signal.addEventListener !== "function")
+	) {
+		throw new TypeError(`${functionName}: signal must be an AbortSignal`);
+	}
+};
+
+/**
+ * Runs fn over items with at most `concurrency` tasks in flight, storing each
+ * Result at its input index. Items never started (after stopOnError or an abort)
+ * are left empty; items skipped because of the caller's signal get Err(AbortError).
+ * A rejected task stops scheduling and its rejection is rethrown once running
+ * tasks have settled.
+ */
+const runConcurrent = async <I, T, E>(
+	items: readonly I[],
+	fn: (item: I, index: number, signal: AbortSignal) => Promise<Result<T, E>>,
+	{ concurrency = Number.POSITIVE_INFINITY, signal }: ConcurrencyOptions,
+	stopOnError: boolean,
+	functionName: string,
+): Promise<Array<Result<T, E | AbortError> | undefined>> => {
+	const results: Array<Result<T, E | AbortError> | undefined> = new Array(
+		items.length,
+	);
+	const controller = new AbortController();
+	const onAbort = () => controller.abort(signal?.reason);
+	if (signal?.aborted) {
+		onAbort();
+	}
+	signal?.addEventListener("abort", onAbort, { once: true });
 
+	let next = 0;
+	let failure: { thrown: unknown } | undefined;
+
+	const worker = async (): Promise<void> => {
+		while (next < items.length && !controller.signal.aborted) {
+			const index = next++;
+			try {
+				const result = await fn(items[index] as I, index, controller.signal);
+				validateResult(result, functionName, index);
+				results[index] = result;
+				if (stopOnError && result.type === ERR) {
+					controller.abort(
+						new AbortError(`Cancelled because item ${index} failed`),
+					);
+				}
+			} catch (thrown) {
+				failure ??= { thrown };
+				controller.abort(
+					new AbortError(`Cancelled because item ${index} threw`),
+				);
+			}
+		}
+	};
+
+	try {
+		await Promise.all(
+			Array.from({ length: Math.min(concurrency, items.length) }, worker),
+		);
+	} finally {
+		signal?.removeEventListener("abort", onAbort);
+	}
+
+	if (failure) {
+		throw failure.thrown;
+	}
+	if (signal?.aborted) {
+		for (let i = 0; i < results.length; i++) {
+			results[i] ??= {
+				type: ERR,
+				error: new AbortError(undefined, { cause: signal.reason }),
+			};
+		}
+	}
+	return results;
+};
+
+/**
+ * Maps items through a Result-returning async function with bounded concurrency.
+ * Unlike allAsync, work starts lazily from fn, so at most `concurrency` tasks
+ * are in flight, which makes it safe for tens of thousands of items against a
+ * rate-limited service. Output values preserve input order.
+ *
+ * With `stopOnError` (default), no new tasks start after the first Err and
+ * running tasks see their signal aborted; their Results are still collected.
+ * Set `stopOnError: false` to process every item and collect every error.
+ * Aborting `signal` reports unstarted items as Err(AbortError).
+ *
+ * @example
+ * ```typescript
+ * const imported = await mapConcurrent(
+ *   records, // 50k rows
+ *   (record, index, signal) => crmApi.upsert(record, { signal }),
+ *   { concurrency: 8, stopOnError: false },
+ * );
+ * // Returns: Result<Contact[], IndexedError<CrmError | AbortError>[]>
+ *
+ * if (isErr(imported)) {
+ *   for (const { index, error } of imported.error) {
+ *     console.error(`Row ${index + 1} failed:`, error);
+ *   }
+ * }
+ * ```
+ *
+ * @param items - Input items; fn is not called until a slot is free
+ * @param fn - Async function returning a Result, called with (item, index, signal)
+ * @param options - concurrency, stopOnError and signal
+ * @returns Promise of Ok(values in input order) or Err(errors with their index, in input order)
+ * @throws TypeError (as a rejection) if arguments are invalid or fn returns a non-Result
+ * @see {@link settleConcurrent} for keeping every Result
+ * @see {@link allAsync} for already-started promises
+ */
+export function mapConcurrent<
+	I,
+	T,
+	E extends Record<string, unknown> | string | Error,
+>(
+	items: readonly I[],
+	fn: (item: I, index: number, signal: AbortSignal) => Promise<Result<T, E>>,
+	options?: ConcurrencyOptions,
+): Promise<Result<T[], Array<IndexedError<E | AbortError>>>>;
+export function mapConcurrent<I, T, E>(
+	items: readonly I[],
+	fn: (item: I, index: number, signal: AbortSignal) => Promise<Result<T, E>>,
+	options?: ConcurrencyOptions,
+): Promise<Result<T[], Array<IndexedError<E | AbortError>>>>;
+export async function mapConcurrent<I, T, E>(
+	items: readonly I[],
+	fn: (item: I, index: number, signal: AbortSignal) => Promise<Result<T, E>>,
+	options: ConcurrencyOptions = {},
+): Promise<Result<T[], Array<IndexedError<E | AbortError>>>> {
+	validateConcurrentArgs(items, fn, options, "mapConcurrent()");
+
+	const results = await runConcurrent(
+		items,
+		fn,
+		options,
+		options.stopOnError ?? true,
+		"mapConcurrent()",
+	);
+	const values = [];
 	const errors = [];
 
-	for (const result of results) {
-		if (!result) continue; // Skip null/undefined elements gracefully
+	for (let i = 0; i < results.length; i++) {
+		const result = results[i];
+		if (!result) continue; // Never started after stopOnError
 		if (result.type === OK) {
-			return result;
+			values.push(result.value);
+		} else {
+			errors.push({ index: i, error: result.error });
 		}
-		if (result.type === ERR) {
-			errors.push(result.error);
+	}
+
+	return errors.length > 0
+		? traced({ type: ERR, error: errors })
+		: { type: OK, value: values };
+}
+
+/**
+ * Runs a Result-returning async function over every item with bounded
+ * concurrency and keeps every outcome. Never fails on Err: results, oks and
+ * errors all preserve input order, and each error carries its item index.
+ * Aborting `signal` reports unstarted items as Err(AbortError).
+ *
+ * @example
+ * ```typescript
+ * const { results, oks, errors } = await settleConcurrent(
+ *   imageUrls,
+ *   (url, index, signal) => downloadThumbnail(url, { signal }),
+ *   { concurrency: 4, signal: controller.signal },
+ * );
+ * console.log(`Downloaded ${oks.length}/${results.length} thumbnails`);
+ * errors.forEach(({ index, error }) => log.warn(imageUrls[index], error));
+ * ```
+ *
+ * @param items - Input items; fn is not called until a slot is free
+ * @param fn - Async function returning a Result, called with (item, index, signal)
+ * @param options - concurrency and signal (stopOnError is ignored)
+ * @returns Promise of every Result plus oks and indexed errors, in input order
+ * @throws TypeError (as a rejection) if arguments are invalid or fn returns a non-Result
+ * @see {@link mapConcurrent} for a single combined Result
+ * @see {@link allSettledAsync} for already-started promises
+ */
+export function settleConcurrent<
+	I,
+	T,
+	E extends Record<string, unknown> | string | Error,
+>(
+	items: readonly I[],
+	fn: (item: I, index: number, signal: AbortSignal) => Promise<Result<T, E>>,
+	options?: ConcurrencyOptions,
+): Promise<SettledConcurrent<T, E | AbortError>>;
+export function settleConcurrent<I, T, E>(
+	items: readonly I[],
+	fn: (item: I, index: number, signal: AbortSignal) => Promise<Result<T, E>>,
+	options?: ConcurrencyOptions,
+): Promise<SettledConcurrent<T, E | AbortError>>;
+export async function settleConcurrent<I, T, E>(
+	items: readonly I[],
+	fn: (item: I, index: number, signal: AbortSignal) => Promise<Result<T, E>>,
+	options: ConcurrencyOptions = {},
+): Promise<SettledConcurrent<T, E | AbortError>> {
+	validateConcurrentArgs(items, fn, options, "settleConcurrent()");
+
+	// Every index is filled: stopOnError is off and aborted items become Err(AbortError)
+	const results = (await runConcurrent(
+		items,
+		fn,
+		options,
+		false,
+		"settleConcurrent()",
+	)) as Array<Result<T, E | AbortError>>;
+	const oks = [];
+	const errors = [];
+
+	for (let i = 0; i < results.length; i++) {
+		const result = results[i] as Result<T, E | AbortError>; // Index is in bounds
+		if (result.type === OK) {
+			oks.push(result.value);
+		} else {
+			errors.push({ index: i, error: result.error });
 		}
 	}
 
-	return { type: ERR, error: errors };
+	return { results, oks, errors };
 }
 
 /**
@@ -879,7 +1209,7 @@ export function first<T, E>(results: Array<Result<T, E>>): Result<T, E[]> {
  *
  * Use for: processing arrays of Results, bulk operations, statistics
  *
- * Key functions: all(), partition(), analyze(), oks(), allAsync()
+ * Key functions: all(), partition(), analyze(), oks(), allAsync(), mapConcurrent()
  *
  * Generic constraints ensure type safety:
  * - Error types constrained to meaningful types (Record<string, unknown> | string | Error)
@@ -892,6 +1222,7 @@ export function first<T, E>(results: Array<Result<T, E>>): Result<T, E[]> {
  * - Early-exit patterns (all, findFirst)
  * - Zero-allocation loops where possible
  * - ~2-3x faster than functional chains
+ * - Bounded concurrency for large async workloads (mapConcurrent, settleConcurrent)
  *
  * Null safety: All functions gracefully handle null/undefined array elements
  *
@@ -900,5 +1231,5 @@ export function first<T, E>(results: Array<Result<T, E>>): Result<T, E[]> {
  * - `result-ts/iter` → core + data transformation
  * - `result-ts/utils` → core + debugging utilities
  * - `result-ts/patterns` → core + advanced patterns
- * - `result-ts/schema` → core + validation with Zod
+ * - `result-ts/schema` → core + Standard Schema validation (Zod, Valibot, ArkType, ...)
  */
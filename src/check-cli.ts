@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+// result-ts-check - Command line entry for result-ts/check
+// Reports discarded Results in a TypeScript project; see runCheckCli() for options
+
+import ts from "typescript";
+import { runCheckCli } from "@/check";
+
+ts.sys.exit(runCheckCli(ts.sys.args));
@@ -0,0 +1,408 @@
+// result-ts/check - Must-use checker for discarded Results
+// Provides a TypeScript compiler API based checker and the result-ts-check CLI
+
+// Requires the `typescript` package (optional peer dependency)
+import ts from "typescript";
+
+// =============================================================================
+// CHECK TYPES
+// =============================================================================
+
+/**
+ * A Result-typed expression whose value is discarded.
+ */
+export interface UnusedResult {
+	/** Absolute path of the source file. */
+	fileName: string;
+	/** 1-based line of the discarded expression. */
+	line: number;
+	/** 1-based column of the discarded expression. */
+	column: number;
+	/** Source text of the expression (first line, truncated). */
+	text: string;
+	/** The expression's type as printed by the compiler (e.g. "Result<User, Error>"). */
+	type: string;
+	/** True for Promise<Result> and other thenables resolving to a Result. */
+	async: boolean;
+	/** Human-readable description of the finding. */
+	message: string;
+}
+
+// =============================================================================
+// DETECTION HELPERS
+// =============================================================================
+
+const IGNORE_COMMENT = /^\/[/*]\s*result-ts-check-ignore(?![\w-])/;
+const IGNORE_FILE_COMMENT = /\/[/*]\s*result-ts-check-ignore-file(?![\w-])/;
+const MAX_TEXT_LENGTH = 80;
+
+/**
+ * Checks whether a type is an Ok or Err variant: `{ type: "Ok"; value }` or `{ type: "Err"; error }`.
+ */
+const isVariant = (checker: ts.TypeChecker, type: ts.Type): boolean => {
+	const tag = type.getProperty("type");
+	if (!tag) return false;
+	const tagType = checker.getTypeOfSymbol(tag);
+	if (!tagType.isStringLiteral()) return false;
+	return (
+		(tagType.value === "Ok" && type.getProperty("value") !== undefined) ||
+		(tagType.value === "Err" && type.getProperty("error") !== undefined)
+	);
+};
+
+/**
+ * Checks whether every non-nullish member of a type is an Ok or Err variant.
+ */
+const isResultType = (checker: ts.TypeChecker, type: ts.Type): boolean => {
+	const members = type.isUnion() ? type.types : [type];
+	let found = false;
+	for (const member of members) {
+		if (
+			member.flags &
+			(ts.TypeFlags.Null | ts.TypeFlags.Undefined | ts.TypeFlags.Void)
+		) {
+			continue;
+		}
+		if (!isVariant(checker, member)) return false;
+		found = true;
+	}
+	return found;
+};
+
+/**
+ * Classifies an expression type as a Result, a thenable of a Result, or neither.
+ */
+const resultKind = (
+	checker: ts.TypeChecker,
+	type: ts.Type,
+): "sync" | "async" | undefined => {
+	if (isResultType(checker, type)) return "sync";
+	const awaited = checker.getAwaitedType(type);
+	if (awaited && awaited !== type && isResultType(checker, awaited)) {
+		return "async";
+	}
+	return undefined;
+};
+
+/**
+ * Explicit discards (`void expr`) and assignments are not reported.
+ */
+const isIntentional = (expression: ts.Expression): boolean => {
+	let inner = expression;
+	while (ts.isParenthesizedExpression(inner)) inner = inner.expression;
+	if (ts.isVoidExpression(inner)) return true;
+	return (
+		ts.isBinaryExpression(inner) &&
+		inner.operatorToken.kind >= ts.SyntaxKind.FirstAssignment &&
+		inner.operatorToken.kind <= ts.SyntaxKind.LastAssignment
+	);
+};
+
+/**
+ * Checks for a `// result-ts-check-ignore` comment before or after a node.
+ */
+const isSuppressed = (node: ts.Node, sourceFile: ts.SourceFile): boolean => {
+	const { text } = sourceFile;
+	const comments = [
+		...(ts.getLeadingCommentRanges(text, node.getFullStart()) ?? []),
+		...(ts.getTrailingCommentRanges(text, node.getEnd()) ?? []),
+	];
+	return comments.some((range) =>
+		IGNORE_COMMENT.test(text.slice(range.pos, range.end)),
+	);
+};
+
+/**
+ * Collects discarded Result expressions in one source file: expression statements
+ * and concise arrow bodies whose contextual return type is void (e.g. forEach callbacks).
+ */
+const checkSourceFile = (
+	checker: ts.TypeChecker,
+	sourceFile: ts.SourceFile,
+): UnusedResult[] => {
+	if (IGNORE_FILE_COMMENT.test(sourceFile.text)) return [];
+	const findings: UnusedResult[] = [];
+
+	const report = (expression: ts.Expression, commentAnchor: ts.Node): void => {
+		if (isIntentional(expression) || isSuppressed(commentAnchor, sourceFile)) {
+			return;
+		}
+		const type = checker.getTypeAtLocation(expression);
+		const kind = resultKind(checker, type);
+		if (!kind) return;
+
+		const start = expression.getStart(sourceFile);
+		const { line, character } = sourceFile.getLineAndCharacterOfPosition(start);
+		const firstLine = expression.getText(sourceFile).split("\n")[0] ?? "";
+		const text =
+			firstLine.length > MAX_TEXT_LENGTH
+				? `${firstLine.slice(0, MAX_TEXT_LENGTH - 3)}...`
+				: firstLine;
+		const typeText = checker.typeToString(type);
+		findings.push({
+			fileName: sourceFile.fileName,
+			line: line + 1,
+			column: character + 1,
+			text,
+			type: typeText,
+			async: kind === "async",
+			message:
+				kind === "async"
+					? `Promise of a Result is discarded (${typeText})`
+					: `Result is discarded (${typeText})`,
+		});
+	};
+
+	const visit = (node: ts.Node): void => {
+		if (ts.isExpressionStatement(node)) {
+			report(node.expression, node);
+		} else if (ts.isArrowFunction(node) && !ts.isBlock(node.body)) {
+			const contextual = checker.getContextualType(node.body);
+			if (contextual && contextual.flags & ts.TypeFlags.Void) {
+				report(node.body, node.body);
+			}
+		}
+		ts.forEachChild(node, visit);
+	};
+	visit(sourceFile);
+	return findings;
+};
+
+// =============================================================================
+// PROGRAMMATIC API
+// =============================================================================
+
+/**
+ * Reports discarded Results in an existing TypeScript program. Only the program's
+ * root files are checked, so imported libraries and declaration files are skipped.
+ *
+ * @example
+ * ```typescript
+ * const program = ts.createProgram(["src/index.ts"], { strict: true });
+ * for (const finding of checkProgram(program)) {
+ *   console.log(formatUnusedResult(finding));
+ * }
+ * ```
+ *
+ * @param program - The program to check
+ * @returns Findings ordered by file, then position
+ * @throws TypeError if program is not a TypeScript program
+ */
+export const checkProgram = (program: ts.Program): UnusedResult[] => {
+	if (
+		!program ||
+		typeof (program as Partial<ts.Program>).getTypeChecker !== "function"
+	) {
+		throw new TypeError(
+			`checkProgram(): program must be a TypeScript Program, got ${typeof program}`,
+		);
+	}
+	const checker = program.getTypeChecker();
+	const findings: UnusedResult[] = [];
+	for (const fileName of program.getRootFileNames()) {
+		const sourceFile = program.getSourceFile(fileName);
+		if (!sourceFile || sourceFile.isDeclarationFile) continue;
+		findings.push(...checkSourceFile(checker, sourceFile));
+	}
+	return findings;
+};
+
+/**
+ * Reports discarded Results in the given files, compiled with strict settings
+ * unless compilerOptions says otherwise.
+ *
+ * @example
+ * ```typescript
+ * const findings = checkFiles(["src/handlers.ts"], { baseUrl: "." });
+ * ```
+ *
+ * @param fileNames - Files to check (their imports are resolved but not checked)
+ * @param compilerOptions - Options merged over `{ strict: true, noEmit: true, skipLibCheck: true }`
+ * @returns Findings ordered by file, then position
+ * @throws TypeError if fileNames is not an array of strings
+ */
+export const checkFiles = (
+	fileNames: readonly string[],
+	compilerOptions: ts.CompilerOptions = {},
+): UnusedResult[] => {
+	if (
+		!Array.isArray(fileNames) ||
+		!fileNames.every((name) => typeof name === "string")
+	) {
+		throw new TypeError(
+			"checkFiles(): fileNames must be an array of file paths",
+		);
+	}
+	const program = ts.createProgram(fileNames, {
+		strict: true,
+		noEmit: true,
+		skipLibCheck: true,
+		...compilerOptions,
+	});
+	return checkProgram(program);
+};
+
+/**
+ * Reports discarded Results in every file of a tsconfig.json project, or only
+ * in `fileNames` when given, compiled with the project's options (paths,
+ * baseUrl, jsx and so on).
+ *
+ * @example
+ * ```typescript
+ * const findings = checkProject("tsconfig.json");
+ * if (findings.length > 0) process.exitCode = 1;
+ *
+ * checkProject("tsconfig.json", ["src/handlers.ts"]); // just this file
+ * ```
+ *
+ * @param configPath - Path to the tsconfig.json (default: "tsconfig.json")
+ * @param fileNames - Optional files to check instead of the project's own
+ * @returns Findings ordered by file, then position
+ * @throws Error if the config file cannot be read or parsed
+ * @throws TypeError if fileNames is given but is not an array of strings
+ */
+export const checkProject = (
+	configPath: string = "tsconfig.json",
+	fileNames?: readonly string[],
+): UnusedResult[] => {
+	if (
+		fileNames !== undefined &&
+		(!Array.isArray(fileNames) ||
+			!fileNames.every((name) => typeof name === "string"))
+	) {
+		throw new TypeError(
+			"checkProject(): fileNames must be an array of file paths",
+		);
+	}
+
+	let configError: ts.Diagnostic | undefined;
+	const parsed = ts.getParsedCommandLineOfConfigFile(
+		configPath,
+		{ noEmit: true },
+		{
+			...ts.sys,
+			onUnRecoverableConfigFileDiagnostic: (diagnostic) => {
+				configError = diagnostic;
+			},
+		},
+	);
+	const error = configError ?? parsed?.errors[0];
+	if (!parsed || error) {
+		const detail = error
+			? ts.flattenDiagnosticMessageText(error.messageText, "\n")
+			: "unknown error";
+		throw new Error(`checkProject(): Cannot load ${configPath}: ${detail}`);
+	}
+	return checkProgram(
+		ts.createProgram(fileNames ?? parsed.fileNames, parsed.options),
+	);
+};
+
+/**
+ * Formats a finding as `file:line:column - message: text`.
+ *
+ * @param finding - The finding to format
+ * @param basePath - Optional directory that file names are shown relative to
+ * @returns One line of compiler-style output
+ */
+export const formatUnusedResult = (
+	finding: UnusedResult,
+	basePath?: string,
+): string => {
+	const prefix = basePath?.replace(/\/?$/, "/");
+	const fileName =
+		prefix && finding.fileName.startsWith(prefix)
+			? finding.fileName.slice(prefix.length)
+			: finding.fileName;
+	return `${fileName}:${finding.line}:${finding.column} - ${finding.message}: ${finding.text}`;
+};
+
+// =============================================================================
+// COMMAND LINE
+// =============================================================================
+
+const USAGE = `Usage: result-ts-check [--project <tsconfig.json>] [files...]
+
+Reports Result and Promise<Result> values that are discarded.
+Mark intentional discards with \`void expr\` or a // result-ts-check-ignore comment
+(// result-ts-check-ignore-file skips a whole file).
+
+Options:
+  -p, --project <path>  tsconfig.json to check, or whose options to check the
+                        given files with (default: tsconfig.json)
+  -h, --help            Show this message
+`;
+
+/**
+ * Runs the result-ts-check command line. Checks the given files with the
+ * project's compiler options (plain strict settings when there is no
+ * tsconfig.json), or the whole project when no files are given, and returns
+ * the process exit code:
+ * 0 when clean, 1 when discarded Results were found, 2 on usage or config errors.
+ *
+ * @example
+ * ```bash
+ * npx result-ts-check                  # tsconfig.json in the current directory
+ * npx result-ts-check -p tsconfig.build.json
+ * npx result-ts-check src/handlers.ts
+ * npx result-ts-check -p tsconfig.build.json src/handlers.ts
+ * ```
+ *
+ * @param args - Command line arguments without the node and script paths
+ * @param system - Output, working directory and file lookup (default: ts.sys)
+ * @returns The exit code
+ */
+export const runCheckCli = (
+	args: readonly string[],
+	system: Pick<
+		ts.System,
+		"write" | "getCurrentDirectory" | "fileExists"
+	> = ts.sys,
+): number => {
+	let project: string | undefined;
+	const files: string[] = [];
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i] as string;
+		if (arg === "-h" || arg === "--help") {
+			system.write(USAGE);
+			return 0;
+		}
+		if (arg === "-p" || arg === "--project") {
+			project = args[++i];
+			if (project === undefined) {
+				system.write(`${arg} requires a path\n\n${USAGE}`);
+				return 2;
+			}
+		} else if (arg.startsWith("-")) {
+			system.write(`Unknown option ${arg}\n\n${USAGE}`);
+			return 2;
+		} else {
+			files.push(arg);
+		}
+	}
+
+	let findings: UnusedResult[];
+	try {
+		const configPath =
+			project ?? `${system.getCurrentDirectory()}/tsconfig.json`;
+		findings =
+			files.length > 0 &&
+			project === undefined &&
+			!system.fileExists(configPath)
+				? checkFiles(files)
+				: checkProject(configPath, files.length > 0 ? files : undefined);
+	} catch (error) {
+		system.write(`${error instanceof Error ? error.message : error}\n`);
+		return 2;
+	}
+
+	const basePath = system.getCurrentDirectory();
+	for (const finding of findings) {
+		system.write(`${formatUnusedResult(finding, basePath)}\n`);
+	}
+	if (findings.length === 0) return 0;
+	system.write(
+		`\nFound ${findings.length} discarded Result${findings.length === 1 ? "" : "s"}.\n`,
+	);
+	return 1;
+};
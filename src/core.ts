@@ -1,5 +1,6 @@
 // Internal core module - not exposed to users
 
+import { traced } from "./tracing";
 import { ERR, type Err, OK, type Ok, type Result } from "./types";
 
 // =============================================================================
@@ -26,28 +27,8 @@ export const ok = <T>(value: T): Ok<T> => ({
 	value,
 });
 
-/**
- * Creates an error Result containing the given error.
- *
- * @example
- * ```typescript
- * const result = err("Something went wrong");
- * console.log(result); // { type: "Err", error: "Something went wrong" }
- * // Returns: Result<never, string>
- *
- * const errorResult = err(new Error("Network failure"));
- * // Returns: Result<never, Error>
- * ```
- *
- * @param error - The error value to wrap
- * @returns An error Result containing the error
- * @see {@link ok} for creating successful Results
- * @see {@link isErr} for checking if a Result is an error
- */
-export const err = <E>(error: E): Err<E> => ({
-	type: ERR,
-	error,
-});
+// err() lives with the tracer, which swaps it while tracing is enabled
+export { err } from "./tracing";
 
 /**
  * Type guard that checks if a Result is successful.
@@ -234,25 +215,165 @@ export const handle = <T>(fn: () => T): Result<T, Error> => {
 	try {
 		return { type: OK, value: fn() };
 	} catch (thrown) {
+		let error: Error;
+
 		if (thrown instanceof Error) {
-			return { type: ERR, error: thrown };
+			error = thrown;
+		} else if (typeof thrown === "string") {
+			error = new Error(thrown);
+		} else {
+			// For non-Error, non-string throws, wrap and preserve original
+			error = new Error(`Caught non-Error value: ${String(thrown)}`, {
+				cause: thrown,
+			});
 		}
 
-		if (typeof thrown === "string") {
-			return { type: ERR, error: new Error(thrown) };
-		}
+		return traced({ type: ERR, error });
+	}
+};
+
+// =============================================================================
+// CANCELLATION SUPPORT
+// =============================================================================
+
+/**
+ * Error produced when an operation run by {@link handleAsync} or
+ * {@link handleWithAsync} is cancelled through its AbortSignal.
+ * The signal's abort reason is preserved as `cause`; `_tag` makes it matchable
+ * with matchErr() from `result-ts/errors`.
+ *
+ * @example
+ * ```typescript
+ * const result = await handleAsync((signal) => fetch(url, { signal }), { signal });
+ * if (isErr(result) && result.error instanceof AbortError) {
+ *   return; // user navigated away - not a failure worth reporting
+ * }
+ * ```
+ */
+export class AbortError extends Error {
+	override readonly name = "AbortError";
+	readonly _tag = "AbortError";
+
+	constructor(message = "The operation was aborted", options?: ErrorOptions) {
+		super(message, options);
+	}
+}
+
+/**
+ * Error produced when an operation run by {@link handleAsync} or
+ * {@link handleWithAsync} exceeds its `timeoutMs`.
+ *
+ * @example
+ * ```typescript
+ * const result = await handleAsync((signal) => db.query(sql, { signal }), {
+ *   timeoutMs: 5000,
+ * });
+ * if (isErr(result) && result.error instanceof TimeoutError) {
+ *   console.warn(`Query exceeded ${result.error.timeoutMs}ms`);
+ * }
+ * ```
+ */
+export class TimeoutError extends Error {
+	override readonly name = "TimeoutError";
+	readonly _tag = "TimeoutError";
+
+	constructor(
+		readonly timeoutMs: number,
+		options?: ErrorOptions,
+	) {
+		super(`The operation timed out after ${timeoutMs}ms`, options);
+	}
+}
+
+/**
+ * Cancellation options for {@link handleAsync} and {@link handleWithAsync}.
+ */
+export interface HandleAsyncOptions {
+	/** Aborts the operation; resolves to Err(AbortError) with the abort reason as cause. */
+	signal?: AbortSignal;
+	/** Maximum duration in milliseconds; resolves to Err(TimeoutError) when exceeded. */
+	timeoutMs?: number;
+}
+
+/**
+ * Validates handleAsync()/handleWithAsync() cancellation options.
+ */
+const validateHandleAsyncOptions = (
+	options: HandleAsyncOptions,
+	functionName: string,
+): void => {
+	if (!options || typeof options !== "object") {
+		throw new TypeError(
+			`${functionName}: options must be an object, got ${typeof options}`,
+		);
+	}
+	const { signal, timeoutMs } = options;
+	if (
+		signal !== undefined &&
+		(typeof signal !== "object" ||
+			signal === null ||
+			typeof signal.addEventListener !== "function")
+	) {
+		throw new TypeError(`${functionName}: signal must be an AbortSignal`);
+	}
+	if (
+		timeoutMs !== undefined &&
+		(typeof timeoutMs !== "number" ||
+			!Number.isFinite(timeoutMs) ||
+			timeoutMs < 0)
+	) {
+		throw new TypeError(
+			`${functionName}: timeoutMs must be a non-negative finite number, got ${timeoutMs}`,
+		);
+	}
+};
 
-		// For non-Error, non-string throws, wrap and preserve original
-		const error = new Error(`Caught non-Error value: ${String(thrown)}`, {
-			cause: thrown,
-		});
-		return { type: ERR, error };
+/**
+ * Runs an async function racing it against an optional signal and timeout.
+ * The function receives a signal that aborts on either, so the underlying
+ * work (fetch, streams, database drivers) can actually stop.
+ */
+const runCancellable = async <T>(
+	fn: (signal: AbortSignal) => Promise<T>,
+	{ signal, timeoutMs }: HandleAsyncOptions,
+): Promise<T> => {
+	if (signal?.aborted) {
+		throw new AbortError(undefined, { cause: signal.reason });
+	}
+
+	const controller = new AbortController();
+	const onAbort = () =>
+		controller.abort(new AbortError(undefined, { cause: signal?.reason }));
+	signal?.addEventListener("abort", onAbort, { once: true });
+	const timer =
+		timeoutMs === undefined
+			? undefined
+			: setTimeout(
+					() => controller.abort(new TimeoutError(timeoutMs)),
+					timeoutMs,
+				);
+
+	const cancelled = new Promise<never>((_, reject) => {
+		controller.signal.addEventListener(
+			"abort",
+			() => reject(controller.signal.reason),
+			{ once: true },
+		);
+	});
+
+	try {
+		return await Promise.race([fn(controller.signal), cancelled]);
+	} finally {
+		clearTimeout(timer);
+		signal?.removeEventListener("abort", onAbort);
 	}
 };
 
 /**
  * Safely executes an async function, catching any thrown errors and converting them to a Result.
  * Uses proper Error.cause chaining to preserve original thrown values.
+ * With options, the operation races an AbortSignal and/or timeout and the function
+ * receives a signal it can forward to fetch, streams or drivers to actually cancel.
  *
  * @example
  * ```typescript
@@ -267,35 +388,58 @@ export const handle = <T>(fn: () => T): Result<T, Error> => {
  *   if (!response.ok) throw new Error(`HTTP ${response.status}`);
  *   return response.json();
  * });
+ *
+ * // Cancellable: Err(TimeoutError) after 5s, Err(AbortError) when controller aborts
+ * const users = await handleAsync(
+ *   async (signal) => (await fetch('/api/users', { signal })).json(),
+ *   { signal: controller.signal, timeoutMs: 5000 },
+ * );
  * ```
  *
- * @param fn - The async function to execute safely
+ * @param fn - The async function to execute safely (receives an AbortSignal when options are given)
+ * @param options - Optional `signal` and `timeoutMs` limiting the operation
  * @returns A Promise of Result with the function result or Error object
+ * @throws TypeError if options are invalid
  * @see {@link handle} for synchronous version
  * @see {@link handleWithAsync} for custom error mapping
+ * @see {@link AbortError} and {@link TimeoutError} for cancellation errors
  */
-export const handleAsync = async <T>(
-	fn: () => Promise<T>,
-): Promise<Result<T, Error>> => {
+export function handleAsync<T>(fn: () => Promise<T>): Promise<Result<T, Error>>;
+export function handleAsync<T>(
+	fn: (signal: AbortSignal) => Promise<T>,
+	options: HandleAsyncOptions,
+): Promise<Result<T, Error | AbortError | TimeoutError>>;
+export async function handleAsync<T>(
+	fn: (signal: AbortSignal) => Promise<T>,
+	options?: HandleAsyncOptions,
+): Promise<Result<T, Error>> {
+	if (options !== undefined) {
+		validateHandleAsyncOptions(options, "handleAsync()");
+	}
+
 	try {
-		const value = await fn();
+		const value =
+			options === undefined
+				? await (fn as () => Promise<T>)()
+				: await runCancellable(fn, options);
 		return { type: OK, value };
 	} catch (thrown) {
-		if (thrown instanceof Error) {
-			return { type: ERR, error: thrown };
-		}
+		let error: Error;
 
-		if (typeof thrown === "string") {
-			return { type: ERR, error: new Error(thrown) };
+		if (thrown instanceof Error) {
+			error = thrown;
+		} else if (typeof thrown === "string") {
+			error = new Error(thrown);
+		} else {
+			// For non-Error, non-string throws, wrap and preserve original
+			error = new Error(`Caught non-Error value: ${String(thrown)}`, {
+				cause: thrown,
+			});
 		}
 
-		// For non-Error, non-string throws, wrap and preserve original
-		const error = new Error(`Caught non-Error value: ${String(thrown)}`, {
-			cause: thrown,
-		});
-		return { type: ERR, error };
+		return traced({ type: ERR, error });
 	}
-};
+}
 
 /**
  * Safely executes a function with custom error mapping.
@@ -347,13 +491,15 @@ export const handleWith = <
 			});
 		}
 
-		return { type: ERR, error: errorMapper(error) };
+		return traced({ type: ERR, error: errorMapper(error) });
 	}
 };
 
 /**
  * Safely executes an async function with custom error mapping.
  * Uses proper Error.cause chaining before applying custom mapping.
+ * With options, the operation races an AbortSignal and/or timeout; the resulting
+ * AbortError/TimeoutError goes through the error mapper like any other failure.
  *
  * @example
  * ```typescript
@@ -377,23 +523,55 @@ export const handleWith = <
  *   () => database.query(sql),
  *   (error) => new DatabaseError(error)
  * );
+ *
+ * // Cancellable with a timeout mapped to a domain error
+ * const report = await handleWithAsync(
+ *   (signal) => generateReport(id, { signal }),
+ *   (error) => ({ code: error instanceof TimeoutError ? 'TIMEOUT' : 'FAILED' }),
+ *   { timeoutMs: 30_000 },
+ * );
  * ```
  *
- * @param fn - The async function to execute safely
+ * @param fn - The async function to execute safely (receives an AbortSignal when options are given)
  * @param errorMapper - Function to transform caught errors/Error objects
+ * @param options - Optional `signal` and `timeoutMs` limiting the operation
  * @returns A Promise of Result with the function result or mapped error
+ * @throws TypeError if options are invalid
  * @see {@link handleWith} for synchronous version
  * @see {@link handleAsync} for standard Error handling
  */
-export const handleWithAsync = async <
+export function handleWithAsync<
 	T,
 	E extends Record<string, unknown> | string | Error,
 >(
 	fn: () => Promise<T>,
 	errorMapper: (error: Error) => E,
-): Promise<Result<T, E>> => {
+): Promise<Result<T, E>>;
+export function handleWithAsync<
+	T,
+	E extends Record<string, unknown> | string | Error,
+>(
+	fn: (signal: AbortSignal) => Promise<T>,
+	errorMapper: (error: Error | AbortError | TimeoutError) => E,
+	options: HandleAsyncOptions,
+): Promise<Result<T, E>>;
+export async function handleWithAsync<
+	T,
+	E extends Record<string, unknown> | string | Error,
+>(
+	fn: (signal: AbortSignal) => Promise<T>,
+	errorMapper: (error: Error) => E,
+	options?: HandleAsyncOptions,
+): Promise<Result<T, E>> {
+	if (options !== undefined) {
+		validateHandleAsyncOptions(options, "handleWithAsync()");
+	}
+
 	try {
-		const value = await fn();
+		const value =
+			options === undefined
+				? await (fn as () => Promise<T>)()
+				: await runCancellable(fn, options);
 		return { type: OK, value };
 	} catch (thrown) {
 		let error: Error;
@@ -408,9 +586,9 @@ export const handleWithAsync = async <
 			});
 		}
 
-		return { type: ERR, error: errorMapper(error) };
+		return traced({ type: ERR, error: errorMapper(error) });
 	}
-};
+}
 
 /**
  * Pattern matching for Results. Executes the appropriate handler based on Result type.
@@ -520,6 +698,9 @@ export type { Err, Ok, Result } from "./types";
 /**
  * This module defines the core essentials (11 functions) included in every layer.
  *
+ * Also defines AbortError/TimeoutError used by handleAsync()/handleWithAsync() cancellation.
+ * Errs created by err() and handle*() are traced via tracing.ts while enableResultTracing() is on.
+ *
  * Layer files re-export from this module plus their specific functions:
  * - index.ts → just core (this file)
  * - iter.ts → core + iteration functions
@@ -527,6 +708,17 @@ export type { Err, Ok, Result } from "./types";
  * - utils.ts → core + utility functions
  * - patterns.ts → core + advanced patterns
  * - schema.ts → core + validation functions
+ * - schema-zod.ts → core + Zod schemas for Result objects
+ * - option.ts → core + Option type operations
+ * - errors.ts → core + tagged error toolkit
+ * - async.ts → core + thenable ResultAsync pipelines
+ * - fp.ts → core + curried operators with pipe/flow
+ * - serde.ts → core + structured serialization
+ * - resilience.ts → core + retry with backoff and circuit breakers
+ * - stream.ts → core + async iterable processing
+ * - unchecked.ts → core + hot-path functions without runtime validation
+ * - testing.ts → core + test-framework matchers and snapshot serializer
+ * - check.ts → must-use checker for discarded Results (dev tool, no core re-export)
  *
  * Benefits:
  * - Single source of truth for core functions
@@ -0,0 +1,519 @@
+// result-ts/errors - Core essentials + tagged error toolkit
+// Provides _tag-discriminated errors, exhaustive matching and context chaining
+
+// Re-export all core essentials from core module
+export * from "@/core";
+
+// Import the shared implementations - result-ts/unchecked/errors calls the
+// same functions without checking their arguments
+import {
+	catchTag as catchTagImpl,
+	causeChain as causeChainImpl,
+	context as contextImpl,
+	findCause as findCauseImpl,
+	matchErr as matchErrImpl,
+	tagOf,
+	withContext as withContextImpl,
+} from "@/ops";
+// Import types and constants for errors implementations
+import {
+	ERR,
+	type KnownHandlers,
+	type NoInference,
+	OK,
+	type Result,
+} from "@/types";
+
+// =============================================================================
+// TAGGED ERROR TYPES
+// =============================================================================
+
+/**
+ * Any value discriminated by a string `_tag` property.
+ * Both TaggedError instances and plain `{ _tag: "..." }` objects qualify.
+ */
+export interface Tagged<Tag extends string = string> {
+	readonly _tag: Tag;
+}
+
+/**
+ * Error subclass instance produced by a {@link taggedError} factory.
+ */
+export interface TaggedError<Tag extends string = string>
+	extends Error,
+		Tagged<Tag> {}
+
+/**
+ * Constructor returned by {@link taggedError}. Can be instantiated directly or extended.
+ */
+export type TaggedErrorConstructor<Tag extends string> = new (
+	message?: string,
+	options?: ErrorOptions,
+) => TaggedError<Tag>;
+
+/**
+ * Handler map for {@link matchErr}: one handler per error tag plus an Ok handler.
+ */
+export type MatchErrHandlers<T, E extends Tagged> = {
+	Ok: (value: T) => unknown;
+} & {
+	[K in E["_tag"]]: (error: Extract<E, Tagged<K>>) => unknown;
+};
+
+// =============================================================================
+// RUNTIME VALIDATION HELPERS
+// =============================================================================
+
+/**
+ * Validates that a parameter is a proper Result object.
+ * Provides helpful error messages for common mistakes.
+ */
+const validateResult = <T, E>(
+	result: Result<T, E>,
+	functionName: string,
+): void => {
+	if (!result || typeof result !== "object") {
+		throw new TypeError(
+			`${functionName}: First argument must be a Result object, got ${typeof result}`,
+		);
+	}
+	const resultObj = result as unknown;
+	if (
+		typeof resultObj !== "object" ||
+		resultObj === null ||
+		!("type" in resultObj)
+	) {
+		throw new TypeError(
+			`${functionName}: Result must have a 'type' property (Ok or Err)`,
+		);
+	}
+	if (
+		(resultObj as Record<string, unknown>).type !== OK &&
+		(resultObj as Record<string, unknown>).type !== ERR
+	) {
+		throw new TypeError(
+			`${functionName}: Invalid Result type '${resultObj.type}', expected '${OK}' or '${ERR}'`,
+		);
+	}
+	if (resultObj.type === OK && !("value" in resultObj)) {
+		throw new TypeError(
+			`${functionName}: Ok Result must have a 'value' property`,
+		);
+	}
+	if (resultObj.type === ERR && !("error" in resultObj)) {
+		throw new TypeError(
+			`${functionName}: Err Result must have an 'error' property`,
+		);
+	}
+};
+
+/**
+ * Validates that a tag parameter is a non-empty string.
+ */
+const validateTag = (tag: unknown, functionName: string): void => {
+	if (typeof tag !== "string" || tag.length === 0) {
+		throw new TypeError(
+			`${functionName}: tag must be a non-empty string, got ${typeof tag === "string" ? "empty string" : typeof tag}`,
+		);
+	}
+};
+
+/**
+ * Validates that a handler parameter is a function.
+ */
+const validateHandler = (
+	handler: unknown,
+	functionName: string,
+	parameterName: string = "handler",
+): void => {
+	if (typeof handler !== "function") {
+		throw new TypeError(
+			`${functionName}: ${parameterName} must be a function, got ${typeof handler}`,
+		);
+	}
+};
+
+// =============================================================================
+// TAGGED ERROR FACTORIES (Individual Exports)
+// =============================================================================
+
+/**
+ * Creates an Error subclass whose instances carry a literal `_tag`.
+ * The tag doubles as the error `name`, so stack traces and logs stay readable.
+ *
+ * @example
+ * ```typescript
+ * // Use the generated class directly
+ * const Timeout = taggedError("Timeout");
+ * const error = new Timeout("Upstream took longer than 5s");
+ * // error._tag === "Timeout", error instanceof Error === true
+ *
+ * // Or extend it to add structured fields
+ * class NotFound extends taggedError("NotFound") {
+ *   constructor(readonly id: number) {
+ *     super(`User ${id} not found`);
+ *   }
+ * }
+ *
+ * const fetchUser = (id: number): Result<User, NotFound | InstanceType<typeof Timeout>> => ...
+ * ```
+ *
+ * @param tag - The literal tag identifying this error kind
+ * @returns A constructor for tagged Error instances
+ * @throws TypeError if tag is not a non-empty string
+ * @see {@link matchErr} for exhaustive matching on tags
+ * @see {@link catchTag} for handling a single tag
+ */
+export const taggedError = <Tag extends string>(
+	tag: Tag,
+): TaggedErrorConstructor<Tag> => {
+	validateTag(tag, "taggedError()");
+
+	return class extends Error implements TaggedError<Tag> {
+		readonly _tag: Tag = tag;
+
+		constructor(message?: string, options?: ErrorOptions) {
+			super(message ?? tag, options);
+			this.name = tag;
+		}
+	};
+};
+
+/**
+ * Type guard that checks whether a value carries a `_tag`, optionally a specific one.
+ *
+ * @example
+ * ```typescript
+ * if (isTagged(error, "Timeout")) {
+ *   scheduleRetry(); // error is narrowed to Tagged<"Timeout">
+ * }
+ *
+ * const tagged = errors.filter((e) => isTagged(e)); // any tagged value
+ * ```
+ *
+ * @param value - The value to check
+ * @param tag - Optional tag the value must carry
+ * @returns True if the value is tagged (with the given tag, when provided)
+ */
+export function isTagged<Tag extends string>(
+	value: unknown,
+	tag: Tag,
+): value is Tagged<Tag>;
+export function isTagged(value: unknown): value is Tagged;
+export function isTagged(value: unknown, tag?: string): value is Tagged {
+	const actual = tagOf(value);
+	return tag === undefined ? actual !== undefined : actual === tag;
+}
+
+// =============================================================================
+// TAGGED ERROR HANDLING (Individual Exports)
+// =============================================================================
+
+/**
+ * Exhaustive pattern matching on a Result whose error type is a `_tag` union.
+ * Requires one handler per error tag plus `Ok`; a missing or unknown handler is a
+ * compile error. T and E are inferred from the result only, so handler objects
+ * declared ahead of time are checked against the Result's types.
+ *
+ * @example
+ * ```typescript
+ * const NotFound = taggedError("NotFound");
+ * const Timeout = taggedError("Timeout");
+ * type FetchError = InstanceType<typeof NotFound> | InstanceType<typeof Timeout>;
+ *
+ * const result: Result<User, FetchError> = await fetchUser(id);
+ * const response = matchErr(result, {
+ *   Ok: (user) => json(200, user),
+ *   NotFound: (error) => json(404, { message: error.message }),
+ *   Timeout: () => json(503, { retryAfter: 5 }),
+ * });
+ * // Returns: union of handler return types
+ *
+ * // Forgetting a tag fails to compile:
+ * matchErr(result, { Ok: render, NotFound: notFound });
+ * // ❌ Property 'Timeout' is missing
+ *
+ * // So does a handler for a tag the error type cannot have:
+ * matchErr(result, { ...handlers, Forbidden: () => json(403) });
+ * // ❌ Type '() => Response' is not assignable to type 'never'
+ * ```
+ *
+ * @param result - The Result to match against (error type must be a tagged union)
+ * @param handlers - Object with an Ok handler and one handler per error tag
+ * @returns The value returned by the matching handler
+ * @throws TypeError if arguments are invalid or no handler exists for the runtime tag
+ * @see {@link catchTag} for handling one tag and keeping the rest
+ */
+export function matchErr<
+	T = never,
+	E extends Tagged = never,
+	H extends MatchErrHandlers<NoInference<T>, NoInference<E>> = MatchErrHandlers<
+		T,
+		E
+	>,
+>(
+	result: Result<T, E>,
+	handlers: KnownHandlers<H, E>,
+): {
+	[K in keyof H]: H[K] extends (...args: never[]) => infer R ? R : never;
+}[keyof H];
+export function matchErr<T, E extends Tagged>(
+	result: Result<T, E>,
+	handlers: Record<string, (value: unknown) => unknown>,
+): unknown {
+	validateResult(result, "matchErr()");
+	if (!handlers || typeof handlers !== "object") {
+		throw new TypeError("matchErr(): handlers must be an object");
+	}
+
+	if (result.type === OK) {
+		if (typeof handlers.Ok !== "function") {
+			throw new TypeError("matchErr(): handlers.Ok must be a function");
+		}
+	} else {
+		const tag = tagOf(result.error);
+		if (tag === undefined) {
+			throw new TypeError(
+				"matchErr(): Err value has no string '_tag' property to match on",
+			);
+		}
+		if (typeof handlers[tag] !== "function") {
+			throw new TypeError(`matchErr(): No handler for error tag '${tag}'`);
+		}
+	}
+	return matchErrImpl(result, handlers);
+}
+
+/**
+ * Handles errors with a specific tag, leaving all other errors untouched.
+ * The remaining error type is narrowed at compile time, so a later
+ * {@link matchErr} only needs handlers for the tags that are still possible.
+ *
+ * @example
+ * ```typescript
+ * const result: Result<User, NotFound | Timeout | Forbidden> = await fetchUser(id);
+ *
+ * const withFallback = catchTag(result, "NotFound", () => ok(guestUser));
+ * // Returns: Result<User, Timeout | Forbidden>
+ *
+ * const retried = catchTag(withFallback, "Timeout", (error) =>
+ *   err(new Unavailable("Service unavailable", { cause: error })),
+ * );
+ * // Returns: Result<User, Forbidden | Unavailable>
+ * ```
+ *
+ * @param result - The Result whose error may carry the tag
+ * @param tag - The tag to handle
+ * @param handler - Function turning the tagged error into a new Result
+ * @returns The handler's Result for matching errors, otherwise the original Result
+ * @throws TypeError if result is not a valid Result, tag is not a string or handler is not a function
+ * @see {@link matchErr} for exhaustive matching
+ */
+export function catchTag<
+	T,
+	E extends Tagged,
+	K extends E["_tag"],
+	U = never,
+	F = never,
+>(
+	result: Result<T, E>,
+	tag: K,
+	handler: (error: Extract<E, Tagged<K>>) => Result<U, F>,
+): Result<T | U, Exclude<E, Tagged<K>> | F>;
+export function catchTag<T, E extends Tagged, U, F>(
+	result: Result<T, E>,
+	tag: string,
+	handler: (error: E) => Result<U, F>,
+): Result<T | U, E | F> {
+	validateResult(result, "catchTag()");
+	validateTag(tag, "catchTag()");
+	validateHandler(handler, "catchTag()");
+	return catchTagImpl(result, tag, handler);
+}
+
+// =============================================================================
+// ERROR CONTEXT (Individual Exports)
+// =============================================================================
+
+/**
+ * Adds context to an error: wraps the Err value in a new Error with the given
+ * message and the original error as `cause`. Ok Results pass through unchanged.
+ * Uses the same Error.cause chaining as handle(), so the full story survives
+ * any number of andThen() steps.
+ *
+ * @example
+ * ```typescript
+ * const user = context(await fetchUser(42), "loading user 42");
+ * // Err(Error("loading user 42", { cause: <original error> }))
+ *
+ * const settings = context(
+ *   andThen(user, (u) => loadSettings(u.id)),
+ *   "loading settings for dashboard",
+ * );
+ * if (isErr(settings)) {
+ *   causeChain(settings.error).map(String);
+ *   // ["Error: loading settings for dashboard", "Error: loading user 42", "Error: ECONNRESET"]
+ * }
+ * ```
+ *
+ * @param result - The Result whose error should be wrapped
+ * @param message - Description of the operation that failed
+ * @returns The original Ok, or an Err holding the wrapping Error
+ * @throws TypeError if result is not a valid Result or message is not a string
+ * @see {@link withContext} to build the message lazily
+ * @see {@link causeChain} to walk the wrapped errors back
+ */
+export function context<T, E extends Record<string, unknown> | string | Error>(
+	result: Result<T, E>,
+	message: string,
+): Result<T, Error>;
+export function context<T, E>(
+	result: Result<T, E>,
+	message: string,
+): Result<T, Error>;
+export function context<T, E>(
+	result: Result<T, E>,
+	message: string,
+): Result<T, Error> {
+	validateResult(result, "context()");
+	if (typeof message !== "string") {
+		throw new TypeError(
+			`context(): message must be a string, got ${typeof message}`,
+		);
+	}
+	return contextImpl(result, message);
+}
+
+/**
+ * Lazily adds context to an error. The message function only runs for Err
+ * Results and receives the original error, so expensive or error-dependent
+ * messages cost nothing on the success path.
+ *
+ * @example
+ * ```typescript
+ * const config = withContext(
+ *   parseConfig(raw),
+ *   (error) => `parsing ${path} (${error.issues.length} issues)`,
+ * );
+ * // Ok passes through; Err becomes Error("parsing ...", { cause: error })
+ * ```
+ *
+ * @param result - The Result whose error should be wrapped
+ * @param messageFn - Function producing the context message from the error
+ * @returns The original Ok, or an Err holding the wrapping Error
+ * @throws TypeError if result is not a valid Result or messageFn is not a function
+ * @see {@link context} for static messages
+ */
+export function withContext<
+	T,
+	E extends Record<string, unknown> | string | Error,
+>(result: Result<T, E>, messageFn: (error: E) => string): Result<T, Error>;
+export function withContext<T, E>(
+	result: Result<T, E>,
+	messageFn: (error: E) => string,
+): Result<T, Error>;
+export function withContext<T, E>(
+	result: Result<T, E>,
+	messageFn: (error: E) => string,
+): Result<T, Error> {
+	validateResult(result, "withContext()");
+	validateHandler(messageFn, "withContext()", "messageFn");
+	return withContextImpl(result, messageFn);
+}
+
+/**
+ * Lists an error followed by its causes, outermost first.
+ * Follows `cause` through Errors and plain objects; non-object causes
+ * (strings, numbers) end the chain. Circular causes are visited once.
+ *
+ * @example
+ * ```typescript
+ * const chain = causeChain(error);
+ * logger.error(chain.map((e) => (e instanceof Error ? e.message : String(e))).join(": "));
+ * // "loading dashboard: loading user 42: connect ECONNREFUSED"
+ * ```
+ *
+ * @param error - The outermost error
+ * @returns The error and every cause beneath it
+ * @see {@link rootCause} for the innermost cause only
+ */
+export const causeChain = (error: unknown): unknown[] => causeChainImpl(error);
+
+/**
+ * Returns the innermost cause of an error (the error itself if it has no cause).
+ *
+ * @example
+ * ```typescript
+ * const root = rootCause(result.error);
+ * if (root instanceof TypeError) {
+ *   reportBug(root); // the original failure, not the context wrappers
+ * }
+ * ```
+ *
+ * @param error - The outermost error
+ * @returns The last value in the cause chain
+ * @see {@link causeChain} for every level
+ */
+export const rootCause = (error: unknown): unknown => {
+	const chain = causeChain(error);
+	return chain[chain.length - 1];
+};
+
+/**
+ * Finds the first error in the cause chain that is an instance of the given class,
+ * starting with the error itself.
+ *
+ * @example
+ * ```typescript
+ * const result = context(await queryUser(id), "loading profile page");
+ *
+ * if (isErr(result)) {
+ *   const dbError = findCause(result.error, DatabaseError);
+ *   // DatabaseError | undefined - typed, even though it is two wrappers deep
+ *   if (dbError?.code === "ECONNREFUSED") scheduleRetry();
+ * }
+ * ```
+ *
+ * @param error - The outermost error
+ * @param errorClass - Class to look for (e.g. TypeError or a taggedError() class)
+ * @returns The first matching error, or undefined when none matches
+ * @throws TypeError if errorClass is not a constructor function
+ * @see {@link causeChain} for every level
+ */
+export const findCause = <C>(
+	error: unknown,
+	errorClass: abstract new (...args: never[]) => C,
+): C | undefined => {
+	validateHandler(errorClass, "findCause()", "errorClass");
+	return findCauseImpl(error, errorClass);
+};
+
+/**
+ * This entry point includes core essentials + tagged error toolkit.
+ *
+ * Use for: discriminated error unions, exhaustive error handling, typed recovery
+ *
+ * Key functions: taggedError(), matchErr(), catchTag(), isTagged()
+ * Context chaining: context(), withContext(), causeChain(), rootCause(), findCause()
+ *
+ * Compile-time guarantees:
+ * - matchErr() refuses handler objects that miss a tag present in the error union
+ * - catchTag() removes the handled tag from the error type of the returned Result
+ * - Handlers receive the error narrowed to their tag (Extract<E, Tagged<K>>)
+ *
+ * Works with any `{ _tag: string }` error shape, not only taggedError() classes,
+ * so existing discriminated unions can adopt matchErr() without migration.
+ *
+ * context()/withContext() wrap errors with Error.cause (like anyhow's context in
+ * Rust), the same mechanism handle() uses for non-Error throws, so causeChain()
+ * and findCause() also see causes created by handle() and unwrap().
+ *
+ * Other available layers:
+ * - `result-ts` → core essentials only
+ * - `result-ts/iter` → core + data transformation
+ * - `result-ts/batch` → core + array processing
+ * - `result-ts/utils` → core + debugging utilities
+ * - `result-ts/patterns` → core + advanced patterns
+ * - `result-ts/schema` → core + Standard Schema validation (Zod, Valibot, ArkType, ...)
+ * - `result-ts/option` → core + Option type operations
+ */
@@ -0,0 +1,1198 @@
+// result-ts/fp - Core essentials + point-free composition
+// Provides curried data-last operators with pipe() and flow()
+
+// Re-export all core essentials from core module
+export * from "@/core";
+
+// Data-first implementations; the operators below only curry and reorder arguments
+import { reduce as reduceResults } from "@/batch";
+import { match as matchResult, unwrapOr as unwrapOrResult } from "@/core";
+import {
+	andThenAsync as andThenAsyncResult,
+	andThen as andThenResult,
+	mapAsync as mapAsyncResult,
+	mapErrAsync as mapErrAsyncResult,
+	mapErr as mapErrResult,
+	map as mapResult,
+} from "@/iter";
+import { flow as flowImpl, pipe as pipeImpl } from "@/ops";
+import type { Result } from "@/types";
+import {
+	inspect as inspectResult,
+	tapErr as tapErrResult,
+	tap as tapResult,
+} from "@/utils";
+
+// =============================================================================
+// RUNTIME VALIDATION HELPERS
+// =============================================================================
+
+/**
+ * Validates that a function parameter is actually a function.
+ * Operators validate when created, so mistakes surface where the pipeline is defined.
+ */
+const validateMapper = (
+	mapper: unknown,
+	functionName: string,
+	parameterName: string = "mapper",
+): void => {
+	if (typeof mapper !== "function") {
+		throw new TypeError(
+			`${functionName}: ${parameterName} must be a function, got ${typeof mapper}`,
+		);
+	}
+};
+
+/**
+ * Validates that every pipeline step is a function.
+ */
+const validateSteps = (steps: unknown[], functionName: string): void => {
+	for (let i = 0; i < steps.length; i++) {
+		if (typeof steps[i] !== "function") {
+			throw new TypeError(
+				`${functionName}: step ${i + 1} must be a function, got ${typeof steps[i]}`,
+			);
+		}
+	}
+};
+
+// =============================================================================
+// TRANSFORMATION OPERATORS (Individual Exports)
+// =============================================================================
+
+/**
+ * Data-last map: transforms the success value of a Result.
+ *
+ * @example
+ * ```typescript
+ * import * as R from "result-ts/fp";
+ *
+ * const doubled = R.pipe(R.ok(5), R.map((x) => x * 2));
+ * // Returns: Result<number, never> → Ok(10)
+ *
+ * const toName = R.map((user: User) => user.name); // reusable operator
+ * ```
+ *
+ * @param mapper - Function to transform the success value
+ * @returns Operator applying the mapper to a Result
+ * @throws TypeError if mapper is not a function
+ * @see {@link andThen} for Result-returning functions
+ */
+export const map = <T, U>(
+	mapper: (value: T) => U,
+): (<E>(result: Result<T, E>) => Result<U, E>) => {
+	validateMapper(mapper, "map()");
+	return (result) => mapResult(result, mapper);
+};
+
+/**
+ * Data-last mapErr: transforms the error value of a Result.
+ *
+ * @example
+ * ```typescript
+ * const result = R.pipe(
+ *   fetchUser(id),
+ *   R.mapErr((error) => ({ code: "USER_FETCH_FAILED", cause: error })),
+ * );
+ * ```
+ *
+ * @param mapper - Function to transform the error value
+ * @returns Operator applying the mapper to a Result's error
+ * @throws TypeError if mapper is not a function
+ */
+export const mapErr = <E, F>(
+	mapper: (error: E) => F,
+): (<T>(result: Result<T, E>) => Result<T, F>) => {
+	validateMapper(mapper, "mapErr()");
+	return (result) => mapErrResult(result, mapper);
+};
+
+/**
+ * Data-last andThen: chains an operation that returns a Result.
+ * The error type widens to include the errors of the chained operation.
+ *
+ * @example
+ * ```typescript
+ * const profile = R.pipe(
+ *   fetchUser(id),                                 // Result<User, ApiError>
+ *   R.andThen((user) => loadProfile(user.id)),     // Result<Profile, DbError>
+ * );
+ * // Returns: Result<Profile, ApiError | DbError>
+ * ```
+ *
+ * @param mapper - Function returning a new Result from the success value
+ * @returns Operator chaining the mapper onto a Result
+ * @throws TypeError if mapper is not a function
+ */
+export const andThen = <T, U, F>(
+	mapper: (value: T) => Result<U, F>,
+): (<E>(result: Result<T, E>) => Result<U, E | F>) => {
+	validateMapper(mapper, "andThen()");
+	return <E>(result: Result<T, E>) =>
+		andThenResult<T, U, E | F>(result, mapper);
+};
+
+/**
+ * Data-last mapAsync: transforms the success value of a Promise<Result>.
+ *
+ * @example
+ * ```typescript
+ * const user = await R.pipe(
+ *   fetchUserAsync(id),
+ *   R.mapAsync(async (user) => ({ ...user, avatar: await loadAvatar(user.id) })),
+ * );
+ * ```
+ *
+ * @param mapper - Sync or async function to transform the success value
+ * @returns Operator taking a Promise<Result> and resolving to the transformed Result
+ * @throws TypeError if mapper is not a function
+ */
+export const mapAsync = <T, U>(
+	mapper: (value: T) => U | Promise<U>,
+): (<E>(promise: Promise<Result<T, E>>) => Promise<Result<U, E>>) => {
+	validateMapper(mapper, "mapAsync()");
+	return (promise) => mapAsyncResult(promise, mapper);
+};
+
+/**
+ * Data-last mapErrAsync: transforms the error value of a Promise<Result>.
+ *
+ * @example
+ * ```typescript
+ * const result = await R.pipe(
+ *   fetchUserAsync(id),
+ *   R.mapErrAsync(async (error) => translateError(error)),
+ * );
+ * ```
+ *
+ * @param mapper - Sync or async function to transform the error value
+ * @returns Operator taking a Promise<Result> and resolving to the transformed Result
+ * @throws TypeError if mapper is not a function
+ */
+export const mapErrAsync = <E, F>(
+	mapper: (error: E) => F | Promise<F>,
+): (<T>(promise: Promise<Result<T, E>>) => Promise<Result<T, F>>) => {
+	validateMapper(mapper, "mapErrAsync()");
+	return (promise) => mapErrAsyncResult(promise, mapper);
+};
+
+/**
+ * Data-last andThenAsync: chains an async operation that returns a Result.
+ * The error type widens to include the errors of the chained operation.
+ *
+ * @example
+ * ```typescript
+ * const posts = await R.pipe(
+ *   fetchUserAsync(id),
+ *   R.andThenAsync((user) => fetchPosts(user.id)),
+ * );
+ * // Returns: Result<Post[], ApiError | DbError>
+ * ```
+ *
+ * @param mapper - Async function returning a new Result from the success value
+ * @returns Operator chaining the mapper onto a Promise<Result>
+ * @throws TypeError if mapper is not a function
+ */
+export const andThenAsync = <T, U, F>(
+	mapper: (value: T) => Promise<Result<U, F>>,
+): (<E>(promise: Promise<Result<T, E>>) => Promise<Result<U, E | F>>) => {
+	validateMapper(mapper, "andThenAsync()");
+	return <E>(promise: Promise<Result<T, E>>) =>
+		andThenAsyncResult<T, U, E | F>(promise, mapper);
+};
+
+// =============================================================================
+// SIDE EFFECT OPERATORS (Individual Exports)
+// =============================================================================
+
+/**
+ * Data-last tap: runs a side effect on the success value (receives a safe copy).
+ *
+ * @example
+ * ```typescript
+ * const user = R.pipe(
+ *   fetchUser(id),
+ *   R.tap((user) => cache.set(user.id, user)),
+ * );
+ * ```
+ *
+ * @param fn - Side effect to run on success
+ * @returns Operator returning the original Result
+ * @throws TypeError if fn is not a function
+ */
+export const tap = <T>(
+	fn: (value: T) => void,
+): (<E>(result: Result<T, E>) => Result<T, E>) => {
+	validateMapper(fn, "tap()", "fn");
+	return (result) => tapResult(result, fn);
+};
+
+/**
+ * Data-last tapErr: runs a side effect on the error value (receives a safe copy).
+ *
+ * @example
+ * ```typescript
+ * const user = R.pipe(
+ *   fetchUser(id),
+ *   R.tapErr((error) => logger.warn("User fetch failed", error)),
+ * );
+ * ```
+ *
+ * @param fn - Side effect to run on error
+ * @returns Operator returning the original Result
+ * @throws TypeError if fn is not a function
+ */
+export const tapErr = <E>(
+	fn: (error: E) => void,
+): (<T>(result: Result<T, E>) => Result<T, E>) => {
+	validateMapper(fn, "tapErr()", "fn");
+	return (result) => tapErrResult(result, fn);
+};
+
+/**
+ * Data-last inspect: runs optional side effects for either branch.
+ *
+ * @example
+ * ```typescript
+ * const result = R.pipe(
+ *   parseConfig(raw),
+ *   R.inspect(
+ *     (config) => console.log("Loaded", config),
+ *     (error) => console.error("Invalid config", error),
+ *   ),
+ * );
+ * ```
+ *
+ * @param onOk - Optional side effect for success values
+ * @param onErr - Optional side effect for error values
+ * @returns Operator returning the original Result
+ */
+export const inspect =
+	<T, E>(
+		onOk?: (value: T) => void,
+		onErr?: (error: E) => void,
+	): ((result: Result<T, E>) => Result<T, E>) =>
+	(result) =>
+		inspectResult(result, onOk, onErr);
+
+// =============================================================================
+// EXTRACTION OPERATORS (Individual Exports)
+// =============================================================================
+
+/**
+ * Data-last unwrapOr: extracts the success value or returns the default.
+ * Shadows the data-first core `unwrapOr` within this entry point.
+ *
+ * @example
+ * ```typescript
+ * const port = R.pipe(readPort(env), R.map(Number), R.unwrapOr(3000));
+ * // Returns: number
+ * ```
+ *
+ * @param defaultValue - Value to return for errors
+ * @returns Operator extracting the value from a Result
+ */
+export const unwrapOr =
+	<U>(defaultValue: U): (<T, E>(result: Result<T, E>) => T | U) =>
+	<T, E>(result: Result<T, E>) =>
+		unwrapOrResult<T | U, E>(result, defaultValue);
+
+/**
+ * Data-last match: handles both branches and returns a single value.
+ * Shadows the data-first core `match` within this entry point.
+ *
+ * @example
+ * ```typescript
+ * const message = R.pipe(
+ *   fetchUser(id),
+ *   R.match({
+ *     Ok: (user) => `Hello ${user.name}`,
+ *     Err: (error) => `Failed: ${error.message}`,
+ *   }),
+ * );
+ * ```
+ *
+ * @param handlers - Object with Ok and Err handler functions
+ * @returns Operator returning the matching handler's value
+ * @throws TypeError if handlers is not an object with Ok and Err functions
+ */
+export const match = <T, E, U, V>(handlers: {
+	Ok: (value: T) => U;
+	Err: (error: E) => V;
+}): ((result: Result<T, E>) => U | V) => {
+	if (!handlers || typeof handlers !== "object") {
+		throw new TypeError("match(): handlers must be an object");
+	}
+	validateMapper(handlers.Ok, "match()", "handlers.Ok");
+	validateMapper(handlers.Err, "match()", "handlers.Err");
+	return (result) => matchResult(result, handlers);
+};
+
+/**
+ * Data-last reduce: folds an array of Results into a single value.
+ *
+ * @example
+ * ```typescript
+ * const summary = R.pipe(
+ *   users.map(validateUser),
+ *   R.reduce(
+ *     {
+ *       onOk: (acc, user) => ({ ...acc, valid: [...acc.valid, user] }),
+ *       onErr: (acc) => ({ ...acc, invalid: acc.invalid + 1 }),
+ *     },
+ *     { valid: [] as User[], invalid: 0 },
+ *   ),
+ * );
+ * ```
+ *
+ * @param reducer - Object with onOk and onErr reducer functions
+ * @param initialValue - Starting accumulator value
+ * @returns Operator folding an array of Results
+ */
+export const reduce =
+	<T, E, Acc>(
+		reducer: {
+			onOk: (acc: Acc, value: T, index: number) => Acc;
+			onErr: (acc: Acc, error: E, index: number) => Acc;
+		},
+		initialValue: Acc,
+	): ((results: Array<Result<T, E>>) => Acc) =>
+	(results) =>
+		reduceResults(results, reducer, initialValue);
+
+// =============================================================================
+// COMPOSITION (Individual Exports)
+// =============================================================================
+
+/**
+ * Passes a value through a sequence of functions, left to right.
+ * Each step is fully typed from the previous one (up to 20 steps).
+ *
+ * @example
+ * ```typescript
+ * const greeting = R.pipe(
+ *   fetchUser(id),                       // Result<User, ApiError>
+ *   R.map((user) => user.name),          // Result<string, ApiError>
+ *   R.tapErr((error) => log(error)),
+ *   R.unwrapOr("guest"),                 // string
+ * );
+ * ```
+ *
+ * @param value - The starting value
+ * @param fns - Functions applied in order, each receiving the previous output
+ * @returns The output of the last function (or the value when no functions are given)
+ * @throws TypeError if any step is not a function
+ * @see {@link flow} to build a reusable function instead
+ */
+export function pipe<A>(a: A): A;
+export function pipe<A, B>(a: A, ab: (a: A) => B): B;
+export function pipe<A, B, C>(a: A, ab: (a: A) => B, bc: (b: B) => C): C;
+export function pipe<A, B, C, D>(
+	a: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+): D;
+export function pipe<A, B, C, D, E>(
+	a: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+): E;
+export function pipe<A, B, C, D, E, F>(
+	a: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+): F;
+export function pipe<A, B, C, D, E, F, G>(
+	a: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+): G;
+export function pipe<A, B, C, D, E, F, G, H>(
+	a: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+): H;
+export function pipe<A, B, C, D, E, F, G, H, I>(
+	a: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+): I;
+export function pipe<A, B, C, D, E, F, G, H, I, J>(
+	a: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+): J;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K>(
+	a: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+): K;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L>(
+	a: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+): L;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M>(
+	a: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+	lm: (l: L) => M,
+): M;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N>(
+	a: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+	lm: (l: L) => M,
+	mn: (m: M) => N,
+): N;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O>(
+	a: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+	lm: (l: L) => M,
+	mn: (m: M) => N,
+	no: (n: N) => O,
+): O;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P>(
+	a: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+	lm: (l: L) => M,
+	mn: (m: M) => N,
+	no: (n: N) => O,
+	op: (o: O) => P,
+): P;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q>(
+	a: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+	lm: (l: L) => M,
+	mn: (m: M) => N,
+	no: (n: N) => O,
+	op: (o: O) => P,
+	pq: (p: P) => Q,
+): Q;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R>(
+	a: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+	lm: (l: L) => M,
+	mn: (m: M) => N,
+	no: (n: N) => O,
+	op: (o: O) => P,
+	pq: (p: P) => Q,
+	qr: (q: Q) => R,
+): R;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S>(
+	a: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+	lm: (l: L) => M,
+	mn: (m: M) => N,
+	no: (n: N) => O,
+	op: (o: O) => P,
+	pq: (p: P) => Q,
+	qr: (q: Q) => R,
+	rs: (r: R) => S,
+): S;
+export function pipe<
+	A,
+	B,
+	C,
+	D,
+	E,
+	F,
+	G,
+	H,
+	I,
+	J,
+	K,
+	L,
+	M,
+	N,
+	O,
+	P,
+	Q,
+	R,
+	S,
+	T,
+>(
+	a: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+	lm: (l: L) => M,
+	mn: (m: M) => N,
+	no: (n: N) => O,
+	op: (o: O) => P,
+	pq: (p: P) => Q,
+	qr: (q: Q) => R,
+	rs: (r: R) => S,
+	st: (s: S) => T,
+): T;
+export function pipe<
+	A,
+	B,
+	C,
+	D,
+	E,
+	F,
+	G,
+	H,
+	I,
+	J,
+	K,
+	L,
+	M,
+	N,
+	O,
+	P,
+	Q,
+	R,
+	S,
+	T,
+	U,
+>(
+	a: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+	lm: (l: L) => M,
+	mn: (m: M) => N,
+	no: (n: N) => O,
+	op: (o: O) => P,
+	pq: (p: P) => Q,
+	qr: (q: Q) => R,
+	rs: (r: R) => S,
+	st: (s: S) => T,
+	tu: (t: T) => U,
+): U;
+export function pipe(
+	value: unknown,
+	...fns: Array<(input: unknown) => unknown>
+): unknown {
+	validateSteps(fns, "pipe()");
+	return pipeImpl(value, ...fns);
+}
+
+/**
+ * Composes functions left to right into a reusable function.
+ * The first function may take any arguments; the rest are unary (up to 20 functions).
+ *
+ * @example
+ * ```typescript
+ * const greet = R.flow(
+ *   (id: number) => fetchUser(id),
+ *   R.map((user) => user.name),
+ *   R.unwrapOr("guest"),
+ * );
+ *
+ * greet(1); // "John"
+ * ```
+ *
+ * @param fns - Functions applied in order, each receiving the previous output
+ * @returns A function running the whole sequence
+ * @throws TypeError if no functions are given or any step is not a function
+ * @see {@link pipe} to apply functions to a value immediately
+ */
+export function flow<A extends readonly unknown[], B>(
+	ab: (...a: A) => B,
+): (...a: A) => B;
+export function flow<A extends readonly unknown[], B, C>(
+	ab: (...a: A) => B,
+	bc: (b: B) => C,
+): (...a: A) => C;
+export function flow<A extends readonly unknown[], B, C, D>(
+	ab: (...a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+): (...a: A) => D;
+export function flow<A extends readonly unknown[], B, C, D, E>(
+	ab: (...a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+): (...a: A) => E;
+export function flow<A extends readonly unknown[], B, C, D, E, F>(
+	ab: (...a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+): (...a: A) => F;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G>(
+	ab: (...a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+): (...a: A) => G;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H>(
+	ab: (...a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+): (...a: A) => H;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H, I>(
+	ab: (...a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+): (...a: A) => I;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H, I, J>(
+	ab: (...a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+): (...a: A) => J;
+export function flow<
+	A extends readonly unknown[],
+	B,
+	C,
+	D,
+	E,
+	F,
+	G,
+	H,
+	I,
+	J,
+	K,
+>(
+	ab: (...a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+): (...a: A) => K;
+export function flow<
+	A extends readonly unknown[],
+	B,
+	C,
+	D,
+	E,
+	F,
+	G,
+	H,
+	I,
+	J,
+	K,
+	L,
+>(
+	ab: (...a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+): (...a: A) => L;
+export function flow<
+	A extends readonly unknown[],
+	B,
+	C,
+	D,
+	E,
+	F,
+	G,
+	H,
+	I,
+	J,
+	K,
+	L,
+	M,
+>(
+	ab: (...a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+	lm: (l: L) => M,
+): (...a: A) => M;
+export function flow<
+	A extends readonly unknown[],
+	B,
+	C,
+	D,
+	E,
+	F,
+	G,
+	H,
+	I,
+	J,
+	K,
+	L,
+	M,
+	N,
+>(
+	ab: (...a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+	lm: (l: L) => M,
+	mn: (m: M) => N,
+): (...a: A) => N;
+export function flow<
+	A extends readonly unknown[],
+	B,
+	C,
+	D,
+	E,
+	F,
+	G,
+	H,
+	I,
+	J,
+	K,
+	L,
+	M,
+	N,
+	O,
+>(
+	ab: (...a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+	lm: (l: L) => M,
+	mn: (m: M) => N,
+	no: (n: N) => O,
+): (...a: A) => O;
+export function flow<
+	A extends readonly unknown[],
+	B,
+	C,
+	D,
+	E,
+	F,
+	G,
+	H,
+	I,
+	J,
+	K,
+	L,
+	M,
+	N,
+	O,
+	P,
+>(
+	ab: (...a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+	lm: (l: L) => M,
+	mn: (m: M) => N,
+	no: (n: N) => O,
+	op: (o: O) => P,
+): (...a: A) => P;
+export function flow<
+	A extends readonly unknown[],
+	B,
+	C,
+	D,
+	E,
+	F,
+	G,
+	H,
+	I,
+	J,
+	K,
+	L,
+	M,
+	N,
+	O,
+	P,
+	Q,
+>(
+	ab: (...a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+	lm: (l: L) => M,
+	mn: (m: M) => N,
+	no: (n: N) => O,
+	op: (o: O) => P,
+	pq: (p: P) => Q,
+): (...a: A) => Q;
+export function flow<
+	A extends readonly unknown[],
+	B,
+	C,
+	D,
+	E,
+	F,
+	G,
+	H,
+	I,
+	J,
+	K,
+	L,
+	M,
+	N,
+	O,
+	P,
+	Q,
+	R,
+>(
+	ab: (...a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+	lm: (l: L) => M,
+	mn: (m: M) => N,
+	no: (n: N) => O,
+	op: (o: O) => P,
+	pq: (p: P) => Q,
+	qr: (q: Q) => R,
+): (...a: A) => R;
+export function flow<
+	A extends readonly unknown[],
+	B,
+	C,
+	D,
+	E,
+	F,
+	G,
+	H,
+	I,
+	J,
+	K,
+	L,
+	M,
+	N,
+	O,
+	P,
+	Q,
+	R,
+	S,
+>(
+	ab: (...a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+	lm: (l: L) => M,
+	mn: (m: M) => N,
+	no: (n: N) => O,
+	op: (o: O) => P,
+	pq: (p: P) => Q,
+	qr: (q: Q) => R,
+	rs: (r: R) => S,
+): (...a: A) => S;
+export function flow<
+	A extends readonly unknown[],
+	B,
+	C,
+	D,
+	E,
+	F,
+	G,
+	H,
+	I,
+	J,
+	K,
+	L,
+	M,
+	N,
+	O,
+	P,
+	Q,
+	R,
+	S,
+	T,
+>(
+	ab: (...a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+	lm: (l: L) => M,
+	mn: (m: M) => N,
+	no: (n: N) => O,
+	op: (o: O) => P,
+	pq: (p: P) => Q,
+	qr: (q: Q) => R,
+	rs: (r: R) => S,
+	st: (s: S) => T,
+): (...a: A) => T;
+export function flow<
+	A extends readonly unknown[],
+	B,
+	C,
+	D,
+	E,
+	F,
+	G,
+	H,
+	I,
+	J,
+	K,
+	L,
+	M,
+	N,
+	O,
+	P,
+	Q,
+	R,
+	S,
+	T,
+	U,
+>(
+	ab: (...a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+	lm: (l: L) => M,
+	mn: (m: M) => N,
+	no: (n: N) => O,
+	op: (o: O) => P,
+	pq: (p: P) => Q,
+	qr: (q: Q) => R,
+	rs: (r: R) => S,
+	st: (s: S) => T,
+	tu: (t: T) => U,
+): (...a: A) => U;
+export function flow(
+	...fns: Array<(...args: unknown[]) => unknown>
+): (...args: unknown[]) => unknown {
+	if (fns.length === 0) {
+		throw new TypeError("flow(): at least one function is required");
+	}
+	validateSteps(fns, "flow()");
+	return flowImpl(...fns);
+}
+
+/**
+ * This entry point includes core essentials + point-free composition.
+ *
+ * Use for: reusable pipelines, point-free style, composing operators from several layers
+ *
+ * Key functions: pipe(), flow(), map(), andThen(), tapErr(), unwrapOr(), match()
+ *
+ * Designed for namespace imports:
+ * ```typescript
+ * import * as R from "result-ts/fp";
+ * ```
+ *
+ * Every operator is the curried, data-last form of the function with the same
+ * name in iter/utils/batch/core and shares its validation and behaviour.
+ * `match` and `unwrapOr` shadow their data-first core versions here; the other
+ * core essentials (ok, err, isOk, unwrap, handle, ...) are re-exported unchanged.
+ * andThen()/andThenAsync() widen the error type (E | F) because the input error
+ * type is unknown when the operator is created.
+ *
+ * Other available layers:
+ * - `result-ts` → core essentials only
+ * - `result-ts/iter` → core + data transformation
+ * - `result-ts/batch` → core + array processing
+ * - `result-ts/utils` → core + debugging utilities
+ * - `result-ts/patterns` → core + advanced patterns
+ * - `result-ts/schema` → core + Standard Schema validation (Zod, Valibot, ArkType, ...)
+ * - `result-ts/option` → core + Option type operations
+ * - `result-ts/errors` → core + tagged error toolkit
+ * - `result-ts/async` → core + thenable ResultAsync pipelines
+ */
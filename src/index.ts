@@ -248,5 +248,5 @@ export * from "@/core";
  * - {@link file://./batch.ts} → Array processing operations
  * - {@link file://./utils.ts} → Debugging and conversion utilities
  * - {@link file://./patterns.ts} → Advanced functional patterns
- * - {@link file://./schema.ts} → Runtime validation with Zod
+ * - {@link file://./schema.ts} → Runtime validation with Standard Schema (Zod, Valibot, ArkType, ...)
  */
@@ -5,6 +5,21 @@
 export * from "@/core";
 
 // Import types and constants for iteration implementations
+import {
+	andThenAsync as andThenAsyncImpl,
+	andThen as andThenImpl,
+	mapAsync as mapAsyncImpl,
+	mapErrAsync as mapErrAsyncImpl,
+	mapErr as mapErrImpl,
+	map as mapImpl,
+	orElseAsync as orElseAsyncImpl,
+	orElse as orElseImpl,
+	recoverAsync as recoverAsyncImpl,
+	recoverIfAsync as recoverIfAsyncImpl,
+	recoverIf as recoverIfImpl,
+	recover as recoverImpl,
+	recoverWith as recoverWithImpl,
+} from "@/ops";
 import { ERR, OK, type Result } from "@/types";
 
 // =============================================================================
@@ -131,9 +146,7 @@ export function map<T, U, E>(
 ): Result<U, E> {
 	validateResult(result, "map()");
 	validateMapper(mapper, "map()");
-	return result.type === OK
-		? { type: OK, value: mapper(result.value) }
-		: result;
+	return mapImpl(result, mapper);
 }
 
 /**
@@ -178,11 +191,7 @@ export async function mapAsync<T, U, E>(
 	const result = await promise;
 	validateResult(result, "mapAsync()");
 
-	if (result.type === OK) {
-		const mapped = await mapper(result.value);
-		return { type: OK, value: mapped };
-	}
-	return result;
+	return mapAsyncImpl(result, mapper);
 }
 
 /**
@@ -226,9 +235,7 @@ export function mapErr<T, E, F>(
 ): Result<T, F> {
 	validateResult(result, "mapErr()");
 	validateMapper(mapper, "mapErr()");
-	return result.type === ERR
-		? { type: ERR, error: mapper(result.error) }
-		: result;
+	return mapErrImpl(result, mapper);
 }
 
 /**
@@ -272,11 +279,7 @@ export async function mapErrAsync<T, E, F>(
 	const result = await promise;
 	validateResult(result, "mapErrAsync()");
 
-	if (result.type === ERR) {
-		const mapped = await mapper(result.error);
-		return { type: ERR, error: mapped };
-	}
-	return result;
+	return mapErrAsyncImpl(result, mapper);
 }
 
 /**
@@ -296,9 +299,9 @@ export async function mapErrAsync<T, E, F>(
  * // For complex chains, consider using chain() from result-ts/patterns:
  * import { chain } from 'result-ts/patterns';
  * const result = chain(getUser(1))
- *   .then(user => getProfile(user.id))
- *   .then(profile => getSettings(profile.id))
- *   .then(settings => buildUserContext(profile, settings))
+ *   .andThen(user => getProfile(user.id))
+ *   .andThen(profile => getSettings(profile.id))
+ *   .andThen(settings => buildUserContext(profile, settings))
  *   .run();
  * ```
  *
@@ -324,7 +327,7 @@ export function andThen<T, U, E>(
 ): Result<U, E> {
 	validateResult(result, "andThen()");
 	validateMapper(mapper, "andThen()");
-	return result.type === OK ? mapper(result.value) : result;
+	return andThenImpl(result, mapper);
 }
 
 /**
@@ -368,15 +371,340 @@ export async function andThenAsync<T, U, E>(
 	const result = await promise;
 	validateResult(result, "andThenAsync()");
 
-	return result.type === OK ? await mapper(result.value) : result;
+	return andThenAsyncImpl(result, mapper);
+}
+
+// =============================================================================
+// RECOVERY OPERATIONS
+// =============================================================================
+
+/**
+ * Recovers from an error by running a fallback operation that returns a Result.
+ * The error-side counterpart of andThen(): Ok passes through untouched.
+ *
+ * @example
+ * ```typescript
+ * const user = orElse(readFromCache(id), () => readFromDatabase(id));
+ * // Returns: Result<User, DbError> - cache misses fall back to the database
+ *
+ * const config = orElse(loadConfig(path), (error) =>
+ *   error.code === "ENOENT" ? ok(defaultConfig) : err(error)
+ * );
+ * // Returns: Result<Config, FsError> - only a missing file is recovered
+ * ```
+ *
+ * @param result - The Result to recover from
+ * @param fallback - Function that receives the error and returns a new Result
+ * @returns The original Ok or the fallback's Result
+ * @throws TypeError if result is not a valid Result object or fallback is not a function
+ * @see {@link orElseAsync} for async fallbacks
+ * @see {@link recover} for fallbacks that cannot fail
+ */
+export function orElse<
+	T,
+	E extends Record<string, unknown> | string | Error,
+	U,
+	F,
+>(result: Result<T, E>, fallback: (error: E) => Result<U, F>): Result<T | U, F>;
+export function orElse<T, E, U, F>(
+	result: Result<T, E>,
+	fallback: (error: E) => Result<U, F>,
+): Result<T | U, F>;
+export function orElse<T, E, U, F>(
+	result: Result<T, E>,
+	fallback: (error: E) => Result<U, F>,
+): Result<T | U, F> {
+	validateResult(result, "orElse()");
+	validateMapper(fallback, "orElse()", "fallback");
+	return orElseImpl(result, fallback);
+}
+
+/**
+ * Recovers from the error of a Promise<Result> with a sync or async fallback.
+ *
+ * @example
+ * ```typescript
+ * const user = await orElseAsync(fetchUser(id), async (error) =>
+ *   error.status === 503 ? await fetchUserFromReplica(id) : err(error)
+ * );
+ * // Returns: Promise<Result<User, ApiError>>
+ * ```
+ *
+ * @param promise - Promise of Result to recover from
+ * @param fallback - Function that returns a Result or Promise<Result>
+ * @returns Promise of the original Ok or the fallback's Result
+ * @throws TypeError if promise is not a Promise or fallback is not a function
+ * @see {@link orElse} for sync recovery
+ */
+export function orElseAsync<
+	T,
+	E extends Record<string, unknown> | string | Error,
+	U,
+	F,
+>(
+	promise: Promise<Result<T, E>>,
+	fallback: (error: E) => Result<U, F> | Promise<Result<U, F>>,
+): Promise<Result<T | U, F>>;
+export function orElseAsync<T, E, U, F>(
+	promise: Promise<Result<T, E>>,
+	fallback: (error: E) => Result<U, F> | Promise<Result<U, F>>,
+): Promise<Result<T | U, F>>;
+export async function orElseAsync<T, E, U, F>(
+	promise: Promise<Result<T, E>>,
+	fallback: (error: E) => Result<U, F> | Promise<Result<U, F>>,
+): Promise<Result<T | U, F>> {
+	validatePromise(promise, "orElseAsync()");
+	validateMapper(fallback, "orElseAsync()", "fallback");
+
+	const result = await promise;
+	validateResult(result, "orElseAsync()");
+
+	return orElseAsyncImpl(result, fallback);
+}
+
+/**
+ * Turns an error into a success value, producing a Result that can no longer fail.
+ *
+ * @example
+ * ```typescript
+ * const count = recover(parseNumber(input), () => 0);
+ * // Returns: Result<number, never> → Ok(0) when parsing fails
+ *
+ * const items = recover(fetchItems(), (error) => {
+ *   logger.warn("Falling back to empty list", error);
+ *   return [];
+ * });
+ * ```
+ *
+ * @param result - The Result to recover from
+ * @param fallback - Function that maps the error to a success value
+ * @returns The original Ok or Ok of the fallback value
+ * @throws TypeError if result is not a valid Result object or fallback is not a function
+ * @see {@link recoverIf} to recover only selected errors
+ * @see {@link orElse} for fallbacks that can fail
+ */
+export function recover<
+	T,
+	E extends Record<string, unknown> | string | Error,
+	U,
+>(result: Result<T, E>, fallback: (error: E) => U): Result<T | U, never>;
+export function recover<T, E, U>(
+	result: Result<T, E>,
+	fallback: (error: E) => U,
+): Result<T | U, never>;
+export function recover<T, E, U>(
+	result: Result<T, E>,
+	fallback: (error: E) => U,
+): Result<T | U, never> {
+	validateResult(result, "recover()");
+	validateMapper(fallback, "recover()", "fallback");
+	return recoverImpl(result, fallback);
+}
+
+/**
+ * Recovers only from errors matching a predicate; other errors pass through.
+ * With a type guard predicate, the recovered errors are removed from the error type.
+ *
+ * @example
+ * ```typescript
+ * const isNotFound = (e: ApiError): e is NotFoundError => e.status === 404;
+ *
+ * const user = recoverIf(fetchUser(id), isNotFound, () => guestUser);
+ * // Returns: Result<User, Exclude<ApiError, NotFoundError>>
+ *
+ * const retried = recoverIf(result, (e) => e.retryable, (e) => e.cached);
+ * // Returns: Result<T, ApiError> - non-retryable errors unchanged
+ * ```
+ *
+ * @param result - The Result to recover from
+ * @param predicate - Function deciding whether an error is recoverable
+ * @param fallback - Function that maps a recoverable error to a success value
+ * @returns The original Ok, Ok of the fallback value, or the original Err
+ * @throws TypeError if result is not a valid Result object or predicate/fallback are not functions
+ * @see {@link recover} to recover from every error
+ * @see {@link recoverWith} for fallbacks that return a Result
+ */
+export function recoverIf<T, E, G extends E, U>(
+	result: Result<T, E>,
+	predicate: (error: E) => error is G,
+	fallback: (error: G) => U,
+): Result<T | U, Exclude<E, G>>;
+export function recoverIf<
+	T,
+	E extends Record<string, unknown> | string | Error,
+	U,
+>(
+	result: Result<T, E>,
+	predicate: (error: E) => boolean,
+	fallback: (error: E) => U,
+): Result<T | U, E>;
+export function recoverIf<T, E, U>(
+	result: Result<T, E>,
+	predicate: (error: E) => boolean,
+	fallback: (error: E) => U,
+): Result<T | U, E>;
+export function recoverIf<T, E, U>(
+	result: Result<T, E>,
+	predicate: (error: E) => boolean,
+	fallback: (error: E) => U,
+): Result<T | U, E> {
+	validateResult(result, "recoverIf()");
+	validateMapper(predicate, "recoverIf()", "predicate");
+	validateMapper(fallback, "recoverIf()", "fallback");
+	return recoverIfImpl(result, predicate, fallback);
+}
+
+/**
+ * Recovers only from errors matching a predicate by running a fallback that
+ * returns a Result; other errors pass through. The conditional form of orElse().
+ * With a type guard predicate, the handled errors are removed from the error type.
+ *
+ * @example
+ * ```typescript
+ * const isTimeout = (e: ApiError): e is TimeoutError => e.kind === "Timeout";
+ *
+ * const user = recoverWith(fetchUser(id), isTimeout, () => readFromCache(id));
+ * // Returns: Result<User, Exclude<ApiError, TimeoutError> | CacheError>
+ * ```
+ *
+ * @param result - The Result to recover from
+ * @param predicate - Function deciding whether an error is recoverable
+ * @param fallback - Function that receives a recoverable error and returns a new Result
+ * @returns The original Ok, the fallback's Result, or the original Err
+ * @throws TypeError if result is not a valid Result object or predicate/fallback are not functions
+ * @see {@link recoverIf} for fallbacks that cannot fail
+ * @see {@link orElse} to recover from every error
+ */
+export function recoverWith<T, E, G extends E, U, F>(
+	result: Result<T, E>,
+	predicate: (error: E) => error is G,
+	fallback: (error: G) => Result<U, F>,
+): Result<T | U, Exclude<E, G> | F>;
+export function recoverWith<
+	T,
+	E extends Record<string, unknown> | string | Error,
+	U,
+	F,
+>(
+	result: Result<T, E>,
+	predicate: (error: E) => boolean,
+	fallback: (error: E) => Result<U, F>,
+): Result<T | U, E | F>;
+export function recoverWith<T, E, U, F>(
+	result: Result<T, E>,
+	predicate: (error: E) => boolean,
+	fallback: (error: E) => Result<U, F>,
+): Result<T | U, E | F>;
+export function recoverWith<T, E, U, F>(
+	result: Result<T, E>,
+	predicate: (error: E) => boolean,
+	fallback: (error: E) => Result<U, F>,
+): Result<T | U, E | F> {
+	validateResult(result, "recoverWith()");
+	validateMapper(predicate, "recoverWith()", "predicate");
+	validateMapper(fallback, "recoverWith()", "fallback");
+	return recoverWithImpl(result, predicate, fallback);
+}
+
+/**
+ * Turns the error of a Promise<Result> into a success value with a sync or async fallback.
+ *
+ * @example
+ * ```typescript
+ * const settings = await recoverAsync(fetchSettings(userId), () => loadDefaults());
+ * // Returns: Promise<Result<Settings, never>>
+ * ```
+ *
+ * @param promise - Promise of Result to recover from
+ * @param fallback - Function that maps the error to a value or Promise of a value
+ * @returns Promise of the original Ok or Ok of the fallback value
+ * @throws TypeError if promise is not a Promise or fallback is not a function
+ * @see {@link recover} for sync recovery
+ */
+export function recoverAsync<
+	T,
+	E extends Record<string, unknown> | string | Error,
+	U,
+>(
+	promise: Promise<Result<T, E>>,
+	fallback: (error: E) => U | Promise<U>,
+): Promise<Result<T | U, never>>;
+export function recoverAsync<T, E, U>(
+	promise: Promise<Result<T, E>>,
+	fallback: (error: E) => U | Promise<U>,
+): Promise<Result<T | U, never>>;
+export async function recoverAsync<T, E, U>(
+	promise: Promise<Result<T, E>>,
+	fallback: (error: E) => U | Promise<U>,
+): Promise<Result<T | U, never>> {
+	validatePromise(promise, "recoverAsync()");
+	validateMapper(fallback, "recoverAsync()", "fallback");
+
+	const result = await promise;
+	validateResult(result, "recoverAsync()");
+
+	return recoverAsyncImpl(result, fallback);
+}
+
+/**
+ * Recovers only the errors of a Promise<Result> that match a predicate,
+ * with a sync or async fallback value; other errors pass through.
+ *
+ * @example
+ * ```typescript
+ * const user = await recoverIfAsync(fetchUser(id), isNotFound, async () =>
+ *   createGuestUser(),
+ * );
+ * // Returns: Promise<Result<User, Exclude<ApiError, NotFoundError>>>
+ * ```
+ *
+ * @param promise - Promise of Result to recover from
+ * @param predicate - Function deciding whether an error is recoverable
+ * @param fallback - Function that maps a recoverable error to a value or Promise of a value
+ * @returns Promise of the original Ok, Ok of the fallback value, or the original Err
+ * @throws TypeError if promise is not a Promise or predicate/fallback are not functions
+ * @see {@link recoverIf} for sync recovery
+ */
+export function recoverIfAsync<T, E, G extends E, U>(
+	promise: Promise<Result<T, E>>,
+	predicate: (error: E) => error is G,
+	fallback: (error: G) => U | Promise<U>,
+): Promise<Result<T | U, Exclude<E, G>>>;
+export function recoverIfAsync<
+	T,
+	E extends Record<string, unknown> | string | Error,
+	U,
+>(
+	promise: Promise<Result<T, E>>,
+	predicate: (error: E) => boolean,
+	fallback: (error: E) => U | Promise<U>,
+): Promise<Result<T | U, E>>;
+export function recoverIfAsync<T, E, U>(
+	promise: Promise<Result<T, E>>,
+	predicate: (error: E) => boolean,
+	fallback: (error: E) => U | Promise<U>,
+): Promise<Result<T | U, E>>;
+export async function recoverIfAsync<T, E, U>(
+	promise: Promise<Result<T, E>>,
+	predicate: (error: E) => boolean,
+	fallback: (error: E) => U | Promise<U>,
+): Promise<Result<T | U, E>> {
+	validatePromise(promise, "recoverIfAsync()");
+	validateMapper(predicate, "recoverIfAsync()", "predicate");
+	validateMapper(fallback, "recoverIfAsync()", "fallback");
+
+	const result = await promise;
+	validateResult(result, "recoverIfAsync()");
+
+	return recoverIfAsyncImpl(result, predicate, fallback);
 }
 
 /**
  * This entry point includes core essentials + iteration operations.
  *
- * Use for: data transformation, chaining, functional composition
+ * Use for: data transformation, chaining, error recovery, functional composition
  *
- * Key functions: map(), andThen(), mapAsync(), mapErr()
+ * Key functions: map(), andThen(), mapAsync(), mapErr(), orElse(), recover(), recoverWith()
  *
  * Generic constraints ensure type safety:
  * - Error types constrained to meaningful types for better error handling
@@ -384,7 +712,7 @@ export async function andThenAsync<T, U, E>(
  * - Backward compatibility maintained with unconstrained overloads
  *
  * For complex operation chaining, consider:
- * - `chain()` from result-ts/patterns → Promise-like fluent API with unlimited operations
+ * - `chain()` from result-ts/patterns → lazy fluent API with unlimited operations
  * - `safe()` from result-ts/patterns → Generator-based Rust-style ? operator
  *
  * Other available layers:
@@ -392,5 +720,5 @@ export async function andThenAsync<T, U, E>(
  * - `result-ts/batch` → core + array processing
  * - `result-ts/utils` → core + debugging utilities
  * - `result-ts/patterns` → core + advanced patterns (chain, safe, zip, apply)
- * - `result-ts/schema` → core + validation with Zod
+ * - `result-ts/schema` → core + Standard Schema validation (Zod, Valibot, ArkType, ...)
  */
@@ -0,0 +1,2343 @@
+// Internal operations module - validation-free Result operations
+// Shared by the validated layers (which validate first) and the unchecked layers
+
+import type { z } from "zod";
+import type { ResultAsync } from "./async";
+import type { AsyncChain, Chain } from "./patterns";
+import type { RetryAttempt, RetryOptions, RetryStopReason } from "./resilience";
+import type {
+	StandardSchemaFailure,
+	StandardSchemaIssue,
+	StandardSchemaResult,
+	StandardSchemaV1,
+} from "./schema";
+import type {
+	DeserializeOptions,
+	ErrorRegistry,
+	SerializeOptions,
+} from "./serde";
+import type { ResultSource, StreamStats } from "./stream";
+import { type ResultTrace, traced, traceOf, tracer } from "./tracing";
+import {
+	ERR,
+	type Err,
+	NONE,
+	type NonEmptyArray,
+	OK,
+	type Option,
+	type Result,
+	SOME,
+} from "./types";
+
+// =============================================================================
+// CORE ESSENTIALS
+// Used by result-ts/unchecked only: core.ts keeps its own inline copies so the
+// base bundle doesn't pay for the extra call.
+// =============================================================================
+
+/** unwrap() without validation. */
+export const unwrap = <T, E>(result: Result<T, E>): T => {
+	if (result.type === OK) return result.value;
+
+	const error = result.error;
+
+	// Most common case with default E = Error
+	if (error instanceof Error) {
+		throw error;
+	}
+
+	// Handle string errors
+	if (typeof error === "string") {
+		throw new Error(error);
+	}
+
+	// Handle all other error types - preserve original in cause
+	throw new Error(`Unwrap failed: ${String(error)}`, { cause: error });
+};
+
+/** unwrapOr() without validation. */
+export const unwrapOr = <T, E>(result: Result<T, E>, defaultValue: T): T =>
+	result.type === OK ? result.value : defaultValue;
+
+/** match() without validation. */
+export const match = <T, U, V, E>(
+	result: Result<T, E>,
+	handlers: { Ok: (value: T) => U; Err: (error: E) => V },
+): U | V =>
+	result.type === OK ? handlers.Ok(result.value) : handlers.Err(result.error);
+
+// =============================================================================
+// ITERATION OPERATIONS
+// Async variants take the awaited Result so callers can validate it first.
+// =============================================================================
+
+/** map() without validation. */
+export const map = <T, U, E>(
+	result: Result<T, E>,
+	mapper: (value: T) => U,
+): Result<U, E> => {
+	if (result.type === OK) {
+		return { type: OK, value: mapper(result.value) };
+	}
+	tracer?.step(result, result, "map()");
+	return result;
+};
+
+/** mapAsync() without validation, applied to the awaited Result. */
+export const mapAsync = async <T, U, E>(
+	result: Result<T, E>,
+	mapper: (value: T) => U | Promise<U>,
+): Promise<Result<U, E>> => {
+	if (result.type === OK) {
+		const mapped = await mapper(result.value);
+		return { type: OK, value: mapped };
+	}
+	tracer?.step(result, result, "mapAsync()");
+	return result;
+};
+
+/** mapErr() without validation. */
+export const mapErr = <T, E, F>(
+	result: Result<T, E>,
+	mapper: (error: E) => F,
+): Result<T, F> => {
+	if (result.type === OK) return result;
+	const mapped: Result<T, F> = { type: ERR, error: mapper(result.error) };
+	tracer?.step(result, mapped, "mapErr()");
+	return mapped;
+};
+
+/** mapErrAsync() without validation, applied to the awaited Result. */
+export const mapErrAsync = async <T, E, F>(
+	result: Result<T, E>,
+	mapper: (error: E) => F | Promise<F>,
+): Promise<Result<T, F>> => {
+	if (result.type === OK) return result;
+	const mapped: Result<T, F> = {
+		type: ERR,
+		error: await mapper(result.error),
+	};
+	tracer?.step(result, mapped, "mapErrAsync()");
+	return mapped;
+};
+
+/** andThen() without validation. */
+export const andThen = <T, U, E>(
+	result: Result<T, E>,
+	mapper: (value: T) => Result<U, E>,
+): Result<U, E> => {
+	if (result.type === OK) return mapper(result.value);
+	tracer?.step(result, result, "andThen()");
+	return result;
+};
+
+/** andThenAsync() without validation, applied to the awaited Result. */
+export const andThenAsync = async <T, U, E>(
+	result: Result<T, E>,
+	mapper: (value: T) => Promise<Result<U, E>>,
+): Promise<Result<U, E>> => {
+	if (result.type === OK) return await mapper(result.value);
+	tracer?.step(result, result, "andThenAsync()");
+	return result;
+};
+
+/** orElse() without validation. */
+export const orElse = <T, E, U, F>(
+	result: Result<T, E>,
+	fallback: (error: E) => Result<U, F>,
+): Result<T | U, F> => (result.type === ERR ? fallback(result.error) : result);
+
+/** orElseAsync() without validation, applied to the awaited Result. */
+export const orElseAsync = async <T, E, U, F>(
+	result: Result<T, E>,
+	fallback: (error: E) => Result<U, F> | Promise<Result<U, F>>,
+): Promise<Result<T | U, F>> =>
+	result.type === ERR ? await fallback(result.error) : result;
+
+/** recover() without validation. */
+export const recover = <T, E, U>(
+	result: Result<T, E>,
+	fallback: (error: E) => U,
+): Result<T | U, never> =>
+	result.type === ERR ? { type: OK, value: fallback(result.error) } : result;
+
+/** recoverIf() without validation. */
+export const recoverIf = <T, E, U>(
+	result: Result<T, E>,
+	predicate: (error: E) => boolean,
+	fallback: (error: E) => U,
+): Result<T | U, E> => {
+	if (result.type === OK) return result;
+	if (predicate(result.error)) {
+		return { type: OK, value: fallback(result.error) };
+	}
+	tracer?.step(result, result, "recoverIf()");
+	return result;
+};
+
+/** recoverWith() without validation. */
+export const recoverWith = <T, E, U, F>(
+	result: Result<T, E>,
+	predicate: (error: E) => boolean,
+	fallback: (error: E) => Result<U, F>,
+): Result<T | U, E | F> => {
+	if (result.type === OK) return result;
+	if (predicate(result.error)) return fallback(result.error);
+	tracer?.step(result, result, "recoverWith()");
+	return result;
+};
+
+/** recoverAsync() without validation, applied to the awaited Result. */
+export const recoverAsync = async <T, E, U>(
+	result: Result<T, E>,
+	fallback: (error: E) => U | Promise<U>,
+): Promise<Result<T | U, never>> =>
+	result.type === ERR
+		? { type: OK, value: await fallback(result.error) }
+		: result;
+
+/** recoverIfAsync() without validation, applied to the awaited Result. */
+export const recoverIfAsync = async <T, E, U>(
+	result: Result<T, E>,
+	predicate: (error: E) => boolean,
+	fallback: (error: E) => U | Promise<U>,
+): Promise<Result<T | U, E>> => {
+	if (result.type === OK) return result;
+	if (predicate(result.error)) {
+		return { type: OK, value: await fallback(result.error) };
+	}
+	tracer?.step(result, result, "recoverIfAsync()");
+	return result;
+};
+
+// =============================================================================
+// BATCH OPERATIONS
+// Null/undefined elements are skipped but keep their index.
+// =============================================================================
+
+/** all() without validation. */
+export const all = <T, E>(results: Array<Result<T, E>>): Result<T[], E> => {
+	const values = [];
+	for (const result of results) {
+		if (!result) continue;
+		if (result.type === ERR) {
+			tracer?.step(result, result, "all()");
+			return result;
+		}
+		values.push(result.value);
+	}
+	return { type: OK, value: values };
+};
+
+/** oks() without validation. */
+export const oks = <T, E>(results: Array<Result<T, E>>): T[] => {
+	const values = [];
+	for (const result of results) {
+		if (result && result.type === OK) {
+			values.push(result.value);
+		}
+	}
+	return values;
+};
+
+/** errs() without validation. */
+export const errs = <T, E>(results: Array<Result<T, E>>): E[] => {
+	const errors = [];
+	for (const result of results) {
+		if (result && result.type === ERR) {
+			errors.push(result.error);
+		}
+	}
+	return errors;
+};
+
+/** partition() without validation. */
+export const partition = <T, E>(
+	results: Array<Result<T, E>>,
+): { oks: T[]; errors: E[] } => {
+	const oks = [];
+	const errors = [];
+	for (const result of results) {
+		if (!result) continue;
+		if (result.type === OK) {
+			oks.push(result.value);
+		} else {
+			errors.push(result.error);
+		}
+	}
+	return { oks, errors };
+};
+
+/** partitionWith() without validation. */
+export const partitionWith = <T, E>(
+	results: Array<Result<T, E>>,
+): {
+	oks: T[];
+	errors: E[];
+	okCount: number;
+	errorCount: number;
+	total: number;
+} => {
+	const { oks, errors } = partition(results);
+	return {
+		oks,
+		errors,
+		okCount: oks.length,
+		errorCount: errors.length,
+		total: results.length,
+	};
+};
+
+/** analyze() without validation. */
+export const analyze = <T, E>(
+	results: Array<Result<T, E>>,
+): {
+	okCount: number;
+	errorCount: number;
+	total: number;
+	hasErrors: boolean;
+	isEmpty: boolean;
+} => {
+	let okCount = 0;
+	let errorCount = 0;
+	for (const result of results) {
+		if (!result) continue;
+		if (result.type === OK) {
+			okCount++;
+		} else {
+			errorCount++;
+		}
+	}
+	return {
+		okCount,
+		errorCount,
+		total: results.length,
+		hasErrors: errorCount > 0,
+		isEmpty: results.length === 0,
+	};
+};
+
+/** findFirst() without validation. */
+export const findFirst = <T, E>(
+	results: Array<Result<T, E>>,
+): {
+	firstOk: T | undefined;
+	firstError: E | undefined;
+	okIndex: number;
+	errorIndex: number;
+} => {
+	let firstOk: T | undefined;
+	let firstError: E | undefined;
+	let okIndex = -1;
+	let errorIndex = -1;
+
+	for (let i = 0; i < results.length; i++) {
+		const result = results[i];
+		if (!result) continue;
+
+		if (result.type === OK && firstOk === undefined) {
+			firstOk = result.value;
+			okIndex = i;
+		} else if (result.type === ERR && firstError === undefined) {
+			firstError = result.error;
+			errorIndex = i;
+		}
+
+		if (firstOk !== undefined && firstError !== undefined) {
+			break;
+		}
+	}
+
+	return { firstOk, firstError, okIndex, errorIndex };
+};
+
+/** reduce() without validation. */
+export const reduce = <T, E, Acc>(
+	results: Array<Result<T, E>>,
+	reducer: {
+		onOk: (acc: Acc, value: T, index: number) => Acc;
+		onErr: (acc: Acc, error: E, index: number) => Acc;
+	},
+	initialValue: Acc,
+): Acc => {
+	let acc = initialValue;
+	for (let i = 0; i < results.length; i++) {
+		const result = results[i];
+		if (!result) continue;
+		acc =
+			result.type === OK
+				? reducer.onOk(acc, result.value, i)
+				: reducer.onErr(acc, result.error, i);
+	}
+	return acc;
+};
+
+/** first() without validation. */
+export const first = <T, E>(results: Array<Result<T, E>>): Result<T, E[]> => {
+	const errors = [];
+	for (const result of results) {
+		if (!result) continue;
+		if (result.type === OK) {
+			return result;
+		}
+		errors.push(result.error);
+	}
+	return traced({ type: ERR, error: errors });
+};
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// `copy` lets the validated layer protect values before callbacks see them.
+// =============================================================================
+
+type Copy = <V>(value: V) => V;
+
+const identity: Copy = (value) => value;
+
+/** inspect() without validation; onErr also receives the trace when recorded. */
+export const inspect = <T, E>(
+	result: Result<T, E>,
+	onOk?: (value: T) => void,
+	onErr?: (error: E, trace?: ResultTrace) => void,
+	copy: Copy = identity,
+): Result<T, E> => {
+	if (result.type === OK) {
+		onOk?.(copy(result.value));
+	} else if (onErr) {
+		const trace = traceOf(result);
+		const error = copy(result.error);
+		if (trace) {
+			onErr(error, trace);
+		} else {
+			onErr(error);
+		}
+	}
+	return result;
+};
+
+/** tap() without validation. */
+export const tap = <T, E>(
+	result: Result<T, E>,
+	fn: (value: T) => void,
+	copy: Copy = identity,
+): Result<T, E> => {
+	if (result.type === OK) {
+		fn(copy(result.value));
+	}
+	return result;
+};
+
+/** tapErr() without validation. */
+export const tapErr = <T, E>(
+	result: Result<T, E>,
+	fn: (error: E) => void,
+	copy: Copy = identity,
+): Result<T, E> => {
+	if (result.type === ERR) {
+		fn(copy(result.error));
+	}
+	return result;
+};
+
+/** fromNullable() (no validation needed - it accepts any value by design). */
+export const fromNullable = <T>(
+	value: T | null | undefined,
+	errorValue: unknown,
+): Result<T, unknown> =>
+	value != null ? { type: OK, value } : { type: ERR, error: errorValue };
+
+/** toNullable() without validation. */
+export const toNullable = <T, E>(result: Result<T, E>): T | null =>
+	result.type === OK ? result.value : null;
+
+// =============================================================================
+// OPTION OPERATIONS
+// =============================================================================
+
+/** toNullableOption() without validation. */
+export const toNullableOption = <T>(option: Option<T>): T | null =>
+	option.type === SOME ? option.value : null;
+
+/** mapOption() without validation. */
+export const mapOption = <T, U>(
+	option: Option<T>,
+	mapper: (value: T) => U,
+): Option<U> =>
+	option.type === SOME ? { type: SOME, value: mapper(option.value) } : option;
+
+/** andThenOption() without validation. */
+export const andThenOption = <T, U>(
+	option: Option<T>,
+	mapper: (value: T) => Option<U>,
+): Option<U> => (option.type === SOME ? mapper(option.value) : option);
+
+/** filterOption() without validation. */
+export const filterOption = <T>(
+	option: Option<T>,
+	predicate: (value: T) => boolean,
+): Option<T> =>
+	option.type === SOME && predicate(option.value) ? option : { type: NONE };
+
+/** unwrapOption() without validation. */
+export const unwrapOption = <T>(option: Option<T>): T => {
+	if (option.type === SOME) return option.value;
+	throw new Error("Called unwrapOption() on None");
+};
+
+/** unwrapOptionOr() without validation. */
+export const unwrapOptionOr = <T>(option: Option<T>, defaultValue: T): T =>
+	option.type === SOME ? option.value : defaultValue;
+
+/** matchOption() without validation. */
+export const matchOption = <T, U, V>(
+	option: Option<T>,
+	handlers: { Some: (value: T) => U; None: () => V },
+): U | V =>
+	option.type === SOME ? handlers.Some(option.value) : handlers.None();
+
+/** okOr() without validation. */
+export const okOr = <T, E>(option: Option<T>, error: E): Result<T, E> =>
+	option.type === SOME
+		? { type: OK, value: option.value }
+		: { type: ERR, error };
+
+/** okOrElse() without validation. */
+export const okOrElse = <T, E>(
+	option: Option<T>,
+	errorFn: () => E,
+): Result<T, E> =>
+	option.type === SOME
+		? { type: OK, value: option.value }
+		: { type: ERR, error: errorFn() };
+
+/** toOption() without validation. */
+export const toOption = <T, E>(result: Result<T, E>): Option<T> =>
+	result.type === OK ? { type: SOME, value: result.value } : { type: NONE };
+
+/** transpose() without validation. */
+export function transpose<T, E>(
+	value: Option<Result<T, E>>,
+): Result<Option<T>, E>;
+export function transpose<T, E>(
+	value: Result<Option<T>, E>,
+): Option<Result<T, E>>;
+export function transpose<T, E>(
+	value: Option<Result<T, E>> | Result<Option<T>, E>,
+): Result<Option<T>, E> | Option<Result<T, E>>;
+export function transpose<T, E>(
+	value: Option<Result<T, E>> | Result<Option<T>, E>,
+): Result<Option<T>, E> | Option<Result<T, E>> {
+	switch (value.type) {
+		case NONE:
+			return { type: OK, value: { type: NONE } };
+		case SOME:
+			return value.value.type === OK
+				? { type: OK, value: { type: SOME, value: value.value.value } }
+				: value.value;
+		case ERR:
+			return { type: SOME, value };
+		default:
+			return value.value.type === SOME
+				? { type: SOME, value: { type: OK, value: value.value.value } }
+				: { type: NONE };
+	}
+}
+
+// =============================================================================
+// TAGGED ERROR OPERATIONS
+// =============================================================================
+
+/** Reads the `_tag` of an error value, or undefined for untagged values. */
+export const tagOf = (error: unknown): string | undefined => {
+	if (error !== null && typeof error === "object" && "_tag" in error) {
+		const tag = (error as Record<string, unknown>)._tag;
+		return typeof tag === "string" ? tag : undefined;
+	}
+	return undefined;
+};
+
+/** matchErr() without validation; a missing handler yields undefined. */
+export const matchErr = <T, E>(
+	result: Result<T, E>,
+	handlers: Record<string, (value: T | E) => unknown>,
+): unknown =>
+	result.type === OK
+		? handlers.Ok?.(result.value)
+		: handlers[tagOf(result.error) ?? ""]?.(result.error);
+
+/** catchTag() without validation. */
+export const catchTag = <T, E, U, F>(
+	result: Result<T, E>,
+	tag: string,
+	handler: (error: E) => Result<U, F>,
+): Result<T | U, E | F> =>
+	result.type === ERR && tagOf(result.error) === tag
+		? handler(result.error)
+		: result;
+
+/** context() without validation. */
+export const context = <T, E>(
+	result: Result<T, E>,
+	message: string,
+): Result<T, Error> =>
+	result.type === OK
+		? result
+		: { type: ERR, error: new Error(message, { cause: result.error }) };
+
+/** withContext() without validation. */
+export const withContext = <T, E>(
+	result: Result<T, E>,
+	messageFn: (error: E) => string,
+): Result<T, Error> =>
+	result.type === OK
+		? result
+		: {
+				type: ERR,
+				error: new Error(messageFn(result.error), { cause: result.error }),
+			};
+
+/** causeChain() (no validation needed - it accepts any value by design). */
+export const causeChain = (error: unknown): unknown[] => {
+	const chain: unknown[] = [];
+	const seen = new Set<unknown>();
+	let current: unknown = error;
+
+	while (!seen.has(current)) {
+		chain.push(current);
+		if (current === null || typeof current !== "object") {
+			break;
+		}
+		seen.add(current);
+		if (!("cause" in current) || current.cause === undefined) {
+			break;
+		}
+		current = current.cause;
+	}
+	return chain;
+};
+
+/** findCause() without validation. */
+export const findCause = <C>(
+	error: unknown,
+	errorClass: abstract new (...args: never[]) => C,
+): C | undefined => {
+	for (const cause of causeChain(error)) {
+		if (cause instanceof errorClass) {
+			return cause;
+		}
+	}
+	return undefined;
+};
+
+// =============================================================================
+// ASYNC PIPELINES
+// `checks` lets the validated layer check callbacks and every settled Result.
+// =============================================================================
+
+/**
+ * Argument checks a validated layer passes to implementations that meet new
+ * values mid-computation (settled promises, callback results, yielded items).
+ * Each check throws a TypeError; unchecked layers pass no checks at all.
+ */
+export interface Checks {
+	result: (
+		result: Result<unknown, unknown>,
+		functionName: string,
+		parameterName?: string,
+	) => void;
+	fn: (fn: unknown, functionName: string, parameterName?: string) => void;
+}
+
+/** Builds the ResultAsync object around a promise of a Result. */
+export const wrapAsync = <T, E>(
+	source: Promise<Result<T, E>>,
+	checks?: Checks,
+): ResultAsync<T, E> => {
+	const promise = checks
+		? source.then((result) => {
+				checks.result(result, "ResultAsync");
+				return result;
+			})
+		: source;
+
+	return {
+		// biome-ignore lint/suspicious/noThenProperty: Intentional PromiseLike API
+		then: (onFulfilled, onRejected) => promise.then(onFulfilled, onRejected),
+
+		map: <U>(fn: (value: T) => U | PromiseLike<U>): ResultAsync<U, E> => {
+			checks?.fn(fn, "ResultAsync.map()");
+			return wrapAsync<U, E>(
+				promise.then(async (result) =>
+					result.type === OK
+						? { type: OK, value: await fn(result.value) }
+						: result,
+				),
+				checks,
+			);
+		},
+
+		mapErr: <F>(fn: (error: E) => F | PromiseLike<F>): ResultAsync<T, F> => {
+			checks?.fn(fn, "ResultAsync.mapErr()");
+			return wrapAsync<T, F>(
+				promise.then(async (result) =>
+					result.type === ERR
+						? { type: ERR, error: await fn(result.error) }
+						: result,
+				),
+				checks,
+			);
+		},
+
+		andThen: <U, F = E>(
+			fn: (value: T) => Result<U, F> | PromiseLike<Result<U, F>>,
+		): ResultAsync<U, E | F> => {
+			checks?.fn(fn, "ResultAsync.andThen()");
+			return wrapAsync<U, E | F>(
+				promise.then((result) =>
+					result.type === OK ? fn(result.value) : result,
+				),
+				checks,
+			);
+		},
+
+		orElse: <U = T, F = E>(
+			fn: (error: E) => Result<U, F> | PromiseLike<Result<U, F>>,
+		): ResultAsync<T | U, F> => {
+			checks?.fn(fn, "ResultAsync.orElse()");
+			return wrapAsync<T | U, F>(
+				promise.then((result) =>
+					result.type === ERR ? fn(result.error) : result,
+				),
+				checks,
+			);
+		},
+
+		tap: (fn: (value: T) => unknown): ResultAsync<T, E> => {
+			checks?.fn(fn, "ResultAsync.tap()");
+			return wrapAsync(
+				promise.then(async (result) => {
+					if (result.type === OK) {
+						await fn(result.value);
+					}
+					return result;
+				}),
+				checks,
+			);
+		},
+
+		tapErr: (fn: (error: E) => unknown): ResultAsync<T, E> => {
+			checks?.fn(fn, "ResultAsync.tapErr()");
+			return wrapAsync(
+				promise.then(async (result) => {
+					if (result.type === ERR) {
+						await fn(result.error);
+					}
+					return result;
+				}),
+				checks,
+			);
+		},
+
+		match: async <U, V>(handlers: {
+			Ok: (value: T) => U | PromiseLike<U>;
+			Err: (error: E) => V | PromiseLike<V>;
+		}): Promise<U | V> => {
+			if (checks) {
+				if (!handlers || typeof handlers !== "object") {
+					throw new TypeError(
+						"ResultAsync.match(): handlers must be an object",
+					);
+				}
+				checks.fn(handlers.Ok, "ResultAsync.match()", "handlers.Ok");
+				checks.fn(handlers.Err, "ResultAsync.match()", "handlers.Err");
+			}
+
+			const result = await promise;
+			return result.type === OK
+				? handlers.Ok(result.value)
+				: handlers.Err(result.error);
+		},
+
+		unwrapOr: async (defaultValue: T): Promise<T> => {
+			const result = await promise;
+			return result.type === OK ? result.value : defaultValue;
+		},
+	};
+};
+
+// =============================================================================
+// PATTERN OPERATIONS
+// `checks` lets the validated layer check callbacks and their Results as the
+// chain, Do builder or generator reaches them.
+// =============================================================================
+
+/** Checks whether a value is a Promise or Promise-like object. */
+export const isThenable = (value: unknown): value is PromiseLike<unknown> =>
+	value !== null &&
+	(typeof value === "object" || typeof value === "function") &&
+	typeof (value as { then?: unknown }).then === "function";
+
+/**
+ * Creates the Err a function returns for a failed input, carrying the input's
+ * trace over (for accumulated errors, the trace of the first failed input).
+ */
+const errFrom = <E>(
+	from: Err<unknown>,
+	error: E,
+	functionName: string,
+): Err<E> => {
+	const failed: Err<E> = { type: ERR, error };
+	tracer?.step(from, failed, functionName);
+	return failed;
+};
+
+type ChainStepKind = "andThen" | "map" | "mapErr" | "orElse" | "tap" | "tapErr";
+
+interface ChainStep {
+	kind: ChainStepKind;
+	fn: (input: unknown) => unknown;
+}
+
+/**
+ * Whether a step runs for the given Result (success steps vs error steps).
+ */
+const appliesTo = (
+	step: ChainStep,
+	result: Result<unknown, unknown>,
+): boolean =>
+	step.kind === "mapErr" || step.kind === "orElse" || step.kind === "tapErr"
+		? result.type === ERR
+		: result.type === OK;
+
+/**
+ * Turns a step's output into the next Result of the chain.
+ */
+const settleStep = (
+	step: ChainStep,
+	result: Result<unknown, unknown>,
+	output: unknown,
+	checks: Checks | undefined,
+): Result<unknown, unknown> => {
+	switch (step.kind) {
+		case "andThen":
+		case "orElse":
+			checks?.result(
+				output as Result<unknown, unknown>,
+				`chain().${step.kind}()`,
+				"callback result",
+			);
+			return output as Result<unknown, unknown>;
+		case "map":
+			return { type: OK, value: output };
+		case "mapErr": {
+			const mapped: Result<unknown, unknown> = { type: ERR, error: output };
+			tracer?.step(result, mapped, "chain().mapErr()");
+			return mapped;
+		}
+		default:
+			return result;
+	}
+};
+
+/**
+ * Records an Err skipping a success step, as the iter combinators do
+ * (tap() steps are side effects and not recorded).
+ */
+const traceSkipped = (
+	step: ChainStep,
+	result: Result<unknown, unknown>,
+): void => {
+	if (tracer && result.type === ERR && step.kind !== "tap") {
+		tracer.step(result, result, `chain().${step.kind}()`);
+	}
+};
+
+/** Chain node implementing both interfaces; chain() exposes the matching one. */
+type ChainNode<T, E> = Chain<T, E> & AsyncChain<T, E>;
+
+/**
+ * Builds an immutable chain node; adding a step returns a new node so that
+ * chains sharing a prefix never affect each other.
+ * Step types are only tracked by the interfaces; steps run untyped.
+ */
+export const createChain = <T, E>(
+	initial: Result<unknown, unknown> | PromiseLike<Result<unknown, unknown>>,
+	steps: readonly ChainStep[],
+	checks?: Checks,
+): ChainNode<T, E> => {
+	const add =
+		(kind: ChainStepKind) =>
+		<U, F>(fn: (input: never) => unknown): ChainNode<U, F> => {
+			checks?.fn(fn, `chain().${kind}()`, "fn");
+			const step = { kind, fn: fn as (input: unknown) => unknown };
+			return createChain<U, F>(initial, [...steps, step], checks);
+		};
+
+	return {
+		andThen: add("andThen"),
+		map: add("map"),
+		mapErr: add("mapErr"),
+		orElse: add("orElse"),
+		tap: add("tap"),
+		tapErr: add("tapErr"),
+		run: (): Result<T, E> => {
+			if (isThenable(initial)) {
+				throw new TypeError(
+					"chain().run(): initial Result is a Promise, use runAsync() instead",
+				);
+			}
+			let result = initial;
+			for (const step of steps) {
+				if (!appliesTo(step, result)) {
+					traceSkipped(step, result);
+					continue;
+				}
+				const input = result.type === OK ? result.value : result.error;
+				const output = step.fn(input);
+				if (isThenable(output)) {
+					throw new TypeError(
+						`chain().run(): ${step.kind}() step returned a Promise, use runAsync() instead`,
+					);
+				}
+				result = settleStep(step, result, output, checks);
+			}
+			return result as Result<T, E>;
+		},
+		runAsync: async (): Promise<Result<T, E>> => {
+			let result = await initial;
+			checks?.result(result, "chain()", "initial");
+			for (const step of steps) {
+				if (!appliesTo(step, result)) {
+					traceSkipped(step, result);
+					continue;
+				}
+				const input = result.type === OK ? result.value : result.error;
+				result = settleStep(step, result, await step.fn(input), checks);
+			}
+			return result as Result<T, E>;
+		},
+	};
+};
+
+type DoState = Result<Record<string, unknown>, unknown>;
+
+/**
+ * Runtime shape shared by {@link DoBuilder} and {@link DoAsync}. Whether a node
+ * is sync or async depends on the values its steps return, so binding and error
+ * types are only tracked by the public interfaces.
+ */
+interface DoNode {
+	bind(key: string, fn: (bindings: Record<string, unknown>) => unknown): DoNode;
+	let(key: string, fn: (bindings: Record<string, unknown>) => unknown): DoNode;
+	map(
+		fn: (bindings: Record<string, unknown>) => unknown,
+	): Result<unknown, unknown> | PromiseLike<Result<unknown, unknown>>;
+	run(): DoState | PromiseLike<DoState>;
+}
+
+/**
+ * Builds an immutable Do node around the current state; every step returns a
+ * new node, so builders sharing a prefix never affect each other.
+ */
+export const createDo = (
+	state: DoState | PromiseLike<DoState>,
+	checks?: Checks,
+): DoNode => {
+	const step =
+		(method: "bind" | "let") =>
+		(
+			key: string,
+			fn: (bindings: Record<string, unknown>) => unknown,
+		): DoNode => {
+			if (checks) {
+				if (typeof key !== "string" || key === "") {
+					throw new TypeError(
+						`Do().${method}(): key must be a non-empty string, got ${typeof key === "string" ? "empty string" : typeof key}`,
+					);
+				}
+				checks.fn(fn, `Do().${method}()`, "fn");
+			}
+
+			const settle = (
+				bindings: Record<string, unknown>,
+				output: unknown,
+			): DoState => {
+				if (method === "let") {
+					return { type: OK, value: { ...bindings, [key]: output } };
+				}
+				checks?.result(
+					output as DoState,
+					`Do().bind("${key}")`,
+					"callback result",
+				);
+				const result = output as DoState;
+				return result.type === OK
+					? { type: OK, value: { ...bindings, [key]: result.value } }
+					: result;
+			};
+
+			if (isThenable(state)) {
+				return createDo(
+					Promise.resolve(state).then(async (result) => {
+						if (result.type === OK) {
+							return settle(result.value, await fn(result.value));
+						}
+						tracer?.step(result, result, `Do().${method}()`);
+						return result;
+					}),
+					checks,
+				);
+			}
+			if (state.type === ERR) {
+				tracer?.step(state, state, `Do().${method}()`);
+				return createDo(state, checks);
+			}
+			const bindings = state.value;
+			const output = fn(bindings);
+			return createDo(
+				isThenable(output)
+					? Promise.resolve(output).then((value) => settle(bindings, value))
+					: settle(bindings, output),
+				checks,
+			);
+		};
+
+	return {
+		bind: step("bind"),
+		let: step("let"),
+		map: (fn) => {
+			checks?.fn(fn, "Do().map()", "fn");
+			if (isThenable(state)) {
+				return Promise.resolve(state).then(
+					async (result): Promise<Result<unknown, unknown>> => {
+						if (result.type === OK) {
+							return { type: OK, value: await fn(result.value) };
+						}
+						tracer?.step(result, result, "Do().map()");
+						return result;
+					},
+				);
+			}
+			if (state.type === ERR) {
+				tracer?.step(state, state, "Do().map()");
+				return state;
+			}
+			const output = fn(state.value);
+			return isThenable(output)
+				? Promise.resolve(output).then(
+						(value): Result<unknown, unknown> => ({ type: OK, value }),
+					)
+				: { type: OK, value: output };
+		},
+		run: () => state,
+	};
+};
+
+/** safe() without validation; `checks` checks each yielded Result. */
+export const safe = <T, E>(
+	generator: () => Generator<Result<unknown, E>, T, unknown>,
+	checks?: Checks,
+): Result<T, E> => {
+	const gen = generator();
+	try {
+		let current = gen.next();
+		while (!current.done) {
+			const result = current.value as Result<unknown, E>;
+			checks?.result(result, "safe()", "yielded result");
+			if (result.type === ERR) {
+				try {
+					// biome-ignore lint/suspicious/noExplicitAny: Required for generator cleanup
+					gen.return(undefined as any);
+				} catch {
+					// Just ignore cleanup errors
+				}
+				return errFrom(result, result.error, "safe()");
+			}
+			current = gen.next(result.value);
+		}
+		return { type: OK, value: current.value };
+	} catch (error) {
+		try {
+			// biome-ignore lint/suspicious/noExplicitAny: Required for generator cleanup
+			gen.return(undefined as any);
+		} catch {
+			// intentionally ignore errors
+		}
+		throw error;
+	}
+};
+
+/** safeAsync() without validation; `checks` checks each yielded Result. */
+export const safeAsync = async <T, E>(
+	generator: () => AsyncGenerator<Result<unknown, E>, T, unknown>,
+	checks?: Checks,
+): Promise<Result<T, E>> => {
+	const gen = generator();
+	try {
+		let current = await gen.next();
+		while (!current.done) {
+			const result = current.value as Result<unknown, E>;
+			checks?.result(result, "safeAsync()", "yielded result");
+			if (result.type === ERR) {
+				try {
+					// biome-ignore lint/suspicious/noExplicitAny: Required for generator cleanup
+					await gen.return(undefined as any);
+				} catch {
+					// Just ignore cleanup errors
+				}
+				return errFrom(result, result.error, "safeAsync()");
+			}
+			current = await gen.next(result.value);
+		}
+		return { type: OK, value: current.value };
+	} catch (error) {
+		try {
+			// biome-ignore lint/suspicious/noExplicitAny: Required for generator cleanup
+			await gen.return(undefined as any);
+		} catch {
+			// Just ignore cleanup errors
+		}
+		throw error;
+	}
+};
+
+/** $() without validation. */
+export const $ = <T, E>(
+	result: Result<T, E> | PromiseLike<Result<T, E>>,
+):
+	| Generator<Result<T, E>, T, unknown>
+	| AsyncGenerator<Result<T, E>, T, unknown> => {
+	if (isThenable(result)) {
+		return (async function* () {
+			// safeAsync() sends the Ok value back and stops iterating on Err
+			return (yield await result) as T;
+		})();
+	}
+	return (function* () {
+		// safe() sends the Ok value back and stops iterating on Err
+		return (yield result) as T;
+	})();
+};
+
+/** zip() without validation; zipAsync() reuses it with its own trace label. */
+export const zip = (
+	results: Array<Result<unknown, unknown>>,
+	functionName = "zip()",
+): Result<unknown[], unknown> => {
+	const values = [];
+	for (const result of results) {
+		if (result.type === ERR) {
+			tracer?.step(result, result, functionName);
+			return result;
+		}
+		values.push(result.value);
+	}
+	return { type: OK, value: values };
+};
+
+/**
+ * Builds an object from keys and their Results, failing with the first error.
+ */
+const combineEntries = (
+	keys: string[],
+	results: Array<Result<unknown, unknown>>,
+	functionName: string,
+): Result<Record<string, unknown>, unknown> => {
+	const values: Record<string, unknown> = {};
+	for (let i = 0; i < keys.length; i++) {
+		const result = results[i] as Result<unknown, unknown>;
+		if (result.type === ERR) {
+			tracer?.step(result, result, functionName);
+			return result;
+		}
+		values[keys[i] as string] = result.value;
+	}
+	return { type: OK, value: values };
+};
+
+/** combine() without validation. */
+export const combine = (
+	results: Record<string, Result<unknown, unknown>>,
+): Result<Record<string, unknown>, unknown> => {
+	const keys = Object.keys(results);
+	return combineEntries(
+		keys,
+		keys.map((key) => results[key] as Result<unknown, unknown>),
+		"combine()",
+	);
+};
+
+/** zipAsync() without validation; `checks` checks each settled Result. */
+export const zipAsync = async (
+	promises: Array<
+		Result<unknown, unknown> | PromiseLike<Result<unknown, unknown>>
+	>,
+	checks?: Checks,
+): Promise<Result<unknown[], unknown>> => {
+	const results = await Promise.all(promises);
+	if (checks) {
+		for (let i = 0; i < results.length; i++) {
+			checks.result(
+				results[i] as Result<unknown, unknown>,
+				"zipAsync()",
+				`results[${i}]`,
+			);
+		}
+	}
+	return zip(results, "zipAsync()");
+};
+
+/** combineAsync() without validation; `checks` checks each settled Result. */
+export const combineAsync = async (
+	promises: Record<
+		string,
+		Result<unknown, unknown> | PromiseLike<Result<unknown, unknown>>
+	>,
+	checks?: Checks,
+): Promise<Result<Record<string, unknown>, unknown>> => {
+	const keys = Object.keys(promises);
+	const results = await Promise.all(keys.map((key) => promises[key]));
+	if (checks) {
+		for (let i = 0; i < keys.length; i++) {
+			checks.result(
+				results[i] as Result<unknown, unknown>,
+				"combineAsync()",
+				`results.${keys[i]}`,
+			);
+		}
+	}
+	return combineEntries(
+		keys,
+		results as Array<Result<unknown, unknown>>,
+		"combineAsync()",
+	);
+};
+
+/** zipWith() without validation. */
+export const zipWith = <T, U, V, E>(
+	resultA: Result<T, E>,
+	resultB: Result<U, E>,
+	combiner: (a: T, b: U) => V,
+): Result<V, E> => {
+	if (resultA.type === OK && resultB.type === OK) {
+		return { type: OK, value: combiner(resultA.value, resultB.value) };
+	}
+	if (resultA.type === ERR) {
+		return errFrom(resultA, resultA.error, "zipWith()");
+	}
+	if (resultB.type === ERR) {
+		return errFrom(resultB, resultB.error, "zipWith()");
+	}
+	throw new Error("Unreachable: both results cannot be Ok here");
+};
+
+/** apply() without validation. */
+export const apply = <T, U, E>(
+	resultFn: Result<(value: T) => U, E>,
+	resultValue: Result<T, E>,
+): Result<U, E> => {
+	if (resultFn.type === ERR) {
+		return errFrom(resultFn, resultFn.error, "apply()");
+	}
+	if (resultValue.type === ERR) {
+		return errFrom(resultValue, resultValue.error, "apply()");
+	}
+	return { type: OK, value: resultFn.value(resultValue.value) };
+};
+
+/**
+ * Returns the collected errors as-is, or folds them with the merge function.
+ */
+const combineErrors = <E>(
+	errors: NonEmptyArray<E>,
+	merge: ((left: E, right: E) => E) | undefined,
+): E | NonEmptyArray<E> => (merge ? errors.reduce(merge) : errors);
+
+/** zipAllErrors() without validation. */
+export const zipAllErrors = <T, U, E>(
+	resultA: Result<T, E>,
+	resultB: Result<U, E>,
+	merge?: (left: E, right: E) => E,
+): Result<[T, U], E | NonEmptyArray<E>> => {
+	if (resultA.type === OK && resultB.type === OK) {
+		return { type: OK, value: [resultA.value, resultB.value] };
+	}
+
+	const errors = [resultA, resultB]
+		.filter((result) => result.type === ERR)
+		.map((result) => (result as Err<E>).error) as NonEmptyArray<E>;
+	return errFrom(
+		resultA.type === ERR ? resultA : (resultB as Err<E>),
+		combineErrors(errors, merge),
+		"zipAllErrors()",
+	);
+};
+
+/** applyV() without validation; without merge the resultFn error must be an array. */
+export const applyV = <T, U, E>(
+	resultFn: Result<(value: T) => U, E | NonEmptyArray<E>>,
+	resultValue: Result<T, E>,
+	merge?: (left: E, right: E) => E,
+): Result<U, E | NonEmptyArray<E>> => {
+	if (resultFn.type === OK) {
+		if (resultValue.type === OK) {
+			return { type: OK, value: resultFn.value(resultValue.value) };
+		}
+		return errFrom(
+			resultValue,
+			merge ? resultValue.error : [resultValue.error],
+			"applyV()",
+		);
+	}
+
+	if (merge) {
+		return errFrom(
+			resultFn,
+			resultValue.type === ERR
+				? merge(resultFn.error as E, resultValue.error)
+				: (resultFn.error as E),
+			"applyV()",
+		);
+	}
+	const errors = resultFn.error as NonEmptyArray<E>;
+	return errFrom(
+		resultFn,
+		resultValue.type === ERR ? [...errors, resultValue.error] : errors,
+		"applyV()",
+	);
+};
+
+/** validateAll() without validation. */
+export const validateAll = <E>(
+	fields: Record<string, Result<unknown, E>>,
+	merge?: (left: E, right: E) => E,
+): Result<Record<string, unknown>, E | NonEmptyArray<E>> => {
+	const values: Record<string, unknown> = {};
+	const errors: E[] = [];
+	let firstFailed: Err<E> | undefined;
+	for (const key of Object.keys(fields)) {
+		const result = fields[key] as Result<unknown, E>;
+		if (result.type === OK) {
+			values[key] = result.value;
+		} else {
+			firstFailed ??= result;
+			errors.push(result.error);
+		}
+	}
+
+	return firstFailed
+		? errFrom(
+				firstFailed,
+				combineErrors(errors as NonEmptyArray<E>, merge),
+				"validateAll()",
+			)
+		: { type: OK, value: values };
+};
+
+// =============================================================================
+// STREAM OPERATIONS
+// `checks` lets the validated layer check every streamed item (by position).
+// =============================================================================
+
+/**
+ * Iterates any ResultSource, checking each item as it arrives when given checks.
+ * for-await closes the underlying iterator when the consumer stops early.
+ */
+async function* iterate<T, E>(
+	source: ResultSource<T, E>,
+	functionName: string,
+	checks: Checks | undefined,
+): AsyncGenerator<Result<T, E>, void, undefined> {
+	let position = 0;
+	for await (const result of source) {
+		checks?.result(result, functionName, `item ${position++}`);
+		yield result;
+	}
+}
+
+/** mapOk() without validation; `checks` checks each streamed item. */
+export const mapOk = <T, U, E>(
+	source: ResultSource<T, E>,
+	fn: (value: T) => U | Promise<U>,
+	checks?: Checks,
+): AsyncIterable<Result<U, E>> => {
+	return (async function* () {
+		for await (const result of iterate(source, "mapOk()", checks)) {
+			yield result.type === OK
+				? { type: OK, value: await fn(result.value) }
+				: result;
+		}
+	})();
+};
+
+/** andThenOk() without validation; `checks` also checks each callback Result. */
+export const andThenOk = <T, U, E, F = E>(
+	source: ResultSource<T, E>,
+	fn: (value: T) => Result<U, F> | Promise<Result<U, F>>,
+	checks?: Checks,
+): AsyncIterable<Result<U, E | F>> => {
+	return (async function* () {
+		let position = 0;
+		for await (const result of iterate(source, "andThenOk()", checks)) {
+			if (result.type === OK) {
+				const next = await fn(result.value);
+				checks?.result(next, "andThenOk()", `item ${position}`);
+				yield next;
+			} else {
+				yield result;
+			}
+			position++;
+		}
+	})();
+};
+
+/** filterOk() without validation; `checks` checks each streamed item. */
+export const filterOk = <T, E>(
+	source: ResultSource<T, E>,
+	predicate: (value: T) => boolean | Promise<boolean>,
+	checks?: Checks,
+): AsyncIterable<Result<T, E>> => {
+	return (async function* () {
+		for await (const result of iterate(source, "filterOk()", checks)) {
+			if (result.type === ERR || (await predicate(result.value))) {
+				yield result;
+			}
+		}
+	})();
+};
+
+/** takeUntilErr() without validation; `checks` checks each streamed item. */
+export const takeUntilErr = <T, E>(
+	source: ResultSource<T, E>,
+	checks?: Checks,
+): AsyncIterable<Result<T, E>> => {
+	return (async function* () {
+		for await (const result of iterate(source, "takeUntilErr()", checks)) {
+			yield result;
+			if (result.type === ERR) return;
+		}
+	})();
+};
+
+/** partitionStream() without validation; `checks` checks each streamed item. */
+export const partitionStream = <T, E>(
+	source: ResultSource<T, E>,
+	checks?: Checks,
+): { oks: AsyncIterable<T>; errors: AsyncIterable<E> } => {
+	const iterator = iterate(source, "partitionStream()", checks);
+	const okQueue: T[] = [];
+	const errorQueue: E[] = [];
+	let done = false;
+	let oksActive = true;
+	let errorsActive = true;
+	let pulling: Promise<void> | undefined;
+
+	// Serializes reads so both sides never call next() concurrently
+	const pull = (): Promise<void> => {
+		pulling ??= iterator
+			.next()
+			.then((next) => {
+				if (next.done) {
+					done = true;
+				} else if (next.value.type === OK) {
+					if (oksActive) okQueue.push(next.value.value);
+				} else if (errorsActive) {
+					errorQueue.push(next.value.error);
+				}
+			})
+			.finally(() => {
+				pulling = undefined;
+			});
+		return pulling;
+	};
+
+	async function* side<V>(
+		queue: V[],
+		stop: () => void,
+	): AsyncGenerator<V, void, undefined> {
+		try {
+			while (true) {
+				if (queue.length > 0) {
+					yield queue.shift() as V;
+				} else if (done) {
+					return;
+				} else {
+					await pull();
+				}
+			}
+		} finally {
+			queue.length = 0;
+			stop();
+			if (!oksActive && !errorsActive && !done) {
+				done = true;
+				await iterator.return();
+			}
+		}
+	}
+
+	return {
+		oks: side(okQueue, () => {
+			oksActive = false;
+		}),
+		errors: side(errorQueue, () => {
+			errorsActive = false;
+		}),
+	};
+};
+
+/** collect() without validation; `checks` checks each streamed item. */
+export const collect = async <T, E>(
+	source: ResultSource<T, E>,
+	checks?: Checks,
+): Promise<Result<T[], E>> => {
+	const values = [];
+	for await (const result of iterate(source, "collect()", checks)) {
+		if (result.type === ERR) {
+			return result;
+		}
+		values.push(result.value);
+	}
+	return { type: OK, value: values };
+};
+
+/** analyzeStream() without validation; `checks` checks each streamed item. */
+export const analyzeStream = async <T, E>(
+	source: ResultSource<T, E>,
+	onProgress?: (stats: StreamStats) => void,
+	checks?: Checks,
+): Promise<StreamStats> => {
+	let okCount = 0;
+	let errorCount = 0;
+	const snapshot = (): StreamStats => ({
+		okCount,
+		errorCount,
+		total: okCount + errorCount,
+		hasErrors: errorCount > 0,
+		isEmpty: okCount + errorCount === 0,
+	});
+
+	for await (const result of iterate(source, "analyzeStream()", checks)) {
+		if (result.type === OK) {
+			okCount++;
+		} else {
+			errorCount++;
+		}
+		onProgress?.(snapshot());
+	}
+	return snapshot();
+};
+
+// =============================================================================
+// RETRY OPERATIONS
+// `checks` lets the validated layer check every attempt's Result. The failure
+// class is passed in (RetryError) so this module never imports a layer.
+// =============================================================================
+
+/**
+ * Computes the delay after a failed attempt: backoff, then maxDelay cap, then jitter.
+ */
+const computeDelay = <E>(attempt: number, options: RetryOptions<E>): number => {
+	const base = options.delay ?? 100;
+	const backoff = options.backoff ?? "exponential";
+
+	let delay: number;
+	if (typeof backoff === "function") {
+		delay = backoff(attempt);
+	} else if (backoff === "exponential") {
+		delay = base * 2 ** (attempt - 1);
+	} else if (backoff === "linear") {
+		delay = base * attempt;
+	} else {
+		delay = base;
+	}
+	delay = Math.min(
+		Math.max(0, delay),
+		options.maxDelay ?? Number.POSITIVE_INFINITY,
+	);
+
+	const jitter = options.jitter === true ? 1 : options.jitter || 0;
+	return jitter > 0 ? delay * (1 - jitter * Math.random()) : delay;
+};
+
+/**
+ * Waits for the given delay; resolves to false if the signal aborts first.
+ */
+const sleep = (ms: number, signal: AbortSignal | undefined): Promise<boolean> =>
+	new Promise((resolve) => {
+		if (signal?.aborted) {
+			resolve(false);
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			resolve(false);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve(true);
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+
+/** retry() without validation; fails with a `Failure` built from every attempt. */
+export const retry = async <T, E, F>(
+	fn: (attempt: number) => Promise<Result<T, E>>,
+	options: RetryOptions<E>,
+	Failure: new (
+		attempts: ReadonlyArray<RetryAttempt<E>>,
+		reason: RetryStopReason,
+		options?: ErrorOptions,
+	) => F,
+	checks?: Checks,
+): Promise<Result<T, F>> => {
+	const maxAttempts = options.attempts ?? 3;
+	const { signal, shouldRetry } = options;
+	const attempts: Array<RetryAttempt<E>> = [];
+
+	const fail = (reason: RetryStopReason): Result<T, F> => {
+		const last = attempts[attempts.length - 1];
+		return {
+			type: ERR,
+			error: new Failure(
+				attempts,
+				reason,
+				last === undefined ? undefined : { cause: last.error },
+			),
+		};
+	};
+
+	for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+		if (signal?.aborted) {
+			return fail("aborted");
+		}
+
+		const startedAt = Date.now();
+		const result = await fn(attempt);
+		checks?.result(result, "retry()", "callback result");
+		if (result.type === OK) {
+			return result;
+		}
+
+		const record: RetryAttempt<E> = {
+			attempt,
+			error: result.error,
+			startedAt,
+			durationMs: Date.now() - startedAt,
+			delayMs: 0,
+		};
+		attempts.push(record);
+
+		if (shouldRetry && !shouldRetry(result.error, attempt)) {
+			return fail("not-retryable");
+		}
+		if (attempt === maxAttempts) {
+			break;
+		}
+
+		record.delayMs = computeDelay(attempt, options);
+		if (!(await sleep(record.delayMs, signal))) {
+			return fail("aborted");
+		}
+	}
+
+	return fail("exhausted");
+};
+
+// =============================================================================
+// SERDE OPERATIONS
+// =============================================================================
+
+/**
+ * JSON-compatible value produced by the encoder.
+ */
+type Encoded =
+	| null
+	| boolean
+	| number
+	| string
+	| Encoded[]
+	| { [key: string]: Encoded };
+
+/**
+ * Marker key for values JSON cannot represent natively.
+ * Plain objects that use this key themselves are wrapped as `{ $type: "Object" }`.
+ */
+const TYPE_KEY = "$type";
+
+/**
+ * Built-in Error classes restored by name without registration.
+ */
+const BUILTIN_ERRORS: ErrorRegistry = {
+	Error,
+	TypeError,
+	RangeError,
+	SyntaxError,
+	ReferenceError,
+	EvalError,
+	URIError,
+	AggregateError,
+};
+
+/**
+ * Error properties encoded explicitly rather than as extra own properties.
+ */
+const ERROR_FIELDS = new Set(["name", "message", "stack", "cause", "errors"]);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+	value !== null && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Defines an own property without invoking setters (safe for `__proto__` keys).
+ */
+const defineValue = (
+	target: object,
+	key: string,
+	value: unknown,
+	enumerable: boolean,
+): void => {
+	Object.defineProperty(target, key, {
+		value,
+		enumerable,
+		writable: true,
+		configurable: true,
+	});
+};
+
+/**
+ * Encodes any supported value into a JSON-compatible structure.
+ * Throws a TypeError naming the path of unsupported or circular values.
+ */
+const encode = (
+	value: unknown,
+	path: string,
+	seen: Set<object>,
+	options: SerializeOptions,
+): Encoded => {
+	switch (typeof value) {
+		case "string":
+		case "boolean":
+			return value;
+		case "number":
+			return Number.isFinite(value) && !Object.is(value, -0)
+				? value
+				: {
+						[TYPE_KEY]: "Number",
+						value: Object.is(value, -0) ? "-0" : String(value),
+					};
+		case "bigint":
+			return { [TYPE_KEY]: "BigInt", value: value.toString() };
+		case "undefined":
+			return { [TYPE_KEY]: "undefined" };
+		case "function":
+		case "symbol":
+			throw new TypeError(
+				`serialize(): Cannot serialize ${typeof value} at ${path}`,
+			);
+	}
+	if (value === null) {
+		return null;
+	}
+
+	const object = value as object;
+	if (seen.has(object)) {
+		throw new TypeError(`serialize(): Circular reference at ${path}`);
+	}
+	seen.add(object);
+	try {
+		if (Array.isArray(object)) {
+			const items: Encoded[] = [];
+			for (let i = 0; i < object.length; i++) {
+				items.push(encode(object[i], `${path}[${i}]`, seen, options));
+			}
+			return items;
+		}
+		if (object instanceof Date) {
+			const time = object.getTime();
+			return {
+				[TYPE_KEY]: "Date",
+				value: Number.isNaN(time) ? null : object.toISOString(),
+			};
+		}
+		if (object instanceof Map) {
+			const entries: Encoded[] = [];
+			let index = 0;
+			for (const [key, entry] of object) {
+				entries.push([
+					encode(key, `${path}<key ${index}>`, seen, options),
+					encode(entry, `${path}<value ${index}>`, seen, options),
+				]);
+				index++;
+			}
+			return { [TYPE_KEY]: "Map", entries };
+		}
+		if (object instanceof Set) {
+			const values: Encoded[] = [];
+			let index = 0;
+			for (const entry of object) {
+				values.push(encode(entry, `${path}<${index}>`, seen, options));
+				index++;
+			}
+			return { [TYPE_KEY]: "Set", values };
+		}
+		if (object instanceof Error) {
+			return encodeError(object, path, seen, options);
+		}
+		const toJSON = (object as { toJSON?: unknown }).toJSON;
+		if (typeof toJSON === "function") {
+			return encode(toJSON.call(object), path, seen, options);
+		}
+
+		const fields: { [key: string]: Encoded } = {};
+		for (const key of Object.keys(object)) {
+			defineValue(
+				fields,
+				key,
+				encode(
+					(object as Record<string, unknown>)[key],
+					`${path}.${key}`,
+					seen,
+					options,
+				),
+				true,
+			);
+		}
+		return TYPE_KEY in fields
+			? { [TYPE_KEY]: "Object", value: fields }
+			: fields;
+	} finally {
+		seen.delete(object);
+	}
+};
+
+/**
+ * Encodes an Error with its name, message, stack, cause, aggregated errors
+ * and any extra own properties (e.g. `_tag`, `code`, `status`).
+ */
+const encodeError = (
+	error: Error,
+	path: string,
+	seen: Set<object>,
+	options: SerializeOptions,
+): Encoded => {
+	const encoded: { [key: string]: Encoded } = {
+		[TYPE_KEY]: "Error",
+		name: String(error.name),
+		message: String(error.message),
+	};
+	if (options.stack !== false && typeof error.stack === "string") {
+		encoded.stack = error.stack;
+	}
+	if ("cause" in error) {
+		encoded.cause = encode(error.cause, `${path}.cause`, seen, options);
+	}
+	if (error instanceof AggregateError) {
+		encoded.errors = encode(error.errors, `${path}.errors`, seen, options);
+	}
+
+	const props: { [key: string]: Encoded } = {};
+	let hasProps = false;
+	for (const key of Object.keys(error)) {
+		if (ERROR_FIELDS.has(key)) continue;
+		defineValue(
+			props,
+			key,
+			encode(
+				(error as unknown as Record<string, unknown>)[key],
+				`${path}.${key}`,
+				seen,
+				options,
+			),
+			true,
+		);
+		hasProps = true;
+	}
+	if (hasProps) {
+		encoded.props = props;
+	}
+	return encoded;
+};
+
+/**
+ * Decodes a value produced by {@link encode}.
+ * Throws a TypeError naming the path of malformed input.
+ */
+const decode = (
+	value: unknown,
+	path: string,
+	options: DeserializeOptions,
+): unknown => {
+	if (Array.isArray(value)) {
+		return value.map((item, i) => decode(item, `${path}[${i}]`, options));
+	}
+	if (!isRecord(value)) {
+		return value;
+	}
+	if (!(TYPE_KEY in value)) {
+		return decodeObject(value, path, options);
+	}
+
+	switch (value[TYPE_KEY]) {
+		case "undefined":
+			return undefined;
+		case "Number":
+			return Number(value.value);
+		case "BigInt":
+			if (typeof value.value !== "string") {
+				throw new TypeError(`BigInt at ${path} must have a string value`);
+			}
+			return BigInt(value.value);
+		case "Date":
+			return new Date(
+				typeof value.value === "string" ? value.value : Number.NaN,
+			);
+		case "Map":
+			if (!Array.isArray(value.entries)) {
+				throw new TypeError(`Map at ${path} must have an entries array`);
+			}
+			return new Map(
+				value.entries.map((entry: unknown, i) => {
+					if (!Array.isArray(entry) || entry.length !== 2) {
+						throw new TypeError(
+							`Map entry at ${path}<${i}> must be a [key, value] pair`,
+						);
+					}
+					return [
+						decode(entry[0], `${path}<key ${i}>`, options),
+						decode(entry[1], `${path}<value ${i}>`, options),
+					];
+				}),
+			);
+		case "Set":
+			if (!Array.isArray(value.values)) {
+				throw new TypeError(`Set at ${path} must have a values array`);
+			}
+			return new Set(
+				value.values.map((item: unknown, i) =>
+					decode(item, `${path}<${i}>`, options),
+				),
+			);
+		case "Error":
+			return decodeError(value, path, options);
+		case "Object":
+			if (!isRecord(value.value)) {
+				throw new TypeError(`Object at ${path} must have an object value`);
+			}
+			return decodeObject(value.value, path, options);
+		default:
+			throw new TypeError(
+				`Unknown ${TYPE_KEY} '${String(value[TYPE_KEY])}' at ${path}`,
+			);
+	}
+};
+
+const decodeObject = (
+	value: Record<string, unknown>,
+	path: string,
+	options: DeserializeOptions,
+): Record<string, unknown> => {
+	const object: Record<string, unknown> = {};
+	for (const key of Object.keys(value)) {
+		defineValue(
+			object,
+			key,
+			decode(value[key], `${path}.${key}`, options),
+			true,
+		);
+	}
+	return object;
+};
+
+/**
+ * Restores an Error without calling its subclass constructor, so subclasses
+ * with custom constructor signatures are rebuilt faithfully. The base Error
+ * constructor still runs, so the result is a genuine Error object.
+ */
+const decodeError = (
+	value: Record<string, unknown>,
+	path: string,
+	options: DeserializeOptions,
+): Error => {
+	const name = typeof value.name === "string" ? value.name : "Error";
+	const registry = options.errors;
+	const ErrorClass =
+		(registry && Object.hasOwn(registry, name) ? registry[name] : undefined) ??
+		(Object.hasOwn(BUILTIN_ERRORS, name) ? BUILTIN_ERRORS[name] : undefined) ??
+		Error;
+
+	const message = String(value.message ?? "");
+	const error: Error =
+		"cause" in value
+			? Reflect.construct(
+					Error,
+					[message, { cause: decode(value.cause, `${path}.cause`, options) }],
+					ErrorClass,
+				)
+			: Reflect.construct(Error, [message], ErrorClass);
+	if (error.name !== name) {
+		defineValue(error, "name", name, true);
+	}
+	if (typeof value.stack === "string") {
+		defineValue(error, "stack", value.stack, false);
+	} else {
+		// The stack captured here points at deserialize(), not at the original error
+		delete error.stack;
+	}
+	if ("errors" in value) {
+		defineValue(
+			error,
+			"errors",
+			decode(value.errors, `${path}.errors`, options),
+			false,
+		);
+	}
+	if (isRecord(value.props)) {
+		for (const key of Object.keys(value.props)) {
+			defineValue(
+				error,
+				key,
+				decode(value.props[key], `${path}.${key}`, options),
+				true,
+			);
+		}
+	}
+	return error;
+};
+
+/** serialize() without validation. */
+export const serialize = <T, E>(
+	result: Result<T, E>,
+	options: SerializeOptions = {},
+): string => {
+	const seen = new Set<object>();
+	const encoded: Encoded =
+		result.type === OK
+			? { type: OK, value: encode(result.value, "$.value", seen, options) }
+			: { type: ERR, error: encode(result.error, "$.error", seen, options) };
+	return JSON.stringify(encoded);
+};
+
+/** deserialize() without validation. */
+export const deserialize = <T = unknown, E = unknown>(
+	json: string,
+	options: DeserializeOptions = {},
+): Result<Result<T, E>, string> => {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(json);
+	} catch (error) {
+		return {
+			type: ERR,
+			error: `Invalid JSON: ${error instanceof Error ? error.message : "Unknown error"}`,
+		};
+	}
+
+	if (
+		!isRecord(parsed) ||
+		!(
+			(parsed.type === OK && "value" in parsed) ||
+			(parsed.type === ERR && "error" in parsed)
+		)
+	) {
+		return {
+			type: ERR,
+			error: `Invalid serialized Result: expected { type: '${OK}', value } or { type: '${ERR}', error }`,
+		};
+	}
+
+	try {
+		const restored: Result<T, E> =
+			parsed.type === OK
+				? { type: OK, value: decode(parsed.value, "$.value", options) as T }
+				: { type: ERR, error: decode(parsed.error, "$.error", options) as E };
+		return { type: OK, value: restored };
+	} catch (error) {
+		return {
+			type: ERR,
+			error: `Invalid serialized Result: ${error instanceof Error ? error.message : "Unknown error"}`,
+		};
+	}
+};
+
+// =============================================================================
+// SCHEMA OPERATIONS
+// =============================================================================
+
+type SchemaOutcome<T> =
+	| { success: true; value: T }
+	| {
+			success: false;
+			error: z.ZodError | StandardSchemaFailure;
+			message: string;
+	  };
+
+/**
+ * Zod schemas run through safeParse so error mappers keep receiving a ZodError
+ * and messages stay unchanged; every other validator goes through `~standard`.
+ */
+const isZodSchema = <T>(
+	schema: StandardSchemaV1<unknown, T>,
+): schema is StandardSchemaV1<unknown, T> & z.ZodType<T> =>
+	schema["~standard"].vendor === "zod" &&
+	typeof (schema as Partial<z.ZodType<T>>).safeParse === "function";
+
+/**
+ * Joins Standard Schema issues into one message, prefixing each with its path.
+ */
+const formatIssues = (issues: ReadonlyArray<StandardSchemaIssue>): string =>
+	issues
+		.map((issue) => {
+			const path = issue.path
+				?.map((segment) =>
+					String(typeof segment === "object" ? segment.key : segment),
+				)
+				.join(".");
+			return path ? `${path}: ${issue.message}` : issue.message;
+		})
+		.join("; ");
+
+const toOutcome = <T>(result: StandardSchemaResult<T>): SchemaOutcome<T> =>
+	result.issues
+		? { success: false, error: result, message: formatIssues(result.issues) }
+		: { success: true, value: result.value };
+
+/**
+ * Runs a schema synchronously.
+ * Throws when a Standard Schema validates asynchronously, pointing at the async variant.
+ */
+const runSchema = <T>(
+	schema: StandardSchemaV1<unknown, T>,
+	data: unknown,
+	functionName: string,
+	asyncName: string,
+): SchemaOutcome<T> => {
+	if (isZodSchema(schema)) {
+		const result = schema.safeParse(data);
+		return result.success
+			? { success: true, value: result.data }
+			: { success: false, error: result.error, message: result.error.message };
+	}
+	const result = schema["~standard"].validate(data);
+	if (typeof (result as Partial<PromiseLike<unknown>>).then === "function") {
+		throw new TypeError(
+			`${functionName}: Schema validation is asynchronous, use ${asyncName} instead`,
+		);
+	}
+	return toOutcome(result as StandardSchemaResult<T>);
+};
+
+/**
+ * Runs a schema, awaiting async refinements and asynchronous Standard Schemas.
+ */
+const runSchemaAsync = async <T>(
+	schema: StandardSchemaV1<unknown, T>,
+	data: unknown,
+): Promise<SchemaOutcome<T>> => {
+	if (isZodSchema(schema)) {
+		const result = await schema.safeParseAsync(data);
+		return result.success
+			? { success: true, value: result.data }
+			: { success: false, error: result.error, message: result.error.message };
+	}
+	return toOutcome(await schema["~standard"].validate(data));
+};
+
+/** Parses a JSON string, mapping syntax errors to an "Invalid JSON" Err. */
+const parseJsonText = (jsonString: string): Result<unknown, string> => {
+	try {
+		return { type: OK, value: JSON.parse(jsonString) };
+	} catch (error) {
+		return {
+			type: ERR,
+			error: `Invalid JSON: ${error instanceof Error ? error.message : "Unknown error"}`,
+		};
+	}
+};
+
+/** Maps a schema outcome to a Result with a "Validation failed" message. */
+const toValidation = <T>(outcome: SchemaOutcome<T>): Result<T, string> =>
+	outcome.success
+		? { type: OK, value: outcome.value }
+		: { type: ERR, error: `Validation failed: ${outcome.message}` };
+
+/** validate() without validation. */
+export const validate = <T>(
+	data: unknown,
+	schema: StandardSchemaV1<unknown, T>,
+): Result<T, string> =>
+	toValidation(runSchema(schema, data, "validate()", "validateAsync()"));
+
+/** validateAsync() without validation. */
+export const validateAsync = async <T>(
+	data: unknown,
+	schema: StandardSchemaV1<unknown, T>,
+): Promise<Result<T, string>> =>
+	toValidation(await runSchemaAsync(schema, data));
+
+// Zod schemas fail with a ZodError, other schemas with their failure result.
+// The mapper keeps the Zod type because TypeScript rejects a
+// (ZodError | StandardSchemaFailure) mapper against the Zod overloads
+
+/** validateWith() without validation. */
+export const validateWith = <T, E>(
+	data: unknown,
+	schema: StandardSchemaV1<unknown, T>,
+	errorMapper: (zodError: z.ZodError) => E,
+): Result<T, E> => {
+	const result = runSchema(
+		schema,
+		data,
+		"validateWith()",
+		"validateWithAsync()",
+	);
+	return result.success
+		? { type: OK, value: result.value }
+		: { type: ERR, error: errorMapper(result.error as z.ZodError) };
+};
+
+/** validateWithAsync() without validation. */
+export const validateWithAsync = async <T, E>(
+	data: unknown,
+	schema: StandardSchemaV1<unknown, T>,
+	errorMapper: (zodError: z.ZodError) => E,
+): Promise<Result<T, E>> => {
+	const result = await runSchemaAsync(schema, data);
+	return result.success
+		? { type: OK, value: result.value }
+		: { type: ERR, error: errorMapper(result.error as z.ZodError) };
+};
+
+/** parseJson() without validation. */
+export const parseJson = <T>(
+	jsonString: string,
+	schema: StandardSchemaV1<unknown, T>,
+): Result<T, string> => {
+	const parsed = parseJsonText(jsonString);
+	return parsed.type === OK
+		? toValidation(
+				runSchema(schema, parsed.value, "parseJson()", "parseJsonAsync()"),
+			)
+		: parsed;
+};
+
+/** parseJsonAsync() without validation. */
+export const parseJsonAsync = async <T>(
+	jsonString: string,
+	schema: StandardSchemaV1<unknown, T>,
+): Promise<Result<T, string>> => {
+	const parsed = parseJsonText(jsonString);
+	return parsed.type === OK
+		? toValidation(await runSchemaAsync(schema, parsed.value))
+		: parsed;
+};
+
+type ResultShape =
+	| { side: typeof OK; payload: unknown }
+	| { side: typeof ERR; payload: unknown };
+
+/** Checks the parsed JSON is an Ok or Err object and picks out its payload. */
+const toResultShape = (parsed: unknown): Result<ResultShape, string> => {
+	if (!parsed || typeof parsed !== "object" || !("type" in parsed)) {
+		return {
+			type: ERR,
+			error: "Invalid Result structure: missing 'type' field",
+		};
+	}
+
+	if (parsed.type === OK) {
+		return "value" in parsed
+			? { type: OK, value: { side: OK, payload: parsed.value } }
+			: { type: ERR, error: "Invalid Ok Result: missing 'value' field" };
+	}
+	if (parsed.type === ERR) {
+		return "error" in parsed
+			? { type: OK, value: { side: ERR, payload: parsed.error } }
+			: { type: ERR, error: "Invalid Err Result: missing 'error' field" };
+	}
+	return {
+		type: ERR,
+		error: `Invalid Result type: expected '${OK}' or '${ERR}', got '${parsed.type}'`,
+	};
+};
+
+/** Rebuilds the parsed Result from its validated payload. */
+const toParsedResult = <T, E>(
+	side: typeof OK | typeof ERR,
+	outcome: SchemaOutcome<unknown>,
+): Result<Result<T, E>, string> => {
+	if (!outcome.success) {
+		return {
+			type: ERR,
+			error: `Invalid ${side === OK ? "Ok" : "Err"} value: ${outcome.message}`,
+		};
+	}
+	return side === OK
+		? { type: OK, value: { type: OK, value: outcome.value as T } }
+		: { type: OK, value: { type: ERR, error: outcome.value as E } };
+};
+
+/** parseResult() without validation. */
+export const parseResult = <T, E>(
+	jsonString: string,
+	valueSchema: StandardSchemaV1<unknown, T>,
+	errorSchema: StandardSchemaV1<unknown, E>,
+): Result<Result<T, E>, string> => {
+	const parsed = parseJsonText(jsonString);
+	const shape = parsed.type === OK ? toResultShape(parsed.value) : parsed;
+	if (shape.type === ERR) {
+		return shape;
+	}
+	const { side, payload } = shape.value;
+	const schema: StandardSchemaV1<unknown, unknown> =
+		side === OK ? valueSchema : errorSchema;
+	return toParsedResult(
+		side,
+		runSchema(schema, payload, "parseResult()", "parseResultAsync()"),
+	);
+};
+
+/** parseResultAsync() without validation. */
+export const parseResultAsync = async <T, E>(
+	jsonString: string,
+	valueSchema: StandardSchemaV1<unknown, T>,
+	errorSchema: StandardSchemaV1<unknown, E>,
+): Promise<Result<Result<T, E>, string>> => {
+	const parsed = parseJsonText(jsonString);
+	const shape = parsed.type === OK ? toResultShape(parsed.value) : parsed;
+	if (shape.type === ERR) {
+		return shape;
+	}
+	const { side, payload } = shape.value;
+	const schema: StandardSchemaV1<unknown, unknown> =
+		side === OK ? valueSchema : errorSchema;
+	return toParsedResult(side, await runSchemaAsync(schema, payload));
+};
+
+// =============================================================================
+// COMPOSITION
+// =============================================================================
+
+/** pipe() without validation. */
+export const pipe = (
+	value: unknown,
+	...fns: Array<(input: unknown) => unknown>
+): unknown => {
+	let output = value;
+	for (const fn of fns) {
+		output = fn(output);
+	}
+	return output;
+};
+
+/** flow() without validation; an empty flow returns its first argument. */
+export const flow = (
+	...fns: Array<(...args: unknown[]) => unknown>
+): ((...args: unknown[]) => unknown) => {
+	const [first, ...rest] = fns;
+	return (...args) => {
+		let output = first ? first(...args) : args[0];
+		for (const fn of rest) {
+			output = fn(output);
+		}
+		return output;
+	};
+};
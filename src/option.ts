@@ -0,0 +1,566 @@
+// result-ts/option - Core essentials + Option type operations
+// Provides first-class Some/None values and conversions to and from Result
+
+// Re-export all core essentials from core module
+export * from "@/core";
+
+// Import the shared implementations - result-ts/unchecked/option calls the
+// same functions without checking their arguments
+import {
+	andThenOption as andThenOptionImpl,
+	filterOption as filterOptionImpl,
+	mapOption as mapOptionImpl,
+	matchOption as matchOptionImpl,
+	okOrElse as okOrElseImpl,
+	okOr as okOrImpl,
+	toNullableOption as toNullableOptionImpl,
+	toOption as toOptionImpl,
+	transpose as transposeImpl,
+	unwrapOption as unwrapOptionImpl,
+	unwrapOptionOr as unwrapOptionOrImpl,
+} from "@/ops";
+// Import types and constants for option implementations
+import {
+	ERR,
+	NONE,
+	type None,
+	OK,
+	type Option,
+	type Result,
+	SOME,
+	type Some,
+} from "@/types";
+
+// =============================================================================
+// RUNTIME VALIDATION HELPERS
+// =============================================================================
+
+/**
+ * Validates that a parameter is a proper Option object.
+ * Provides helpful error messages for common mistakes.
+ */
+const validateOption = <T>(
+	option: Option<T>,
+	functionName: string,
+	parameterName: string = "option",
+): void => {
+	if (!option || typeof option !== "object") {
+		throw new TypeError(
+			`${functionName}: ${parameterName} must be an Option object, got ${typeof option}`,
+		);
+	}
+	const optionObj = option as unknown;
+	if (
+		typeof optionObj !== "object" ||
+		optionObj === null ||
+		!("type" in optionObj)
+	) {
+		throw new TypeError(
+			`${functionName}: ${parameterName} must have a 'type' property (Some or None)`,
+		);
+	}
+	if (
+		(optionObj as Record<string, unknown>).type !== SOME &&
+		(optionObj as Record<string, unknown>).type !== NONE
+	) {
+		throw new TypeError(
+			`${functionName}: Invalid ${parameterName} type '${optionObj.type}', expected '${SOME}' or '${NONE}'`,
+		);
+	}
+	if (optionObj.type === SOME && !("value" in optionObj)) {
+		throw new TypeError(
+			`${functionName}: Some ${parameterName} must have a 'value' property`,
+		);
+	}
+};
+
+/**
+ * Validates that a parameter is a proper Result object.
+ * Provides helpful error messages for common mistakes.
+ */
+const validateResult = <T, E>(
+	result: Result<T, E>,
+	functionName: string,
+	parameterName: string = "result",
+): void => {
+	if (!result || typeof result !== "object") {
+		throw new TypeError(
+			`${functionName}: ${parameterName} must be a Result object, got ${typeof result}`,
+		);
+	}
+	const resultObj = result as unknown;
+	if (
+		typeof resultObj !== "object" ||
+		resultObj === null ||
+		!("type" in resultObj)
+	) {
+		throw new TypeError(
+			`${functionName}: ${parameterName} must have a 'type' property (Ok or Err)`,
+		);
+	}
+	if (
+		(resultObj as Record<string, unknown>).type !== OK &&
+		(resultObj as Record<string, unknown>).type !== ERR
+	) {
+		throw new TypeError(
+			`${functionName}: Invalid ${parameterName} type '${resultObj.type}', expected '${OK}' or '${ERR}'`,
+		);
+	}
+	if (resultObj.type === OK && !("value" in resultObj)) {
+		throw new TypeError(
+			`${functionName}: Ok ${parameterName} must have a 'value' property`,
+		);
+	}
+	if (resultObj.type === ERR && !("error" in resultObj)) {
+		throw new TypeError(
+			`${functionName}: Err ${parameterName} must have an 'error' property`,
+		);
+	}
+};
+
+/**
+ * Validates that a mapper parameter is a function.
+ */
+const validateMapper = (
+	mapper: unknown,
+	functionName: string,
+	parameterName: string = "mapper",
+): void => {
+	if (typeof mapper !== "function") {
+		throw new TypeError(
+			`${functionName}: ${parameterName} must be a function, got ${typeof mapper}`,
+		);
+	}
+};
+
+// =============================================================================
+// OPTION ESSENTIALS (Individual Exports)
+// =============================================================================
+
+/**
+ * Creates an Option containing the given value.
+ *
+ * @example
+ * ```typescript
+ * const option = some(42);
+ * console.log(option); // { type: "Some", value: 42 }
+ * // Returns: Some<number>
+ * ```
+ *
+ * @param value - The value to wrap
+ * @returns An Option containing the value
+ * @see {@link none} for creating empty Options
+ * @see {@link isSome} for checking if an Option holds a value
+ */
+export const some = <T>(value: T): Some<T> => ({
+	type: SOME,
+	value,
+});
+
+/**
+ * Creates an empty Option.
+ *
+ * @example
+ * ```typescript
+ * const option = none();
+ * console.log(option); // { type: "None" }
+ * // Returns: None
+ * ```
+ *
+ * @returns An empty Option
+ * @see {@link some} for creating Options with a value
+ * @see {@link isNone} for checking if an Option is empty
+ */
+export const none = (): None => ({
+	type: NONE,
+});
+
+/**
+ * Type guard that checks if an Option holds a value.
+ *
+ * @example
+ * ```typescript
+ * const option = findUser(id); // Option<User>
+ * if (isSome(option)) {
+ *   console.log(option.value.name); // TypeScript knows this is User
+ * }
+ * ```
+ *
+ * @param option - The Option to check
+ * @returns True if the Option is Some, false otherwise
+ * @see {@link isNone} for checking empty Options
+ */
+export const isSome = <T>(option: Option<T>): option is Some<T> =>
+	option.type === SOME;
+
+/**
+ * Type guard that checks if an Option is empty.
+ *
+ * @example
+ * ```typescript
+ * const option = findUser(id); // Option<User>
+ * if (isNone(option)) {
+ *   console.log("No user found");
+ * }
+ * ```
+ *
+ * @param option - The Option to check
+ * @returns True if the Option is None, false otherwise
+ * @see {@link isSome} for checking Options with a value
+ */
+export const isNone = <T>(option: Option<T>): option is None =>
+	option.type === NONE;
+
+/**
+ * Converts a nullable value to an Option.
+ * Unlike fromNullable() in result-ts/utils, no error value has to be invented
+ * to model a missing value.
+ *
+ * @example
+ * ```typescript
+ * const match = fromNullableOption(users.find((u) => u.id === id));
+ * // Returns: Option<User> → Some(user) or None
+ *
+ * const port = fromNullableOption(process.env.PORT);
+ * // Returns: Option<string>
+ * ```
+ *
+ * @param value - The nullable value to convert
+ * @returns Some with the value, or None for null/undefined
+ * @see {@link toNullableOption} for converting back to a nullable value
+ */
+export const fromNullableOption = <T>(
+	value: T | null | undefined,
+): Option<T> => (value != null ? { type: SOME, value } : { type: NONE });
+
+/**
+ * Converts an Option to a nullable value for compatibility with nullable APIs.
+ *
+ * @example
+ * ```typescript
+ * const avatarUrl = toNullableOption(findAvatar(user))?.url;
+ * // Returns: string | undefined
+ * ```
+ *
+ * @param option - The Option to convert
+ * @returns The contained value or null for None
+ * @throws TypeError if option is not a valid Option object
+ * @see {@link fromNullableOption} for converting nullable values to Options
+ */
+export const toNullableOption = <T>(option: Option<T>): T | null => {
+	validateOption(option, "toNullableOption()");
+	return toNullableOptionImpl(option);
+};
+
+// =============================================================================
+// OPTION OPERATIONS (Individual Exports)
+// =============================================================================
+
+/**
+ * Transforms the value of an Option using the provided function.
+ *
+ * @example
+ * ```typescript
+ * const name = mapOption(findUser(id), (user) => user.name);
+ * // Returns: Option<string> → Some("John") or None
+ * ```
+ *
+ * @param option - The Option to transform
+ * @param mapper - Function to transform the contained value
+ * @returns A new Option with the transformed value, or None
+ * @throws TypeError if option is not a valid Option object or mapper is not a function
+ * @see {@link andThenOption} for chaining operations that return Options
+ */
+export function mapOption<T, U>(
+	option: Option<T>,
+	mapper: (value: T) => U,
+): Option<U> {
+	validateOption(option, "mapOption()");
+	validateMapper(mapper, "mapOption()");
+	return mapOptionImpl(option, mapper);
+}
+
+/**
+ * Chains Options together, passing the contained value to the next operation.
+ *
+ * @example
+ * ```typescript
+ * const city = andThenOption(findUser(id), (user) =>
+ *   fromNullableOption(user.address?.city),
+ * );
+ * // Returns: Option<string>
+ * ```
+ *
+ * @param option - The Option to chain from
+ * @param mapper - Function that returns a new Option
+ * @returns The new Option, or None
+ * @throws TypeError if option is not a valid Option object or mapper is not a function
+ * @see {@link mapOption} for simple transformations
+ */
+export function andThenOption<T, U>(
+	option: Option<T>,
+	mapper: (value: T) => Option<U>,
+): Option<U> {
+	validateOption(option, "andThenOption()");
+	validateMapper(mapper, "andThenOption()");
+	return andThenOptionImpl(option, mapper);
+}
+
+/**
+ * Keeps the value of an Option only if it satisfies the predicate.
+ *
+ * @example
+ * ```typescript
+ * const adult = filterOption(findUser(id), (user) => user.age >= 18);
+ * // Returns: Option<User> → None when the user is a minor
+ * ```
+ *
+ * @param option - The Option to filter
+ * @param predicate - Function deciding whether the value is kept
+ * @returns The original Option if the predicate holds, otherwise None
+ * @throws TypeError if option is not a valid Option object or predicate is not a function
+ */
+export function filterOption<T>(
+	option: Option<T>,
+	predicate: (value: T) => boolean,
+): Option<T> {
+	validateOption(option, "filterOption()");
+	validateMapper(predicate, "filterOption()", "predicate");
+	return filterOptionImpl(option, predicate);
+}
+
+/**
+ * Extracts the value from an Option or throws an error.
+ *
+ * @example
+ * ```typescript
+ * unwrapOption(some(42)); // 42
+ * unwrapOption(none()); // Throws Error("Called unwrapOption() on None")
+ * ```
+ *
+ * @param option - The Option to unwrap
+ * @returns The contained value
+ * @throws Error if the Option is None
+ * @throws TypeError if option is not a valid Option object
+ * @see {@link unwrapOptionOr} for safe unwrapping with defaults
+ */
+export function unwrapOption<T>(option: Option<T>): T {
+	validateOption(option, "unwrapOption()");
+	return unwrapOptionImpl(option);
+}
+
+/**
+ * Extracts the value from an Option or returns a default value.
+ *
+ * @example
+ * ```typescript
+ * unwrapOptionOr(some(42), 0); // 42
+ * unwrapOptionOr(none(), 0); // 0
+ * ```
+ *
+ * @param option - The Option to unwrap
+ * @param defaultValue - The value to return if the Option is None
+ * @returns The contained value or the default value
+ * @throws TypeError if option is not a valid Option object
+ * @see {@link unwrapOption} for throwing unwrap behavior
+ */
+export function unwrapOptionOr<T>(option: Option<T>, defaultValue: T): T {
+	validateOption(option, "unwrapOptionOr()");
+	return unwrapOptionOrImpl(option, defaultValue);
+}
+
+/**
+ * Pattern matching for Options. Executes the appropriate handler based on Option type.
+ *
+ * @example
+ * ```typescript
+ * const greeting = matchOption(findUser(id), {
+ *   Some: (user) => `Welcome back, ${user.name}`,
+ *   None: () => "Welcome, guest",
+ * });
+ * // Returns: string
+ * ```
+ *
+ * @param option - The Option to match against
+ * @param handlers - Object with Some and None handler functions
+ * @returns The result of the appropriate handler
+ * @throws TypeError if arguments are invalid
+ */
+export function matchOption<T, U, V>(
+	option: Option<T>,
+	handlers: {
+		Some: (value: T) => U;
+		None: () => V;
+	},
+): U | V {
+	validateOption(option, "matchOption()");
+	if (!handlers || typeof handlers !== "object") {
+		throw new TypeError("matchOption(): handlers must be an object");
+	}
+	validateMapper(handlers.Some, "matchOption()", "handlers.Some");
+	validateMapper(handlers.None, "matchOption()", "handlers.None");
+
+	return matchOptionImpl(option, handlers);
+}
+
+// =============================================================================
+// RESULT CONVERSIONS (Individual Exports)
+// =============================================================================
+
+/**
+ * Converts an Option to a Result, using the given error for None.
+ *
+ * @example
+ * ```typescript
+ * const user = okOr(findUser(id), { code: "NOT_FOUND", id });
+ * // Returns: Result<User, { code: string; id: number }>
+ * ```
+ *
+ * @param option - The Option to convert
+ * @param error - Error to use if the Option is None
+ * @returns Ok with the contained value, or Err with the error
+ * @throws TypeError if option is not a valid Option object
+ * @see {@link okOrElse} for lazily computed errors
+ * @see {@link toOption} for the reverse conversion
+ */
+export function okOr<T, E extends Record<string, unknown> | string | Error>(
+	option: Option<T>,
+	error: E,
+): Result<T, E>;
+export function okOr<T, E>(option: Option<T>, error: E): Result<T, E>;
+export function okOr<T, E>(option: Option<T>, error: E): Result<T, E> {
+	validateOption(option, "okOr()");
+	return okOrImpl(option, error);
+}
+
+/**
+ * Converts an Option to a Result, computing the error lazily for None.
+ *
+ * @example
+ * ```typescript
+ * const user = okOrElse(findUser(id), () => new NotFoundError(`User ${id}`));
+ * // Returns: Result<User, NotFoundError> - error only built when missing
+ * ```
+ *
+ * @param option - The Option to convert
+ * @param errorFn - Function producing the error if the Option is None
+ * @returns Ok with the contained value, or Err with the computed error
+ * @throws TypeError if option is not a valid Option object or errorFn is not a function
+ * @see {@link okOr} for eager errors
+ */
+export function okOrElse<T, E extends Record<string, unknown> | string | Error>(
+	option: Option<T>,
+	errorFn: () => E,
+): Result<T, E>;
+export function okOrElse<T, E>(
+	option: Option<T>,
+	errorFn: () => E,
+): Result<T, E>;
+export function okOrElse<T, E>(
+	option: Option<T>,
+	errorFn: () => E,
+): Result<T, E> {
+	validateOption(option, "okOrElse()");
+	validateMapper(errorFn, "okOrElse()", "errorFn");
+	return okOrElseImpl(option, errorFn);
+}
+
+/**
+ * Converts a Result to an Option, discarding the error.
+ *
+ * @example
+ * ```typescript
+ * const cached = toOption(readCache(key));
+ * // Returns: Option<Entry> → Some(entry) for Ok, None for Err
+ * ```
+ *
+ * @param result - The Result to convert
+ * @returns Some with the success value, or None for errors
+ * @throws TypeError if result is not a valid Result object
+ * @see {@link okOr} for the reverse conversion
+ */
+export function toOption<T, E extends Record<string, unknown> | string | Error>(
+	result: Result<T, E>,
+): Option<T>;
+export function toOption<T, E>(result: Result<T, E>): Option<T>;
+export function toOption<T, E>(result: Result<T, E>): Option<T> {
+	validateResult(result, "toOption()");
+	return toOptionImpl(result);
+}
+
+/**
+ * Swaps the nesting of an Option and a Result.
+ * - Option<Result<T, E>> → Result<Option<T>, E>
+ * - Result<Option<T>, E> → Option<Result<T, E>>
+ *
+ * @example
+ * ```typescript
+ * // Optional field that needs validation when present
+ * const age = transpose(mapOption(fromNullableOption(form.age), parseAge));
+ * // Returns: Result<Option<number>, string>
+ * // None → Ok(None), Some(Ok(30)) → Ok(Some(30)), Some(Err(e)) → Err(e)
+ *
+ * const back = transpose(age);
+ * // Returns: Option<Result<number, string>>
+ * ```
+ *
+ * @param value - The Option of Result (or Result of Option) to transpose
+ * @returns The transposed value
+ * @throws TypeError if value is not a valid Option or Result object
+ */
+export function transpose<T, E>(
+	value: Option<Result<T, E>>,
+): Result<Option<T>, E>;
+export function transpose<T, E>(
+	value: Result<Option<T>, E>,
+): Option<Result<T, E>>;
+export function transpose<T, E>(
+	value: Option<Result<T, E>> | Result<Option<T>, E>,
+): Result<Option<T>, E> | Option<Result<T, E>> {
+	if (value && typeof value === "object" && "type" in value) {
+		if (value.type === SOME) {
+			validateResult(value.value, "transpose()", "inner result");
+		} else if (value.type === OK) {
+			validateOption(value.value, "transpose()", "inner option");
+		}
+		if (
+			value.type === NONE ||
+			value.type === SOME ||
+			value.type === ERR ||
+			value.type === OK
+		) {
+			return transposeImpl(value);
+		}
+	}
+	throw new TypeError(
+		`transpose(): Argument must be an Option or Result object, got ${typeof value}`,
+	);
+}
+
+// Re-export Option types for consumers of this layer
+export type { None, Option, Some } from "@/types";
+
+/**
+ * This entry point includes core essentials + Option type operations.
+ *
+ * Use for: modelling absent values without inventing an error value
+ *
+ * Key functions: some(), none(), mapOption(), okOr(), toOption(), transpose()
+ *
+ * Option operations carry an `Option` suffix (mapOption, matchOption, ...) so
+ * they never shadow the Result functions re-exported from the core essentials.
+ *
+ * Common patterns:
+ * - **Lookups**: fromNullableOption() for find/get APIs that return undefined
+ * - **Bridging**: okOr()/okOrElse() when a missing value becomes an error
+ * - **Dropping errors**: toOption() when only presence matters
+ * - **Optional validation**: transpose() to validate a value only when present
+ *
+ * Other available layers:
+ * - `result-ts` → core essentials only
+ * - `result-ts/iter` → core + data transformation
+ * - `result-ts/batch` → core + array processing
+ * - `result-ts/utils` → core + debugging utilities
+ * - `result-ts/patterns` → core + advanced patterns
+ * - `result-ts/schema` → core + Standard Schema validation (Zod, Valibot, ArkType, ...)
+ */
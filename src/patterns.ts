@@ -4,8 +4,35 @@
 // Re-export all core essentials from core module
 export * from "@/core";
 
+// Import the shared implementations - result-ts/unchecked/patterns calls the
+// same functions without the checks
+import {
+	$ as $Impl,
+	apply as applyImpl,
+	applyV as applyVImpl,
+	type Checks,
+	combineAsync as combineAsyncImpl,
+	combine as combineImpl,
+	createChain,
+	createDo,
+	isThenable,
+	safeAsync as safeAsyncImpl,
+	safe as safeImpl,
+	validateAll as validateAllImpl,
+	zipAllErrors as zipAllErrorsImpl,
+	zipAsync as zipAsyncImpl,
+	zip as zipImpl,
+	zipWith as zipWithImpl,
+} from "@/ops";
 // Import types and constants for patterns implementations
-import { ERR, OK, type Result } from "@/types";
+import {
+	ERR,
+	type Err,
+	type NonEmptyArray,
+	OK,
+	type Ok,
+	type Result,
+} from "@/types";
 
 // =============================================================================
 // RUNTIME VALIDATION HELPERS
@@ -84,6 +111,20 @@ const validateMapper = (
 	}
 };
 
+/**
+ * Validates that a parameter is a plain object of named Results.
+ */
+const validateRecord = (record: unknown, functionName: string): void => {
+	if (!record || typeof record !== "object" || Array.isArray(record)) {
+		throw new TypeError(
+			`${functionName}: First argument must be an object of Results, got ${Array.isArray(record) ? "array" : typeof record}`,
+		);
+	}
+};
+
+// validateResult() checks callback and yielded Results, validateMapper() callbacks
+const checks: Checks = { result: validateResult, fn: validateMapper };
+
 // =============================================================================
 // ERGONOMIC HELPERS (Individual Exports)
 // =============================================================================
@@ -137,58 +178,211 @@ export const resultErr = <E>(error: E): Result<never, E> => ({
 });
 
 /**
- * Fluent chain API for composing Result operations without generators.
- * Provides Promise-like method chaining for TypeScript developers who prefer
- * familiar fluent interfaces over generator syntax.
- * Error type constraint ensures consistent error handling through the chain.
+ * Lazy fluent chain for composing Result operations without generators.
+ * Steps are recorded when added and only execute on `.run()` / `.runAsync()`,
+ * so a chain can be built once and run many times.
+ * Chains are not thenable, so `await` on a chain without `runAsync()` is a no-op
+ * rather than a hang.
+ * Each step may return a different error type; errors widen to `E | F`.
  *
  * @example
  * ```typescript
- * // Promise-like fluent chaining with structured errors
- * const userResult: Result<User, ApiError> = fetchUser(1);
- * const result = chain(userResult)
- *   .then(user => getProfile(user))          // Returns Result<Profile, ApiError>
- *   .then(profile => enrichProfile(profile)) // Returns Result<EnhancedProfile, ApiError>
- *   .then(enriched => resultOk({ user: enriched.user, profile: enriched }))
- *   .run();
- * // Type safety: all errors are ApiError with .status, .message, .endpoint
+ * // Sync pipeline: nothing executes until run()
+ * const pipeline = chain(parseConfig(raw))            // Result<Config, ParseError>
+ *   .andThen((config) => validateConfig(config))      // + ValidationError
+ *   .map((config) => config.port)
+ *   .tapErr((error) => logger.warn(error.message));
  *
- * // Database operations with consistent error types
- * const dbResult: Result<Record, DatabaseError> = fetchRecord(id);
- * const processed = chain(dbResult)
- *   .then(record => validateRecord(record))   // Returns Result<ValidRecord, DatabaseError>
- *   .then(valid => transformRecord(valid))    // Returns Result<TransformedRecord, DatabaseError>
- *   .run();
- * // Type safety ensures all errors have .code, .query, .table properties
+ * const port = pipeline.run();
+ * // Returns: Result<number, ParseError | ValidationError>
+ *
+ * // Async steps switch to an AsyncChain that is executed with runAsync()
+ * const profile = await chain(fetchUser(id))           // Promise<Result<User, ApiError>>
+ *   .andThen((user) => loadProfile(user.id))           // Promise<Result<Profile, DbError>>
+ *   .mapErr((error) => ({ code: "PROFILE_UNAVAILABLE", cause: error }))
+ *   .orElse(() => resultOk(defaultProfile))
+ *   .runAsync();
+ * // Returns: Result<Profile, { code: string; cause: ApiError | DbError }>
  * ```
  *
- * @param initial - The initial Result to start the chain (with constrained error type)
- * @returns A chainable interface for Result operations
- * @throws TypeError if initial is not a valid Result object
+ * @param initial - The initial Result (or Promise of a Result) to start the chain
+ * @returns A lazy chainable interface for Result operations
+ * @throws TypeError if initial is not a valid Result object or Promise
  */
+export function chain<T, E extends Record<string, unknown> | string | Error>(
+	initial: Promise<Result<T, E>>,
+): AsyncChain<T, E>;
+export function chain<T, E>(initial: Promise<Result<T, E>>): AsyncChain<T, E>;
 export function chain<T, E extends Record<string, unknown> | string | Error>(
 	initial: Result<T, E>,
 ): Chain<T, E>;
 export function chain<T, E>(initial: Result<T, E>): Chain<T, E>;
-export function chain<T, E>(initial: Result<T, E>): Chain<T, E> {
-	validateResult(initial, "chain()", "initial");
-
-	return {
-		// biome-ignore lint/suspicious/noThenProperty: Intentional Promise-like API
-		then: <U>(fn: (value: T) => Result<U, E>): Chain<U, E> => {
-			validateMapper(fn, "chain().then()", "fn");
-			if (initial.type === ERR) {
-				return chain({ type: ERR, error: initial.error });
-			}
-			return chain(fn(initial.value));
-		},
-		run: (): Result<T, E> => initial,
-	};
+export function chain<T, E>(
+	initial: Result<T, E> | Promise<Result<T, E>>,
+): Chain<T, E> | AsyncChain<T, E> {
+	if (!isThenable(initial)) {
+		validateResult(initial, "chain()", "initial");
+	}
+	return createChain<T, E>(initial, [], checks);
 }
 
-interface Chain<T, E> {
-	then<U>(fn: (value: T) => Result<U, E>): Chain<U, E>;
+/**
+ * Lazy chain of synchronous steps, created by {@link chain}.
+ * Adding an async step turns it into an {@link AsyncChain}.
+ */
+export interface Chain<T, E> {
+	/** Chains a Result-returning step; its error type widens the chain's. */
+	andThen<U, F = E>(
+		fn: (value: T) => Promise<Result<U, F>>,
+	): AsyncChain<U, E | F>;
+	andThen<U, F = E>(fn: (value: T) => Result<U, F>): Chain<U, E | F>;
+	/** Transforms the success value. */
+	map<U>(fn: (value: T) => Promise<U>): AsyncChain<U, E>;
+	map<U>(fn: (value: T) => U): Chain<U, E>;
+	/** Transforms the error value. */
+	mapErr<F>(fn: (error: E) => Promise<F>): AsyncChain<T, F>;
+	mapErr<F>(fn: (error: E) => F): Chain<T, F>;
+	/** Recovers from an error with a new Result. */
+	orElse<U = T, F = never>(
+		fn: (error: E) => Promise<Result<U, F>>,
+	): AsyncChain<T | U, F>;
+	orElse<U = T, F = never>(fn: (error: E) => Result<U, F>): Chain<T | U, F>;
+	/** Runs a side effect on the success value. */
+	tap(fn: (value: T) => Promise<unknown>): AsyncChain<T, E>;
+	tap(fn: (value: T) => unknown): Chain<T, E>;
+	/** Runs a side effect on the error value. */
+	tapErr(fn: (error: E) => Promise<unknown>): AsyncChain<T, E>;
+	tapErr(fn: (error: E) => unknown): Chain<T, E>;
+	/** Executes all steps and returns the final Result. */
 	run(): Result<T, E>;
+	/** Executes all steps, awaiting async ones, and resolves to the final Result. */
+	runAsync(): Promise<Result<T, E>>;
+}
+
+/**
+ * Lazy chain containing at least one async step (or an async initial Result).
+ * Steps may be sync or async; execute it with `runAsync()`.
+ */
+export interface AsyncChain<T, E> {
+	/** Chains a Result-returning step; its error type widens the chain's. */
+	andThen<U, F = E>(
+		fn: (value: T) => Result<U, F> | Promise<Result<U, F>>,
+	): AsyncChain<U, E | F>;
+	/** Transforms the success value. */
+	map<U>(fn: (value: T) => U | Promise<U>): AsyncChain<U, E>;
+	/** Transforms the error value. */
+	mapErr<F>(fn: (error: E) => F | Promise<F>): AsyncChain<T, F>;
+	/** Recovers from an error with a new Result. */
+	orElse<U = T, F = never>(
+		fn: (error: E) => Result<U, F> | Promise<Result<U, F>>,
+	): AsyncChain<T | U, F>;
+	/** Runs a side effect on the success value. */
+	tap(fn: (value: T) => unknown): AsyncChain<T, E>;
+	/** Runs a side effect on the error value. */
+	tapErr(fn: (error: E) => unknown): AsyncChain<T, E>;
+	/** Executes all steps, awaiting async ones, and resolves to the final Result. */
+	runAsync(): Promise<Result<T, E>>;
+}
+
+// =============================================================================
+// DO-NOTATION (Individual Exports)
+// =============================================================================
+
+/** Bindings B with key K set to T (replacing any earlier binding of K). */
+type Bind<B, K extends string, T> = {
+	[P in keyof B | K]: P extends K ? T : P extends keyof B ? B[P] : never;
+};
+
+/** Empty bindings record a Do builder starts from. */
+type NoBindings = Record<never, never>;
+
+/**
+ * Do-notation builder over synchronous steps, created by {@link Do}.
+ * Adding a Promise-returning step turns it into a {@link DoAsync} builder.
+ */
+export interface DoBuilder<B, E> {
+	/** Binds the Ok value of a Result-returning step; its error type widens the builder's. */
+	bind<K extends string, T, F = never>(
+		key: K,
+		fn: (bindings: B) => Promise<Result<T, F>>,
+	): DoAsync<Bind<B, K, T>, E | F>;
+	bind<K extends string, T, F = never>(
+		key: K,
+		fn: (bindings: B) => Result<T, F>,
+	): DoBuilder<Bind<B, K, T>, E | F>;
+	/** Binds a plain computed value. */
+	let<K extends string, T>(
+		key: K,
+		fn: (bindings: B) => Promise<T>,
+	): DoAsync<Bind<B, K, T>, E>;
+	let<K extends string, T>(
+		key: K,
+		fn: (bindings: B) => T,
+	): DoBuilder<Bind<B, K, T>, E>;
+	/** Builds the final value from all bindings. */
+	map<U>(fn: (bindings: B) => Promise<U>): Promise<Result<U, E>>;
+	map<U>(fn: (bindings: B) => U): Result<U, E>;
+	/** Returns the bindings record, or the first error. */
+	run(): Result<B, E>;
+}
+
+/**
+ * Do-notation builder containing at least one async step.
+ * Steps may be sync or async; terminal methods return Promises.
+ */
+export interface DoAsync<B, E> {
+	/** Binds the Ok value of a Result-returning step; its error type widens the builder's. */
+	bind<K extends string, T, F = never>(
+		key: K,
+		fn: (bindings: B) => Result<T, F> | Promise<Result<T, F>>,
+	): DoAsync<Bind<B, K, T>, E | F>;
+	/** Binds a plain computed value. */
+	let<K extends string, T>(
+		key: K,
+		fn: (bindings: B) => T | Promise<T>,
+	): DoAsync<Bind<B, K, T>, E>;
+	/** Builds the final value from all bindings. */
+	map<U>(fn: (bindings: B) => U | Promise<U>): Promise<Result<U, E>>;
+	/** Resolves to the bindings record, or the first error. */
+	run(): Promise<Result<B, E>>;
+}
+
+/**
+ * Starts a Do-notation builder that accumulates named bindings.
+ * Each step sees a typed record of every prior binding, short-circuits on the
+ * first Err (later steps are not called) and widens the error type.
+ * A typed, generator-free alternative to safe(): steps run eagerly as they are
+ * added, and a Promise-returning step switches to an async builder whose
+ * terminal methods return Promises.
+ *
+ * @example
+ * ```typescript
+ * // Sync: every step sees the bindings made so far
+ * const summary = Do()
+ *   .bind("user", () => getUser(id))                           // Result<User, NotFound>
+ *   .bind("profile", ({ user }) => getProfile(user.profileId)) // + ProfileError
+ *   .let("name", ({ user, profile }) => `${user.first} ${profile.last}`)
+ *   .map(({ name, profile }) => ({ name, bio: profile.bio }));
+ * // Returns: Result<{ name: string; bio: string }, NotFound | ProfileError>
+ *
+ * // Async: a Promise-returning step makes the rest async
+ * const order = await Do()
+ *   .bind("cart", () => fetchCart(cartId))                     // Promise<Result<Cart, ApiError>>
+ *   .bind("payment", ({ cart }) => charge(cart.total))         // + PaymentError
+ *   .run();
+ * // Returns: Result<{ cart: Cart; payment: Payment }, ApiError | PaymentError>
+ * ```
+ *
+ * @returns An empty Do builder
+ * @see {@link safe} for generator-based composition
+ * @see {@link chain} for linear pipelines without named bindings
+ */
+export function Do(): DoBuilder<NoBindings, never> {
+	// The node's steps decide at runtime whether it behaves as DoBuilder or DoAsync
+	return createDo({ type: OK, value: {} }, checks) as DoBuilder<
+		NoBindings,
+		never
+	>;
 }
 
 // =============================================================================
@@ -228,6 +422,9 @@ interface Chain<T, E> {
  * @returns Result containing either the final value or the first error
  * @throws TypeError if generator is not a function
  */
+export function safe<Y extends Result<unknown, unknown>, T>(
+	generator: () => Generator<Y, T, unknown>,
+): Result<T, ErrValue<Y>>;
 export function safe<T, E extends Record<string, unknown> | string | Error>(
 	generator: () => Generator<Result<unknown, E>, T, unknown>,
 ): Result<T, E>;
@@ -239,34 +436,7 @@ export function safe<T, E>(
 ): Result<T, E> {
 	validateGeneratorFunction(generator, "safe()");
 
-	const gen = generator();
-	try {
-		let current = gen.next();
-		while (!current.done) {
-			const result = current.value as Result<unknown, E>;
-			// Validate each yielded Result
-			validateResult(result, "safe()", "yielded result");
-			if (result.type === ERR) {
-				try {
-					// biome-ignore lint/suspicious/noExplicitAny: Required for generator cleanup
-					gen.return(undefined as any);
-				} catch {
-					// Just ignore cleanup errors
-				}
-				return { type: ERR, error: result.error };
-			}
-			current = gen.next(result.value);
-		}
-		return { type: OK, value: current.value };
-	} catch (error) {
-		try {
-			// biome-ignore lint/suspicious/noExplicitAny: Required for generator cleanup
-			gen.return(undefined as any);
-		} catch {
-			// intentionally ignore errors
-		}
-		throw error;
-	}
+	return safeImpl(generator, checks);
 }
 
 /**
@@ -299,6 +469,9 @@ export function safe<T, E>(
  * @returns Promise of Result containing final value or first error
  * @throws TypeError if generator is not a function
  */
+export function safeAsync<Y extends Result<unknown, unknown>, T>(
+	generator: () => AsyncGenerator<Y, T, unknown>,
+): Promise<Result<T, ErrValue<Y>>>;
 export function safeAsync<
 	T,
 	E extends Record<string, unknown> | string | Error,
@@ -313,34 +486,53 @@ export async function safeAsync<T, E>(
 ): Promise<Result<T, E>> {
 	validateGeneratorFunction(generator, "safeAsync()");
 
-	const gen = generator();
-	try {
-		let current = await gen.next();
-		while (!current.done) {
-			const result = current.value as Result<unknown, E>;
-			// Validate each yielded Result
-			validateResult(result, "safeAsync()", "yielded result");
-			if (result.type === ERR) {
-				try {
-					// biome-ignore lint/suspicious/noExplicitAny: Required for generator cleanup
-					await gen.return(undefined as any);
-				} catch {
-					// Just ignore cleanup errors
-				}
-				return { type: ERR, error: result.error };
-			}
-			current = await gen.next(result.value);
-		}
-		return { type: OK, value: current.value };
-	} catch (error) {
-		try {
-			// biome-ignore lint/suspicious/noExplicitAny: Required for generator cleanup
-			await gen.return(undefined as any);
-		} catch {
-			// Just ignore cleanup errors
-		}
-		throw error;
+	return safeAsyncImpl(generator, checks);
+}
+
+/**
+ * Wraps a Result (or Promise of a Result) for `yield*` delegation inside safe()
+ * and safeAsync() generators. Unlike a plain `yield`, which TypeScript types as
+ * `unknown`, `yield* $(result)` evaluates to the Ok value type, and the error
+ * type of safe()/safeAsync() is inferred as the union of every wrapped error type.
+ *
+ * @example
+ * ```typescript
+ * const result = safe(function* () {
+ *   const user = yield* $(getUser(id));           // User (not unknown)
+ *   const profile = yield* $(getProfile(user.id)); // Profile
+ *   return { user, profile };
+ * });
+ * // Returns: Result<{ user: User; profile: Profile }, NotFound | ProfileError>
+ *
+ * // Async generators can delegate to Promises of Results directly
+ * const order = await safeAsync(async function* () {
+ *   const cart = yield* $(fetchCart(cartId));      // Cart
+ *   const payment = yield* $(charge(cart.total));  // Payment
+ *   return { cart, payment };
+ * });
+ * // Returns: Result<{ cart: Cart; payment: Payment }, ApiError | PaymentError>
+ * ```
+ *
+ * @param result - Result to unwrap (or Promise of a Result inside safeAsync())
+ * @returns A generator yielding the Result once and returning its Ok value
+ * @throws TypeError if result is not a valid Result object or Promise
+ * @see {@link safe} for running the generator
+ */
+export function $<T, E>(
+	result: PromiseLike<Result<T, E>>,
+): AsyncGenerator<Result<T, E>, T, unknown>;
+export function $<T, E>(
+	result: Result<T, E>,
+): Generator<Result<T, E>, T, unknown>;
+export function $<T, E>(
+	result: Result<T, E> | PromiseLike<Result<T, E>>,
+):
+	| Generator<Result<T, E>, T, unknown>
+	| AsyncGenerator<Result<T, E>, T, unknown> {
+	if (!isThenable(result)) {
+		validateResult(result, "$()");
 	}
+	return $Impl(result);
 }
 
 /**
@@ -372,10 +564,25 @@ export function yieldFn<T, E>(result: Result<T, E>): Result<T, E> {
 	return result;
 }
 
+/** Success value type of a Result (distributes over Ok | Err). */
+type OkValue<R> = R extends Ok<infer T> ? T : never;
+
+/** Error type of a Result (distributes over Ok | Err). */
+type ErrValue<R> = R extends Err<infer E> ? E : never;
+
+/** Tuple of success values for a tuple of Results. */
+type OkValues<Rs extends readonly unknown[]> = {
+	-readonly [K in keyof Rs]: OkValue<Rs[K]>;
+};
+
+/** Object of success values for a record of Results. */
+type OkRecord<R> = { [K in keyof R]: OkValue<R[K]> };
+
 /**
- * Combines two Results into a tuple Result. Fails if either input fails.
- * Useful for operations that need both values to proceed.
- * Error type constraint ensures compatible error handling between both Results.
+ * Combines any number of Results into a tuple Result. Fails with the first
+ * error in argument order. Each position keeps its own value type and the
+ * error type is the union of every input's error type.
+ * Error type constraint ensures compatible error handling for the two-Result form.
  *
  * @example
  * ```typescript
@@ -394,17 +601,17 @@ export function yieldFn<T, E>(result: Result<T, E>): Result<T, E> {
  *   }
  * });
  *
- * // API data combining with structured errors
- * const userResult: Result<User, ApiError> = fetchUser(id);
- * const settingsResult: Result<Settings, ApiError> = fetchSettings(id);
- * const userWithSettings = zip(userResult, settingsResult);
- * // Type safety ensures errors have .status, .endpoint, .message properties
+ * // Five lookups without nesting, mixed error types
+ * const lookups = zip(getUser(id), getSettings(id), getPlan(id), getQuota(id), getFlags(id));
+ * // Returns: Result<[User, Settings, Plan, Quota, Flags], DbError | BillingError | ConfigError>
  * ```
  *
- * @param resultA - First Result to combine (with constrained error type)
- * @param resultB - Second Result to combine (with compatible error type)
- * @returns Result containing tuple of both values or first error
- * @throws TypeError if either result is not a valid Result object
+ * @param results - Results to combine, in order
+ * @returns Result containing the tuple of all values or the first error
+ * @throws TypeError if any argument is not a valid Result object
+ * @see {@link combine} for named (object-shaped) combination
+ * @see {@link zipAsync} for Promise<Result> inputs
+ * @see {@link zipAllErrors} for collecting every error
  */
 export function zip<T, U, E extends Record<string, unknown> | string | Error>(
 	resultA: Result<T, E>,
@@ -414,26 +621,143 @@ export function zip<T, U, E>(
 	resultA: Result<T, E>,
 	resultB: Result<U, E>,
 ): Result<[T, U], E>;
-export function zip<T, U, E>(
-	resultA: Result<T, E>,
-	resultB: Result<U, E>,
-): Result<[T, U], E> {
-	validateResult(resultA, "zip()", "resultA");
-	validateResult(resultB, "zip()", "resultB");
-
-	if (resultA.type === OK && resultB.type === OK) {
-		return { type: OK, value: [resultA.value, resultB.value] };
+export function zip<Rs extends readonly Result<unknown, unknown>[]>(
+	...results: Rs
+): Result<OkValues<Rs>, ErrValue<Rs[number]>>;
+export function zip(
+	...results: Array<Result<unknown, unknown>>
+): Result<unknown[], unknown> {
+	for (let i = 0; i < results.length; i++) {
+		validateResult(
+			results[i] as Result<unknown, unknown>,
+			"zip()",
+			`results[${i}]`,
+		);
 	}
+	return zipImpl(results);
+}
 
-	if (resultA.type === ERR) {
-		return { type: ERR, error: resultA.error };
+/**
+ * Combines a record of named Results into a Result of an object with the same
+ * keys. Fails with the first error in key order. Avoids destructuring
+ * positional tuples when combining many lookups.
+ *
+ * @example
+ * ```typescript
+ * const dashboard = combine({
+ *   user: getUser(id),
+ *   settings: getSettings(id),
+ *   plan: getPlan(id),
+ * });
+ * // Returns: Result<{ user: User; settings: Settings; plan: Plan }, DbError | BillingError>
+ *
+ * if (isOk(dashboard)) render(dashboard.value.user, dashboard.value.plan);
+ * ```
+ *
+ * @param results - Object whose values are Results
+ * @returns Result of the object of values, or the first error
+ * @throws TypeError if results is not an object or contains invalid Results
+ * @see {@link zip} for positional combination
+ * @see {@link combineAsync} for Promise<Result> values
+ * @see {@link validateAll} for collecting every error
+ */
+export function combine<R extends Record<string, Result<unknown, unknown>>>(
+	results: R,
+): Result<OkRecord<R>, ErrValue<R[keyof R]>>;
+export function combine(
+	results: Record<string, Result<unknown, unknown>>,
+): Result<Record<string, unknown>, unknown> {
+	validateRecord(results, "combine()");
+	const keys = Object.keys(results);
+	for (const key of keys) {
+		validateResult(
+			results[key] as Result<unknown, unknown>,
+			"combine()",
+			`results.${key}`,
+		);
 	}
+	return combineImpl(results);
+}
 
-	if (resultB.type === ERR) {
-		return { type: ERR, error: resultB.error };
-	}
+/**
+ * Async counterpart of zip(): awaits every Promise<Result> concurrently, then
+ * combines them into a tuple Result, failing with the first error in argument
+ * order. Plain Results may be mixed in.
+ *
+ * @example
+ * ```typescript
+ * const page = await zipAsync(fetchUser(id), fetchPosts(id), fetchFollowers(id));
+ * // Returns: Result<[User, Post[], User[]], ApiError> - requests run in parallel
+ * ```
+ *
+ * @param promises - Promise<Result> (or Result) values to await and combine
+ * @returns Promise of Result containing the tuple of all values or the first error
+ * @throws TypeError if any awaited value is not a valid Result object
+ * @see {@link zip} for synchronous Results
+ * @see {@link allAsync} in result-ts/batch for arrays of one element type
+ */
+export function zipAsync<
+	Ps extends readonly (
+		| Result<unknown, unknown>
+		| PromiseLike<Result<unknown, unknown>>
+	)[],
+>(
+	...promises: Ps
+): Promise<
+	Result<
+		{ -readonly [K in keyof Ps]: OkValue<Awaited<Ps[K]>> },
+		ErrValue<Awaited<Ps[number]>>
+	>
+>;
+export async function zipAsync(
+	...promises: Array<
+		Result<unknown, unknown> | PromiseLike<Result<unknown, unknown>>
+	>
+): Promise<Result<unknown[], unknown>> {
+	return zipAsyncImpl(promises, checks);
+}
 
-	throw new Error("Unreachable: both results cannot be Ok here");
+/**
+ * Async counterpart of combine(): awaits every Promise<Result> value of the
+ * record concurrently, then builds the object, failing with the first error in
+ * key order. Plain Results may be mixed in.
+ *
+ * @example
+ * ```typescript
+ * const dashboard = await combineAsync({
+ *   user: fetchUser(id),
+ *   notifications: fetchNotifications(id),
+ *   billing: fetchBilling(id),
+ * });
+ * // Returns: Result<{ user: User; notifications: Notification[]; billing: Billing }, ApiError>
+ * ```
+ *
+ * @param promises - Object whose values are Promise<Result> (or Result)
+ * @returns Promise of Result of the object of values, or the first error
+ * @throws TypeError if promises is not an object or an awaited value is not a valid Result
+ * @see {@link combine} for synchronous Results
+ */
+export function combineAsync<
+	R extends Record<
+		string,
+		Result<unknown, unknown> | PromiseLike<Result<unknown, unknown>>
+	>,
+>(
+	promises: R,
+): Promise<
+	Result<
+		{ [K in keyof R]: OkValue<Awaited<R[K]>> },
+		ErrValue<Awaited<R[keyof R]>>
+	>
+>;
+export async function combineAsync(
+	promises: Record<
+		string,
+		Result<unknown, unknown> | PromiseLike<Result<unknown, unknown>>
+	>,
+): Promise<Result<Record<string, unknown>, unknown>> {
+	validateRecord(promises, "combineAsync()");
+	return combineAsyncImpl(promises, checks);
 }
 
 /**
@@ -507,20 +831,7 @@ export function zipWith<T, U, V, E>(
 	validateResult(resultA, "zipWith()", "resultA");
 	validateResult(resultB, "zipWith()", "resultB");
 	validateMapper(combiner, "zipWith()", "combiner");
-
-	if (resultA.type === OK && resultB.type === OK) {
-		return { type: OK, value: combiner(resultA.value, resultB.value) };
-	}
-
-	if (resultA.type === ERR) {
-		return { type: ERR, error: resultA.error };
-	}
-
-	if (resultB.type === ERR) {
-		return { type: ERR, error: resultB.error };
-	}
-
-	throw new Error("Unreachable: both results cannot be Ok here");
+	return zipWithImpl(resultA, resultB, combiner);
 }
 
 /**
@@ -581,30 +892,246 @@ export function apply<T, U, E>(
 ): Result<U, E> {
 	validateResult(resultFn, "apply()", "resultFn");
 	validateResult(resultValue, "apply()", "resultValue");
-
-	if (resultFn.type === ERR) {
-		return { type: ERR, error: resultFn.error };
-	}
-	if (resultValue.type === ERR) {
-		return { type: ERR, error: resultValue.error };
-	}
 	// Both are OK - additional validation that resultFn.value is actually a function
-	if (typeof resultFn.value !== "function") {
+	if (
+		resultFn.type === OK &&
+		resultValue.type === OK &&
+		typeof resultFn.value !== "function"
+	) {
 		throw new TypeError(
 			"apply(): resultFn must contain a function value, got " +
 				typeof resultFn.value,
 		);
 	}
-	return { type: OK, value: resultFn.value(resultValue.value) };
+	return applyImpl(resultFn, resultValue);
 }
 
+// =============================================================================
+// ERROR-ACCUMULATING VALIDATION (Individual Exports)
+// =============================================================================
+
+/**
+ * Combines two Results into a tuple Result, collecting the errors of both.
+ * Unlike zip(), a failure on the left does not hide a failure on the right,
+ * which is what form validation needs. Errors keep argument order, like partition().
+ * Pass `merge` to fold errors into a single E (e.g. concatenating messages).
+ *
+ * @example
+ * ```typescript
+ * const checked = zipAllErrors(validateName(form.name), validateEmail(form.email));
+ * // Returns: Result<[string, string], NonEmptyArray<ValidationError>>
+ * // Both invalid → Err([nameError, emailError])
+ *
+ * // Merge into one error object instead of an array
+ * const merged = zipAllErrors(nameResult, emailResult, (a, b) => ({
+ *   fields: [...a.fields, ...b.fields],
+ * }));
+ * // Returns: Result<[string, string], FormError>
+ * ```
+ *
+ * @param resultA - First Result to combine
+ * @param resultB - Second Result to combine
+ * @param merge - Optional semigroup merge folding errors left to right
+ * @returns Result containing the tuple of both values, or every error
+ * @throws TypeError if either result is not a valid Result object or merge is not a function
+ * @see {@link zip} for fail-fast combination
+ * @see {@link validateAll} for named fields
+ */
+export function zipAllErrors<
+	T,
+	U,
+	E extends Record<string, unknown> | string | Error,
+>(
+	resultA: Result<T, E>,
+	resultB: Result<U, E>,
+	merge: (left: E, right: E) => E,
+): Result<[T, U], E>;
+export function zipAllErrors<T, U, E>(
+	resultA: Result<T, E>,
+	resultB: Result<U, E>,
+	merge: (left: E, right: E) => E,
+): Result<[T, U], E>;
+export function zipAllErrors<
+	T,
+	U,
+	E extends Record<string, unknown> | string | Error,
+>(
+	resultA: Result<T, E>,
+	resultB: Result<U, E>,
+): Result<[T, U], NonEmptyArray<E>>;
+export function zipAllErrors<T, U, E>(
+	resultA: Result<T, E>,
+	resultB: Result<U, E>,
+): Result<[T, U], NonEmptyArray<E>>;
+export function zipAllErrors<T, U, E>(
+	resultA: Result<T, E>,
+	resultB: Result<U, E>,
+	merge?: (left: E, right: E) => E,
+): Result<[T, U], E | NonEmptyArray<E>> {
+	validateResult(resultA, "zipAllErrors()", "resultA");
+	validateResult(resultB, "zipAllErrors()", "resultB");
+	if (merge !== undefined) {
+		validateMapper(merge, "zipAllErrors()", "merge");
+	}
+	return zipAllErrorsImpl(resultA, resultB, merge);
+}
+
+/**
+ * Accumulating version of apply(): applies a function wrapped in a Result to a
+ * value wrapped in a Result, collecting errors from both sides instead of
+ * stopping at the first. The function side carries the errors gathered so far,
+ * so nested applyV() calls over a curried function validate every argument.
+ * With `merge`, both sides use a single E and errors are folded together.
+ *
+ * @example
+ * ```typescript
+ * const createUser = (name: string) => (email: string) => (age: number) => ({ name, email, age });
+ *
+ * const user = applyV(
+ *   applyV(applyV(ok(createUser), validateName(form.name)), validateEmail(form.email)),
+ *   validateAge(form.age),
+ * );
+ * // Returns: Result<User, NonEmptyArray<ValidationError>> - every invalid field reported
+ *
+ * // Semigroup merge: concatenate messages into one string
+ * const joined = applyV(ok(trim), validateName(form.name), (a, b) => `${a}; ${b}`);
+ * ```
+ *
+ * @param resultFn - Result containing a function, or the errors collected so far
+ * @param resultValue - Result containing the argument
+ * @param merge - Optional semigroup merge folding errors left to right
+ * @returns Result containing the application result, or every error
+ * @throws TypeError if either result is invalid, resultFn holds a non-function,
+ *   an accumulated error is not a non-empty array (without merge), or merge is not a function
+ * @see {@link apply} for fail-fast application
+ */
+export function applyV<
+	T,
+	U,
+	E extends Record<string, unknown> | string | Error,
+>(
+	resultFn: Result<(value: T) => U, E>,
+	resultValue: Result<T, E>,
+	merge: (left: E, right: E) => E,
+): Result<U, E>;
+export function applyV<T, U, E>(
+	resultFn: Result<(value: T) => U, E>,
+	resultValue: Result<T, E>,
+	merge: (left: E, right: E) => E,
+): Result<U, E>;
+export function applyV<
+	T,
+	U,
+	E extends Record<string, unknown> | string | Error,
+>(
+	resultFn: Result<(value: T) => U, NonEmptyArray<E>>,
+	resultValue: Result<T, E>,
+): Result<U, NonEmptyArray<E>>;
+export function applyV<T, U, E>(
+	resultFn: Result<(value: T) => U, NonEmptyArray<E>>,
+	resultValue: Result<T, E>,
+): Result<U, NonEmptyArray<E>>;
+export function applyV<T, U, E>(
+	resultFn: Result<(value: T) => U, E | NonEmptyArray<E>>,
+	resultValue: Result<T, E>,
+	merge?: (left: E, right: E) => E,
+): Result<U, E | NonEmptyArray<E>> {
+	validateResult(resultFn, "applyV()", "resultFn");
+	validateResult(resultValue, "applyV()", "resultValue");
+	if (merge !== undefined) {
+		validateMapper(merge, "applyV()", "merge");
+	}
+	if (resultFn.type === OK && typeof resultFn.value !== "function") {
+		throw new TypeError(
+			`applyV(): resultFn must contain a function value, got ${typeof resultFn.value}`,
+		);
+	}
+	if (
+		resultFn.type === ERR &&
+		!merge &&
+		(!Array.isArray(resultFn.error) || resultFn.error.length === 0)
+	) {
+		throw new TypeError(
+			"applyV(): resultFn error must be a non-empty array of accumulated errors (pass merge for single errors)",
+		);
+	}
+	return applyVImpl(resultFn, resultValue, merge);
+}
+
+/**
+ * Validates a record of named Results at once, returning either every value
+ * under its key or every error (in key order). This is the accumulating
+ * counterpart of building an object with zip() and is tailored for forms.
+ * Pass `merge` to fold errors into a single E.
+ *
+ * @example
+ * ```typescript
+ * const form = validateAll({
+ *   name: validateName(input.name),
+ *   email: validateEmail(input.email),
+ *   age: validateAge(input.age),
+ * });
+ * // Returns: Result<{ name: string; email: string; age: number }, NonEmptyArray<FieldError>>
+ *
+ * match(form, {
+ *   Ok: (user) => saveUser(user),
+ *   Err: (errors) => errors.forEach((e) => showFieldError(e.field, e.message)),
+ * });
+ * ```
+ *
+ * @param fields - Object whose values are Results
+ * @param merge - Optional semigroup merge folding errors left to right
+ * @returns Result of the object of values, or every error
+ * @throws TypeError if fields is not an object, contains invalid Results, or merge is not a function
+ * @see {@link zipAllErrors} for two positional Results
+ */
+export function validateAll<R extends Record<string, Result<unknown, unknown>>>(
+	fields: R,
+	merge: (
+		left: ErrValue<R[keyof R]>,
+		right: ErrValue<R[keyof R]>,
+	) => ErrValue<R[keyof R]>,
+): Result<{ [K in keyof R]: OkValue<R[K]> }, ErrValue<R[keyof R]>>;
+export function validateAll<R extends Record<string, Result<unknown, unknown>>>(
+	fields: R,
+): Result<
+	{ [K in keyof R]: OkValue<R[K]> },
+	NonEmptyArray<ErrValue<R[keyof R]>>
+>;
+export function validateAll<E>(
+	fields: Record<string, Result<unknown, E>>,
+	merge?: (left: E, right: E) => E,
+): Result<Record<string, unknown>, E | NonEmptyArray<E>> {
+	if (!fields || typeof fields !== "object" || Array.isArray(fields)) {
+		throw new TypeError(
+			`validateAll(): fields must be an object of Results, got ${Array.isArray(fields) ? "array" : typeof fields}`,
+		);
+	}
+	if (merge !== undefined) {
+		validateMapper(merge, "validateAll()", "merge");
+	}
+	for (const key of Object.keys(fields)) {
+		validateResult(
+			fields[key] as Result<unknown, E>,
+			"validateAll()",
+			`fields.${key}`,
+		);
+	}
+	return validateAllImpl(fields, merge);
+}
+
+// Re-export accumulation types for consumers of this layer
+export type { NonEmptyArray } from "@/types";
+
 /**
  * This entry point includes core essentials + advanced functional patterns.
  *
  * Use for: generator-based error handling, applicative patterns, advanced composition
  *
- * Key functions: safe(), safeAsync(), zip(), apply(), yieldFn()
- * Ergonomic helpers: resultOk(), resultErr(), chain()
+ * Key functions: safe(), safeAsync(), $(), zip(), combine(), apply(), yieldFn()
+ * Async combinators: zipAsync(), combineAsync()
+ * Error accumulation: zipAllErrors(), applyV(), validateAll()
+ * Ergonomic helpers: resultOk(), resultErr(), chain(), Do()
  *
  * Generic constraints ensure type safety:
  * - Error types constrained to meaningful types (Record<string, unknown> | string | Error)
@@ -614,10 +1141,13 @@ export function apply<T, U, E>(
  *
  * Advanced features:
  * - safe() → Rust-style ? operator with generators and consistent error types
- * - zip() → combine multiple Results into tuples with compatible errors
+ * - $() → `yield* $(result)` for typed bindings and inferred error unions in safe()
+ * - zip()/combine() → combine any number of Results into typed tuples or objects
  * - zipWith() →  combines two Results with a function, applying the function to both values if both are successful
  * - apply() → applicative functor patterns with structured error handling
- * - chain() → Promise-like fluent API with error type consistency
+ * - chain() → lazy fluent API with async steps and error type widening
+ * - Do() → typed named bindings without generators, sync or async
+ * - zipAllErrors()/applyV()/validateAll() → report every error (NonEmptyArray<E> or merged E)
  * - resultOk/resultErr → generator typing helpers
  *
  * Other available layers:
@@ -625,5 +1155,5 @@ export function apply<T, U, E>(
  * - `result-ts/iter` → core + data transformation
  * - `result-ts/batch` → core + array processing
  * - `result-ts/utils` → core + debugging utilities
- * - `result-ts/schema` → core + validation with Zod
+ * - `result-ts/schema` → core + Standard Schema validation (Zod, Valibot, ArkType, ...)
  */
@@ -0,0 +1,695 @@
+// result-ts/resilience - Core essentials + resilience patterns
+// Provides retry with backoff and circuit breakers for Result-returning async operations
+
+// Re-export all core essentials from core module
+export * from "@/core";
+
+// Import the shared retry loop - result-ts/unchecked/resilience runs the same
+// loop without checking each attempt's Result
+import { type Checks, retry as retryImpl } from "@/ops";
+// Import types and constants for resilience implementations
+import { ERR, OK, type Result } from "@/types";
+
+// =============================================================================
+// RETRY TYPES
+// =============================================================================
+
+/**
+ * Delay strategy between attempts. Built-in strategies scale the base `delay`;
+ * a custom function receives the number of the attempt that just failed (1-based)
+ * and returns the delay in milliseconds.
+ */
+export type BackoffStrategy =
+	| "exponential"
+	| "linear"
+	| "constant"
+	| ((attempt: number) => number);
+
+/**
+ * Options for {@link retry}.
+ */
+export interface RetryOptions<E> {
+	/** Total number of attempts, including the first one (default: 3). */
+	attempts?: number;
+	/** Base delay in milliseconds (default: 100). */
+	delay?: number;
+	/** How the delay grows between attempts (default: "exponential"). */
+	backoff?: BackoffStrategy;
+	/** Randomizes delays: `true` for full jitter, or the fraction (0-1) of the delay to randomize. */
+	jitter?: boolean | number;
+	/** Upper bound for any single delay in milliseconds (default: no limit). */
+	maxDelay?: number;
+	/** Decides whether an error is worth another attempt (default: always retry). */
+	shouldRetry?: (error: E, attempt: number) => boolean;
+	/** Stops retrying (including any pending delay) when aborted. */
+	signal?: AbortSignal;
+}
+
+/**
+ * Record of one failed attempt made by {@link retry}.
+ */
+export interface RetryAttempt<E> {
+	/** Attempt number (1-based). */
+	attempt: number;
+	/** The error returned by this attempt. */
+	error: E;
+	/** Timestamp (Date.now()) when the attempt started. */
+	startedAt: number;
+	/** How long the attempt took in milliseconds. */
+	durationMs: number;
+	/** Delay waited before the next attempt (0 when no further attempt was made). */
+	delayMs: number;
+}
+
+/**
+ * Why {@link retry} gave up.
+ * - `exhausted`: every allowed attempt failed
+ * - `not-retryable`: shouldRetry() rejected an error
+ * - `aborted`: the signal aborted
+ */
+export type RetryStopReason = "exhausted" | "not-retryable" | "aborted";
+
+/**
+ * Error returned by {@link retry} when the operation never succeeded.
+ * Records every attempt's error and timing; the last error is the `cause`.
+ *
+ * @example
+ * ```typescript
+ * if (isErr(result)) {
+ *   const { attempts, reason, lastError } = result.error;
+ *   logger.warn(`${reason} after ${attempts.length} attempts`, lastError);
+ * }
+ * ```
+ */
+export class RetryError<E> extends Error {
+	override readonly name = "RetryError";
+	readonly _tag = "RetryError";
+
+	constructor(
+		readonly attempts: ReadonlyArray<RetryAttempt<E>>,
+		readonly reason: RetryStopReason,
+		options?: ErrorOptions,
+	) {
+		super(
+			reason === "aborted"
+				? `Retry aborted after ${attempts.length} attempt(s)`
+				: `Operation failed after ${attempts.length} attempt(s)`,
+			options,
+		);
+	}
+
+	/** The error of the last attempt (undefined when aborted before the first attempt). */
+	get lastError(): E | undefined {
+		return this.attempts[this.attempts.length - 1]?.error;
+	}
+}
+
+// =============================================================================
+// CIRCUIT BREAKER TYPES
+// =============================================================================
+
+/**
+ * State of a {@link circuitBreaker}.
+ * - `closed`: calls go through; failures are counted
+ * - `open`: calls are rejected with CircuitOpenError until resetTimeout elapses
+ * - `half-open`: a limited number of trial calls decide whether to close or reopen
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Transition events emitted by a {@link circuitBreaker}.
+ */
+export type CircuitEvent = "open" | "half-open" | "close";
+
+/**
+ * Payload passed to circuit breaker event listeners.
+ */
+export interface CircuitTransition {
+	/** State before the transition. */
+	from: CircuitState;
+	/** State after the transition. */
+	to: CircuitState;
+	/** Clock time of the transition. */
+	at: number;
+	/** Consecutive failures counted when the transition happened. */
+	failures: number;
+}
+
+/**
+ * Options for {@link circuitBreaker}.
+ */
+export interface CircuitBreakerOptions<E> {
+	/** Consecutive failures that open the circuit (default: 5). */
+	failureThreshold?: number;
+	/** Milliseconds the circuit stays open before allowing trial calls (default: 30000). */
+	resetTimeout?: number;
+	/** Concurrent trial calls allowed while half-open (default: 1). */
+	halfOpenMax?: number;
+	/** Decides which errors count as failures (default: every Err). */
+	isFailure?: (error: E) => boolean;
+	/** Clock returning milliseconds (default: Date.now); inject for deterministic tests. */
+	now?: () => number;
+}
+
+/**
+ * Guarded operation returned by {@link circuitBreaker}.
+ */
+export interface CircuitBreaker<Args extends unknown[], T, E> {
+	/** Calls the operation, or returns Err(CircuitOpenError) without calling it while open. */
+	call(...args: Args): Promise<Result<T, E | CircuitOpenError>>;
+	/** Current state (moves from open to half-open once resetTimeout has elapsed). */
+	readonly state: CircuitState;
+	/** Consecutive failures counted so far. */
+	readonly failures: number;
+	/** Subscribes to a transition event; returns an unsubscribe function. Listener errors are ignored. */
+	on(
+		event: CircuitEvent,
+		listener: (transition: CircuitTransition) => void,
+	): () => void;
+	/** Forces the circuit closed and clears the failure count; calls still in flight no longer count as trials. */
+	reset(): void;
+}
+
+/**
+ * Error returned by a {@link circuitBreaker} call that was rejected without
+ * reaching the operation.
+ *
+ * @example
+ * ```typescript
+ * const result = await breaker.call(userId);
+ * if (isErr(result) && result.error instanceof CircuitOpenError) {
+ *   return serveFromCache(userId, { retryAfter: result.error.retryAfterMs });
+ * }
+ * ```
+ */
+export class CircuitOpenError extends Error {
+	override readonly name = "CircuitOpenError";
+	readonly _tag = "CircuitOpenError";
+
+	constructor(
+		readonly state: "open" | "half-open",
+		readonly retryAfterMs: number,
+	) {
+		super(
+			state === "open"
+				? `Circuit is open; calls are rejected for another ${retryAfterMs}ms`
+				: "Circuit is half-open and all trial calls are in progress",
+		);
+	}
+}
+
+// =============================================================================
+// RUNTIME VALIDATION HELPERS
+// =============================================================================
+
+/**
+ * Validates that a parameter is a proper Result object.
+ * Provides helpful error messages for common mistakes.
+ */
+const validateResult = <T, E>(
+	result: Result<T, E>,
+	functionName: string,
+	parameterName: string = "result",
+): void => {
+	if (!result || typeof result !== "object") {
+		throw new TypeError(
+			`${functionName}: ${parameterName} must be a Result object, got ${typeof result}`,
+		);
+	}
+	const resultObj = result as unknown;
+	if (
+		typeof resultObj !== "object" ||
+		resultObj === null ||
+		!("type" in resultObj)
+	) {
+		throw new TypeError(
+			`${functionName}: ${parameterName} must have a 'type' property (Ok or Err)`,
+		);
+	}
+	if (
+		(resultObj as Record<string, unknown>).type !== OK &&
+		(resultObj as Record<string, unknown>).type !== ERR
+	) {
+		throw new TypeError(
+			`${functionName}: Invalid ${parameterName} type '${resultObj.type}', expected '${OK}' or '${ERR}'`,
+		);
+	}
+	if (resultObj.type === OK && !("value" in resultObj)) {
+		throw new TypeError(
+			`${functionName}: Ok ${parameterName} must have a 'value' property`,
+		);
+	}
+	if (resultObj.type === ERR && !("error" in resultObj)) {
+		throw new TypeError(
+			`${functionName}: Err ${parameterName} must have an 'error' property`,
+		);
+	}
+};
+
+/**
+ * Validates that a function parameter is actually a function.
+ */
+const validateFunction = (
+	fn: unknown,
+	functionName: string,
+	parameterName: string = "fn",
+): void => {
+	if (typeof fn !== "function") {
+		throw new TypeError(
+			`${functionName}: ${parameterName} must be a function, got ${typeof fn}`,
+		);
+	}
+};
+
+// validateResult() checks every attempt's Result
+const checks: Checks = { result: validateResult, fn: validateFunction };
+
+/**
+ * Validates that an optional numeric option is a non-negative number.
+ */
+const validateNonNegative = (
+	value: unknown,
+	functionName: string,
+	parameterName: string,
+): void => {
+	if (
+		value !== undefined &&
+		(typeof value !== "number" || Number.isNaN(value) || value < 0)
+	) {
+		throw new TypeError(
+			`${functionName}: ${parameterName} must be a non-negative number, got ${String(value)}`,
+		);
+	}
+};
+
+/**
+ * Validates that an optional signal parameter is an AbortSignal.
+ */
+const validateSignal = (signal: unknown, functionName: string): void => {
+	if (
+		signal !== undefined &&
+		(typeof signal !== "object" ||
+			signal === null ||
+			typeof (signal as AbortSignal).addEventListener !== "function")
+	) {
+		throw new TypeError(`${functionName}: signal must be an AbortSignal`);
+	}
+};
+
+/**
+ * Validates retry() options.
+ */
+const validateRetryOptions = <E>(
+	options: RetryOptions<E>,
+	functionName: string,
+): void => {
+	if (!options || typeof options !== "object") {
+		throw new TypeError(
+			`${functionName}: options must be an object, got ${typeof options}`,
+		);
+	}
+	const { attempts, backoff, jitter, shouldRetry } = options;
+	if (attempts !== undefined && (!Number.isInteger(attempts) || attempts < 1)) {
+		throw new TypeError(
+			`${functionName}: attempts must be a positive integer, got ${String(attempts)}`,
+		);
+	}
+	validateNonNegative(options.delay, functionName, "delay");
+	validateNonNegative(options.maxDelay, functionName, "maxDelay");
+	if (
+		backoff !== undefined &&
+		typeof backoff !== "function" &&
+		backoff !== "exponential" &&
+		backoff !== "linear" &&
+		backoff !== "constant"
+	) {
+		throw new TypeError(
+			`${functionName}: backoff must be 'exponential', 'linear', 'constant' or a function, got ${String(backoff)}`,
+		);
+	}
+	if (
+		jitter !== undefined &&
+		typeof jitter !== "boolean" &&
+		(typeof jitter !== "number" || !(jitter >= 0 && jitter <= 1))
+	) {
+		throw new TypeError(
+			`${functionName}: jitter must be a boolean or a number between 0 and 1, got ${String(jitter)}`,
+		);
+	}
+	if (shouldRetry !== undefined) {
+		validateFunction(shouldRetry, functionName, "shouldRetry");
+	}
+	validateSignal(options.signal, functionName);
+};
+
+/**
+ * Validates circuitBreaker() options.
+ */
+const validateCircuitBreakerOptions = <E>(
+	options: CircuitBreakerOptions<E>,
+	functionName: string,
+): void => {
+	if (!options || typeof options !== "object") {
+		throw new TypeError(
+			`${functionName}: options must be an object, got ${typeof options}`,
+		);
+	}
+	for (const key of ["failureThreshold", "halfOpenMax"] as const) {
+		const value = options[key];
+		if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+			throw new TypeError(
+				`${functionName}: ${key} must be a positive integer, got ${String(value)}`,
+			);
+		}
+	}
+	validateNonNegative(options.resetTimeout, functionName, "resetTimeout");
+	if (options.isFailure !== undefined) {
+		validateFunction(options.isFailure, functionName, "isFailure");
+	}
+	if (options.now !== undefined) {
+		validateFunction(options.now, functionName, "now");
+	}
+};
+
+// =============================================================================
+// RETRY (Individual Exports)
+// =============================================================================
+
+/**
+ * Retries a Result-returning async operation with backoff until it succeeds,
+ * an error is not retryable, attempts run out or the signal aborts.
+ * Every failed attempt is recorded in the returned {@link RetryError}.
+ *
+ * The operation should report failures as Err rather than rejecting (wrap
+ * throwing code with handleAsync/handleWithAsync); rejections are not retried
+ * and propagate to the caller.
+ *
+ * @example
+ * ```typescript
+ * // Map failures to tagged errors, retry only the transient ones
+ * const result = await retry(
+ *   () =>
+ *     handleWithAsync(
+ *       (signal) => fetch(url, { signal }).then((r) => r.json()),
+ *       (error) => (error instanceof TimeoutError ? new Timeout() : new BadResponse()),
+ *       { timeoutMs: 2000 },
+ *     ),
+ *   {
+ *     attempts: 5,
+ *     delay: 200,
+ *     backoff: "exponential", // 200, 400, 800, 1600ms
+ *     jitter: true,
+ *     maxDelay: 1000,
+ *     shouldRetry: retryOn("Timeout"),
+ *   },
+ * );
+ * // Returns: Result<Data, RetryError<Timeout | BadResponse>>
+ * ```
+ *
+ * @param fn - Operation to attempt; receives the attempt number (1-based)
+ * @param options - Attempts, backoff, jitter, maxDelay, shouldRetry and signal
+ * @returns Ok with the first successful value, or Err(RetryError) with every attempt
+ * @throws TypeError if fn is not a function, options are invalid or fn resolves to a non-Result (as a rejected Promise)
+ * @see {@link retryOn} for retrying specific error tags
+ */
+export function retry<T, E extends Record<string, unknown> | string | Error>(
+	fn: (attempt: number) => Promise<Result<T, E>>,
+	options?: RetryOptions<E>,
+): Promise<Result<T, RetryError<E>>>;
+export function retry<T, E>(
+	fn: (attempt: number) => Promise<Result<T, E>>,
+	options?: RetryOptions<E>,
+): Promise<Result<T, RetryError<E>>>;
+export async function retry<T, E>(
+	fn: (attempt: number) => Promise<Result<T, E>>,
+	options: RetryOptions<E> = {},
+): Promise<Result<T, RetryError<E>>> {
+	validateFunction(fn, "retry()");
+	validateRetryOptions(options, "retry()");
+
+	return retryImpl(fn, options, RetryError, checks);
+}
+
+/**
+ * Builds a shouldRetry predicate that retries only errors carrying one of the
+ * given `_tag` values - e.g. tagged errors produced by a handleWithAsync mapper,
+ * or the TimeoutError/AbortError returned by handleAsync cancellation.
+ *
+ * @example
+ * ```typescript
+ * const result = await retry(() => callPaymentApi(order), {
+ *   shouldRetry: retryOn("Timeout", "RateLimited", "TimeoutError"),
+ * });
+ * // Declined/InvalidCard errors fail immediately with reason "not-retryable"
+ * ```
+ *
+ * @param tags - Error tags that are worth retrying
+ * @returns Predicate for RetryOptions.shouldRetry
+ * @throws TypeError if any tag is not a string
+ */
+export const retryOn = (...tags: string[]): ((error: unknown) => boolean) => {
+	for (const tag of tags) {
+		if (typeof tag !== "string") {
+			throw new TypeError(`retryOn(): tags must be strings, got ${typeof tag}`);
+		}
+	}
+	const retryable = new Set(tags);
+	return (error) =>
+		error !== null &&
+		typeof error === "object" &&
+		"_tag" in error &&
+		retryable.has((error as { _tag: unknown })._tag as string);
+};
+
+// =============================================================================
+// CIRCUIT BREAKER (Individual Exports)
+// =============================================================================
+
+/**
+ * Wraps a Result-returning async operation in a circuit breaker.
+ * After `failureThreshold` consecutive failures the circuit opens and calls
+ * return Err(CircuitOpenError) immediately, sparing the failing dependency.
+ * Once `resetTimeout` has elapsed, up to `halfOpenMax` trial calls go through:
+ * a success closes the circuit, a failure opens it again.
+ *
+ * Transitions happen lazily on call()/state reads using the injected clock,
+ * so no timers are left running and tests need no fake timers.
+ * A rejected operation counts as a failure and the rejection is rethrown.
+ *
+ * @example
+ * ```typescript
+ * const breaker = circuitBreaker(
+ *   (id: number) => handleWithAsync(() => inventoryApi.get(id), toInventoryError),
+ *   {
+ *     failureThreshold: 5,
+ *     resetTimeout: 10_000,
+ *     isFailure: (error) => error._tag !== "NotFound", // 404s are not outages
+ *   },
+ * );
+ *
+ * breaker.on("open", ({ failures }) => metrics.increment("inventory.circuit_open"));
+ * breaker.on("close", () => metrics.increment("inventory.circuit_close"));
+ *
+ * const stock = await breaker.call(42);
+ * // Returns: Result<Stock, InventoryError | CircuitOpenError>
+ *
+ * // Combine with retry - open circuits are not worth retrying
+ * const withRetry = await retry(() => breaker.call(42), {
+ *   shouldRetry: (error) => !(error instanceof CircuitOpenError),
+ * });
+ * ```
+ *
+ * @param fn - The operation to guard
+ * @param options - failureThreshold, resetTimeout, halfOpenMax, isFailure and clock
+ * @returns A circuit breaker exposing call(), state, failures, on() and reset()
+ * @throws TypeError if fn is not a function or options are invalid
+ * @see {@link retry} for retrying transient failures
+ */
+export function circuitBreaker<
+	Args extends unknown[],
+	T,
+	E extends Record<string, unknown> | string | Error,
+>(
+	fn: (...args: Args) => Promise<Result<T, E>>,
+	options?: CircuitBreakerOptions<E>,
+): CircuitBreaker<Args, T, E>;
+export function circuitBreaker<Args extends unknown[], T, E>(
+	fn: (...args: Args) => Promise<Result<T, E>>,
+	options?: CircuitBreakerOptions<E>,
+): CircuitBreaker<Args, T, E>;
+export function circuitBreaker<Args extends unknown[], T, E>(
+	fn: (...args: Args) => Promise<Result<T, E>>,
+	options: CircuitBreakerOptions<E> = {},
+): CircuitBreaker<Args, T, E> {
+	validateFunction(fn, "circuitBreaker()");
+	validateCircuitBreakerOptions(options, "circuitBreaker()");
+
+	const failureThreshold = options.failureThreshold ?? 5;
+	const resetTimeout = options.resetTimeout ?? 30_000;
+	const halfOpenMax = options.halfOpenMax ?? 1;
+	const isFailure = options.isFailure ?? (() => true);
+	const now = options.now ?? Date.now;
+
+	const listeners = new Map<
+		CircuitEvent,
+		Set<(transition: CircuitTransition) => void>
+	>();
+	let state: CircuitState = "closed";
+	let failures = 0;
+	let openedAt = 0;
+	let trials = 0;
+	// Bumped whenever trials restart, so calls from an earlier half-open period leave them alone
+	let generation = 0;
+
+	const transition = (to: CircuitState): void => {
+		const from = state;
+		state = to;
+		const event: CircuitEvent = to === "closed" ? "close" : to;
+		const payload: CircuitTransition = { from, to, at: now(), failures };
+		for (const listener of listeners.get(event) ?? []) {
+			try {
+				listener(payload);
+			} catch {
+				// A failing listener must not fail call() or leave the state half-updated
+			}
+		}
+	};
+
+	const refresh = (): CircuitState => {
+		if (state === "open" && now() - openedAt >= resetTimeout) {
+			trials = 0;
+			generation++;
+			transition("half-open");
+		}
+		return state;
+	};
+
+	const open = (): void => {
+		openedAt = now();
+		transition("open");
+	};
+
+	const recordSuccess = (trial: boolean): void => {
+		if (trial && state === "half-open") {
+			failures = 0;
+			transition("closed");
+		} else if (state === "closed") {
+			failures = 0;
+		}
+	};
+
+	const recordFailure = (trial: boolean): void => {
+		if (trial && state === "half-open") {
+			failures++;
+			open();
+		} else if (state === "closed") {
+			failures++;
+			if (failures >= failureThreshold) {
+				open();
+			}
+		}
+	};
+
+	return {
+		call: async (...args: Args): Promise<Result<T, E | CircuitOpenError>> => {
+			const current = refresh();
+			if (current === "open") {
+				return {
+					type: ERR,
+					error: new CircuitOpenError(
+						"open",
+						Math.max(0, openedAt + resetTimeout - now()),
+					),
+				};
+			}
+			const trial = current === "half-open";
+			const trialGeneration = generation;
+			if (trial) {
+				if (trials >= halfOpenMax) {
+					return { type: ERR, error: new CircuitOpenError("half-open", 0) };
+				}
+				trials++;
+			}
+			// Frees the trial slot; false when reset() or a new half-open period started meanwhile
+			const endTrial = (): boolean => {
+				if (!trial || generation !== trialGeneration) return false;
+				trials--;
+				return true;
+			};
+
+			let result: Result<T, E>;
+			try {
+				result = await fn(...args);
+			} catch (thrown) {
+				recordFailure(endTrial());
+				throw thrown;
+			}
+
+			const countsAsTrial = endTrial();
+			if (result.type === ERR && isFailure(result.error)) {
+				recordFailure(countsAsTrial);
+			} else {
+				recordSuccess(countsAsTrial);
+			}
+			return result;
+		},
+		get state() {
+			return refresh();
+		},
+		get failures() {
+			return failures;
+		},
+		on: (event, listener) => {
+			validateFunction(listener, "circuitBreaker().on()", "listener");
+			let eventListeners = listeners.get(event);
+			if (!eventListeners) {
+				eventListeners = new Set();
+				listeners.set(event, eventListeners);
+			}
+			eventListeners.add(listener);
+			return () => {
+				eventListeners.delete(listener);
+			};
+		},
+		reset: () => {
+			failures = 0;
+			trials = 0;
+			generation++;
+			if (state !== "closed") {
+				transition("closed");
+			}
+		},
+	};
+}
+
+/**
+ * This entry point includes core essentials + resilience patterns.
+ *
+ * Use for: flaky networks, rate-limited APIs, transient database errors, failing dependencies
+ *
+ * Key functions: retry(), retryOn(), circuitBreaker()
+ *
+ * Retry semantics:
+ * - `attempts` counts the first call, so `attempts: 3` means up to 2 retries
+ * - Delays: exponential (delay·2ⁿ⁻¹), linear (delay·n), constant or custom, capped by maxDelay
+ * - Jitter only shortens delays, so maxDelay remains a hard upper bound
+ * - The signal cancels pending delays; pass it to the operation as well to cancel in-flight work
+ *
+ * Circuit breaker semantics:
+ * - Only consecutive failures count; any success in the closed state resets the count
+ * - Errors rejected by isFailure() count as successes (e.g. 404s are not outages)
+ * - No timers: open → half-open happens on the first call/state read after resetTimeout
+ *
+ * Other available layers:
+ * - `result-ts` → core essentials only
+ * - `result-ts/iter` → core + data transformation
+ * - `result-ts/batch` → core + array processing
+ * - `result-ts/utils` → core + debugging utilities
+ * - `result-ts/patterns` → core + advanced patterns
+ * - `result-ts/schema` → core + Standard Schema validation (Zod, Valibot, ArkType, ...)
+ * - `result-ts/option` → core + Option type operations
+ * - `result-ts/errors` → core + tagged error toolkit
+ * - `result-ts/async` → core + thenable ResultAsync pipelines
+ * - `result-ts/fp` → core + curried operators with pipe/flow
+ * - `result-ts/serde` → core + structured serialization
+ */
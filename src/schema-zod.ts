@@ -0,0 +1,216 @@
+// result-ts/schema-zod - Core essentials + Zod Result schema builders
+// Kept apart from result-ts/schema so validating with other Standard Schema libraries never pulls in Zod
+
+// Re-export all core essentials from core module
+export * from "@/core";
+
+import { z } from "zod";
+// Import types and constants for schema implementations
+import { ERR, OK } from "@/types";
+
+// =============================================================================
+// RUNTIME VALIDATION HELPERS
+// =============================================================================
+
+/**
+ * Validates that a schema parameter is a Zod schema.
+ * The Result schema builders compose Zod schemas, so they require Zod.
+ */
+const validateZodSchema = (schema: unknown, functionName: string): void => {
+	if (!schema || typeof schema !== "object") {
+		throw new TypeError(
+			`${functionName}: Schema must be a Zod schema object, got ${typeof schema}`,
+		);
+	}
+	// biome-ignore lint/suspicious/noExplicitAny: Required for Zod schema validation
+	if (typeof (schema as any).parse !== "function") {
+		throw new TypeError(
+			`${functionName}: Schema must have a 'parse' method (Zod schema required)`,
+		);
+	}
+	// biome-ignore lint/suspicious/noExplicitAny: Required for Zod schema validation
+	if (typeof (schema as any).safeParse !== "function") {
+		throw new TypeError(
+			`${functionName}: Invalid Zod schema (missing 'safeParse' method)`,
+		);
+	}
+};
+
+// =============================================================================
+// RESULT SCHEMA BUILDERS
+// =============================================================================
+
+/**
+ * Creates a Zod schema for validating Result types.
+ * Useful for API responses that return Result objects or deserializing Results.
+ * Includes runtime validation for better developer experience.
+ *
+ * @example
+ * ```typescript
+ * // API response validation with structured error types
+ * const UserResultSchema = resultSchema(
+ *   z.object({ id: z.number(), name: z.string(), email: z.string() }),
+ *   z.object({ code: z.string(), message: z.string(), timestamp: z.number() })
+ * );
+ *
+ * const apiResponse = { type: "Ok", value: { id: 1, name: "John", email: "john@example.com" } };
+ * const validated = UserResultSchema.parse(apiResponse);
+ * // Returns: Result<User, ApiError> with validated structure
+ *
+ * // Webhook payload validation with detailed error tracking
+ * const WebhookResultSchema = resultSchema(
+ *   z.object({ event: z.string(), data: z.any() }),
+ *   z.object({ errorCode: z.string(), details: z.string() })
+ * );
+ * const webhookResult = WebhookResultSchema.parse(webhookPayload);
+ *
+ * // Database query result validation
+ * const QueryResultSchema = resultSchema(
+ *   z.array(z.object({ id: z.number(), data: z.string() })),
+ *   z.object({ sqlState: z.string(), errorMessage: z.string(), query: z.string() })
+ * );
+ * ```
+ *
+ * @param valueSchema - Schema for the success value type
+ * @param errorSchema - Schema for the error type
+ * @returns Zod schema that validates Result<T, E> objects
+ * @throws TypeError if schemas are not valid Zod schemas
+ * @see {@link stringErrorSchema} for Results with string errors
+ * @see {@link structuredErrorSchema} for Results with structured error objects
+ * @see parseResult() in result-ts/schema for parsing JSON strings containing Result objects
+ */
+export const resultSchema = <T, E>(
+	valueSchema: z.ZodType<T>,
+	errorSchema: z.ZodType<E>,
+) => {
+	validateZodSchema(valueSchema, "resultSchema()");
+	validateZodSchema(errorSchema, "resultSchema()");
+
+	return z.discriminatedUnion("type", [
+		z.object({ type: z.literal(OK), value: valueSchema }),
+		z.object({ type: z.literal(ERR), error: errorSchema }),
+	]);
+};
+
+/**
+ * Creates a Result schema with string error type.
+ * Convenience function for the common case of string errors.
+ * Includes runtime validation for better developer experience.
+ *
+ * @example
+ * ```typescript
+ * // Simple API response validation
+ * const UserResultSchema = stringErrorSchema(
+ *   z.object({ id: z.number(), name: z.string(), email: z.string() })
+ * );
+ *
+ * // Validates: Result<User, string>
+ * const response = { type: "Err", error: "User not found" };
+ * const validated = UserResultSchema.parse(response);
+ *
+ * // Form submission results
+ * const FormResultSchema = stringErrorSchema(
+ *   z.object({ submissionId: z.string(), timestamp: z.number() })
+ * );
+ * ```
+ *
+ * @param valueSchema - Schema for the success value type
+ * @returns Zod schema that validates Result<T, string> objects
+ * @throws TypeError if valueSchema is not a valid Zod schema
+ * @see {@link resultSchema} for custom error types
+ * @see {@link structuredErrorSchema} for structured error objects
+ */
+export const stringErrorSchema = <T>(valueSchema: z.ZodType<T>) => {
+	validateZodSchema(valueSchema, "stringErrorSchema()");
+	return resultSchema(valueSchema, z.string());
+};
+
+/**
+ * Creates a Result schema with number error type.
+ * Useful for HTTP status codes or numeric error codes.
+ * Includes runtime validation for better developer experience.
+ *
+ * @example
+ * ```typescript
+ * // HTTP status code errors
+ * const ApiResponseSchema = numberErrorSchema(
+ *   z.object({ data: z.array(z.any()), meta: z.object({}) })
+ * );
+ *
+ * // Validates: Result<ApiData, number>
+ * const response = { type: "Err", error: 404 };
+ * const validated = ApiResponseSchema.parse(response);
+ *
+ * // System error codes
+ * const ProcessResultSchema = numberErrorSchema(
+ *   z.object({ output: z.string(), exitCode: z.number() })
+ * );
+ * ```
+ *
+ * @param valueSchema - Schema for the success value type
+ * @returns Zod schema that validates Result<T, number> objects
+ * @throws TypeError if valueSchema is not a valid Zod schema
+ * @see {@link resultSchema} for custom error types
+ * @see {@link stringErrorSchema} for string error messages
+ */
+export const numberErrorSchema = <T>(valueSchema: z.ZodType<T>) => {
+	validateZodSchema(valueSchema, "numberErrorSchema()");
+	return resultSchema(valueSchema, z.number());
+};
+
+/**
+ * Creates a Result schema with structured error object.
+ * Ideal for rich error information with codes, messages, and metadata.
+ * Includes runtime validation for better developer experience.
+ *
+ * @example
+ * ```typescript
+ * // Rich error information for API responses
+ * const UserResultSchema = structuredErrorSchema(
+ *   z.object({ id: z.number(), name: z.string(), email: z.string() })
+ * );
+ * // Validates: Result<User, { message: string, code?: number }>
+ *
+ * const response = {
+ *   type: "Err",
+ *   error: { message: "User validation failed", code: 400 }
+ * };
+ * const validated = UserResultSchema.parse(response);
+ *
+ * // Microservice communication with detailed error context
+ * const ServiceCallSchema = structuredErrorSchema(
+ *   z.object({ data: z.any(), requestId: z.string() })
+ * );
+ * ```
+ *
+ * @param valueSchema - Schema for the success value type
+ * @returns Zod schema that validates Result<T, {message: string, code?: number}> objects
+ * @throws TypeError if valueSchema is not a valid Zod schema
+ * @see {@link resultSchema} for custom error types
+ * @see {@link stringErrorSchema} for simple string errors
+ */
+export const structuredErrorSchema = <T>(valueSchema: z.ZodType<T>) => {
+	validateZodSchema(valueSchema, "structuredErrorSchema()");
+	return resultSchema(
+		valueSchema,
+		z.object({
+			message: z.string(),
+			code: z.number().optional(),
+		}),
+	);
+};
+
+/**
+ * This entry point includes core essentials + Zod schemas for Result objects.
+ *
+ * Use for: validating Results that cross a process boundary (API responses,
+ * queues, stored payloads) with Zod
+ *
+ * Key functions: resultSchema(), stringErrorSchema(), numberErrorSchema(), structuredErrorSchema()
+ *
+ * Requires: Zod (^3.25.67)
+ *
+ * Other available layers:
+ * - `result-ts` → core essentials only
+ * - `result-ts/schema` → core + Standard Schema validation (Zod, Valibot, ArkType, ...)
+ */
@@ -1,37 +1,107 @@
-// result-ts/schema - Core essentials + Zod validation integration
-// Provides runtime validation and JSON parsing with Result types
+// result-ts/schema - Core essentials + schema validation integration
+// Provides runtime validation and JSON parsing with Result types for any Standard Schema validator
 
 // Re-export all core essentials from core module
 export * from "@/core";
 
-import { z } from "zod"; // Fixed: Removed 'type' keyword for runtime usage
-// Import types and constants for schema implementations
-import { ERR, OK, type Result } from "@/types";
+// Zod is referenced for types only
+import type { z } from "zod";
+// Import the shared implementations - result-ts/unchecked/schema calls the
+// same functions without checking their arguments
+import {
+	parseJsonAsync as parseJsonAsyncImpl,
+	parseJson as parseJsonImpl,
+	parseResultAsync as parseResultAsyncImpl,
+	parseResult as parseResultImpl,
+	validateAsync as validateAsyncImpl,
+	validate as validateImpl,
+	validateWithAsync as validateWithAsyncImpl,
+	validateWith as validateWithImpl,
+} from "@/ops";
+// The deprecated builder re-exports below are tree-shaken away by bundlers when unused
+import {
+	numberErrorSchema as numberErrorSchemaZod,
+	resultSchema as resultSchemaZod,
+	stringErrorSchema as stringErrorSchemaZod,
+	structuredErrorSchema as structuredErrorSchemaZod,
+} from "@/schema-zod";
+// Import types for schema implementations
+import type { Result } from "@/types";
+
+// =============================================================================
+// STANDARD SCHEMA TYPES
+// =============================================================================
+
+/**
+ * The Standard Schema interface (https://standardschema.dev) implemented by
+ * Zod, Valibot, ArkType and other validators. Declared here so validating
+ * needs no particular validator package.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+	readonly "~standard": StandardSchemaProps<Input, Output>;
+}
+
+/**
+ * The `~standard` property of a Standard Schema.
+ */
+export interface StandardSchemaProps<Input = unknown, Output = Input> {
+	readonly version: 1;
+	readonly vendor: string;
+	readonly validate: (
+		value: unknown,
+	) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+	readonly types?:
+		| { readonly input: Input; readonly output: Output }
+		| undefined;
+}
+
+/**
+ * Outcome of a Standard Schema validation: the output value or the issues found.
+ */
+export type StandardSchemaResult<Output> =
+	| { readonly value: Output; readonly issues?: undefined }
+	| StandardSchemaFailure;
+
+/**
+ * Failed Standard Schema validation, passed to error mappers of non-Zod schemas.
+ */
+export interface StandardSchemaFailure {
+	readonly issues: ReadonlyArray<StandardSchemaIssue>;
+}
+
+/**
+ * A single validation problem and where in the input it occurred.
+ */
+export interface StandardSchemaIssue {
+	readonly message: string;
+	readonly path?:
+		| ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>
+		| undefined;
+}
 
 // =============================================================================
 // RUNTIME VALIDATION HELPERS
 // =============================================================================
 
 /**
- * Validates that a schema parameter is a Zod schema.
+ * Validates that a schema parameter implements Standard Schema.
  * Provides helpful error messages for common mistakes.
  */
 const validateSchema = (schema: unknown, functionName: string): void => {
-	if (!schema || typeof schema !== "object") {
+	// ArkType schemas are functions, so both objects and functions are accepted
+	if (!schema || (typeof schema !== "object" && typeof schema !== "function")) {
 		throw new TypeError(
-			`${functionName}: Schema must be a Zod schema object, got ${typeof schema}`,
+			`${functionName}: Schema must be a Standard Schema (Zod, Valibot, ArkType, ...), got ${typeof schema}`,
 		);
 	}
-	// biome-ignore lint/suspicious/noExplicitAny: Required for Zod schema validation
-	if (typeof (schema as any).parse !== "function") {
+	const standard = (schema as Record<string, unknown>)["~standard"];
+	if (
+		!standard ||
+		typeof standard !== "object" ||
+		typeof (standard as Record<string, unknown>).validate !== "function"
+	) {
 		throw new TypeError(
-			`${functionName}: Schema must have a 'parse' method (Zod schema required)`,
-		);
-	}
-	// biome-ignore lint/suspicious/noExplicitAny: Required for Zod schema validation
-	if (typeof (schema as any).safeParse !== "function") {
-		throw new TypeError(
-			`${functionName}: Invalid Zod schema (missing 'safeParse' method)`,
+			`${functionName}: Schema must have a '~standard.validate' method (Standard Schema required)`,
 		);
 	}
 };
@@ -70,7 +140,8 @@ const validateJsonString = (
 // =============================================================================
 
 /**
- * Validates data against a Zod schema and returns a Result.
+ * Validates data against a schema and returns a Result.
+ * Accepts Zod or any other Standard Schema validator (Valibot, ArkType, ...).
  * Provides overloaded signatures for optimal type inference when error types are constrained.
  * Includes runtime validation for better developer experience.
  *
@@ -114,26 +185,23 @@ const validateJsonString = (
  * ```
  *
  * @param data - Data to validate against the schema
- * @param schema - Zod schema to validate against
+ * @param schema - Zod or other Standard Schema to validate against
  * @returns Result containing validated data or validation error message
- * @throws TypeError if schema is not a valid Zod schema
+ * @throws TypeError if schema is not a Standard Schema, or validates asynchronously
  * @see {@link validateWith} for custom error mapping
  * @see {@link validateAsync} for asynchronous validation
  */
 export function validate<T>(
 	data: unknown,
-	schema: z.ZodType<T>,
+	schema: StandardSchemaV1<unknown, T>,
 ): Result<T, string> {
 	validateSchema(schema, "validate()");
-
-	const result = schema.safeParse(data);
-	return result.success
-		? { type: OK, value: result.data }
-		: { type: ERR, error: `Validation failed: ${result.error.message}` };
+	return validateImpl(data, schema);
 }
 
 /**
- * Validates data asynchronously against a Zod schema and returns a Result.
+ * Validates data asynchronously against a schema and returns a Result.
+ * Accepts Zod or any other Standard Schema validator, including async-only ones.
  * Essential for schemas with async refinements or transformations.
  * Includes runtime validation for better developer experience.
  *
@@ -176,27 +244,25 @@ export function validate<T>(
  * ```
  *
  * @param data - Data to validate against the schema
- * @param schema - Zod schema to validate against
+ * @param schema - Zod or other Standard Schema to validate against
  * @returns Promise of Result containing validated data or validation error message
- * @throws TypeError if schema is not a valid Zod schema
+ * @throws TypeError if schema is not a Standard Schema
  * @see {@link validate} for synchronous validation
  * @see {@link validateWithAsync} for async validation with custom error mapping
  */
 export async function validateAsync<T>(
 	data: unknown,
-	schema: z.ZodType<T>,
+	schema: StandardSchemaV1<unknown, T>,
 ): Promise<Result<T, string>> {
 	validateSchema(schema, "validateAsync()");
-
-	const result = await schema.safeParseAsync(data);
-	return result.success
-		? { type: OK, value: result.data }
-		: { type: ERR, error: `Validation failed: ${result.error.message}` };
+	return validateAsyncImpl(data, schema);
 }
 
 /**
  * Validates data with custom error mapping.
- * Combines Zod validation with application-specific error handling.
+ * Combines schema validation with application-specific error handling.
+ * Zod schemas pass their ZodError to errorMapper; other Standard Schema
+ * validators pass their failure result (`{ issues }`).
  * Constrains error types to ensure meaningful custom error structure.
  * Includes runtime validation for better developer experience.
  *
@@ -241,11 +307,17 @@ export async function validateAsync<T>(
  *   fields: zodError.issues.map(i => i.path.join(".")),
  *   originalError: zodError
  * });
+ *
+ * // Valibot, ArkType and other Standard Schema validators
+ * const signup = validateWith(body, v.object({ email: v.pipe(v.string(), v.email()) }), (failure) => ({
+ *   code: "INVALID_SIGNUP",
+ *   messages: failure.issues.map((issue) => issue.message)
+ * }));
  * ```
  *
  * @param data - Data to validate against the schema
- * @param schema - Zod schema to validate against
- * @param errorMapper - Function to transform ZodError into custom error type (constrained to meaningful types)
+ * @param schema - Zod or other Standard Schema to validate against
+ * @param errorMapper - Function to transform the ZodError (or Standard Schema failure) into a custom error type
  * @returns Result containing validated data or custom error
  * @throws TypeError if schema is not valid or errorMapper is not a function
  * @see {@link validate} for basic string error validation
@@ -264,18 +336,27 @@ export function validateWith<T, E>(
 	schema: z.ZodType<T>,
 	errorMapper: (zodError: z.ZodError) => E,
 ): Result<T, E>;
+export function validateWith<
+	T,
+	E extends Record<string, unknown> | string | Error,
+>(
+	data: unknown,
+	schema: StandardSchemaV1<unknown, T>,
+	errorMapper: (failure: StandardSchemaFailure) => E,
+): Result<T, E>;
 export function validateWith<T, E>(
 	data: unknown,
-	schema: z.ZodType<T>,
+	schema: StandardSchemaV1<unknown, T>,
+	errorMapper: (failure: StandardSchemaFailure) => E,
+): Result<T, E>;
+export function validateWith<T, E>(
+	data: unknown,
+	schema: StandardSchemaV1<unknown, T>,
 	errorMapper: (zodError: z.ZodError) => E,
 ): Result<T, E> {
 	validateSchema(schema, "validateWith()");
 	validateMapper(errorMapper, "validateWith()");
-
-	const result = schema.safeParse(data);
-	return result.success
-		? { type: OK, value: result.data }
-		: { type: ERR, error: errorMapper(result.error) };
+	return validateWithImpl(data, schema, errorMapper);
 }
 
 /**
@@ -328,8 +409,8 @@ export function validateWith<T, E>(
  * ```
  *
  * @param data - Data to validate against the schema
- * @param schema - Zod schema to validate against
- * @param errorMapper - Function to transform ZodError into custom error type (constrained to meaningful types)
+ * @param schema - Zod or other Standard Schema to validate against
+ * @param errorMapper - Function to transform the ZodError (or Standard Schema failure) into a custom error type
  * @returns Promise of Result containing validated data or custom mapped error
  * @throws TypeError if schema is not valid or errorMapper is not a function
  * @see {@link validateWith} for synchronous version with custom error mapping
@@ -348,18 +429,27 @@ export function validateWithAsync<T, E>(
 	schema: z.ZodType<T>,
 	errorMapper: (zodError: z.ZodError) => E,
 ): Promise<Result<T, E>>;
+export function validateWithAsync<
+	T,
+	E extends Record<string, unknown> | string | Error,
+>(
+	data: unknown,
+	schema: StandardSchemaV1<unknown, T>,
+	errorMapper: (failure: StandardSchemaFailure) => E,
+): Promise<Result<T, E>>;
+export function validateWithAsync<T, E>(
+	data: unknown,
+	schema: StandardSchemaV1<unknown, T>,
+	errorMapper: (failure: StandardSchemaFailure) => E,
+): Promise<Result<T, E>>;
 export async function validateWithAsync<T, E>(
 	data: unknown,
-	schema: z.ZodType<T>,
+	schema: StandardSchemaV1<unknown, T>,
 	errorMapper: (zodError: z.ZodError) => E,
 ): Promise<Result<T, E>> {
 	validateSchema(schema, "validateWithAsync()");
 	validateMapper(errorMapper, "validateWithAsync()");
-
-	const result = await schema.safeParseAsync(data);
-	return result.success
-		? { type: OK, value: result.data }
-		: { type: ERR, error: errorMapper(result.error) };
+	return validateWithAsyncImpl(data, schema, errorMapper);
 }
 
 // =============================================================================
@@ -367,7 +457,7 @@ export async function validateWithAsync<T, E>(
 // =============================================================================
 
 /**
- * Parses JSON and validates the result with a Zod schema.
+ * Parses JSON and validates the result with a schema (Zod or any Standard Schema).
  * Combines JSON parsing with validation in a single Result operation.
  * Includes runtime validation for better developer experience.
  *
@@ -412,7 +502,7 @@ export async function validateWithAsync<T, E>(
  * ```
  *
  * @param jsonString - JSON string to parse and validate
- * @param schema - Zod schema to validate the parsed data against
+ * @param schema - Zod or other Standard Schema to validate the parsed data against
  * @returns Result containing validated parsed data or error message
  * @throws TypeError if jsonString is not a string or schema is not valid
  * @see {@link parseJsonAsync} for async version with async schemas
@@ -420,30 +510,15 @@ export async function validateWithAsync<T, E>(
  */
 export function parseJson<T>(
 	jsonString: string,
-	schema: z.ZodType<T>,
+	schema: StandardSchemaV1<unknown, T>,
 ): Result<T, string> {
 	validateJsonString(jsonString, "parseJson()");
 	validateSchema(schema, "parseJson()");
-
-	try {
-		const parsed = JSON.parse(jsonString);
-		const validationResult = schema.safeParse(parsed);
-		return validationResult.success
-			? { type: OK, value: validationResult.data }
-			: {
-					type: ERR,
-					error: `Validation failed: ${validationResult.error.message}`,
-				};
-	} catch (error) {
-		return {
-			type: ERR,
-			error: `Invalid JSON: ${error instanceof Error ? error.message : "Unknown error"}`,
-		};
-	}
+	return parseJsonImpl(jsonString, schema);
 }
 
 /**
- * Parses JSON asynchronously and validates with a Zod schema.
+ * Parses JSON asynchronously and validates with a schema (Zod or any Standard Schema).
  * Essential for schemas with async refinements.
  * Includes runtime validation for better developer experience.
  *
@@ -468,7 +543,7 @@ export function parseJson<T>(
  * ```
  *
  * @param jsonString - JSON string to parse and validate
- * @param schema - Zod schema to validate the parsed data against
+ * @param schema - Zod or other Standard Schema to validate the parsed data against
  * @returns Promise of Result containing validated parsed data or error message
  * @throws TypeError if jsonString is not a string or schema is not valid
  * @see {@link parseJson} for synchronous version
@@ -476,192 +551,13 @@ export function parseJson<T>(
  */
 export async function parseJsonAsync<T>(
 	jsonString: string,
-	schema: z.ZodType<T>,
+	schema: StandardSchemaV1<unknown, T>,
 ): Promise<Result<T, string>> {
 	validateJsonString(jsonString, "parseJsonAsync()");
 	validateSchema(schema, "parseJsonAsync()");
-
-	try {
-		const parsed = JSON.parse(jsonString);
-		const validationResult = await schema.safeParseAsync(parsed);
-		return validationResult.success
-			? { type: OK, value: validationResult.data }
-			: {
-					type: ERR,
-					error: `Validation failed: ${validationResult.error.message}`,
-				};
-	} catch (error) {
-		return {
-			type: ERR,
-			error: `Invalid JSON: ${error instanceof Error ? error.message : "Unknown error"}`,
-		};
-	}
+	return parseJsonAsyncImpl(jsonString, schema);
 }
 
-// =============================================================================
-// SCHEMA BUILDERS (Individual Exports)
-// =============================================================================
-
-/**
- * Creates a Zod schema for validating Result types.
- * Useful for API responses that return Result objects or deserializing Results.
- * Includes runtime validation for better developer experience.
- *
- * @example
- * ```typescript
- * // API response validation with structured error types
- * const UserResultSchema = resultSchema(
- *   z.object({ id: z.number(), name: z.string(), email: z.string() }),
- *   z.object({ code: z.string(), message: z.string(), timestamp: z.number() })
- * );
- *
- * const apiResponse = { type: "Ok", value: { id: 1, name: "John", email: "john@example.com" } };
- * const validated = UserResultSchema.parse(apiResponse);
- * // Returns: Result<User, ApiError> with validated structure
- *
- * // Webhook payload validation with detailed error tracking
- * const WebhookResultSchema = resultSchema(
- *   z.object({ event: z.string(), data: z.any() }),
- *   z.object({ errorCode: z.string(), details: z.string() })
- * );
- * const webhookResult = WebhookResultSchema.parse(webhookPayload);
- *
- * // Database query result validation
- * const QueryResultSchema = resultSchema(
- *   z.array(z.object({ id: z.number(), data: z.string() })),
- *   z.object({ sqlState: z.string(), errorMessage: z.string(), query: z.string() })
- * );
- * ```
- *
- * @param valueSchema - Schema for the success value type
- * @param errorSchema - Schema for the error type
- * @returns Zod schema that validates Result<T, E> objects
- * @throws TypeError if schemas are not valid Zod schemas
- * @see {@link stringErrorSchema} for Results with string errors
- * @see {@link structuredErrorSchema} for Results with structured error objects
- * @see {@link parseResult} for parsing JSON strings containing Result objects
- */
-export const resultSchema = <T, E>(
-	valueSchema: z.ZodType<T>,
-	errorSchema: z.ZodType<E>,
-) => {
-	validateSchema(valueSchema, "resultSchema()");
-	validateSchema(errorSchema, "resultSchema()");
-
-	return z.discriminatedUnion("type", [
-		z.object({ type: z.literal(OK), value: valueSchema }),
-		z.object({ type: z.literal(ERR), error: errorSchema }),
-	]);
-};
-
-/**
- * Creates a Result schema with string error type.
- * Convenience function for the common case of string errors.
- * Includes runtime validation for better developer experience.
- *
- * @example
- * ```typescript
- * // Simple API response validation
- * const UserResultSchema = stringErrorSchema(
- *   z.object({ id: z.number(), name: z.string(), email: z.string() })
- * );
- *
- * // Validates: Result<User, string>
- * const response = { type: "Err", error: "User not found" };
- * const validated = UserResultSchema.parse(response);
- *
- * // Form submission results
- * const FormResultSchema = stringErrorSchema(
- *   z.object({ submissionId: z.string(), timestamp: z.number() })
- * );
- * ```
- *
- * @param valueSchema - Schema for the success value type
- * @returns Zod schema that validates Result<T, string> objects
- * @throws TypeError if valueSchema is not a valid Zod schema
- * @see {@link resultSchema} for custom error types
- * @see {@link structuredErrorSchema} for structured error objects
- */
-export const stringErrorSchema = <T>(valueSchema: z.ZodType<T>) => {
-	validateSchema(valueSchema, "stringErrorSchema()");
-	return resultSchema(valueSchema, z.string());
-};
-
-/**
- * Creates a Result schema with number error type.
- * Useful for HTTP status codes or numeric error codes.
- * Includes runtime validation for better developer experience.
- *
- * @example
- * ```typescript
- * // HTTP status code errors
- * const ApiResponseSchema = numberErrorSchema(
- *   z.object({ data: z.array(z.any()), meta: z.object({}) })
- * );
- *
- * // Validates: Result<ApiData, number>
- * const response = { type: "Err", error: 404 };
- * const validated = ApiResponseSchema.parse(response);
- *
- * // System error codes
- * const ProcessResultSchema = numberErrorSchema(
- *   z.object({ output: z.string(), exitCode: z.number() })
- * );
- * ```
- *
- * @param valueSchema - Schema for the success value type
- * @returns Zod schema that validates Result<T, number> objects
- * @throws TypeError if valueSchema is not a valid Zod schema
- * @see {@link resultSchema} for custom error types
- * @see {@link stringErrorSchema} for string error messages
- */
-export const numberErrorSchema = <T>(valueSchema: z.ZodType<T>) => {
-	validateSchema(valueSchema, "numberErrorSchema()");
-	return resultSchema(valueSchema, z.number());
-};
-
-/**
- * Creates a Result schema with structured error object.
- * Ideal for rich error information with codes, messages, and metadata.
- * Includes runtime validation for better developer experience.
- *
- * @example
- * ```typescript
- * // Rich error information for API responses
- * const UserResultSchema = structuredErrorSchema(
- *   z.object({ id: z.number(), name: z.string(), email: z.string() })
- * );
- * // Validates: Result<User, { message: string, code?: number }>
- *
- * const response = {
- *   type: "Err",
- *   error: { message: "User validation failed", code: 400 }
- * };
- * const validated = UserResultSchema.parse(response);
- *
- * // Microservice communication with detailed error context
- * const ServiceCallSchema = structuredErrorSchema(
- *   z.object({ data: z.any(), requestId: z.string() })
- * );
- * ```
- *
- * @param valueSchema - Schema for the success value type
- * @returns Zod schema that validates Result<T, {message: string, code?: number}> objects
- * @throws TypeError if valueSchema is not a valid Zod schema
- * @see {@link resultSchema} for custom error types
- * @see {@link stringErrorSchema} for simple string errors
- */
-export const structuredErrorSchema = <T>(valueSchema: z.ZodType<T>) => {
-	validateSchema(valueSchema, "structuredErrorSchema()");
-	return resultSchema(
-		valueSchema,
-		z.object({
-			message: z.string(),
-			code: z.number().optional(),
-		}),
-	);
-};
-
 // =============================================================================
 // RESULT PARSING OPERATIONS (Individual Exports)
 // =============================================================================
@@ -711,62 +607,13 @@ export const structuredErrorSchema = <T>(valueSchema: z.ZodType<T>) => {
  */
 export function parseResult<T, E>(
 	jsonString: string,
-	valueSchema: z.ZodType<T>,
-	errorSchema: z.ZodType<E>,
+	valueSchema: StandardSchemaV1<unknown, T>,
+	errorSchema: StandardSchemaV1<unknown, E>,
 ): Result<Result<T, E>, string> {
 	validateJsonString(jsonString, "parseResult()");
 	validateSchema(valueSchema, "parseResult()");
 	validateSchema(errorSchema, "parseResult()");
-
-	try {
-		const parsed = JSON.parse(jsonString);
-
-		if (!parsed || typeof parsed !== "object" || !("type" in parsed)) {
-			return {
-				type: ERR,
-				error: "Invalid Result structure: missing 'type' field",
-			};
-		}
-
-		if (parsed.type === OK) {
-			if (!("value" in parsed)) {
-				return { type: ERR, error: "Invalid Ok Result: missing 'value' field" };
-			}
-			const valueValidation = valueSchema.safeParse(parsed.value);
-			if (!valueValidation.success) {
-				return {
-					type: ERR,
-					error: `Invalid Ok value: ${valueValidation.error.message}`,
-				};
-			}
-			return { type: OK, value: { type: OK, value: valueValidation.data } };
-		} else if (parsed.type === ERR) {
-			if (!("error" in parsed)) {
-				return {
-					type: ERR,
-					error: "Invalid Err Result: missing 'error' field",
-				};
-			}
-			const errorValidation = errorSchema.safeParse(parsed.error);
-			if (!errorValidation.success) {
-				return {
-					type: ERR,
-					error: `Invalid Err value: ${errorValidation.error.message}`,
-				};
-			}
-			return { type: OK, value: { type: ERR, error: errorValidation.data } };
-		} else {
-			return {
-				type: ERR,
-				error: `Invalid Result type: expected '${OK}' or '${ERR}', got '${parsed.type}'`,
-			};
-		}
-	} catch (error) {
-		return {
-			type: ERR,
-			error: `Invalid JSON: ${error instanceof Error ? error.message : "Unknown error"}`,
-		};
-	}
+	return parseResultImpl(jsonString, valueSchema, errorSchema);
 }
 
 /**
@@ -801,70 +648,45 @@ export function parseResult<T, E>(
  */
 export async function parseResultAsync<T, E>(
 	jsonString: string,
-	valueSchema: z.ZodType<T>,
-	errorSchema: z.ZodType<E>,
+	valueSchema: StandardSchemaV1<unknown, T>,
+	errorSchema: StandardSchemaV1<unknown, E>,
 ): Promise<Result<Result<T, E>, string>> {
 	validateJsonString(jsonString, "parseResultAsync()");
 	validateSchema(valueSchema, "parseResultAsync()");
 	validateSchema(errorSchema, "parseResultAsync()");
+	return parseResultAsyncImpl(jsonString, valueSchema, errorSchema);
+}
 
-	try {
-		const parsed = JSON.parse(jsonString);
+// =============================================================================
+// DEPRECATED ZOD RESULT SCHEMAS
+// =============================================================================
 
-		if (!parsed || typeof parsed !== "object" || !("type" in parsed)) {
-			return {
-				type: ERR,
-				error: "Invalid Result structure: missing 'type' field",
-			};
-		}
+/**
+ * @deprecated Import resultSchema() from `result-ts/schema-zod` instead.
+ */
+export const resultSchema = resultSchemaZod;
 
-		if (parsed.type === OK) {
-			if (!("value" in parsed)) {
-				return { type: ERR, error: "Invalid Ok Result: missing 'value' field" };
-			}
-			const valueValidation = await valueSchema.safeParseAsync(parsed.value);
-			if (!valueValidation.success) {
-				return {
-					type: ERR,
-					error: `Invalid Ok value: ${valueValidation.error.message}`,
-				};
-			}
-			return { type: OK, value: { type: OK, value: valueValidation.data } };
-		} else if (parsed.type === ERR) {
-			if (!("error" in parsed)) {
-				return {
-					type: ERR,
-					error: "Invalid Err Result: missing 'error' field",
-				};
-			}
-			const errorValidation = await errorSchema.safeParseAsync(parsed.error);
-			if (!errorValidation.success) {
-				return {
-					type: ERR,
-					error: `Invalid Err value: ${errorValidation.error.message}`,
-				};
-			}
-			return { type: OK, value: { type: ERR, error: errorValidation.data } };
-		} else {
-			return {
-				type: ERR,
-				error: `Invalid Result type: expected '${OK}' or '${ERR}', got '${parsed.type}'`,
-			};
-		}
-	} catch (error) {
-		return {
-			type: ERR,
-			error: `Invalid JSON: ${error instanceof Error ? error.message : "Unknown error"}`,
-		};
-	}
-}
+/**
+ * @deprecated Import stringErrorSchema() from `result-ts/schema-zod` instead.
+ */
+export const stringErrorSchema = stringErrorSchemaZod;
+
+/**
+ * @deprecated Import numberErrorSchema() from `result-ts/schema-zod` instead.
+ */
+export const numberErrorSchema = numberErrorSchemaZod;
+
+/**
+ * @deprecated Import structuredErrorSchema() from `result-ts/schema-zod` instead.
+ */
+export const structuredErrorSchema = structuredErrorSchemaZod;
 
 /**
- * This entry point includes core essentials + Zod validation integration.
+ * This entry point includes core essentials + Standard Schema validation integration.
  *
  * Use for: runtime validation, JSON parsing, API data validation, form processing
  *
- * Key functions: validate(), parseJson(), resultSchema(), validateAsync()
+ * Key functions: validate(), parseJson(), validateAsync(), parseResult()
  *
  * Generic constraints ensure type safety:
  * - Error types constrained to meaningful types (Record<string, unknown> | string | Error)
@@ -878,14 +700,14 @@ export async function parseResultAsync<T, E>(
  * - **Configuration**: parseJson() for config files with comprehensive validation
  * - **Async validation**: validateAsync() for database uniqueness checks, external API validation
  * - **Result serialization**: parseResult() for deserializing stored Result objects with validation
- * - **Microservices**: resultSchema() for validating inter-service Result communication
+ * - **Microservices**: resultSchema() from `result-ts/schema-zod` for validating inter-service Result communication
  *
  * Performance characteristics:
- * - Uses Zod's safeParse for non-throwing validation
+ * - Uses `~standard.validate` for non-throwing validation (Zod's safeParse for Zod schemas)
  * - Comprehensive runtime validation prevents common developer errors
  * - Structured error messages aid debugging
  *
- * Requires: Zod as peer dependency (^3.25.67)
+ * Requires: any Standard Schema validator (Zod schemas are detected without importing Zod)
  *
  * Other available layers:
  * - `result-ts` → core essentials only
@@ -893,4 +715,5 @@ export async function parseResultAsync<T, E>(
  * - `result-ts/batch` → core + array processing
  * - `result-ts/utils` → core + debugging utilities
  * - `result-ts/patterns` → core + advanced patterns
+ * - `result-ts/schema-zod` → core + Zod schemas for Result objects
  */
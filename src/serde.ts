@@ -0,0 +1,220 @@
+// result-ts/serde - Core essentials + structured serialization
+// Provides lossless JSON round-trips for Results containing Errors, BigInt, Date, Map and Set
+
+// Re-export all core essentials from core module
+export * from "@/core";
+
+// Import the shared encoder and decoder - result-ts/unchecked/serde calls the
+// same functions without checking their arguments
+import {
+	deserialize as deserializeImpl,
+	serialize as serializeImpl,
+} from "@/ops";
+// Import types and constants for serde implementations
+import { ERR, OK, type Result } from "@/types";
+
+// =============================================================================
+// SERDE TYPES
+// =============================================================================
+
+/**
+ * Error classes available to {@link deserialize}, keyed by the error `name`.
+ * Built-in errors (TypeError, RangeError, AggregateError, ...) are always available.
+ */
+export type ErrorRegistry = Record<
+	string,
+	abstract new (
+		...args: never[]
+	) => Error
+>;
+
+/**
+ * Options for {@link serialize}.
+ */
+export interface SerializeOptions {
+	/** Include Error stacks (default: true). Disable when sending Results to untrusted clients. */
+	stack?: boolean;
+}
+
+/**
+ * Options for {@link deserialize}.
+ */
+export interface DeserializeOptions {
+	/** Custom Error subclasses to restore, keyed by their `name`. */
+	errors?: ErrorRegistry;
+}
+
+// =============================================================================
+// RUNTIME VALIDATION HELPERS
+// =============================================================================
+
+/**
+ * Validates that a parameter is a proper Result object.
+ * Provides helpful error messages for common mistakes.
+ */
+const validateResult = <T, E>(
+	result: Result<T, E>,
+	functionName: string,
+): void => {
+	if (!result || typeof result !== "object") {
+		throw new TypeError(
+			`${functionName}: First argument must be a Result object, got ${typeof result}`,
+		);
+	}
+	const resultObj = result as unknown;
+	if (
+		typeof resultObj !== "object" ||
+		resultObj === null ||
+		!("type" in resultObj)
+	) {
+		throw new TypeError(
+			`${functionName}: Result must have a 'type' property (Ok or Err)`,
+		);
+	}
+	if (
+		(resultObj as Record<string, unknown>).type !== OK &&
+		(resultObj as Record<string, unknown>).type !== ERR
+	) {
+		throw new TypeError(
+			`${functionName}: Invalid Result type '${resultObj.type}', expected '${OK}' or '${ERR}'`,
+		);
+	}
+	if (resultObj.type === OK && !("value" in resultObj)) {
+		throw new TypeError(
+			`${functionName}: Ok Result must have a 'value' property`,
+		);
+	}
+	if (resultObj.type === ERR && !("error" in resultObj)) {
+		throw new TypeError(
+			`${functionName}: Err Result must have an 'error' property`,
+		);
+	}
+};
+
+/**
+ * Validates that a parameter is a JSON string.
+ */
+const validateJsonString = (
+	jsonString: unknown,
+	functionName: string,
+): void => {
+	if (typeof jsonString !== "string") {
+		throw new TypeError(
+			`${functionName}: First argument must be a JSON string, got ${typeof jsonString}`,
+		);
+	}
+};
+
+// =============================================================================
+// SERIALIZATION (Individual Exports)
+// =============================================================================
+
+/**
+ * Serializes a Result to a JSON string without losing information that
+ * `JSON.stringify` drops: Error name, message, stack, cause and extra
+ * properties, AggregateError errors, BigInt, Date, Map, Set, undefined,
+ * NaN, ±Infinity and -0.
+ *
+ * @example
+ * ```typescript
+ * // JSON.stringify loses the error entirely
+ * JSON.stringify(err(new Error("boom"))); // '{"type":"Err","error":{}}'
+ *
+ * // serialize keeps everything needed to rebuild it
+ * const json = serialize(err(new NotFound(42)), { stack: false });
+ * worker.postMessage(json);
+ *
+ * // HTTP response with BigInt ids and dates
+ * res.end(serialize(ok({ id: 9007199254740993n, createdAt: new Date() })));
+ * ```
+ *
+ * @param result - The Result to serialize
+ * @param options - Serialization options (e.g. `stack: false` for public APIs)
+ * @returns A JSON string readable by {@link deserialize}
+ * @throws TypeError if result is not a valid Result, or contains functions, symbols or circular references
+ * @see {@link deserialize} to restore the Result
+ */
+export function serialize<
+	T,
+	E extends Record<string, unknown> | string | Error,
+>(result: Result<T, E>, options?: SerializeOptions): string;
+export function serialize<T, E>(
+	result: Result<T, E>,
+	options?: SerializeOptions,
+): string;
+export function serialize<T, E>(
+	result: Result<T, E>,
+	options: SerializeOptions = {},
+): string {
+	validateResult(result, "serialize()");
+	return serializeImpl(result, options);
+}
+
+/**
+ * Restores a Result produced by {@link serialize}.
+ * Errors keep their class (built-ins automatically, custom subclasses via the
+ * `errors` registry keyed by `name`), message, stack, cause chain and extra
+ * properties. Malformed input becomes an Err instead of throwing.
+ *
+ * Values are not validated against T and E; combine with `result-ts/schema`
+ * when the JSON comes from an untrusted source.
+ *
+ * @example
+ * ```typescript
+ * const NotFound = taggedError("NotFound");
+ *
+ * const parsed = deserialize<User, InstanceType<typeof NotFound>>(json, {
+ *   errors: { NotFound },
+ * });
+ *
+ * if (isOk(parsed)) {
+ *   const result = parsed.value; // Result<User, NotFound>
+ *   if (isErr(result)) {
+ *     result.error instanceof NotFound; // true
+ *   }
+ * } else {
+ *   console.error(parsed.error); // "Invalid JSON: ..." or "Invalid serialized Result: ..."
+ * }
+ * ```
+ *
+ * @param json - JSON string produced by serialize()
+ * @param options - Deserialization options (custom error classes)
+ * @returns Ok with the restored Result, or Err with a description of the problem
+ * @throws TypeError if json is not a string
+ * @see {@link serialize} for the encoding side
+ */
+export function deserialize<T = unknown, E = unknown>(
+	json: string,
+	options: DeserializeOptions = {},
+): Result<Result<T, E>, string> {
+	validateJsonString(json, "deserialize()");
+	return deserializeImpl(json, options);
+}
+
+/**
+ * This entry point includes core essentials + structured serialization.
+ *
+ * Use for: sending Results across worker, IPC and HTTP boundaries
+ *
+ * Key functions: serialize(), deserialize()
+ *
+ * Encoding:
+ * - Output is a Result-shaped JSON object; plain JSON values are stored as-is
+ * - Values JSON cannot represent are tagged with `$type` (Error, BigInt, Date, Map, Set, ...)
+ * - Errors are rebuilt by running only the base Error constructor with the subclass prototype,
+ *   so they are genuine Errors while subclass constructors never run on deserialize
+ * - Custom Error subclasses are matched by `name` (taggedError() classes use their tag)
+ * - Objects with a toJSON() method are serialized through it, like JSON.stringify
+ *
+ * Other available layers:
+ * - `result-ts` → core essentials only
+ * - `result-ts/iter` → core + data transformation
+ * - `result-ts/batch` → core + array processing
+ * - `result-ts/utils` → core + debugging utilities
+ * - `result-ts/patterns` → core + advanced patterns
+ * - `result-ts/schema` → core + Standard Schema validation (Zod, Valibot, ArkType, ...)
+ * - `result-ts/option` → core + Option type operations
+ * - `result-ts/errors` → core + tagged error toolkit
+ * - `result-ts/async` → core + thenable ResultAsync pipelines
+ * - `result-ts/fp` → core + curried operators with pipe/flow
+ */
@@ -0,0 +1,560 @@
+// result-ts/stream - Core essentials + stream processing
+// Provides lazy operators over (async) iterables of Results and stream adapters
+
+// Re-export all core essentials from core module
+export * from "@/core";
+
+// Import the shared stream operators - result-ts/unchecked/stream runs the
+// same operators without the checks
+import {
+	analyzeStream as analyzeStreamImpl,
+	andThenOk as andThenOkImpl,
+	type Checks,
+	collect as collectImpl,
+	filterOk as filterOkImpl,
+	mapOk as mapOkImpl,
+	partitionStream as partitionStreamImpl,
+	takeUntilErr as takeUntilErrImpl,
+} from "@/ops";
+// Import types and constants for stream implementations
+import { ERR, OK, type Result } from "@/types";
+
+// =============================================================================
+// STREAM TYPES
+// =============================================================================
+
+/**
+ * Any sync or async iterable of Results accepted by the stream operators.
+ */
+export type ResultSource<T, E> =
+	| AsyncIterable<Result<T, E>>
+	| Iterable<Result<T, E>>;
+
+/**
+ * Running statistics reported by {@link analyzeStream}.
+ */
+export interface StreamStats {
+	okCount: number;
+	errorCount: number;
+	total: number;
+	hasErrors: boolean;
+	isEmpty: boolean;
+}
+
+/**
+ * Minimal shape of a Node.js `Readable` (or any async iterable of chunks).
+ */
+export interface ReadableLike<C> {
+	[Symbol.asyncIterator](): AsyncIterator<C>;
+}
+
+/**
+ * Options for {@link fromReadable} and {@link fromReadableStream}.
+ */
+export interface StreamAdapterOptions {
+	/** Decode chunks as UTF-8 text and yield one non-empty line at a time (e.g. NDJSON). */
+	lines?: boolean;
+}
+
+// =============================================================================
+// RUNTIME VALIDATION HELPERS
+// =============================================================================
+
+/**
+ * Validates that a function parameter is actually a function.
+ */
+const validateFunction = (
+	fn: unknown,
+	functionName: string,
+	parameterName: string = "fn",
+): void => {
+	if (typeof fn !== "function") {
+		throw new TypeError(
+			`${functionName}: ${parameterName} must be a function, got ${typeof fn}`,
+		);
+	}
+};
+
+/**
+ * Validates that a parameter is a sync or async iterable.
+ */
+const validateSource = (source: unknown, functionName: string): void => {
+	if (
+		source == null ||
+		(typeof (source as AsyncIterable<unknown>)[Symbol.asyncIterator] !==
+			"function" &&
+			typeof (source as Iterable<unknown>)[Symbol.iterator] !== "function")
+	) {
+		throw new TypeError(
+			`${functionName}: source must be an iterable or async iterable of Results, got ${source === null ? "null" : typeof source}`,
+		);
+	}
+};
+
+/**
+ * Validates that a streamed item is a proper Result object.
+ * Callers name the item by position ("item 3"), since there is no array index
+ * to point at.
+ */
+const validateResult = <T, E>(
+	result: Result<T, E>,
+	functionName: string,
+	parameterName: string = "item",
+): void => {
+	if (
+		!result ||
+		typeof result !== "object" ||
+		(result.type !== OK && result.type !== ERR)
+	) {
+		throw new TypeError(
+			`${functionName}: ${parameterName} must be a Result object, got ${result === null ? "null" : typeof result === "object" ? `type '${String((result as { type?: unknown }).type)}'` : typeof result}`,
+		);
+	}
+};
+
+// validateResult() checks every streamed item and andThenOk() callback Result
+const checks: Checks = { result: validateResult, fn: validateFunction };
+
+// =============================================================================
+// STREAM HELPERS
+// =============================================================================
+
+/**
+ * Splits decoded text chunks into non-empty lines, carrying partial lines over.
+ * Accepts strings as-is and decodes binary chunks as UTF-8.
+ */
+async function* splitLines(
+	chunks: AsyncIterable<unknown>,
+): AsyncGenerator<string, void, undefined> {
+	const decoder = new TextDecoder();
+	let buffered = "";
+	for await (const chunk of chunks) {
+		buffered +=
+			typeof chunk === "string"
+				? chunk
+				: decoder.decode(chunk as BufferSource, { stream: true });
+		const lines = buffered.split(/\r?\n/);
+		buffered = lines.pop() ?? "";
+		for (const line of lines) {
+			if (line !== "") yield line;
+		}
+	}
+	buffered += decoder.decode();
+	if (buffered !== "") yield buffered;
+}
+
+/**
+ * Yields Ok for every chunk of an async iterable and ends with Err if it throws.
+ */
+async function* wrapChunks<C>(
+	chunks: AsyncIterable<C>,
+): AsyncGenerator<Result<C, Error>, void, undefined> {
+	try {
+		for await (const chunk of chunks) {
+			yield { type: OK, value: chunk };
+		}
+	} catch (error) {
+		yield {
+			type: ERR,
+			error:
+				error instanceof Error
+					? error
+					: new Error(String(error), { cause: error }),
+		};
+	}
+}
+
+// =============================================================================
+// STREAM OPERATORS (Individual Exports)
+// =============================================================================
+
+/**
+ * Lazily transforms the value of every Ok item; Err items pass through unchanged.
+ * The mapper may be async, items are processed one at a time in order.
+ *
+ * @example
+ * ```typescript
+ * const users = mapOk(parsedRows, (row) => ({ ...row, email: row.email.toLowerCase() }));
+ * // Returns: AsyncIterable<Result<User, ParseError>>
+ *
+ * const enriched = mapOk(users, async (user) => ({ ...user, plan: await plans.get(user.id) }));
+ * ```
+ *
+ * @param source - Iterable or async iterable of Results
+ * @param fn - Mapper for Ok values (sync or async)
+ * @returns Async iterable of mapped Results
+ * @throws TypeError if source is not iterable or fn is not a function
+ * @see {@link andThenOk} for Result-returning steps
+ */
+export function mapOk<T, U, E extends Record<string, unknown> | string | Error>(
+	source: ResultSource<T, E>,
+	fn: (value: T) => U | Promise<U>,
+): AsyncIterable<Result<U, E>>;
+export function mapOk<T, U, E>(
+	source: ResultSource<T, E>,
+	fn: (value: T) => U | Promise<U>,
+): AsyncIterable<Result<U, E>>;
+export function mapOk<T, U, E>(
+	source: ResultSource<T, E>,
+	fn: (value: T) => U | Promise<U>,
+): AsyncIterable<Result<U, E>> {
+	validateSource(source, "mapOk()");
+	validateFunction(fn, "mapOk()");
+	return mapOkImpl(source, fn, checks);
+}
+
+/**
+ * Lazily chains a Result-returning step onto every Ok item; Err items pass through.
+ * Useful for parse/validate stages where each record may fail independently.
+ *
+ * @example
+ * ```typescript
+ * const records = andThenOk(lines, (line) =>
+ *   handleWith(() => JSON.parse(line), () => ({ code: "INVALID_JSON", line })),
+ * );
+ * // Returns: AsyncIterable<Result<unknown, Error | { code: string; line: string }>>
+ * ```
+ *
+ * @param source - Iterable or async iterable of Results
+ * @param fn - Step returning a Result (or Promise of Result) for Ok values
+ * @returns Async iterable of chained Results
+ * @throws TypeError if source is not iterable or fn is not a function
+ * @see {@link mapOk} for plain value transformations
+ */
+export function andThenOk<
+	T,
+	U,
+	E extends Record<string, unknown> | string | Error,
+	F = E,
+>(
+	source: ResultSource<T, E>,
+	fn: (value: T) => Result<U, F> | Promise<Result<U, F>>,
+): AsyncIterable<Result<U, E | F>>;
+export function andThenOk<T, U, E, F = E>(
+	source: ResultSource<T, E>,
+	fn: (value: T) => Result<U, F> | Promise<Result<U, F>>,
+): AsyncIterable<Result<U, E | F>>;
+export function andThenOk<T, U, E, F = E>(
+	source: ResultSource<T, E>,
+	fn: (value: T) => Result<U, F> | Promise<Result<U, F>>,
+): AsyncIterable<Result<U, E | F>> {
+	validateSource(source, "andThenOk()");
+	validateFunction(fn, "andThenOk()");
+	return andThenOkImpl(source, fn, checks);
+}
+
+/**
+ * Lazily drops Ok items whose value fails the predicate; Err items are kept
+ * so failures are never silently filtered out.
+ *
+ * @example
+ * ```typescript
+ * const adults = filterOk(users, (user) => user.age >= 18);
+ * // Returns: AsyncIterable<Result<User, ParseError>> - minors skipped, errors kept
+ * ```
+ *
+ * @param source - Iterable or async iterable of Results
+ * @param predicate - Test for Ok values (sync or async)
+ * @returns Async iterable of kept Results
+ * @throws TypeError if source is not iterable or predicate is not a function
+ */
+export function filterOk<T, E extends Record<string, unknown> | string | Error>(
+	source: ResultSource<T, E>,
+	predicate: (value: T) => boolean | Promise<boolean>,
+): AsyncIterable<Result<T, E>>;
+export function filterOk<T, E>(
+	source: ResultSource<T, E>,
+	predicate: (value: T) => boolean | Promise<boolean>,
+): AsyncIterable<Result<T, E>>;
+export function filterOk<T, E>(
+	source: ResultSource<T, E>,
+	predicate: (value: T) => boolean | Promise<boolean>,
+): AsyncIterable<Result<T, E>> {
+	validateSource(source, "filterOk()");
+	validateFunction(predicate, "filterOk()", "predicate");
+	return filterOkImpl(source, predicate, checks);
+}
+
+/**
+ * Lazily yields items up to and including the first Err, then stops and
+ * closes the source, so nothing after a failure is read.
+ *
+ * @example
+ * ```typescript
+ * for await (const result of takeUntilErr(records)) {
+ *   if (isErr(result)) {
+ *     console.error("Import aborted:", result.error);
+ *   } else {
+ *     await db.insert(result.value);
+ *   }
+ * }
+ * ```
+ *
+ * @param source - Iterable or async iterable of Results
+ * @returns Async iterable ending at the first Err (inclusive)
+ * @throws TypeError if source is not iterable
+ * @see {@link collect} for gathering values until the first Err
+ */
+export function takeUntilErr<
+	T,
+	E extends Record<string, unknown> | string | Error,
+>(source: ResultSource<T, E>): AsyncIterable<Result<T, E>>;
+export function takeUntilErr<T, E>(
+	source: ResultSource<T, E>,
+): AsyncIterable<Result<T, E>>;
+export function takeUntilErr<T, E>(
+	source: ResultSource<T, E>,
+): AsyncIterable<Result<T, E>> {
+	validateSource(source, "takeUntilErr()");
+	return takeUntilErrImpl(source, checks);
+}
+
+/**
+ * Splits a Result stream into an async iterable of Ok values and one of errors,
+ * reading the source once. Items are buffered for the side that is not being
+ * read, so consume both sides concurrently to keep memory bounded.
+ * Once a side stops early, its items are dropped instead of buffered.
+ * The source is closed once both sides have finished or stopped early.
+ *
+ * @example
+ * ```typescript
+ * const { oks, errors } = partitionStream(records);
+ *
+ * await Promise.all([
+ *   (async () => { for await (const record of oks) await db.insert(record); })(),
+ *   (async () => { for await (const error of errors) await rejects.write(error); })(),
+ * ]);
+ * ```
+ *
+ * @param source - Iterable or async iterable of Results
+ * @returns Object with `oks` and `errors` async iterables
+ * @throws TypeError if source is not iterable
+ * @see {@link analyzeStream} for counting without buffering
+ */
+export function partitionStream<
+	T,
+	E extends Record<string, unknown> | string | Error,
+>(
+	source: ResultSource<T, E>,
+): { oks: AsyncIterable<T>; errors: AsyncIterable<E> };
+export function partitionStream<T, E>(
+	source: ResultSource<T, E>,
+): { oks: AsyncIterable<T>; errors: AsyncIterable<E> };
+export function partitionStream<T, E>(
+	source: ResultSource<T, E>,
+): { oks: AsyncIterable<T>; errors: AsyncIterable<E> } {
+	validateSource(source, "partitionStream()");
+	return partitionStreamImpl(source, checks);
+}
+
+/**
+ * Collects Ok values into an array, stopping at the first Err like all().
+ * The source is closed as soon as an Err is seen.
+ *
+ * @example
+ * ```typescript
+ * const users = await collect(mapOk(fromReadable(file, { lines: true }), parseUser));
+ * // Returns: Result<User[], Error> - everything or the first failure
+ * ```
+ *
+ * @param source - Iterable or async iterable of Results
+ * @returns Promise of Ok(values in order) or the first Err
+ * @throws TypeError if source is not iterable or contains invalid Result objects
+ * @see {@link takeUntilErr} for processing items without materializing them
+ */
+export function collect<T, E extends Record<string, unknown> | string | Error>(
+	source: ResultSource<T, E>,
+): Promise<Result<T[], E>>;
+export function collect<T, E>(
+	source: ResultSource<T, E>,
+): Promise<Result<T[], E>>;
+export async function collect<T, E>(
+	source: ResultSource<T, E>,
+): Promise<Result<T[], E>> {
+	validateSource(source, "collect()");
+	return collectImpl(source, checks);
+}
+
+/**
+ * Counts Ok and Err items in a single pass without keeping them in memory,
+ * like analyze() for arrays. `onProgress` receives a snapshot after every item,
+ * which is handy for progress bars over long exports.
+ *
+ * @example
+ * ```typescript
+ * const stats = await analyzeStream(validated, (progress) => {
+ *   if (progress.total % 10_000 === 0) console.log(`${progress.total} rows checked`);
+ * });
+ * console.log(`${stats.errorCount} invalid rows out of ${stats.total}`);
+ * ```
+ *
+ * @param source - Iterable or async iterable of Results
+ * @param onProgress - Optional callback receiving running statistics
+ * @returns Promise of final statistics
+ * @throws TypeError if source is not iterable or onProgress is not a function
+ */
+export function analyzeStream<
+	T,
+	E extends Record<string, unknown> | string | Error,
+>(
+	source: ResultSource<T, E>,
+	onProgress?: (stats: StreamStats) => void,
+): Promise<StreamStats>;
+export function analyzeStream<T, E>(
+	source: ResultSource<T, E>,
+	onProgress?: (stats: StreamStats) => void,
+): Promise<StreamStats>;
+export async function analyzeStream<T, E>(
+	source: ResultSource<T, E>,
+	onProgress?: (stats: StreamStats) => void,
+): Promise<StreamStats> {
+	validateSource(source, "analyzeStream()");
+	if (onProgress !== undefined) {
+		validateFunction(onProgress, "analyzeStream()", "onProgress");
+	}
+	return analyzeStreamImpl(source, onProgress, checks);
+}
+
+// =============================================================================
+// STREAM ADAPTERS (Individual Exports)
+// =============================================================================
+
+/**
+ * Adapts a Node.js `Readable` (or any async iterable of chunks) into a Result
+ * stream: every chunk becomes Ok and a stream error ends it with Err instead of
+ * throwing. With `{ lines: true }`, chunks are decoded as UTF-8 and split into
+ * non-empty lines, which is what NDJSON processing needs.
+ *
+ * @example
+ * ```typescript
+ * import { createReadStream } from "node:fs";
+ *
+ * const lines = fromReadable(createReadStream("export.ndjson"), { lines: true });
+ * const records = andThenOk(lines, (line) => handle(() => JSON.parse(line)));
+ * const stats = await analyzeStream(andThenOk(records, validateRecord));
+ * // Multi-gigabyte exports are validated one line at a time
+ * ```
+ *
+ * @param readable - Node.js Readable or async iterable of chunks
+ * @param options - `lines` to yield decoded lines instead of raw chunks
+ * @returns Async iterable of Ok(chunk or line), ending with Err on stream errors
+ * @throws TypeError if readable is not async iterable
+ * @see {@link fromReadableStream} for WHATWG streams
+ */
+export function fromReadable(
+	readable: ReadableLike<unknown>,
+	options: StreamAdapterOptions & { lines: true },
+): AsyncIterable<Result<string, Error>>;
+export function fromReadable<C>(
+	readable: ReadableLike<C>,
+	options?: StreamAdapterOptions,
+): AsyncIterable<Result<C, Error>>;
+export function fromReadable<C>(
+	readable: ReadableLike<C>,
+	options: StreamAdapterOptions = {},
+): AsyncIterable<Result<C | string, Error>> {
+	if (
+		readable == null ||
+		typeof readable[Symbol.asyncIterator] !== "function"
+	) {
+		throw new TypeError(
+			`fromReadable(): readable must be async iterable, got ${readable === null ? "null" : typeof readable}`,
+		);
+	}
+	return wrapChunks<C | string>(
+		options.lines ? splitLines(readable) : readable,
+	);
+}
+
+/**
+ * Adapts a WHATWG `ReadableStream` (fetch bodies, Deno, browsers, edge runtimes)
+ * into a Result stream: every chunk becomes Ok and a stream error ends it with
+ * Err. The reader lock is released when iteration ends and the stream is
+ * cancelled if the consumer stops early.
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch("/exports/users.ndjson");
+ * const lines = fromReadableStream(response.body!, { lines: true });
+ * const users = await collect(andThenOk(lines, parseUser));
+ * ```
+ *
+ * @param stream - WHATWG ReadableStream
+ * @param options - `lines` to yield decoded lines instead of raw chunks
+ * @returns Async iterable of Ok(chunk or line), ending with Err on stream errors
+ * @throws TypeError if stream is not a ReadableStream
+ * @see {@link fromReadable} for Node.js streams
+ */
+export function fromReadableStream(
+	stream: ReadableStream<unknown>,
+	options: StreamAdapterOptions & { lines: true },
+): AsyncIterable<Result<string, Error>>;
+export function fromReadableStream<C>(
+	stream: ReadableStream<C>,
+	options?: StreamAdapterOptions,
+): AsyncIterable<Result<C, Error>>;
+export function fromReadableStream<C>(
+	stream: ReadableStream<C>,
+	options: StreamAdapterOptions = {},
+): AsyncIterable<Result<C | string, Error>> {
+	if (
+		stream == null ||
+		typeof (stream as { getReader?: unknown }).getReader !== "function"
+	) {
+		throw new TypeError(
+			`fromReadableStream(): stream must be a ReadableStream, got ${stream === null ? "null" : typeof stream}`,
+		);
+	}
+
+	const chunks = (async function* () {
+		const reader = stream.getReader();
+		let finished = false;
+		try {
+			while (true) {
+				const { done, value } = await reader.read();
+				if (done) {
+					finished = true;
+					return;
+				}
+				yield value;
+			}
+		} catch (error) {
+			finished = true;
+			throw error;
+		} finally {
+			if (!finished) {
+				await reader.cancel();
+			}
+			reader.releaseLock();
+		}
+	})();
+	return wrapChunks<C | string>(options.lines ? splitLines(chunks) : chunks);
+}
+
+/**
+ * This entry point includes core essentials + stream processing.
+ *
+ * Use for: NDJSON/CSV imports, log processing, paginated APIs, anything too large for an array
+ *
+ * Key functions: mapOk(), filterOk(), takeUntilErr(), collect(), analyzeStream(), fromReadable()
+ *
+ * Streaming semantics:
+ * - Operators are lazy async generators: nothing is read until the result is iterated
+ * - Items are processed one at a time, in order, so memory stays constant
+ * - Breaking out of a for-await loop closes the whole pipeline down to the source
+ * - Adapters turn stream errors into a final Err instead of throwing
+ *
+ * Other available layers:
+ * - `result-ts` → core essentials only
+ * - `result-ts/iter` → core + data transformation
+ * - `result-ts/batch` → core + array processing
+ * - `result-ts/utils` → core + debugging utilities
+ * - `result-ts/patterns` → core + advanced patterns
+ * - `result-ts/schema` → core + Standard Schema validation (Zod, Valibot, ArkType, ...)
+ * - `result-ts/option` → core + Option type operations
+ * - `result-ts/errors` → core + tagged error toolkit
+ * - `result-ts/async` → core + thenable ResultAsync pipelines
+ * - `result-ts/fp` → core + curried operators with pipe/flow
+ * - `result-ts/serde` → core + structured serialization
+ * - `result-ts/resilience` → core + retry and circuit breakers
+ */
@@ -0,0 +1,519 @@
+// result-ts/testing - Core essentials + test-framework matchers
+// Provides expect.extend matchers, asymmetric matchers and a snapshot serializer for Vitest and Jest
+
+// Re-export all core essentials from core module
+export * from "@/core";
+
+// Import types and constants for testing implementations
+import { ERR, OK, type Result } from "@/types";
+
+// =============================================================================
+// MATCHER TYPES
+// =============================================================================
+
+/**
+ * Custom equality tester, as registered with expect.addEqualityTesters().
+ * Returns undefined to defer to the default comparison.
+ */
+export type EqualityTester = (
+	a: unknown,
+	b: unknown,
+	customTesters: EqualityTester[],
+) => boolean | undefined;
+
+/**
+ * The parts of the Vitest/Jest matcher context (`this` inside expect.extend
+ * matchers) used by the Result matchers.
+ */
+export interface MatcherContext {
+	isNot: boolean;
+	/** The framework's deep equality, as used by toEqual(). */
+	equals(a: unknown, b: unknown, customTesters?: EqualityTester[]): boolean;
+	/** Testers registered with expect.addEqualityTesters(). */
+	customTesters?: EqualityTester[];
+	utils: {
+		printExpected(value: unknown): string;
+		printReceived(value: unknown): string;
+		iterableEquality: EqualityTester;
+		subsetEquality: EqualityTester;
+	};
+}
+
+/**
+ * What a matcher returns to the test framework.
+ */
+export interface MatcherResult {
+	pass: boolean;
+	message: () => string;
+}
+
+/**
+ * Matcher signatures added by {@link resultMatchers}, for module augmentation.
+ *
+ * @example
+ * ```typescript
+ * declare module "vitest" {
+ *   interface Assertion<T = any> extends ResultMatchers<T> {}
+ *   interface AsymmetricMatchersContaining extends ResultMatchers {}
+ * }
+ * ```
+ */
+export interface ResultMatchers<R = unknown> {
+	/** Passes when the received value is an Ok Result. */
+	toBeOk(): R;
+	/** Passes when the received value is an Err Result. */
+	toBeErr(): R;
+	/** Passes when the received value is Ok and its value deeply equals `expected`. */
+	toBeOkWith(expected: unknown): R;
+	/** Passes when the received value is Err and its error matches `expected` (see {@link errMatching}). */
+	toBeErrMatching(expected: unknown): R;
+	/** Passes when the received value is Err and its error carries `_tag === tag`. */
+	toBeErrTag(tag: string): R;
+}
+
+/**
+ * Asymmetric matcher usable inside toEqual(), toHaveBeenCalledWith() and friends.
+ */
+export interface ResultAsymmetricMatcher {
+	readonly $$typeof: symbol;
+	asymmetricMatch(other: unknown): boolean;
+	toAsymmetricMatcher(): string;
+	toString(): string;
+}
+
+/**
+ * pretty-format printer passed to snapshot serializers. `Config` and `Refs` are
+ * the framework's own types, handed back to the printer unchanged.
+ */
+export type SnapshotPrinter<Config = unknown, Refs = unknown> = (
+	value: unknown,
+	config: Config,
+	indentation: string,
+	depth: number,
+	refs: Refs,
+) => string;
+
+/**
+ * Snapshot serializer shape accepted by expect.addSnapshotSerializer().
+ */
+export interface ResultSnapshotSerializer {
+	test(value: unknown): boolean;
+	serialize<Config, Refs>(
+		value: unknown,
+		config: Config,
+		indentation: string,
+		depth: number,
+		refs: Refs,
+		printer: SnapshotPrinter<Config, Refs>,
+	): string;
+}
+
+// =============================================================================
+// MATCHING HELPERS
+// =============================================================================
+
+/**
+ * Checks whether a value has the shape of a Result.
+ */
+const isResult = (value: unknown): value is Result<unknown, unknown> => {
+	if (value === null || typeof value !== "object") return false;
+	const { type } = value as Record<string, unknown>;
+	return (
+		(type === OK && "value" in value) || (type === ERR && "error" in value)
+	);
+};
+
+const isAsymmetric = (
+	value: unknown,
+): value is { asymmetricMatch(other: unknown): boolean } =>
+	value !== null &&
+	typeof value === "object" &&
+	typeof (value as Record<string, unknown>).asymmetricMatch === "function";
+
+/**
+ * Own enumerable keys, ignoring undefined values the way toEqual() does.
+ */
+const definedKeys = (value: object): string[] =>
+	Object.keys(value).filter(
+		(key) => (value as Record<string, unknown>)[key] !== undefined,
+	);
+
+/**
+ * Structural equality with support for nested asymmetric matchers, for the
+ * asymmetric matchers that run without a matcher context. With `partial`,
+ * objects only need to contain the expected keys (like toMatchObject()).
+ */
+const equals = (
+	actual: unknown,
+	expected: unknown,
+	partial: boolean,
+): boolean => {
+	if (isAsymmetric(expected)) return expected.asymmetricMatch(actual);
+	if (Object.is(actual, expected)) return true;
+	if (
+		actual === null ||
+		expected === null ||
+		typeof actual !== "object" ||
+		typeof expected !== "object"
+	) {
+		return false;
+	}
+
+	if (expected instanceof Date) {
+		return actual instanceof Date && actual.getTime() === expected.getTime();
+	}
+	if (expected instanceof RegExp) {
+		return actual instanceof RegExp && String(actual) === String(expected);
+	}
+	if (Array.isArray(expected)) {
+		return (
+			Array.isArray(actual) &&
+			actual.length === expected.length &&
+			expected.every((item, index) => equals(actual[index], item, partial))
+		);
+	}
+	if (expected instanceof Map) {
+		return (
+			actual instanceof Map &&
+			actual.size === expected.size &&
+			[...expected].every(
+				([key, item]) =>
+					actual.has(key) && equals(actual.get(key), item, partial),
+			)
+		);
+	}
+	if (expected instanceof Set) {
+		return (
+			actual instanceof Set &&
+			actual.size === expected.size &&
+			[...expected].every((item) =>
+				[...actual].some((candidate) => equals(candidate, item, partial)),
+			)
+		);
+	}
+	if (expected instanceof Error) {
+		if (
+			!(actual instanceof Error) ||
+			actual.name !== expected.name ||
+			actual.message !== expected.message
+		) {
+			return false;
+		}
+	}
+
+	const expectedKeys = definedKeys(expected);
+	if (!partial && definedKeys(actual).length !== expectedKeys.length) {
+		return false;
+	}
+	return expectedKeys.every(
+		(key) =>
+			key in actual &&
+			equals(
+				(actual as Record<string, unknown>)[key],
+				(expected as Record<string, unknown>)[key],
+				partial,
+			),
+	);
+};
+
+/**
+ * Matches an error against a string (substring of the error or its message),
+ * a RegExp (tested the same way) or a partial object (like toMatchObject()),
+ * compared with `matchObject`.
+ */
+const errorMatches = (
+	error: unknown,
+	expected: unknown,
+	matchObject: (error: unknown, expected: unknown) => boolean = (a, b) =>
+		equals(a, b, true),
+): boolean => {
+	if (typeof expected === "string" || expected instanceof RegExp) {
+		const text =
+			typeof error === "string"
+				? error
+				: error !== null &&
+						typeof error === "object" &&
+						typeof (error as Record<string, unknown>).message === "string"
+					? ((error as Record<string, unknown>).message as string)
+					: undefined;
+		if (text === undefined) return false;
+		return typeof expected === "string"
+			? text.includes(expected)
+			: expected.test(text);
+	}
+	return matchObject(error, expected);
+};
+
+const hasTag = (error: unknown, tag: string): boolean =>
+	error !== null &&
+	typeof error === "object" &&
+	(error as Record<string, unknown>)._tag === tag;
+
+const validateTag = (tag: unknown, functionName: string): void => {
+	if (typeof tag !== "string") {
+		throw new TypeError(
+			`${functionName}: tag must be a string, got ${typeof tag}`,
+		);
+	}
+};
+
+/**
+ * Short, plain-text rendering of an expected value for asymmetric matcher output.
+ */
+const preview = (value: unknown): string => {
+	if (value instanceof RegExp) return String(value);
+	try {
+		return JSON.stringify(value) ?? String(value);
+	} catch {
+		return String(value);
+	}
+};
+
+// =============================================================================
+// MATCHERS
+// =============================================================================
+
+/**
+ * Renders a received value, wrapping Results as Ok(...) / Err(...).
+ */
+const printResult = (context: MatcherContext, received: unknown): string => {
+	if (!isResult(received)) {
+		return `${context.utils.printReceived(received)} (not a Result)`;
+	}
+	return received.type === OK
+		? `Ok(${context.utils.printReceived(received.value)})`
+		: `Err(${context.utils.printReceived(received.error)})`;
+};
+
+/**
+ * The framework's toEqual() comparison, or toMatchObject() with `partial`,
+ * honouring testers registered with expect.addEqualityTesters().
+ */
+const contextEquals = (
+	context: MatcherContext,
+	actual: unknown,
+	expected: unknown,
+	partial: boolean,
+): boolean =>
+	context.equals(actual, expected, [
+		...(context.customTesters ?? []),
+		context.utils.iterableEquality,
+		...(partial ? [context.utils.subsetEquality] : []),
+	]);
+
+const report = (
+	context: MatcherContext,
+	pass: boolean,
+	expected: string,
+	received: unknown,
+): MatcherResult => ({
+	pass,
+	message: () =>
+		`expected ${context.isNot ? "not " : ""}${expected}, received ${printResult(context, received)}`,
+});
+
+/**
+ * Result matchers for `expect.extend()` in Vitest and Jest. Once registered
+ * they also work as asymmetric matchers (e.g. `expect.toBeOkWith(1)`).
+ *
+ * @example
+ * ```typescript
+ * // vitest.setup.ts
+ * import { expect } from "vitest";
+ * import { resultMatchers, resultSerializer } from "result-ts/testing";
+ *
+ * expect.extend(resultMatchers);
+ * expect.addSnapshotSerializer(resultSerializer);
+ *
+ * // In tests
+ * expect(findUser(1)).toBeOkWith({ id: 1, name: "Ada" });
+ * expect(findUser(-1)).toBeErrTag("NotFound");
+ * expect(parse("x")).toBeErrMatching({ field: "id" });
+ * ```
+ *
+ * @see {@link ResultMatchers} for the signatures to add via module augmentation
+ */
+export const resultMatchers = {
+	toBeOk(this: MatcherContext, received: unknown): MatcherResult {
+		const pass = isResult(received) && received.type === OK;
+		return report(this, pass, "an Ok Result", received);
+	},
+
+	toBeErr(this: MatcherContext, received: unknown): MatcherResult {
+		const pass = isResult(received) && received.type === ERR;
+		return report(this, pass, "an Err Result", received);
+	},
+
+	toBeOkWith(
+		this: MatcherContext,
+		received: unknown,
+		expected: unknown,
+	): MatcherResult {
+		const pass =
+			isResult(received) &&
+			received.type === OK &&
+			contextEquals(this, received.value, expected, false);
+		return report(
+			this,
+			pass,
+			`Ok(${this.utils.printExpected(expected)})`,
+			received,
+		);
+	},
+
+	toBeErrMatching(
+		this: MatcherContext,
+		received: unknown,
+		expected: unknown,
+	): MatcherResult {
+		const pass =
+			isResult(received) &&
+			received.type === ERR &&
+			errorMatches(received.error, expected, (error, pattern) =>
+				contextEquals(this, error, pattern, true),
+			);
+		return report(
+			this,
+			pass,
+			`an Err matching ${this.utils.printExpected(expected)}`,
+			received,
+		);
+	},
+
+	toBeErrTag(
+		this: MatcherContext,
+		received: unknown,
+		tag: string,
+	): MatcherResult {
+		validateTag(tag, "toBeErrTag()");
+		const pass =
+			isResult(received) &&
+			received.type === ERR &&
+			hasTag(received.error, tag);
+		return report(
+			this,
+			pass,
+			`an Err tagged ${this.utils.printExpected(tag)}`,
+			received,
+		);
+	},
+};
+
+// =============================================================================
+// ASYMMETRIC MATCHERS
+// =============================================================================
+
+const asymmetric = (
+	description: () => string,
+	match: (other: unknown) => boolean,
+): ResultAsymmetricMatcher => ({
+	$$typeof: Symbol.for("jest.asymmetricMatcher"),
+	asymmetricMatch: match,
+	toAsymmetricMatcher: description,
+	toString: description,
+});
+
+/**
+ * Asymmetric matcher for any Ok Result. Works without expect.extend().
+ *
+ * @example
+ * ```typescript
+ * expect(results).toEqual([anyOk(), anyErr()]);
+ * ```
+ */
+export const anyOk = (): ResultAsymmetricMatcher =>
+	asymmetric(
+		() => "anyOk()",
+		(other) => isResult(other) && other.type === OK,
+	);
+
+/**
+ * Asymmetric matcher for any Err Result. Works without expect.extend().
+ */
+export const anyErr = (): ResultAsymmetricMatcher =>
+	asymmetric(
+		() => "anyErr()",
+		(other) => isResult(other) && other.type === ERR,
+	);
+
+/**
+ * Asymmetric matcher for an Ok Result whose value deeply equals `expected`.
+ * Nested asymmetric matchers (including expect.any()) are honoured.
+ *
+ * @example
+ * ```typescript
+ * expect(response).toEqual({
+ *   user: okWith({ id: 1, createdAt: expect.any(Date) }),
+ *   settings: errTag("NotFound"),
+ * });
+ * ```
+ */
+export const okWith = (expected: unknown): ResultAsymmetricMatcher =>
+	asymmetric(
+		() => `okWith(${preview(expected)})`,
+		(other) =>
+			isResult(other) &&
+			other.type === OK &&
+			equals(other.value, expected, false),
+	);
+
+/**
+ * Asymmetric matcher for an Err Result whose error matches `expected`:
+ * a string (substring of the error or its message), a RegExp, or a partial object.
+ *
+ * @example
+ * ```typescript
+ * expect(onFailure).toHaveBeenCalledWith(errMatching({ code: "E_TIMEOUT" }));
+ * expect(result).toEqual(errMatching(/connection reset/));
+ * ```
+ */
+export const errMatching = (expected: unknown): ResultAsymmetricMatcher =>
+	asymmetric(
+		() => `errMatching(${preview(expected)})`,
+		(other) =>
+			isResult(other) &&
+			other.type === ERR &&
+			errorMatches(other.error, expected),
+	);
+
+/**
+ * Asymmetric matcher for an Err Result whose error carries `_tag === tag`.
+ *
+ * @throws TypeError if tag is not a string
+ */
+export const errTag = (tag: string): ResultAsymmetricMatcher => {
+	validateTag(tag, "errTag()");
+	return asymmetric(
+		() => `errTag(${JSON.stringify(tag)})`,
+		(other) =>
+			isResult(other) && other.type === ERR && hasTag(other.error, tag),
+	);
+};
+
+// =============================================================================
+// SNAPSHOT SERIALIZER
+// =============================================================================
+
+/**
+ * Snapshot serializer that prints Results as `Ok(...)` / `Err(...)` instead of
+ * `Object { "type": "Ok", "value": ... }`.
+ *
+ * @example
+ * ```typescript
+ * expect.addSnapshotSerializer(resultSerializer);
+ * expect(parseConfig(raw)).toMatchInlineSnapshot(`
+ *   Ok({
+ *     "port": 8080,
+ *   })
+ * `);
+ * ```
+ */
+export const resultSerializer: ResultSnapshotSerializer = {
+	test: isResult,
+	serialize(value, config, indentation, depth, refs, printer) {
+		const result = value as Result<unknown, unknown>;
+		return result.type === OK
+			? `Ok(${printer(result.value, config, indentation, depth, refs)})`
+			: `Err(${printer(result.error, config, indentation, depth, refs)})`;
+	},
+};
@@ -0,0 +1,206 @@
+// Internal tracing module - Err creation-site tracing for debugging
+// Public API is re-exported from result-ts/utils
+
+import { ERR, type Err, type Result } from "./types";
+
+// =============================================================================
+// TRACE TYPES
+// =============================================================================
+
+/**
+ * Where an Err was created and which combinators it passed through.
+ */
+export interface ResultTrace {
+	/** Stack frames of the code that created the Err, innermost first. */
+	readonly stack: string;
+	/**
+	 * Combinators the Err passed through, in order (e.g. ["map()", "andThen()"]).
+	 * An Err reused in several pipelines collects the steps of each; only the
+	 * last 32 are kept.
+	 */
+	readonly steps: readonly string[];
+}
+
+interface TraceRecord {
+	site: Error;
+	steps: string[];
+	stack?: string;
+}
+
+/**
+ * Hooks called by combinators and batch functions (creation goes through traced()).
+ * Only installed while tracing is enabled.
+ */
+interface Tracer {
+	created(result: object): void;
+	step(from: object, to: object, name: string): void;
+}
+
+// =============================================================================
+// TRACER STATE
+// =============================================================================
+
+const traces = new WeakMap<object, TraceRecord>();
+
+/** Steps kept per trace, so long-lived Errs don't grow without bound. */
+const MAX_STEPS = 32;
+
+/**
+ * Active tracer, or undefined when tracing is disabled.
+ * Call sites use `tracer?.created(...)` so disabled tracing costs one check.
+ */
+export let tracer: Tracer | undefined;
+
+const activeTracer: Tracer = {
+	created(result) {
+		traces.set(result, { site: new Error(), steps: [] });
+	},
+	step(from, to, name) {
+		const record = traces.get(from);
+		if (!record) return;
+		// Records are never mutated: copy the steps even when from === to
+		const steps =
+			record.steps.length < MAX_STEPS ? record.steps : record.steps.slice(1);
+		traces.set(to, { site: record.site, steps: [...steps, name] });
+	},
+};
+
+/**
+ * Records the creation site of a new Err while tracing is enabled.
+ */
+export const traced = <R extends object>(result: R): R => {
+	tracer?.created(result);
+	return result;
+};
+
+/**
+ * Directory of a stack frame's file ("at fn (dir/file.js:1:2)",
+ * "at dir/file.js:1:2" or "fn@dir/file.js:1:2").
+ */
+const directoryOf = (frame: string): string => {
+	const location = frame.endsWith(")")
+		? frame.slice(frame.lastIndexOf("(") + 1)
+		: frame.startsWith("at ")
+			? frame.slice(3)
+			: frame.slice(frame.indexOf("@") + 1);
+	return location.slice(
+		0,
+		Math.max(location.lastIndexOf("/"), location.lastIndexOf("\\")) + 1,
+	);
+};
+
+/**
+ * Drops the stack header and the leading library frames, leaving the caller's
+ * frames however deep the creating function was called. The first frame is
+ * always the tracer's, so library frames are the ones from its directory.
+ * When the library is bundled into the caller's file only the tracer's own
+ * frame can be told apart and dropped.
+ */
+const formatStack = (site: Error): string => {
+	const frames = (site.stack ?? "").split("\n").map((line) => line.trim());
+	if (frames[0]?.startsWith("Error")) frames.shift();
+	const library = directoryOf(frames[0] ?? "");
+	const start = frames.findIndex((frame) => directoryOf(frame) !== library);
+	return frames.slice(start === -1 ? 1 : start).join("\n");
+};
+
+// =============================================================================
+// ERR CREATION
+// =============================================================================
+
+// Swapped by enableResultTracing()/disableResultTracing() so that disabled
+// tracing costs err() nothing; importers see the swap through the live binding.
+
+/** err() while tracing is enabled. */
+const tracedErr = <E>(error: E): Err<E> => traced({ type: ERR, error });
+
+/**
+ * Creates an error Result containing the given error.
+ *
+ * @example
+ * ```typescript
+ * const result = err("Something went wrong");
+ * console.log(result); // { type: "Err", error: "Something went wrong" }
+ * // Returns: Result<never, string>
+ *
+ * const errorResult = err(new Error("Network failure"));
+ * // Returns: Result<never, Error>
+ * ```
+ *
+ * @param error - The error value to wrap
+ * @returns An error Result containing the error
+ * @see {@link ok} for creating successful Results
+ * @see {@link isErr} for checking if a Result is an error
+ */
+export let err = <E>(error: E): Err<E> => ({ type: ERR, error });
+
+/** err() while tracing is disabled: no tracing hook at all. */
+const plainErr = err;
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Enables Err creation-site tracing. While enabled, err(), handle(), the
+ * batch functions, iteration combinators and patterns record where each Err
+ * was created and which combinators it passed through. Intended for
+ * development and tests; disabled tracing costs err() nothing and other
+ * functions a single undefined check per call.
+ *
+ * @example
+ * ```typescript
+ * if (process.env.NODE_ENV !== "production") enableResultTracing();
+ *
+ * const result = andThen(parseId(input), findUser); // err("not found") deep inside
+ * traceOf(result);
+ * // { stack: "at findUser (users.ts:42:12)\n...", steps: ["andThen()"] }
+ * ```
+ *
+ * @see {@link traceOf} to read a recorded trace
+ * @see {@link disableResultTracing} to stop recording
+ */
+export const enableResultTracing = (): void => {
+	tracer = activeTracer;
+	err = tracedErr;
+};
+
+/**
+ * Disables Err creation-site tracing. Traces already recorded stay readable.
+ *
+ * @see {@link enableResultTracing}
+ */
+export const disableResultTracing = (): void => {
+	tracer = undefined;
+	err = plainErr;
+};
+
+/**
+ * Returns the recorded trace of an Err, or undefined for Ok results and for
+ * Errs created while tracing was disabled.
+ *
+ * @example
+ * ```typescript
+ * const trace = traceOf(result);
+ * if (trace) {
+ *   console.error(`Err via ${trace.steps.join(" → ")}\n${trace.stack}`);
+ * }
+ * ```
+ *
+ * @param result - The Result to look up
+ * @returns The creation stack and combinator steps, or undefined
+ * @throws TypeError if result is not an object
+ */
+export const traceOf = <T, E>(
+	result: Result<T, E>,
+): ResultTrace | undefined => {
+	if (!result || typeof result !== "object") {
+		throw new TypeError(
+			`traceOf(): First argument must be a Result object, got ${typeof result}`,
+		);
+	}
+	const record = traces.get(result);
+	if (!record) return undefined;
+	record.stack ??= formatStack(record.site);
+	return { stack: record.stack, steps: [...record.steps] };
+};
@@ -4,6 +4,8 @@
 // Core constants
 export const OK = "Ok" as const;
 export const ERR = "Err" as const;
+export const SOME = "Some" as const;
+export const NONE = "None" as const;
 
 // Core type definitions
 export interface Ok<T> {
@@ -18,6 +20,40 @@ export interface Err<E> {
 
 export type Result<T, E = Error> = Ok<T> | Err<E>;
 
+// Option type definitions
+export interface Some<T> {
+	type: typeof SOME;
+	value: T;
+}
+
+export interface None {
+	type: typeof NONE;
+}
+
+export type Option<T> = Some<T> | None;
+
+// Error accumulation type definitions
+export type NonEmptyArray<T> = [T, ...T[]];
+
+/**
+ * Blocks inference from a type position, like the built-in NoInfer (TS 5.4+)
+ * but usable with every TypeScript version the package supports.
+ */
+export type NoInference<T> = [T][T extends unknown ? 0 : never];
+
+/**
+ * Rejects matchErr() handler keys that are neither `Ok` nor a tag of E. Skipped
+ * when E is never, which is what TypeScript infers from a Result narrowed to Ok
+ * (e.g. `const r: Result<T, E> = ok(x)`); handlers for the declared tags stay valid.
+ */
+export type KnownHandlers<H, E extends { readonly _tag: string }> = [
+	E,
+] extends [never]
+	? H
+	: H & Record<Exclude<keyof H, "Ok" | E["_tag"]>, never>;
+
 // Export the constant types for external use
 export type OK = typeof OK;
 export type ERR = typeof ERR;
+export type SOME = typeof SOME;
+export type NONE = typeof NONE;
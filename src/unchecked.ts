@@ -0,0 +1,935 @@
+// result-ts/unchecked - Core essentials + hot-path operations without runtime validation
+// Provides the iteration, batch and utility functions of the validated layers for trusted inputs
+
+// Re-export the core essentials that perform no argument validation
+export type { Err, Ok, Result } from "@/core";
+export {
+	AbortError,
+	err,
+	type HandleAsyncOptions,
+	handle,
+	handleAsync,
+	handleWith,
+	handleWithAsync,
+	isErr,
+	isOk,
+	ok,
+	TimeoutError,
+} from "@/core";
+
+// Import the shared implementations - the validated layers call the same
+// functions after checking their arguments
+import {
+	all as allImpl,
+	analyze as analyzeImpl,
+	andThenAsync as andThenAsyncImpl,
+	andThen as andThenImpl,
+	errs as errsImpl,
+	findFirst as findFirstImpl,
+	first as firstImpl,
+	fromNullable as fromNullableImpl,
+	inspect as inspectImpl,
+	mapAsync as mapAsyncImpl,
+	mapErrAsync as mapErrAsyncImpl,
+	mapErr as mapErrImpl,
+	map as mapImpl,
+	match as matchImpl,
+	oks as oksImpl,
+	orElseAsync as orElseAsyncImpl,
+	orElse as orElseImpl,
+	partition as partitionImpl,
+	partitionWith as partitionWithImpl,
+	recoverAsync as recoverAsyncImpl,
+	recoverIfAsync as recoverIfAsyncImpl,
+	recoverIf as recoverIfImpl,
+	recover as recoverImpl,
+	recoverWith as recoverWithImpl,
+	reduce as reduceImpl,
+	tapErr as tapErrImpl,
+	tap as tapImpl,
+	toNullable as toNullableImpl,
+	unwrap as unwrapImpl,
+	unwrapOr as unwrapOrImpl,
+} from "@/ops";
+import type { ResultTrace } from "@/tracing";
+import type { Result } from "@/types";
+
+// =============================================================================
+// CORE ESSENTIALS (Individual Exports)
+// =============================================================================
+
+/**
+ * Extracts the value from a Result, throwing if it's an Err.
+ * Same behavior as unwrap() from result-ts for valid Results, without argument validation.
+ *
+ * @example
+ * ```typescript
+ * const value = unwrap(ok(42)); // 42
+ * unwrap(err("failed")); // throws Error("failed")
+ * ```
+ *
+ * @param result - The Result to unwrap
+ * @returns The success value
+ * @throws The error (Error instances as-is, strings wrapped, others preserved in cause) if result is Err
+ * @see {@link unwrapOr} for a non-throwing alternative
+ */
+export function unwrap<T, E extends Record<string, unknown> | string | Error>(
+	result: Result<T, E>,
+): T;
+export function unwrap<T, E>(result: Result<T, E>): T;
+export function unwrap<T, E>(result: Result<T, E>): T {
+	return unwrapImpl(result);
+}
+
+/**
+ * Extracts the value from a Result, returning a default if it's an Err.
+ * Same behavior as unwrapOr() from result-ts for valid Results, without argument validation.
+ *
+ * @example
+ * ```typescript
+ * const port = unwrapOr(parsePort(input), 3000);
+ * ```
+ *
+ * @param result - The Result to unwrap
+ * @param defaultValue - Value to return for Err
+ * @returns The success value or the default
+ */
+export function unwrapOr<T, E extends Record<string, unknown> | string | Error>(
+	result: Result<T, E>,
+	defaultValue: T,
+): T;
+export function unwrapOr<T, E>(result: Result<T, E>, defaultValue: T): T;
+export function unwrapOr<T, E>(result: Result<T, E>, defaultValue: T): T {
+	return unwrapOrImpl(result, defaultValue);
+}
+
+/**
+ * Pattern matches a Result, calling the handler for its variant.
+ * Same behavior as match() from result-ts for valid Results, without argument validation.
+ *
+ * @example
+ * ```typescript
+ * const message = match(result, {
+ *   Ok: (user) => `Welcome, ${user.name}`,
+ *   Err: (error) => `Failed: ${error}`,
+ * });
+ * ```
+ *
+ * @param result - The Result to match
+ * @param handlers - Object with Ok and Err handler functions
+ * @returns The handler's return value
+ */
+export function match<T, E extends Record<string, unknown> | string | Error, R>(
+	result: Result<T, E>,
+	handlers: {
+		Ok: (value: T) => R;
+		Err: (error: E) => R;
+	},
+): R;
+export function match<
+	T,
+	U,
+	V,
+	E extends Record<string, unknown> | string | Error,
+>(
+	result: Result<T, E>,
+	handlers: {
+		Ok: (value: T) => U;
+		Err: (error: E) => V;
+	},
+): U | V;
+export function match<T, E, R>(
+	result: Result<T, E>,
+	handlers: {
+		Ok: (value: T) => R;
+		Err: (error: E) => R;
+	},
+): R;
+export function match<T, U, V, E>(
+	result: Result<T, E>,
+	handlers: {
+		Ok: (value: T) => U;
+		Err: (error: E) => V;
+	},
+): U | V;
+export function match<T, U, V, E>(
+	result: Result<T, E>,
+	handlers: {
+		Ok: (value: T) => U;
+		Err: (error: E) => V;
+	},
+): U | V {
+	return matchImpl(result, handlers);
+}
+
+// =============================================================================
+// ITERATION OPERATIONS (Individual Exports)
+// =============================================================================
+
+/**
+ * Transforms the success value of a Result.
+ * Same behavior as map() from result-ts/iter for valid inputs, without argument validation.
+ *
+ * @example
+ * ```typescript
+ * const doubled = map(ok(21), (x) => x * 2); // Ok(42)
+ * ```
+ *
+ * @param result - The Result to transform
+ * @param mapper - Function to transform the success value
+ * @returns A new Result with the transformed value or original error
+ */
+export function map<T, U, E extends Record<string, unknown> | string | Error>(
+	result: Result<T, E>,
+	mapper: (value: T) => U,
+): Result<U, E>;
+export function map<T, U, E>(
+	result: Result<T, E>,
+	mapper: (value: T) => U,
+): Result<U, E>;
+export function map<T, U, E>(
+	result: Result<T, E>,
+	mapper: (value: T) => U,
+): Result<U, E> {
+	return mapImpl(result, mapper);
+}
+
+/**
+ * Transforms the success value of a Promise<Result> with a sync or async mapper.
+ * Same behavior as mapAsync() from result-ts/iter for valid inputs, without argument validation.
+ *
+ * @param promise - Promise of Result to transform
+ * @param mapper - Function to transform the success value
+ * @returns Promise of Result with the transformed value or original error
+ */
+export function mapAsync<
+	T,
+	U,
+	E extends Record<string, unknown> | string | Error,
+>(
+	promise: Promise<Result<T, E>>,
+	mapper: (value: T) => U | Promise<U>,
+): Promise<Result<U, E>>;
+export function mapAsync<T, U, E>(
+	promise: Promise<Result<T, E>>,
+	mapper: (value: T) => U | Promise<U>,
+): Promise<Result<U, E>>;
+export async function mapAsync<T, U, E>(
+	promise: Promise<Result<T, E>>,
+	mapper: (value: T) => U | Promise<U>,
+): Promise<Result<U, E>> {
+	return mapAsyncImpl(await promise, mapper);
+}
+
+/**
+ * Transforms the error value of a Result.
+ * Same behavior as mapErr() from result-ts/iter for valid inputs, without argument validation.
+ *
+ * @param result - The Result to transform
+ * @param mapper - Function to transform the error value
+ * @returns A new Result with original value or transformed error
+ */
+export function mapErr<
+	T,
+	E extends Record<string, unknown> | string | Error,
+	F,
+>(result: Result<T, E>, mapper: (error: E) => F): Result<T, F>;
+export function mapErr<T, E, F>(
+	result: Result<T, E>,
+	mapper: (error: E) => F,
+): Result<T, F>;
+export function mapErr<T, E, F>(
+	result: Result<T, E>,
+	mapper: (error: E) => F,
+): Result<T, F> {
+	return mapErrImpl(result, mapper);
+}
+
+/**
+ * Transforms the error value of a Promise<Result> with a sync or async mapper.
+ * Same behavior as mapErrAsync() from result-ts/iter for valid inputs, without argument validation.
+ *
+ * @param promise - Promise of Result to transform
+ * @param mapper - Function to transform the error value
+ * @returns Promise of Result with original value or transformed error
+ */
+export function mapErrAsync<
+	T,
+	E extends Record<string, unknown> | string | Error,
+	F,
+>(
+	promise: Promise<Result<T, E>>,
+	mapper: (error: E) => F | Promise<F>,
+): Promise<Result<T, F>>;
+export function mapErrAsync<T, E, F>(
+	promise: Promise<Result<T, E>>,
+	mapper: (error: E) => F | Promise<F>,
+): Promise<Result<T, F>>;
+export async function mapErrAsync<T, E, F>(
+	promise: Promise<Result<T, E>>,
+	mapper: (error: E) => F | Promise<F>,
+): Promise<Result<T, F>> {
+	return mapErrAsyncImpl(await promise, mapper);
+}
+
+/**
+ * Chains Results together, passing the success value to the next operation.
+ * Same behavior as andThen() from result-ts/iter for valid inputs, without argument validation.
+ *
+ * @param result - The Result to chain from
+ * @param mapper - Function that returns a new Result
+ * @returns The new Result or original error
+ */
+export function andThen<
+	T,
+	U,
+	E extends Record<string, unknown> | string | Error,
+>(result: Result<T, E>, mapper: (value: T) => Result<U, E>): Result<U, E>;
+export function andThen<T, U, E>(
+	result: Result<T, E>,
+	mapper: (value: T) => Result<U, E>,
+): Result<U, E>;
+export function andThen<T, U, E>(
+	result: Result<T, E>,
+	mapper: (value: T) => Result<U, E>,
+): Result<U, E> {
+	return andThenImpl(result, mapper);
+}
+
+/**
+ * Chains Promise<Result> together using an async function.
+ * Same behavior as andThenAsync() from result-ts/iter for valid inputs, without argument validation.
+ *
+ * @param promise - Promise of Result to chain from
+ * @param mapper - Async function that returns a Promise<Result>
+ * @returns Promise of the new Result or original error
+ */
+export function andThenAsync<
+	T,
+	U,
+	E extends Record<string, unknown> | string | Error,
+>(
+	promise: Promise<Result<T, E>>,
+	mapper: (value: T) => Promise<Result<U, E>>,
+): Promise<Result<U, E>>;
+export function andThenAsync<T, U, E>(
+	promise: Promise<Result<T, E>>,
+	mapper: (value: T) => Promise<Result<U, E>>,
+): Promise<Result<U, E>>;
+export async function andThenAsync<T, U, E>(
+	promise: Promise<Result<T, E>>,
+	mapper: (value: T) => Promise<Result<U, E>>,
+): Promise<Result<U, E>> {
+	return andThenAsyncImpl(await promise, mapper);
+}
+
+/**
+ * Recovers from an error by running a fallback operation that returns a Result.
+ * Same behavior as orElse() from result-ts/iter for valid inputs, without argument validation.
+ *
+ * @param result - The Result to recover from
+ * @param fallback - Function that receives the error and returns a new Result
+ * @returns The original Ok or the fallback's Result
+ */
+export function orElse<
+	T,
+	E extends Record<string, unknown> | string | Error,
+	U,
+	F,
+>(result: Result<T, E>, fallback: (error: E) => Result<U, F>): Result<T | U, F>;
+export function orElse<T, E, U, F>(
+	result: Result<T, E>,
+	fallback: (error: E) => Result<U, F>,
+): Result<T | U, F>;
+export function orElse<T, E, U, F>(
+	result: Result<T, E>,
+	fallback: (error: E) => Result<U, F>,
+): Result<T | U, F> {
+	return orElseImpl(result, fallback);
+}
+
+/**
+ * Recovers from the error of a Promise<Result> with a sync or async fallback.
+ * Same behavior as orElseAsync() from result-ts/iter for valid inputs, without argument validation.
+ *
+ * @param promise - Promise of Result to recover from
+ * @param fallback - Function that returns a Result or Promise<Result>
+ * @returns Promise of the original Ok or the fallback's Result
+ */
+export function orElseAsync<
+	T,
+	E extends Record<string, unknown> | string | Error,
+	U,
+	F,
+>(
+	promise: Promise<Result<T, E>>,
+	fallback: (error: E) => Result<U, F> | Promise<Result<U, F>>,
+): Promise<Result<T | U, F>>;
+export function orElseAsync<T, E, U, F>(
+	promise: Promise<Result<T, E>>,
+	fallback: (error: E) => Result<U, F> | Promise<Result<U, F>>,
+): Promise<Result<T | U, F>>;
+export async function orElseAsync<T, E, U, F>(
+	promise: Promise<Result<T, E>>,
+	fallback: (error: E) => Result<U, F> | Promise<Result<U, F>>,
+): Promise<Result<T | U, F>> {
+	return orElseAsyncImpl(await promise, fallback);
+}
+
+/**
+ * Turns an error into a success value, producing a Result that can no longer fail.
+ * Same behavior as recover() from result-ts/iter for valid inputs, without argument validation.
+ *
+ * @param result - The Result to recover from
+ * @param fallback - Function that maps the error to a success value
+ * @returns The original Ok or Ok of the fallback value
+ */
+export function recover<
+	T,
+	E extends Record<string, unknown> | string | Error,
+	U,
+>(result: Result<T, E>, fallback: (error: E) => U): Result<T | U, never>;
+export function recover<T, E, U>(
+	result: Result<T, E>,
+	fallback: (error: E) => U,
+): Result<T | U, never>;
+export function recover<T, E, U>(
+	result: Result<T, E>,
+	fallback: (error: E) => U,
+): Result<T | U, never> {
+	return recoverImpl(result, fallback);
+}
+
+/**
+ * Recovers only from errors matching a predicate; other errors pass through.
+ * Same behavior as recoverIf() from result-ts/iter for valid inputs, without argument validation.
+ *
+ * @param result - The Result to recover from
+ * @param predicate - Function deciding whether an error is recoverable
+ * @param fallback - Function that maps a recoverable error to a success value
+ * @returns The original Ok, Ok of the fallback value, or the original Err
+ */
+export function recoverIf<T, E, G extends E, U>(
+	result: Result<T, E>,
+	predicate: (error: E) => error is G,
+	fallback: (error: G) => U,
+): Result<T | U, Exclude<E, G>>;
+export function recoverIf<
+	T,
+	E extends Record<string, unknown> | string | Error,
+	U,
+>(
+	result: Result<T, E>,
+	predicate: (error: E) => boolean,
+	fallback: (error: E) => U,
+): Result<T | U, E>;
+export function recoverIf<T, E, U>(
+	result: Result<T, E>,
+	predicate: (error: E) => boolean,
+	fallback: (error: E) => U,
+): Result<T | U, E>;
+export function recoverIf<T, E, U>(
+	result: Result<T, E>,
+	predicate: (error: E) => boolean,
+	fallback: (error: E) => U,
+): Result<T | U, E> {
+	return recoverIfImpl(result, predicate, fallback);
+}
+
+/**
+ * Recovers only from errors matching a predicate with a fallback that returns a Result.
+ * Same behavior as recoverWith() from result-ts/iter for valid inputs, without argument validation.
+ *
+ * @param result - The Result to recover from
+ * @param predicate - Function deciding whether an error is recoverable
+ * @param fallback - Function that maps a recoverable error to a new Result
+ * @returns The original Ok, the fallback's Result, or the original Err
+ */
+export function recoverWith<T, E, G extends E, U, F>(
+	result: Result<T, E>,
+	predicate: (error: E) => error is G,
+	fallback: (error: G) => Result<U, F>,
+): Result<T | U, Exclude<E, G> | F>;
+export function recoverWith<
+	T,
+	E extends Record<string, unknown> | string | Error,
+	U,
+	F,
+>(
+	result: Result<T, E>,
+	predicate: (error: E) => boolean,
+	fallback: (error: E) => Result<U, F>,
+): Result<T | U, E | F>;
+export function recoverWith<T, E, U, F>(
+	result: Result<T, E>,
+	predicate: (error: E) => boolean,
+	fallback: (error: E) => Result<U, F>,
+): Result<T | U, E | F>;
+export function recoverWith<T, E, U, F>(
+	result: Result<T, E>,
+	predicate: (error: E) => boolean,
+	fallback: (error: E) => Result<U, F>,
+): Result<T | U, E | F> {
+	return recoverWithImpl(result, predicate, fallback);
+}
+
+/**
+ * Turns the error of a Promise<Result> into a success value with a sync or async fallback.
+ * Same behavior as recoverAsync() from result-ts/iter for valid inputs, without argument validation.
+ *
+ * @param promise - Promise of Result to recover from
+ * @param fallback - Function that maps the error to a success value
+ * @returns Promise of the original Ok or Ok of the fallback value
+ */
+export function recoverAsync<
+	T,
+	E extends Record<string, unknown> | string | Error,
+	U,
+>(
+	promise: Promise<Result<T, E>>,
+	fallback: (error: E) => U | Promise<U>,
+): Promise<Result<T | U, never>>;
+export function recoverAsync<T, E, U>(
+	promise: Promise<Result<T, E>>,
+	fallback: (error: E) => U | Promise<U>,
+): Promise<Result<T | U, never>>;
+export async function recoverAsync<T, E, U>(
+	promise: Promise<Result<T, E>>,
+	fallback: (error: E) => U | Promise<U>,
+): Promise<Result<T | U, never>> {
+	return recoverAsyncImpl(await promise, fallback);
+}
+
+/**
+ * Recovers only from errors of a Promise<Result> matching a predicate.
+ * Same behavior as recoverIfAsync() from result-ts/iter for valid inputs, without argument validation.
+ *
+ * @param promise - Promise of Result to recover from
+ * @param predicate - Function deciding whether an error is recoverable
+ * @param fallback - Function that maps a recoverable error to a success value
+ * @returns Promise of the original Ok, Ok of the fallback value, or the original Err
+ */
+export function recoverIfAsync<T, E, G extends E, U>(
+	promise: Promise<Result<T, E>>,
+	predicate: (error: E) => error is G,
+	fallback: (error: G) => U | Promise<U>,
+): Promise<Result<T | U, Exclude<E, G>>>;
+export function recoverIfAsync<
+	T,
+	E extends Record<string, unknown> | string | Error,
+	U,
+>(
+	promise: Promise<Result<T, E>>,
+	predicate: (error: E) => boolean,
+	fallback: (error: E) => U | Promise<U>,
+): Promise<Result<T | U, E>>;
+export function recoverIfAsync<T, E, U>(
+	promise: Promise<Result<T, E>>,
+	predicate: (error: E) => boolean,
+	fallback: (error: E) => U | Promise<U>,
+): Promise<Result<T | U, E>>;
+export async function recoverIfAsync<T, E, U>(
+	promise: Promise<Result<T, E>>,
+	predicate: (error: E) => boolean,
+	fallback: (error: E) => U | Promise<U>,
+): Promise<Result<T | U, E>> {
+	return recoverIfAsyncImpl(await promise, predicate, fallback);
+}
+
+// =============================================================================
+// BATCH OPERATIONS (Individual Exports)
+// =============================================================================
+
+/**
+ * Converts an array of Results into a Result of an array, stopping at the first error.
+ * Same behavior as all() from result-ts/batch for valid inputs, without per-element validation.
+ *
+ * @param results - Array of Results
+ * @returns Ok with all values, or the first Err
+ */
+export function all<T, E extends Record<string, unknown> | string | Error>(
+	results: Array<Result<T, E>>,
+): Result<T[], E>;
+export function all<T, E>(results: Array<Result<T, E>>): Result<T[], E>;
+export function all<T, E>(results: Array<Result<T, E>>): Result<T[], E> {
+	return allImpl(results);
+}
+
+/**
+ * Extracts all success values from an array of Results.
+ * Same behavior as oks() from result-ts/batch for valid inputs, without per-element validation.
+ *
+ * @param results - Array of Results
+ * @returns Array of success values
+ */
+export function oks<T, E extends Record<string, unknown> | string | Error>(
+	results: Array<Result<T, E>>,
+): T[];
+export function oks<T, E>(results: Array<Result<T, E>>): T[];
+export function oks<T, E>(results: Array<Result<T, E>>): T[] {
+	return oksImpl(results);
+}
+
+/**
+ * Extracts all error values from an array of Results.
+ * Same behavior as errs() from result-ts/batch for valid inputs, without per-element validation.
+ *
+ * @param results - Array of Results
+ * @returns Array of error values
+ */
+export function errs<T, E extends Record<string, unknown> | string | Error>(
+	results: Array<Result<T, E>>,
+): E[];
+export function errs<T, E>(results: Array<Result<T, E>>): E[];
+export function errs<T, E>(results: Array<Result<T, E>>): E[] {
+	return errsImpl(results);
+}
+
+/**
+ * Separates an array of Results into success values and errors in a single pass.
+ * Same behavior as partition() from result-ts/batch for valid inputs, without per-element validation.
+ *
+ * @param results - Array of Results
+ * @returns Object with oks and errors arrays
+ */
+export function partition<
+	T,
+	E extends Record<string, unknown> | string | Error,
+>(results: Array<Result<T, E>>): { oks: T[]; errors: E[] };
+export function partition<T, E>(
+	results: Array<Result<T, E>>,
+): { oks: T[]; errors: E[] };
+export function partition<T, E>(
+	results: Array<Result<T, E>>,
+): { oks: T[]; errors: E[] } {
+	return partitionImpl(results);
+}
+
+/**
+ * Separates an array of Results and includes counts in a single pass.
+ * Same behavior as partitionWith() from result-ts/batch for valid inputs, without per-element validation.
+ *
+ * @param results - Array of Results
+ * @returns Object with oks, errors and their counts
+ */
+export function partitionWith<
+	T,
+	E extends Record<string, unknown> | string | Error,
+>(
+	results: Array<Result<T, E>>,
+): {
+	oks: T[];
+	errors: E[];
+	okCount: number;
+	errorCount: number;
+	total: number;
+};
+export function partitionWith<T, E>(
+	results: Array<Result<T, E>>,
+): {
+	oks: T[];
+	errors: E[];
+	okCount: number;
+	errorCount: number;
+	total: number;
+};
+export function partitionWith<T, E>(
+	results: Array<Result<T, E>>,
+): {
+	oks: T[];
+	errors: E[];
+	okCount: number;
+	errorCount: number;
+	total: number;
+} {
+	return partitionWithImpl(results);
+}
+
+/**
+ * Computes statistics about an array of Results in a single pass.
+ * Same behavior as analyze() from result-ts/batch for valid inputs, without per-element validation.
+ *
+ * @param results - Array of Results
+ * @returns Object with counts and flags
+ */
+export function analyze<T, E extends Record<string, unknown> | string | Error>(
+	results: Array<Result<T, E>>,
+): {
+	okCount: number;
+	errorCount: number;
+	total: number;
+	hasErrors: boolean;
+	isEmpty: boolean;
+};
+export function analyze<T, E>(
+	results: Array<Result<T, E>>,
+): {
+	okCount: number;
+	errorCount: number;
+	total: number;
+	hasErrors: boolean;
+	isEmpty: boolean;
+};
+export function analyze<T, E>(
+	results: Array<Result<T, E>>,
+): {
+	okCount: number;
+	errorCount: number;
+	total: number;
+	hasErrors: boolean;
+	isEmpty: boolean;
+} {
+	return analyzeImpl(results);
+}
+
+/**
+ * Finds the first success value and the first error with their indices.
+ * Same behavior as findFirst() from result-ts/batch for valid inputs, without per-element validation.
+ *
+ * @param results - Array of Results
+ * @returns Object with the first Ok value, first error and their indices (-1 when absent)
+ */
+export function findFirst<
+	T,
+	E extends Record<string, unknown> | string | Error,
+>(
+	results: Array<Result<T, E>>,
+): {
+	firstOk: T | undefined;
+	firstError: E | undefined;
+	okIndex: number;
+	errorIndex: number;
+};
+export function findFirst<T, E>(
+	results: Array<Result<T, E>>,
+): {
+	firstOk: T | undefined;
+	firstError: E | undefined;
+	okIndex: number;
+	errorIndex: number;
+};
+export function findFirst<T, E>(
+	results: Array<Result<T, E>>,
+): {
+	firstOk: T | undefined;
+	firstError: E | undefined;
+	okIndex: number;
+	errorIndex: number;
+} {
+	return findFirstImpl(results);
+}
+
+/**
+ * Reduces an array of Results with separate handlers for successes and errors.
+ * Same behavior as reduce() from result-ts/batch for valid inputs, without per-element validation.
+ *
+ * @param results - Array of Results
+ * @param reducer - Object with onOk and onErr reducer functions
+ * @param initialValue - Initial accumulator value
+ * @returns The final accumulator
+ */
+export function reduce<
+	T,
+	E extends Record<string, unknown> | string | Error,
+	Acc,
+>(
+	results: Array<Result<T, E>>,
+	reducer: {
+		onOk: (acc: Acc, value: T, index: number) => Acc;
+		onErr: (acc: Acc, error: E, index: number) => Acc;
+	},
+	initialValue: Acc,
+): Acc;
+export function reduce<T, E, Acc>(
+	results: Array<Result<T, E>>,
+	reducer: {
+		onOk: (acc: Acc, value: T, index: number) => Acc;
+		onErr: (acc: Acc, error: E, index: number) => Acc;
+	},
+	initialValue: Acc,
+): Acc;
+export function reduce<T, E, Acc>(
+	results: Array<Result<T, E>>,
+	reducer: {
+		onOk: (acc: Acc, value: T, index: number) => Acc;
+		onErr: (acc: Acc, error: E, index: number) => Acc;
+	},
+	initialValue: Acc,
+): Acc {
+	return reduceImpl(results, reducer, initialValue);
+}
+
+/**
+ * Returns the first success, or all errors if every Result failed.
+ * Same behavior as first() from result-ts/batch for valid inputs, without per-element validation.
+ *
+ * @param results - Array of Results
+ * @returns The first Ok, or Err with every error
+ */
+export function first<T, E extends Record<string, unknown> | string | Error>(
+	results: Array<Result<T, E>>,
+): Result<T, E[]>;
+export function first<T, E>(results: Array<Result<T, E>>): Result<T, E[]>;
+export function first<T, E>(results: Array<Result<T, E>>): Result<T, E[]> {
+	return firstImpl(results);
+}
+
+// =============================================================================
+// UTILITY FUNCTIONS (Individual Exports)
+// =============================================================================
+
+/**
+ * Runs side effects for either variant and returns the Result unchanged.
+ * Unlike inspect() from result-ts/utils, callbacks receive the original value
+ * rather than a defensive clone, so they must not mutate it.
+ *
+ * @param result - The Result to inspect
+ * @param onOk - Optional callback for the success value
+ * @param onErr - Optional callback for the error value and its trace, when recorded
+ * @returns The original Result
+ */
+export function inspect<T, E extends Record<string, unknown> | string | Error>(
+	result: Result<T, E>,
+	onOk?: (value: T) => void,
+	onErr?: (error: E, trace?: ResultTrace) => void,
+): Result<T, E>;
+export function inspect<T, E>(
+	result: Result<T, E>,
+	onOk?: (value: T) => void,
+	onErr?: (error: E, trace?: ResultTrace) => void,
+): Result<T, E>;
+export function inspect<T, E>(
+	result: Result<T, E>,
+	onOk?: (value: T) => void,
+	onErr?: (error: E, trace?: ResultTrace) => void,
+): Result<T, E> {
+	return inspectImpl(result, onOk, onErr);
+}
+
+/**
+ * Runs a side effect on the success value and returns the Result unchanged.
+ * Unlike tap() from result-ts/utils, the callback receives the original value
+ * rather than a defensive clone, so it must not mutate it.
+ *
+ * @example
+ * ```typescript
+ * const user = tap(parseUser(row), (u) => metrics.increment("users.parsed"));
+ * ```
+ *
+ * @param result - The Result to tap
+ * @param fn - Side effect for the success value
+ * @returns The original Result
+ */
+export function tap<T, E extends Record<string, unknown> | string | Error>(
+	result: Result<T, E>,
+	fn: (value: T) => void,
+): Result<T, E>;
+export function tap<T, E>(
+	result: Result<T, E>,
+	fn: (value: T) => void,
+): Result<T, E>;
+export function tap<T, E>(
+	result: Result<T, E>,
+	fn: (value: T) => void,
+): Result<T, E> {
+	return tapImpl(result, fn);
+}
+
+/**
+ * Runs a side effect on the error value and returns the Result unchanged.
+ * Unlike tapErr() from result-ts/utils, the callback receives the original error
+ * rather than a defensive clone, so it must not mutate it.
+ *
+ * @param result - The Result to tap
+ * @param fn - Side effect for the error value
+ * @returns The original Result
+ */
+export function tapErr<T, E extends Record<string, unknown> | string | Error>(
+	result: Result<T, E>,
+	fn: (error: E) => void,
+): Result<T, E>;
+export function tapErr<T, E>(
+	result: Result<T, E>,
+	fn: (error: E) => void,
+): Result<T, E>;
+export function tapErr<T, E>(
+	result: Result<T, E>,
+	fn: (error: E) => void,
+): Result<T, E> {
+	return tapErrImpl(result, fn);
+}
+
+/**
+ * Converts a nullable value to a Result.
+ * Same behavior as fromNullable() from result-ts/utils.
+ *
+ * @param value - Value that may be null or undefined
+ * @param errorValue - Error to use when value is null or undefined
+ * @returns Ok with the value, or Err with errorValue
+ */
+export function fromNullable<
+	T,
+	E extends Record<string, unknown> | string | Error,
+>(value: T | null | undefined, errorValue: E): Result<T, E>;
+export function fromNullable<T>(
+	value: T | null | undefined,
+	errorValue?: unknown,
+): Result<T, unknown>;
+export function fromNullable<T>(
+	value: T | null | undefined,
+	errorValue: unknown = "Value is null or undefined",
+): Result<T, unknown> {
+	return fromNullableImpl(value, errorValue);
+}
+
+/**
+ * Converts a Result to a nullable value.
+ * Same behavior as toNullable() from result-ts/utils for valid Results, without argument validation.
+ *
+ * @param result - The Result to convert
+ * @returns The success value, or null for Err
+ */
+export function toNullable<
+	T,
+	E extends Record<string, unknown> | string | Error,
+>(result: Result<T, E>): T | null;
+export function toNullable<T, E>(result: Result<T, E>): T | null;
+export function toNullable<T, E>(result: Result<T, E>): T | null {
+	return toNullableImpl(result);
+}
+
+/**
+ * This entry point includes core essentials + the hot-path functions of
+ * result-ts/iter, result-ts/batch and result-ts/utils without runtime validation.
+ *
+ * Use for: tight loops and request hot paths where inputs are already typed and trusted
+ *
+ * Swap the import to opt in - signatures and results match the validated layers:
+ * ```typescript
+ * import { map, andThen, partition, tap } from "result-ts/unchecked";
+ * ```
+ *
+ * Differences from the validated layers:
+ * - No argument checks: invalid Results or callbacks fail with native errors (or not at all)
+ * - tap(), tapErr() and inspect() pass original values instead of defensive clones
+ *
+ * Everything else - Err tracing, skipped null/undefined batch elements - is shared:
+ * both variants call the same implementations.
+ *
+ * Every other layer has its own unchecked entry point with the same operations:
+ * `result-ts/unchecked/<layer>` for option, errors, fp, async, patterns, stream,
+ * resilience, serde and schema. Setup-time factories (taggedError(), retryOn(),
+ * circuitBreaker(), the stream adapters) are shared and keep their checks.
+ *
+ * Keep the validated layers at trust boundaries (parsed input, third-party code),
+ * where descriptive TypeErrors catch mistakes early.
+ *
+ * Other available layers:
+ * - `result-ts` → core essentials only
+ * - `result-ts/iter` → core + data transformation
+ * - `result-ts/batch` → core + array processing
+ * - `result-ts/utils` → core + debugging utilities
+ * - `result-ts/patterns` → core + advanced patterns (chain, safe, zip, apply)
+ * - `result-ts/schema` → core + Standard Schema validation (Zod, Valibot, ArkType, ...)
+ * - `result-ts/schema-zod` → core + Zod schemas for Result objects
+ */
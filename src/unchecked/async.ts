@@ -0,0 +1,58 @@
+// result-ts/unchecked/async - result-ts/async without runtime validation
+// Provides the same thenable ResultAsync pipelines for trusted inputs
+
+export type { ResultAsync } from "@/async";
+// Re-export the core essentials (with the unchecked unwrap(), unwrapOr() and match())
+export * from "@/core";
+export { match, unwrap, unwrapOr } from "@/unchecked";
+
+// The validated layer's types, so every signature below matches it exactly
+import type * as checked from "@/async";
+import { handleWithAsync } from "@/core";
+// Import the shared ResultAsync implementation - without checks it trusts
+// every callback and every settled Result
+import { wrapAsync } from "@/ops";
+import { ERR, OK, type Result } from "@/types";
+
+// =============================================================================
+// RESULT ASYNC CONSTRUCTORS (Individual Exports)
+// =============================================================================
+
+/** resultAsync() from result-ts/async, without checking the settled Results. */
+export const resultAsync: typeof checked.resultAsync = <T, E>(
+	source: Result<T, E> | PromiseLike<Result<T, E>>,
+) => wrapAsync(Promise.resolve(source));
+
+/** okAsync() from result-ts/async, without checking the settled Results. */
+export const okAsync: typeof checked.okAsync = (value) =>
+	wrapAsync(Promise.resolve({ type: OK, value }));
+
+/** errAsync() from result-ts/async, without checking the settled Results. */
+export const errAsync: typeof checked.errAsync = (error) =>
+	wrapAsync(Promise.resolve({ type: ERR, error }));
+
+/** fromPromise() from result-ts/async, without argument validation. */
+export const fromPromise: typeof checked.fromPromise = (promise, errorMapper) =>
+	wrapAsync(handleWithAsync(async () => promise, errorMapper));
+
+/** fromSafePromise() from result-ts/async, without argument validation. */
+export const fromSafePromise: typeof checked.fromSafePromise = (promise) =>
+	wrapAsync(Promise.resolve(promise).then((value) => ({ type: OK, value })));
+
+/**
+ * This entry point mirrors result-ts/async without runtime validation.
+ *
+ * Use for: async pipelines on hot paths where callbacks and Results are already trusted
+ *
+ * Swap the import to opt in - exports, signatures and results match result-ts/async:
+ * ```typescript
+ * import { fromPromise, okAsync } from "result-ts/unchecked/async";
+ * ```
+ *
+ * The ResultAsync methods skip the callback checks and the check of every
+ * settled Result, so a callback returning a non-Result flows on unnoticed.
+ *
+ * Other unchecked layers:
+ * - `result-ts/unchecked` → core + iteration, batch and utility hot paths
+ * - `result-ts/unchecked/<layer>` → every other layer (option, errors, fp, ...)
+ */
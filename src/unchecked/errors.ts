@@ -0,0 +1,111 @@
+// result-ts/unchecked/errors - result-ts/errors without runtime validation
+// Provides the same tagged error toolkit for trusted inputs
+
+// Re-export the core essentials (with the unchecked unwrap(), unwrapOr() and
+// match()) and the tagged error helpers that perform no per-call validation.
+// taggedError() only checks its tag once, when the class is defined.
+export * from "@/core";
+export {
+	causeChain,
+	isTagged,
+	type MatchErrHandlers,
+	rootCause,
+	type Tagged,
+	type TaggedError,
+	type TaggedErrorConstructor,
+	taggedError,
+} from "@/errors";
+export { match, unwrap, unwrapOr } from "@/unchecked";
+
+// The validated layer's types, so every signature below matches it exactly
+import type * as checked from "@/errors";
+import type { MatchErrHandlers, Tagged } from "@/errors";
+// Import the shared implementations - result-ts/errors calls the same
+// functions after checking their arguments
+import {
+	catchTag as catchTagImpl,
+	context as contextImpl,
+	findCause as findCauseImpl,
+	matchErr as matchErrImpl,
+	withContext as withContextImpl,
+} from "@/ops";
+import type { KnownHandlers, NoInference, Result } from "@/types";
+
+// =============================================================================
+// TAGGED ERROR MATCHING (Individual Exports)
+// =============================================================================
+
+/**
+ * matchErr() from result-ts/errors, without argument validation.
+ * A tag with no handler returns undefined instead of throwing.
+ */
+export function matchErr<
+	T = never,
+	E extends Tagged = never,
+	H extends MatchErrHandlers<NoInference<T>, NoInference<E>> = MatchErrHandlers<
+		T,
+		E
+	>,
+>(
+	result: Result<T, E>,
+	handlers: KnownHandlers<H, E>,
+): {
+	[K in keyof H]: H[K] extends (...args: never[]) => infer R ? R : never;
+}[keyof H];
+export function matchErr<T, E extends Tagged>(
+	result: Result<T, E>,
+	handlers: Record<string, (value: unknown) => unknown>,
+): unknown {
+	return matchErrImpl(result, handlers);
+}
+
+/** catchTag() from result-ts/errors, without argument validation. */
+export function catchTag<
+	T,
+	E extends Tagged,
+	K extends E["_tag"],
+	U = never,
+	F = never,
+>(
+	result: Result<T, E>,
+	tag: K,
+	handler: (error: Extract<E, Tagged<K>>) => Result<U, F>,
+): Result<T | U, Exclude<E, Tagged<K>> | F>;
+export function catchTag<T, E extends Tagged, U, F>(
+	result: Result<T, E>,
+	tag: string,
+	handler: (error: E) => Result<U, F>,
+): Result<T | U, E | F> {
+	return catchTagImpl(result, tag, handler);
+}
+
+// =============================================================================
+// ERROR CONTEXT (Individual Exports)
+// =============================================================================
+
+/** context() from result-ts/errors, without argument validation. */
+export const context: typeof checked.context = contextImpl;
+
+/** withContext() from result-ts/errors, without argument validation. */
+export const withContext: typeof checked.withContext = withContextImpl;
+
+/** findCause() from result-ts/errors, without argument validation. */
+export const findCause: typeof checked.findCause = findCauseImpl;
+
+/**
+ * This entry point mirrors result-ts/errors without runtime validation.
+ *
+ * Use for: tagged error handling on hot paths where Results are already trusted
+ *
+ * Swap the import to opt in - exports, signatures and results match result-ts/errors:
+ * ```typescript
+ * import { catchTag, matchErr, taggedError } from "result-ts/unchecked/errors";
+ * ```
+ *
+ * Invalid Results or handlers fail with native errors (or not at all) instead
+ * of descriptive TypeErrors; matchErr() returns undefined for an unhandled tag.
+ *
+ * Other unchecked layers:
+ * - `result-ts/unchecked` → core + iteration, batch and utility hot paths
+ * - `result-ts/unchecked/<layer>` → every other layer (option, fp, async, ...)
+ */
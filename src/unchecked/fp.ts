@@ -0,0 +1,135 @@
+// result-ts/unchecked/fp - result-ts/fp without runtime validation
+// Provides the same curried data-last operators for trusted inputs
+
+// Re-export the core essentials with the unchecked unwrap(); the data-last
+// match() and unwrapOr() below shadow the data-first versions, as in result-ts/fp
+export * from "@/core";
+export { unwrap } from "@/unchecked";
+
+// The validated layer's types, so every signature below matches it exactly
+import type * as checked from "@/fp";
+import { flow as flowImpl, pipe as pipeImpl } from "@/ops";
+import type { Result } from "@/types";
+// Data-first implementations; the operators below only curry and reorder arguments
+import {
+	andThenAsync as andThenAsyncResult,
+	andThen as andThenResult,
+	inspect as inspectResult,
+	mapAsync as mapAsyncResult,
+	mapErrAsync as mapErrAsyncResult,
+	mapErr as mapErrResult,
+	map as mapResult,
+	match as matchResult,
+	reduce as reduceResults,
+	tapErr as tapErrResult,
+	tap as tapResult,
+	unwrapOr as unwrapOrResult,
+} from "@/unchecked";
+
+// =============================================================================
+// TRANSFORMATION OPERATORS (Individual Exports)
+// =============================================================================
+
+/** map() from result-ts/fp, without argument validation. */
+export const map: typeof checked.map = (mapper) => (result) =>
+	mapResult(result, mapper);
+
+/** mapErr() from result-ts/fp, without argument validation. */
+export const mapErr: typeof checked.mapErr = (mapper) => (result) =>
+	mapErrResult(result, mapper);
+
+/** andThen() from result-ts/fp, without argument validation. */
+export const andThen: typeof checked.andThen =
+	<T, U, F>(mapper: (value: T) => Result<U, F>) =>
+	<E>(result: Result<T, E>) =>
+		andThenResult<T, U, E | F>(result, mapper);
+
+/** mapAsync() from result-ts/fp, without argument validation. */
+export const mapAsync: typeof checked.mapAsync = (mapper) => (promise) =>
+	mapAsyncResult(promise, mapper);
+
+/** mapErrAsync() from result-ts/fp, without argument validation. */
+export const mapErrAsync: typeof checked.mapErrAsync = (mapper) => (promise) =>
+	mapErrAsyncResult(promise, mapper);
+
+/** andThenAsync() from result-ts/fp, without argument validation. */
+export const andThenAsync: typeof checked.andThenAsync =
+	<T, U, F>(mapper: (value: T) => Promise<Result<U, F>>) =>
+	<E>(promise: Promise<Result<T, E>>) =>
+		andThenAsyncResult<T, U, E | F>(promise, mapper);
+
+// =============================================================================
+// SIDE EFFECT OPERATORS (Individual Exports)
+// =============================================================================
+
+/**
+ * tap() from result-ts/fp, without argument validation.
+ * The callback receives the original value rather than a defensive clone.
+ */
+export const tap: typeof checked.tap = (fn) => (result) =>
+	tapResult(result, fn);
+
+/**
+ * tapErr() from result-ts/fp, without argument validation.
+ * The callback receives the original error rather than a defensive clone.
+ */
+export const tapErr: typeof checked.tapErr = (fn) => (result) =>
+	tapErrResult(result, fn);
+
+/**
+ * inspect() from result-ts/fp, without argument validation.
+ * The callbacks receive the original values rather than defensive clones.
+ */
+export const inspect: typeof checked.inspect = (onOk, onErr) => (result) =>
+	inspectResult(result, onOk, onErr);
+
+// =============================================================================
+// EXTRACTION OPERATORS (Individual Exports)
+// =============================================================================
+
+/** unwrapOr() from result-ts/fp, without argument validation. */
+export const unwrapOr: typeof checked.unwrapOr =
+	<U>(defaultValue: U) =>
+	<T, E>(result: Result<T, E>) =>
+		unwrapOrResult<T | U, E>(result, defaultValue);
+
+/** match() from result-ts/fp, without argument validation. */
+export const match: typeof checked.match = (handlers) => (result) =>
+	matchResult(result, handlers);
+
+/** reduce() from result-ts/fp, without argument validation. */
+export const reduce: typeof checked.reduce =
+	(reducer, initialValue) => (results) =>
+		reduceResults(results, reducer, initialValue);
+
+// =============================================================================
+// COMPOSITION (Individual Exports)
+// =============================================================================
+
+// The shared implementations are untyped loops; the overloads of the validated
+// pipe() and flow() supply the step-by-step types
+/** pipe() from result-ts/fp, without checking that every step is a function. */
+export const pipe = pipeImpl as typeof checked.pipe;
+
+/** flow() from result-ts/fp, without checking that every step is a function. */
+export const flow = flowImpl as typeof checked.flow;
+
+/**
+ * This entry point mirrors result-ts/fp without runtime validation.
+ *
+ * Use for: point-free pipelines on hot paths where Results are already trusted
+ *
+ * Swap the import to opt in - exports, signatures and results match result-ts/fp:
+ * ```typescript
+ * import * as R from "result-ts/unchecked/fp";
+ * ```
+ *
+ * Operators are built on the result-ts/unchecked functions, so tap(), tapErr()
+ * and inspect() pass the original values instead of defensive clones. Invalid
+ * Results or callbacks fail with native errors (or not at all) instead of
+ * descriptive TypeErrors.
+ *
+ * Other unchecked layers:
+ * - `result-ts/unchecked` → core + iteration, batch and utility hot paths
+ * - `result-ts/unchecked/<layer>` → every other layer (option, errors, async, ...)
+ */
@@ -0,0 +1,95 @@
+// result-ts/unchecked/option - result-ts/option without runtime validation
+// Provides the same Option operations for trusted inputs
+
+// Re-export the core essentials (with the unchecked unwrap(), unwrapOr() and
+// match()) and the Option constructors and guards, which perform no validation
+export * from "@/core";
+export {
+	fromNullableOption,
+	isNone,
+	isSome,
+	type None,
+	none,
+	type Option,
+	type Some,
+	some,
+} from "@/option";
+export { match, unwrap, unwrapOr } from "@/unchecked";
+
+// Import the shared implementations - result-ts/option calls the same
+// functions after checking their arguments
+import {
+	andThenOption as andThenOptionImpl,
+	filterOption as filterOptionImpl,
+	mapOption as mapOptionImpl,
+	matchOption as matchOptionImpl,
+	okOrElse as okOrElseImpl,
+	okOr as okOrImpl,
+	toNullableOption as toNullableOptionImpl,
+	toOption as toOptionImpl,
+	transpose as transposeImpl,
+	unwrapOption as unwrapOptionImpl,
+	unwrapOptionOr as unwrapOptionOrImpl,
+} from "@/ops";
+// The validated layer's types, so every signature below matches it exactly
+import type * as checked from "@/option";
+
+// =============================================================================
+// OPTION OPERATIONS (Individual Exports)
+// =============================================================================
+
+/** toNullableOption() from result-ts/option, without argument validation. */
+export const toNullableOption: typeof checked.toNullableOption =
+	toNullableOptionImpl;
+
+/** mapOption() from result-ts/option, without argument validation. */
+export const mapOption: typeof checked.mapOption = mapOptionImpl;
+
+/** andThenOption() from result-ts/option, without argument validation. */
+export const andThenOption: typeof checked.andThenOption = andThenOptionImpl;
+
+/** filterOption() from result-ts/option, without argument validation. */
+export const filterOption: typeof checked.filterOption = filterOptionImpl;
+
+/** unwrapOption() from result-ts/option, without argument validation. */
+export const unwrapOption: typeof checked.unwrapOption = unwrapOptionImpl;
+
+/** unwrapOptionOr() from result-ts/option, without argument validation. */
+export const unwrapOptionOr: typeof checked.unwrapOptionOr = unwrapOptionOrImpl;
+
+/** matchOption() from result-ts/option, without argument validation. */
+export const matchOption: typeof checked.matchOption = matchOptionImpl;
+
+// =============================================================================
+// RESULT CONVERSIONS (Individual Exports)
+// =============================================================================
+
+/** okOr() from result-ts/option, without argument validation. */
+export const okOr: typeof checked.okOr = okOrImpl;
+
+/** okOrElse() from result-ts/option, without argument validation. */
+export const okOrElse: typeof checked.okOrElse = okOrElseImpl;
+
+/** toOption() from result-ts/option, without argument validation. */
+export const toOption: typeof checked.toOption = toOptionImpl;
+
+/** transpose() from result-ts/option, without argument validation. */
+export const transpose: typeof checked.transpose = transposeImpl;
+
+/**
+ * This entry point mirrors result-ts/option without runtime validation.
+ *
+ * Use for: Option-heavy hot paths where inputs are already typed and trusted
+ *
+ * Swap the import to opt in - exports, signatures and results match result-ts/option:
+ * ```typescript
+ * import { mapOption, okOr, some } from "result-ts/unchecked/option";
+ * ```
+ *
+ * Invalid Options, Results or callbacks fail with native errors (or not at all)
+ * instead of descriptive TypeErrors.
+ *
+ * Other unchecked layers:
+ * - `result-ts/unchecked` → core + iteration, batch and utility hot paths
+ * - `result-ts/unchecked/<layer>` → every other layer (errors, fp, async, ...)
+ */
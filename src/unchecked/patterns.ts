@@ -0,0 +1,136 @@
+// result-ts/unchecked/patterns - result-ts/patterns without runtime validation
+// Provides the same generator-based and applicative patterns for trusted inputs
+
+// Re-export the core essentials (with the unchecked unwrap(), unwrapOr() and
+// match()) and the pattern helpers and types, which perform no validation
+export * from "@/core";
+export {
+	type AsyncChain,
+	type Chain,
+	type DoAsync,
+	type DoBuilder,
+	type NonEmptyArray,
+	resultErr,
+	resultOk,
+} from "@/patterns";
+export { match, unwrap, unwrapOr } from "@/unchecked";
+
+// Import the shared implementations - result-ts/patterns calls the same
+// functions after checking their arguments
+import {
+	$ as $Impl,
+	apply as applyImpl,
+	applyV as applyVImpl,
+	combineAsync as combineAsyncImpl,
+	combine as combineImpl,
+	createChain,
+	createDo,
+	safeAsync as safeAsyncImpl,
+	safe as safeImpl,
+	validateAll as validateAllImpl,
+	zipAllErrors as zipAllErrorsImpl,
+	zipAsync as zipAsyncImpl,
+	zip as zipImpl,
+	zipWith as zipWithImpl,
+} from "@/ops";
+// The validated layer's types, so every signature below matches it exactly
+import type * as checked from "@/patterns";
+import { OK, type Result } from "@/types";
+
+// Some shared implementations run on unknown Results; their casts below take
+// the typed overloads from the validated layer
+
+// =============================================================================
+// LAZY CHAINS AND DO-NOTATION (Individual Exports)
+// =============================================================================
+
+/** chain() from result-ts/patterns, without checking steps or their Results. */
+export const chain = ((
+	initial: Result<unknown, unknown> | Promise<Result<unknown, unknown>>,
+) => createChain(initial, [])) as typeof checked.chain;
+
+/** Do() from result-ts/patterns, without checking keys, steps or their Results. */
+export const Do = (() =>
+	createDo({ type: OK, value: {} })) as typeof checked.Do;
+
+// =============================================================================
+// ADVANCED PATTERNS (Individual Exports)
+// =============================================================================
+
+/** safe() from result-ts/patterns, without checking the yielded Results. */
+export const safe: typeof checked.safe = <T, E>(
+	generator: () => Generator<Result<unknown, E>, T, unknown>,
+) => safeImpl(generator);
+
+/** safeAsync() from result-ts/patterns, without checking the yielded Results. */
+export const safeAsync: typeof checked.safeAsync = <T, E>(
+	generator: () => AsyncGenerator<Result<unknown, E>, T, unknown>,
+) => safeAsyncImpl(generator);
+
+/** $() from result-ts/patterns, without argument validation. */
+export const $ = $Impl as typeof checked.$;
+
+/** yieldFn() from result-ts/patterns, without argument validation. */
+export const yieldFn: typeof checked.yieldFn = <T, E>(result: Result<T, E>) =>
+	result;
+
+/** zip() from result-ts/patterns, without argument validation. */
+export const zip = ((...results: Array<Result<unknown, unknown>>) =>
+	zipImpl(results)) as typeof checked.zip;
+
+/** combine() from result-ts/patterns, without argument validation. */
+export const combine = combineImpl as typeof checked.combine;
+
+/** zipAsync() from result-ts/patterns, without checking the settled Results. */
+export const zipAsync = ((
+	...promises: Array<
+		Result<unknown, unknown> | PromiseLike<Result<unknown, unknown>>
+	>
+) => zipAsyncImpl(promises)) as typeof checked.zipAsync;
+
+/** combineAsync() from result-ts/patterns, without checking the settled Results. */
+export const combineAsync = ((
+	promises: Record<
+		string,
+		Result<unknown, unknown> | PromiseLike<Result<unknown, unknown>>
+	>,
+) => combineAsyncImpl(promises)) as typeof checked.combineAsync;
+
+/** zipWith() from result-ts/patterns, without argument validation. */
+export const zipWith: typeof checked.zipWith = zipWithImpl;
+
+/** apply() from result-ts/patterns, without argument validation. */
+export const apply: typeof checked.apply = applyImpl;
+
+// =============================================================================
+// ERROR-ACCUMULATING VALIDATION (Individual Exports)
+// =============================================================================
+
+/** zipAllErrors() from result-ts/patterns, without argument validation. */
+export const zipAllErrors: typeof checked.zipAllErrors = zipAllErrorsImpl;
+
+/** applyV() from result-ts/patterns, without argument validation. */
+export const applyV: typeof checked.applyV = applyVImpl;
+
+/** validateAll() from result-ts/patterns, without argument validation. */
+export const validateAll: typeof checked.validateAll = validateAllImpl;
+
+/**
+ * This entry point mirrors result-ts/patterns without runtime validation.
+ *
+ * Use for: generator and applicative pipelines on hot paths with trusted Results
+ *
+ * Swap the import to opt in - exports, signatures and results match result-ts/patterns:
+ * ```typescript
+ * import { chain, Do, safe, zip } from "result-ts/unchecked/patterns";
+ * ```
+ *
+ * Skips the argument checks and the checks of values met mid-computation:
+ * chain() and Do() callback results, yielded Results in safe()/safeAsync() and
+ * settled Results in zipAsync()/combineAsync(). chain().run() still rejects
+ * Promise-returning steps, since it cannot return their Results synchronously.
+ *
+ * Other unchecked layers:
+ * - `result-ts/unchecked` → core + iteration, batch and utility hot paths
+ * - `result-ts/unchecked/<layer>` → every other layer (option, errors, fp, ...)
+ */
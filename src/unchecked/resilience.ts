@@ -0,0 +1,60 @@
+// result-ts/unchecked/resilience - result-ts/resilience without runtime validation
+// Provides the same retry loop for trusted operations and options
+
+// Re-export the core essentials (with the unchecked unwrap(), unwrapOr() and
+// match()) and the resilience types, errors and factories. retryOn() and
+// circuitBreaker() only check their arguments once, when they are created.
+export * from "@/core";
+export {
+	type BackoffStrategy,
+	type CircuitBreaker,
+	type CircuitBreakerOptions,
+	type CircuitEvent,
+	CircuitOpenError,
+	type CircuitState,
+	type CircuitTransition,
+	circuitBreaker,
+	type RetryAttempt,
+	RetryError,
+	type RetryOptions,
+	type RetryStopReason,
+	retryOn,
+} from "@/resilience";
+export { match, unwrap, unwrapOr } from "@/unchecked";
+
+// Import the shared retry loop - result-ts/resilience runs the same loop after
+// checking its arguments and every attempt's Result
+import { retry as retryImpl } from "@/ops";
+// The validated layer's types, so every signature below matches it exactly
+import type * as checked from "@/resilience";
+import { RetryError, type RetryOptions } from "@/resilience";
+import type { Result } from "@/types";
+
+// =============================================================================
+// RETRY (Individual Exports)
+// =============================================================================
+
+/** retry() from result-ts/resilience, without checking fn, options or attempts. */
+export const retry: typeof checked.retry = <T, E>(
+	fn: (attempt: number) => Promise<Result<T, E>>,
+	options: RetryOptions<E> = {},
+) => retryImpl(fn, options, RetryError);
+
+/**
+ * This entry point mirrors result-ts/resilience without runtime validation.
+ *
+ * Use for: retrying trusted operations in tight loops
+ *
+ * Swap the import to opt in - exports, signatures and results match result-ts/resilience:
+ * ```typescript
+ * import { retry, retryOn } from "result-ts/unchecked/resilience";
+ * ```
+ *
+ * retry() skips its option checks and the check of every attempt's Result.
+ * circuitBreaker() and retryOn() are shared with result-ts/resilience: their
+ * checks run once when the breaker or predicate is created, not per call.
+ *
+ * Other unchecked layers:
+ * - `result-ts/unchecked` → core + iteration, batch and utility hot paths
+ * - `result-ts/unchecked/<layer>` → every other layer (option, errors, fp, ...)
+ */
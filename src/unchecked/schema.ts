@@ -0,0 +1,89 @@
+// result-ts/unchecked/schema - result-ts/schema without runtime validation
+// Provides the same Standard Schema validation and JSON parsing for trusted arguments
+
+// Re-export the core essentials (with the unchecked unwrap(), unwrapOr() and
+// match()) and the Standard Schema types
+export * from "@/core";
+export type {
+	StandardSchemaFailure,
+	StandardSchemaIssue,
+	StandardSchemaProps,
+	StandardSchemaResult,
+	StandardSchemaV1,
+} from "@/schema";
+export { match, unwrap, unwrapOr } from "@/unchecked";
+
+// Import the shared implementations - result-ts/schema calls the same
+// functions after checking their arguments
+import {
+	parseJsonAsync as parseJsonAsyncImpl,
+	parseJson as parseJsonImpl,
+	parseResultAsync as parseResultAsyncImpl,
+	parseResult as parseResultImpl,
+	validateAsync as validateAsyncImpl,
+	validate as validateImpl,
+	validateWithAsync as validateWithAsyncImpl,
+	validateWith as validateWithImpl,
+} from "@/ops";
+// The validated layer's types, so every signature below matches it exactly
+import type * as checked from "@/schema";
+
+// =============================================================================
+// VALIDATION OPERATIONS (Individual Exports)
+// =============================================================================
+
+/** validate() from result-ts/schema, without argument validation. */
+export const validate: typeof checked.validate = validateImpl;
+
+/** validateAsync() from result-ts/schema, without argument validation. */
+export const validateAsync: typeof checked.validateAsync = validateAsyncImpl;
+
+// The shared implementations type their error mapper for Zod schemas only;
+// the casts take the Zod and Standard Schema overloads from the validated layer
+
+/** validateWith() from result-ts/schema, without argument validation. */
+export const validateWith = validateWithImpl as typeof checked.validateWith;
+
+/** validateWithAsync() from result-ts/schema, without argument validation. */
+export const validateWithAsync =
+	validateWithAsyncImpl as typeof checked.validateWithAsync;
+
+// =============================================================================
+// JSON PARSING OPERATIONS (Individual Exports)
+// =============================================================================
+
+/** parseJson() from result-ts/schema, without argument validation. */
+export const parseJson: typeof checked.parseJson = parseJsonImpl;
+
+/** parseJsonAsync() from result-ts/schema, without argument validation. */
+export const parseJsonAsync: typeof checked.parseJsonAsync = parseJsonAsyncImpl;
+
+// =============================================================================
+// RESULT PARSING OPERATIONS (Individual Exports)
+// =============================================================================
+
+/** parseResult() from result-ts/schema, without argument validation. */
+export const parseResult: typeof checked.parseResult = parseResultImpl;
+
+/** parseResultAsync() from result-ts/schema, without argument validation. */
+export const parseResultAsync: typeof checked.parseResultAsync =
+	parseResultAsyncImpl;
+
+/**
+ * This entry point mirrors result-ts/schema without runtime validation.
+ *
+ * Use for: validating many records against a schema that is already known to be valid
+ *
+ * Swap the import to opt in - signatures and results match result-ts/schema:
+ * ```typescript
+ * import { parseJson, validate } from "result-ts/unchecked/schema";
+ * ```
+ *
+ * Only the argument checks are skipped: schemas still run in full, and a
+ * synchronous call on an asynchronous Standard Schema still throws. The
+ * deprecated Zod builders are not mirrored - import them from `result-ts/schema-zod`.
+ *
+ * Other unchecked layers:
+ * - `result-ts/unchecked` → core + iteration, batch and utility hot paths
+ * - `result-ts/unchecked/<layer>` → every other layer (option, errors, fp, ...)
+ */
@@ -0,0 +1,49 @@
+// result-ts/unchecked/serde - result-ts/serde without runtime validation
+// Provides the same lossless JSON round-trips for trusted Results
+
+// Re-export the core essentials (with the unchecked unwrap(), unwrapOr() and
+// match()) and the serde option types
+export * from "@/core";
+export type {
+	DeserializeOptions,
+	ErrorRegistry,
+	SerializeOptions,
+} from "@/serde";
+export { match, unwrap, unwrapOr } from "@/unchecked";
+
+// Import the shared encoder and decoder - result-ts/serde calls the same
+// functions after checking their arguments
+import {
+	deserialize as deserializeImpl,
+	serialize as serializeImpl,
+} from "@/ops";
+// The validated layer's types, so every signature below matches it exactly
+import type * as checked from "@/serde";
+
+// =============================================================================
+// SERIALIZATION (Individual Exports)
+// =============================================================================
+
+/** serialize() from result-ts/serde, without argument validation. */
+export const serialize: typeof checked.serialize = serializeImpl;
+
+/** deserialize() from result-ts/serde, without argument validation. */
+export const deserialize: typeof checked.deserialize = deserializeImpl;
+
+/**
+ * This entry point mirrors result-ts/serde without runtime validation.
+ *
+ * Use for: serializing many trusted Results, e.g. when writing job queues or caches
+ *
+ * Swap the import to opt in - exports, signatures and results match result-ts/serde:
+ * ```typescript
+ * import { deserialize, serialize } from "result-ts/unchecked/serde";
+ * ```
+ *
+ * Only the argument checks are skipped: values that cannot be encoded still
+ * throw, and malformed input to deserialize() still returns Err.
+ *
+ * Other unchecked layers:
+ * - `result-ts/unchecked` → core + iteration, batch and utility hot paths
+ * - `result-ts/unchecked/<layer>` → every other layer (option, errors, fp, ...)
+ */
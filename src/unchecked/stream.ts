@@ -0,0 +1,94 @@
+// result-ts/unchecked/stream - result-ts/stream without runtime validation
+// Provides the same lazy stream operators for trusted sources
+
+// Re-export the core essentials (with the unchecked unwrap(), unwrapOr() and
+// match()), the stream types and the stream adapters, which only check their
+// input once when the stream is created
+export * from "@/core";
+export {
+	fromReadable,
+	fromReadableStream,
+	type ReadableLike,
+	type ResultSource,
+	type StreamAdapterOptions,
+	type StreamStats,
+} from "@/stream";
+export { match, unwrap, unwrapOr } from "@/unchecked";
+
+// Import the shared stream operators - result-ts/stream runs the same
+// operators after checking their arguments and every streamed item
+import {
+	analyzeStream as analyzeStreamImpl,
+	andThenOk as andThenOkImpl,
+	collect as collectImpl,
+	filterOk as filterOkImpl,
+	mapOk as mapOkImpl,
+	partitionStream as partitionStreamImpl,
+	takeUntilErr as takeUntilErrImpl,
+} from "@/ops";
+// The validated layer's types, so every signature below matches it exactly
+import type * as checked from "@/stream";
+import type { ResultSource, StreamStats } from "@/stream";
+import type { Result } from "@/types";
+
+// =============================================================================
+// STREAM OPERATORS (Individual Exports)
+// =============================================================================
+
+/** mapOk() from result-ts/stream, without checking the source or its items. */
+export const mapOk: typeof checked.mapOk = <T, U, E>(
+	source: ResultSource<T, E>,
+	fn: (value: T) => U | Promise<U>,
+) => mapOkImpl(source, fn);
+
+/** andThenOk() from result-ts/stream, without checking the source or its items. */
+export const andThenOk: typeof checked.andThenOk = <T, U, E, F = E>(
+	source: ResultSource<T, E>,
+	fn: (value: T) => Result<U, F> | Promise<Result<U, F>>,
+) => andThenOkImpl(source, fn);
+
+/** filterOk() from result-ts/stream, without checking the source or its items. */
+export const filterOk: typeof checked.filterOk = <T, E>(
+	source: ResultSource<T, E>,
+	predicate: (value: T) => boolean | Promise<boolean>,
+) => filterOkImpl(source, predicate);
+
+/** takeUntilErr() from result-ts/stream, without checking the source or its items. */
+export const takeUntilErr: typeof checked.takeUntilErr = <T, E>(
+	source: ResultSource<T, E>,
+) => takeUntilErrImpl(source);
+
+/** partitionStream() from result-ts/stream, without checking the source or its items. */
+export const partitionStream: typeof checked.partitionStream = <T, E>(
+	source: ResultSource<T, E>,
+) => partitionStreamImpl(source);
+
+/** collect() from result-ts/stream, without checking the source or its items. */
+export const collect: typeof checked.collect = <T, E>(
+	source: ResultSource<T, E>,
+) => collectImpl(source);
+
+/** analyzeStream() from result-ts/stream, without checking the source or its items. */
+export const analyzeStream: typeof checked.analyzeStream = <T, E>(
+	source: ResultSource<T, E>,
+	onProgress?: (stats: StreamStats) => void,
+) => analyzeStreamImpl(source, onProgress);
+
+/**
+ * This entry point mirrors result-ts/stream without runtime validation.
+ *
+ * Use for: high-volume streams whose items are already known to be Results
+ *
+ * Swap the import to opt in - exports, signatures and results match result-ts/stream:
+ * ```typescript
+ * import { collect, mapOk } from "result-ts/unchecked/stream";
+ * ```
+ *
+ * Skips the per-item Result check, which result-ts/stream runs for every item
+ * and every andThenOk() callback Result. fromReadable() and fromReadableStream()
+ * are shared with result-ts/stream: they check their input once, when called.
+ *
+ * Other unchecked layers:
+ * - `result-ts/unchecked` → core + iteration, batch and utility hot paths
+ * - `result-ts/unchecked/<layer>` → every other layer (option, errors, fp, ...)
+ */
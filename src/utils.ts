@@ -4,7 +4,23 @@
 // Re-export all core essentials from core module
 export * from "@/core";
 
+// Re-export Err creation-site tracing
+export {
+	disableResultTracing,
+	enableResultTracing,
+	type ResultTrace,
+	traceOf,
+} from "@/tracing";
+
 // Import types and constants for utils implementations
+import {
+	fromNullable as fromNullableImpl,
+	inspect as inspectImpl,
+	tapErr as tapErrImpl,
+	tap as tapImpl,
+	toNullable as toNullableImpl,
+} from "@/ops";
+import type { ResultTrace } from "@/tracing";
 import { ERR, OK, type Result } from "@/types";
 
 // =============================================================================
@@ -79,24 +95,252 @@ const validateCallback = (
 	}
 };
 
+// =============================================================================
+// CLONE STRATEGIES
+// =============================================================================
+
+/**
+ * How tap(), tapErr() and inspect() protect values before passing them to callbacks.
+ * - "structured": deep copy via structuredClone, falling back to a JSON copy (default)
+ * - "freeze": deep-freeze the original in place, preventing mutation without copying
+ * - "none": pass the original value
+ * - function: custom copy, called with each object value
+ */
+export type CloneStrategy =
+	| "structured"
+	| "freeze"
+	| "none"
+	| ((value: unknown) => unknown);
+
+/**
+ * Per-call or global clone settings for tap(), tapErr() and inspect().
+ */
+export interface CloneOptions {
+	/** How values are protected (default: "structured"). */
+	clone?: CloneStrategy;
+	/** Throw CloneError when a value cannot be protected instead of degrading (default: false). */
+	strict?: boolean;
+}
+
+/**
+ * Thrown in strict mode when a value cannot be protected by the chosen strategy.
+ */
+export class CloneError extends Error {
+	override readonly name = "CloneError";
+	readonly _tag = "CloneError";
+
+	constructor(
+		message: string,
+		readonly strategy: "structured" | "freeze",
+		options?: ErrorOptions,
+	) {
+		super(message, options);
+	}
+}
+
+let cloneDefaults: { clone: CloneStrategy; strict: boolean } = {
+	clone: "structured",
+	strict: false,
+};
+
+/**
+ * Validates clone options passed to setCloneOptions() or a side-effect function.
+ */
+const validateCloneOptions = (options: unknown, functionName: string): void => {
+	if (!options || typeof options !== "object") {
+		throw new TypeError(
+			`${functionName}: options must be an object, got ${options === null ? "null" : typeof options}`,
+		);
+	}
+	const { clone, strict } = options as Record<string, unknown>;
+	if (
+		clone !== undefined &&
+		typeof clone !== "function" &&
+		clone !== "structured" &&
+		clone !== "freeze" &&
+		clone !== "none"
+	) {
+		throw new TypeError(
+			`${functionName}: options.clone must be "structured", "freeze", "none" or a function, got ${typeof clone === "string" ? `"${clone}"` : typeof clone}`,
+		);
+	}
+	if (strict !== undefined && typeof strict !== "boolean") {
+		throw new TypeError(
+			`${functionName}: options.strict must be a boolean, got ${typeof strict}`,
+		);
+	}
+};
+
 /**
- * Safely clones a value to prevent mutations in side-effect functions.
- * Uses structuredClone when available, with fallback for older environments.
+ * Returns the built-in type name of an object (e.g. "Map", "Uint8Array").
  */
-const safeClone = <T>(value: T): T => {
-	// Primitives don't need cloning
+const kindOf = (value: object): string =>
+	Object.prototype.toString.call(value).slice(8, -1);
+
+/**
+ * Freezes an object graph in place. Typed arrays cannot be frozen and Map, Set
+ * and Date contents stay mutable through their methods; strict mode reports
+ * them instead of leaving them partially protected.
+ */
+const deepFreeze = (
+	value: unknown,
+	strict: boolean,
+	functionName: string,
+	seen: WeakSet<object> = new WeakSet(),
+): void => {
+	if (value === null || typeof value !== "object" || seen.has(value)) {
+		return;
+	}
+	seen.add(value);
+
+	const isView = ArrayBuffer.isView(value);
+	if (
+		strict &&
+		(isView ||
+			value instanceof ArrayBuffer ||
+			value instanceof Map ||
+			value instanceof Set ||
+			value instanceof Date)
+	) {
+		throw new CloneError(
+			`${functionName}: ${kindOf(value)} values cannot be deep-frozen, use clone: "structured" or a custom clone function`,
+			"freeze",
+		);
+	}
+
+	if (value instanceof Map) {
+		for (const [key, entry] of value) {
+			deepFreeze(key, strict, functionName, seen);
+			deepFreeze(entry, strict, functionName, seen);
+		}
+	} else if (value instanceof Set) {
+		for (const entry of value) {
+			deepFreeze(entry, strict, functionName, seen);
+		}
+	}
+
+	// Object.freeze() throws on non-empty typed arrays
+	if (isView) return;
+	for (const key of Reflect.ownKeys(value)) {
+		// Read data properties only, so getters are never invoked
+		const descriptor = Object.getOwnPropertyDescriptor(value, key);
+		if (descriptor && "value" in descriptor) {
+			deepFreeze(descriptor.value, strict, functionName, seen);
+		}
+	}
+	Object.freeze(value);
+};
+
+/**
+ * Error prototypes structuredClone() recreates; other Error subclasses come
+ * back as plain Errors.
+ */
+const CLONEABLE_ERRORS: ReadonlySet<unknown> = new Set(
+	[
+		Error,
+		EvalError,
+		RangeError,
+		ReferenceError,
+		SyntaxError,
+		TypeError,
+		URIError,
+	].map((type) => type.prototype),
+);
+
+/**
+ * Rejects objects structuredClone() would copy without their prototype, such as
+ * class instances or subclassed built-ins, so strict mode never hands callbacks
+ * a lookalike that lost its methods.
+ */
+const assertKeepsPrototype = (
+	value: unknown,
+	functionName: string,
+	seen: WeakSet<object> = new WeakSet(),
+): void => {
+	if (value === null || typeof value !== "object" || seen.has(value)) {
+		return;
+	}
+	seen.add(value);
+
+	const prototype: unknown = Object.getPrototypeOf(value);
+	const builtin = (globalThis as unknown as Record<string, unknown>)[
+		kindOf(value)
+	];
+	const kept =
+		prototype === null ||
+		(value instanceof Error
+			? CLONEABLE_ERRORS.has(prototype)
+			: typeof builtin === "function" && prototype === builtin.prototype);
+	if (!kept) {
+		const name =
+			(prototype as { constructor?: { name?: string } } | null)?.constructor
+				?.name || kindOf(value);
+		throw new CloneError(
+			`${functionName}: ${name} instances lose their prototype when cloned with structuredClone, use clone: "freeze" or a custom clone function`,
+			"structured",
+		);
+	}
+
+	if (value instanceof Map) {
+		for (const [key, entry] of value) {
+			assertKeepsPrototype(key, functionName, seen);
+			assertKeepsPrototype(entry, functionName, seen);
+		}
+	} else if (value instanceof Set) {
+		for (const entry of value) {
+			assertKeepsPrototype(entry, functionName, seen);
+		}
+	} else if (!ArrayBuffer.isView(value)) {
+		for (const entry of Object.values(value)) {
+			assertKeepsPrototype(entry, functionName, seen);
+		}
+	}
+};
+
+/**
+ * Protects a value from mutation by side-effect callbacks using the per-call
+ * options, falling back to the global defaults set with setCloneOptions().
+ */
+const protect = <T>(
+	value: T,
+	options: CloneOptions | undefined,
+	functionName: string,
+): T => {
+	// Primitives don't need protection
 	if (value === null || typeof value !== "object") {
 		return value;
 	}
 
+	const clone = options?.clone ?? cloneDefaults.clone;
+	const strict = options?.strict ?? cloneDefaults.strict;
+
+	if (clone === "none") return value;
+	if (typeof clone === "function") return clone(value) as T;
+	if (clone === "freeze") {
+		deepFreeze(value, strict, functionName);
+		return value;
+	}
+
 	// Use structuredClone if available (modern browsers/Node 17+)
 	if (typeof structuredClone !== "undefined") {
+		if (strict) assertKeepsPrototype(value, functionName);
 		try {
 			return structuredClone(value);
-		} catch {
+		} catch (error) {
 			// structuredClone can fail on non-cloneable objects (functions, etc.)
-			// Fall through to JSON fallback
+			if (strict) {
+				throw new CloneError(
+					`${functionName}: value cannot be cloned with structuredClone`,
+					"structured",
+					{ cause: error },
+				);
+			}
 		}
+	} else if (strict) {
+		throw new CloneError(
+			`${functionName}: structuredClone is not available in this environment`,
+			"structured",
+		);
 	}
 
 	// Fallback: JSON clone (loses functions, dates become strings, etc.)
@@ -110,6 +354,33 @@ const safeClone = <T>(value: T): T => {
 	}
 };
 
+/**
+ * Sets the default clone options used by tap(), tapErr() and inspect() when a
+ * call does not pass its own. Returns the previous defaults so they can be restored.
+ *
+ * @example
+ * ```typescript
+ * // Hot path: freeze instead of copying, and fail loudly on unfreezable values
+ * const previous = setCloneOptions({ clone: "freeze", strict: true });
+ *
+ * // In tests
+ * afterEach(() => setCloneOptions(previous));
+ * ```
+ *
+ * @param options - Defaults to merge into the current ones
+ * @returns The defaults that were in effect before the call
+ * @throws TypeError if options are invalid
+ */
+export const setCloneOptions = (options: CloneOptions): CloneOptions => {
+	validateCloneOptions(options, "setCloneOptions()");
+	const previous = { ...cloneDefaults };
+	cloneDefaults = {
+		clone: options.clone ?? cloneDefaults.clone,
+		strict: options.strict ?? cloneDefaults.strict,
+	};
+	return previous;
+};
+
 // =============================================================================
 // UTILITY FUNCTIONS (Individual Exports)
 // =============================================================================
@@ -117,7 +388,9 @@ const safeClone = <T>(value: T): T => {
 /**
  * Inspects a Result by calling callbacks without changing the Result.
  * Useful for debugging or side effects without changing the Result.
- * Values passed to callbacks are safely cloned to prevent accidental mutations.
+ * Values passed to callbacks are safely cloned to prevent accidental mutations;
+ * pass options (or use {@link setCloneOptions}) to choose another {@link CloneStrategy}.
+ * When the Err was traced (see {@link enableResultTracing}), onErr also receives its trace.
  * Constrains error types to ensure meaningful error handling.
  *
  * @example
@@ -142,47 +415,57 @@ const safeClone = <T>(value: T): T => {
  *   (data) => console.log("Valid data:", data),
  *   (error) => console.log("Validation failed:", error.field, error.message)
  * );
+ *
+ * // Print where an Err came from while tracing is enabled
+ * enableResultTracing();
+ * inspect(andThen(parseId(input), findUser), undefined, (error, trace) =>
+ *   console.error(error, trace?.steps, trace?.stack)
+ * );
  * ```
  *
  * @param result - The Result to inspect
  * @param onOk - Optional callback for success values
- * @param onErr - Optional callback for error values
+ * @param onErr - Optional callback for error values, plus the Err's trace when recorded
+ * @param options - Optional clone strategy and strict mode, overriding the global defaults
  * @returns The original Result unchanged
  * @throws TypeError if result is not a valid Result object or callbacks are not functions
+ * @throws CloneError in strict mode when a value cannot be protected
  * @see {@link tap} for side effects on success values only
  * @see {@link tapErr} for side effects on error values only
  */
 export function inspect<T, E extends Record<string, unknown> | string | Error>(
 	result: Result<T, E>,
 	onOk?: (value: T) => void,
-	onErr?: (error: E) => void,
+	onErr?: (error: E, trace?: ResultTrace) => void,
+	options?: CloneOptions,
 ): Result<T, E>;
 export function inspect<T, E>(
 	result: Result<T, E>,
 	onOk?: (value: T) => void,
-	onErr?: (error: E) => void,
+	onErr?: (error: E, trace?: ResultTrace) => void,
+	options?: CloneOptions,
 ): Result<T, E>;
 export function inspect<T, E>(
 	result: Result<T, E>,
 	onOk?: (value: T) => void,
-	onErr?: (error: E) => void,
+	onErr?: (error: E, trace?: ResultTrace) => void,
+	options?: CloneOptions,
 ): Result<T, E> {
 	validateResult(result, "inspect()");
 	validateCallback(onOk, "inspect()", "onOk", true);
 	validateCallback(onErr, "inspect()", "onErr", true);
+	if (options !== undefined) validateCloneOptions(options, "inspect()");
 
-	if (result.type === OK && onOk) {
-		onOk(safeClone(result.value));
-	} else if (result.type === ERR && onErr) {
-		onErr(safeClone(result.error));
-	}
-	return result;
+	return inspectImpl(result, onOk, onErr, (value) =>
+		protect(value, options, "inspect()"),
+	);
 }
 
 /**
  * Performs a side effect on success values without changing the Result.
  * Useful for logging, caching, or other side effects in a processing chain.
- * Values passed to callback are safely cloned to prevent accidental mutations.
+ * Values passed to callback are safely cloned to prevent accidental mutations,
+ * or protected by the {@link CloneStrategy} given in options.
  * Constrains error types to ensure meaningful error handling.
  *
  * @example
@@ -213,40 +496,47 @@ export function inspect<T, E>(
  *   validateInput(data),
  *   (valid) => console.log("Input validated:", valid)
  * );
+ *
+ * // Large payloads: freeze instead of copying
+ * tap(fetchReport(), (report) => metrics.record(report.rows.length), { clone: "freeze" });
  * ```
  *
  * @param result - The Result to tap
  * @param fn - Function to call with success value
+ * @param options - Optional clone strategy and strict mode, overriding the global defaults
  * @returns The original Result unchanged
  * @throws TypeError if result is not a valid Result object or fn is not a function
+ * @throws CloneError in strict mode when a value cannot be protected
  * @see {@link tapErr} for side effects on error values
  * @see {@link inspect} for side effects on both success and error values
  */
 export function tap<T, E extends Record<string, unknown> | string | Error>(
 	result: Result<T, E>,
 	fn: (value: T) => void,
+	options?: CloneOptions,
 ): Result<T, E>;
 export function tap<T, E>(
 	result: Result<T, E>,
 	fn: (value: T) => void,
+	options?: CloneOptions,
 ): Result<T, E>;
 export function tap<T, E>(
 	result: Result<T, E>,
 	fn: (value: T) => void,
+	options?: CloneOptions,
 ): Result<T, E> {
 	validateResult(result, "tap()");
 	validateCallback(fn, "tap()", "fn", false);
+	if (options !== undefined) validateCloneOptions(options, "tap()");
 
-	if (result.type === OK) {
-		fn(safeClone(result.value));
-	}
-	return result;
+	return tapImpl(result, fn, (value) => protect(value, options, "tap()"));
 }
 
 /**
  * Performs a side effect on error values without changing the Result.
  * Useful for error logging, metrics collection, or cleanup operations.
- * Error values passed to callback are safely cloned to prevent accidental mutations.
+ * Error values passed to callback are safely cloned to prevent accidental mutations,
+ * or protected by the {@link CloneStrategy} given in options.
  * Constrains error types to ensure meaningful error handling.
  *
  * @example
@@ -284,30 +574,33 @@ export function tap<T, E>(
  *
  * @param result - The Result to tap
  * @param fn - Function to call with error value
+ * @param options - Optional clone strategy and strict mode, overriding the global defaults
  * @returns The original Result unchanged
  * @throws TypeError if result is not a valid Result object or fn is not a function
+ * @throws CloneError in strict mode when a value cannot be protected
  * @see {@link tap} for side effects on success values
  * @see {@link inspect} for side effects on both success and error values
  */
 export function tapErr<T, E extends Record<string, unknown> | string | Error>(
 	result: Result<T, E>,
 	fn: (error: E) => void,
+	options?: CloneOptions,
 ): Result<T, E>;
 export function tapErr<T, E>(
 	result: Result<T, E>,
 	fn: (error: E) => void,
+	options?: CloneOptions,
 ): Result<T, E>;
 export function tapErr<T, E>(
 	result: Result<T, E>,
 	fn: (error: E) => void,
+	options?: CloneOptions,
 ): Result<T, E> {
 	validateResult(result, "tapErr()");
 	validateCallback(fn, "tapErr()", "fn", false);
+	if (options !== undefined) validateCloneOptions(options, "tapErr()");
 
-	if (result.type === ERR) {
-		fn(safeClone(result.error));
-	}
-	return result;
+	return tapErrImpl(result, fn, (value) => protect(value, options, "tapErr()"));
 }
 
 /**
@@ -361,7 +654,7 @@ export function fromNullable<T>(
 	errorValue: unknown = "Value is null or undefined",
 ): Result<T, unknown> {
 	// Note: No validation needed - this function accepts any value type by design
-	return value != null ? { type: OK, value } : { type: ERR, error: errorValue };
+	return fromNullableImpl(value, errorValue);
 }
 
 /**
@@ -411,7 +704,380 @@ export function toNullable<
 export function toNullable<T, E>(result: Result<T, E>): T | null;
 export function toNullable<T, E>(result: Result<T, E>): T | null {
 	validateResult(result, "toNullable()");
-	return result.type === OK ? result.value : null;
+	return toNullableImpl(result);
+}
+
+// =============================================================================
+// STRUCTURED LOGGING (Individual Exports)
+// =============================================================================
+
+/**
+ * Log levels used by {@link logResult}.
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Any logger whose `info` and `error` methods take a message and a structured
+ * record: `console`, winston, or a small adapter for object-first loggers like pino.
+ * A missing `debug` falls back to `info` and a missing `warn` to `error`.
+ */
+export interface ResultLogger {
+	info(message: string, record: ResultLogRecord): void;
+	error(message: string, record: ResultLogRecord): void;
+	warn?(message: string, record: ResultLogRecord): void;
+	debug?(message: string, record: ResultLogRecord): void;
+}
+
+/**
+ * Error description in a {@link ResultLogRecord}, following the cause chain.
+ */
+export interface LoggedError {
+	name?: string;
+	message: string;
+	/** Redacted copy of an object error that is not an Error instance. */
+	details?: unknown;
+	cause?: LoggedError;
+}
+
+/**
+ * Structured record emitted by {@link logResult}.
+ */
+export interface ResultLogRecord {
+	name: string;
+	outcome: "ok" | "err";
+	durationMs?: number;
+	/** Redacted copy of the Ok value (omitted with `includeValue: false`). */
+	value?: unknown;
+	error?: LoggedError;
+}
+
+/**
+ * Options for {@link logResult}.
+ */
+export interface LogResultOptions {
+	/** Operation name used in the message and record (default "result"). */
+	name?: string;
+	/** One level for both outcomes, or one per outcome (default { ok: "info", err: "error" }). */
+	level?: LogLevel | { ok?: LogLevel; err?: LogLevel };
+	/**
+	 * Fields replaced with "[REDACTED]" before logging. A plain key ("password")
+	 * matches at any depth; a dotted path ("user.email", "items.*.token") matches
+	 * from the root of the value or error, with `*` matching any key or index.
+	 */
+	redact?: string[];
+	/** Include the Ok value in the record (default true). */
+	includeValue?: boolean;
+	/** Start time from `now()`, used for durationMs of already-settled Results. */
+	startedAt?: number;
+	/** Clock used for durations (default Date.now). */
+	now?: () => number;
+}
+
+const LOG_LEVELS: readonly LogLevel[] = ["debug", "info", "warn", "error"];
+const MAX_CAUSE_DEPTH = 10;
+
+interface RedactRules {
+	/** Keys redacted at any depth. */
+	anywhere: ReadonlySet<string>;
+	/** Remaining path segments, relative to the current object. */
+	paths: ReadonlyArray<readonly string[]>;
+}
+
+/**
+ * Validates logResult() arguments other than the Result.
+ */
+const validateLogArgs = (
+	logger: unknown,
+	options: LogResultOptions,
+	functionName: string,
+): void => {
+	if (
+		!logger ||
+		typeof logger !== "object" ||
+		typeof (logger as ResultLogger).info !== "function" ||
+		typeof (logger as ResultLogger).error !== "function"
+	) {
+		throw new TypeError(
+			`${functionName}: logger must have info and error methods`,
+		);
+	}
+	if (!options || typeof options !== "object") {
+		throw new TypeError(
+			`${functionName}: options must be an object, got ${typeof options}`,
+		);
+	}
+	const { level, redact, now } = options;
+	const levels =
+		level !== null && typeof level === "object"
+			? [level.ok, level.err]
+			: [level];
+	for (const value of levels) {
+		if (value !== undefined && !LOG_LEVELS.includes(value)) {
+			throw new TypeError(
+				`${functionName}: level must be one of ${LOG_LEVELS.join(", ")}, got ${String(value)}`,
+			);
+		}
+	}
+	if (
+		redact !== undefined &&
+		(!Array.isArray(redact) ||
+			!redact.every((path) => typeof path === "string" && path.length > 0))
+	) {
+		throw new TypeError(
+			`${functionName}: redact must be an array of non-empty strings`,
+		);
+	}
+	if (now !== undefined && typeof now !== "function") {
+		throw new TypeError(
+			`${functionName}: now must be a function, got ${typeof now}`,
+		);
+	}
+};
+
+/**
+ * Copies objects, arrays, Maps and Sets, replacing fields matched by the
+ * redact rules. Map values match by their key (keys themselves are kept) and
+ * Set elements by their position, like array items. Dates, RegExps and Errors
+ * are kept as-is; other objects are copied as plain objects so class instances
+ * cannot leak unredacted fields.
+ */
+const redactValue = (
+	value: unknown,
+	rules: RedactRules,
+	seen: WeakSet<object>,
+): unknown => {
+	if (
+		value === null ||
+		typeof value !== "object" ||
+		value instanceof Date ||
+		value instanceof RegExp ||
+		value instanceof Error
+	) {
+		return value;
+	}
+	if (seen.has(value)) return "[Circular]";
+	seen.add(value);
+
+	const redactChild = (key: string, child: unknown): unknown => {
+		const matching = rules.paths.filter(
+			(path) => path[0] === key || path[0] === "*",
+		);
+		if (rules.anywhere.has(key) || matching.some((p) => p.length === 1)) {
+			return "[REDACTED]";
+		}
+		return redactValue(
+			child,
+			{ anywhere: rules.anywhere, paths: matching.map((p) => p.slice(1)) },
+			seen,
+		);
+	};
+
+	let copy: unknown;
+	if (value instanceof Map) {
+		copy = new Map(
+			Array.from(value, ([key, child]) => [
+				key,
+				redactChild(String(key), child),
+			]),
+		);
+	} else if (value instanceof Set) {
+		copy = new Set(
+			Array.from(value, (child, index) => redactChild(String(index), child)),
+		);
+	} else {
+		const fields: Record<string, unknown> = Array.isArray(value)
+			? ([] as unknown as Record<string, unknown>)
+			: {};
+		for (const [key, child] of Object.entries(value)) {
+			fields[key] = redactChild(key, child);
+		}
+		copy = fields;
+	}
+	seen.delete(value);
+	return copy;
+};
+
+/**
+ * JSON.stringify() that never throws: BigInts are written as strings and
+ * anything else JSON can't represent falls back to String().
+ */
+const safeStringify = (value: unknown): string => {
+	try {
+		return (
+			JSON.stringify(value, (_key, child: unknown) =>
+				typeof child === "bigint" ? child.toString() : child,
+			) ?? String(value)
+		);
+	} catch {
+		return String(value);
+	}
+};
+
+/**
+ * Describes an error for logging: name, message and the cause chain.
+ */
+const describeError = (
+	error: unknown,
+	rules: RedactRules,
+	depth = 0,
+): LoggedError => {
+	let logged: LoggedError;
+	if (error instanceof Error) {
+		logged = { name: error.name, message: error.message };
+	} else if (error !== null && typeof error === "object") {
+		const { name, _tag, message } = error as Record<string, unknown>;
+		const details = redactValue(error, rules, new WeakSet());
+		const label =
+			typeof name === "string"
+				? name
+				: typeof _tag === "string"
+					? _tag
+					: undefined;
+		logged = {
+			...(label === undefined ? {} : { name: label }),
+			message: typeof message === "string" ? message : safeStringify(details),
+			details,
+		};
+	} else {
+		return { message: String(error) };
+	}
+
+	const { cause } = error as { cause?: unknown };
+	if (cause !== undefined && depth < MAX_CAUSE_DEPTH) {
+		logged.cause = describeError(cause, rules, depth + 1);
+	}
+	return logged;
+};
+
+/**
+ * Builds the record for a settled Result and sends it to the logger.
+ */
+const emitLog = <T, E>(
+	result: Result<T, E>,
+	logger: ResultLogger,
+	options: LogResultOptions,
+	durationMs: number | undefined,
+): void => {
+	const name = options.name ?? "result";
+	const outcome = result.type === OK ? "ok" : "err";
+	const rules: RedactRules = {
+		anywhere: new Set(options.redact?.filter((path) => !path.includes("."))),
+		paths: (options.redact ?? [])
+			.filter((path) => path.includes("."))
+			.map((path) => path.split(".")),
+	};
+
+	const record: ResultLogRecord = { name, outcome };
+	if (durationMs !== undefined) record.durationMs = durationMs;
+	let message: string;
+	if (result.type === OK) {
+		if (options.includeValue !== false) {
+			record.value = redactValue(result.value, rules, new WeakSet());
+		}
+		message = `${name} succeeded`;
+	} else {
+		record.error = describeError(result.error, rules);
+		message = `${name} failed: ${record.error.message}`;
+	}
+
+	const level =
+		typeof options.level === "string"
+			? options.level
+			: (options.level?.[outcome] ?? (outcome === "ok" ? "info" : "error"));
+	const method = logger[level] ? level : level === "debug" ? "info" : "error";
+	logger[method]?.(message, record);
+};
+
+/**
+ * Logs a Result as a structured record and returns it unchanged.
+ * The record carries the outcome, optional duration, a redacted copy of the
+ * value, and the error's name, message and cause chain. Pass a Promise<Result>
+ * to measure how long it took to settle.
+ *
+ * @example
+ * ```typescript
+ * // Any { info, error } logger works, including console
+ * const user = logResult(createUser(input), console, {
+ *   name: "createUser",
+ *   redact: ["password", "token", "billing.card.number"],
+ * });
+ * // console.info("createUser succeeded", { name: "createUser", outcome: "ok",
+ * //   value: { email: "a@b.co", password: "[REDACTED]", ... } })
+ *
+ * // Durations for async operations, quieter successes
+ * const order = await logResult(fetchOrder(id), logger, {
+ *   name: "fetchOrder",
+ *   level: { ok: "debug", err: "warn" },
+ * });
+ * // logger.warn("fetchOrder failed: timeout", { outcome: "err", durationMs: 5003,
+ * //   error: { name: "TimeoutError", message: "timeout", cause: { ... } } })
+ *
+ * // Object-first loggers (pino, bunyan) need a one-line adapter
+ * const pinoLogger = {
+ *   info: (message, record) => pino.info(record, message),
+ *   error: (message, record) => pino.error(record, message),
+ * };
+ * ```
+ *
+ * @param result - The Result (or Promise<Result>) to log
+ * @param logger - Logger with info and error methods
+ * @param options - Name, level, redaction paths and timing options
+ * @returns The original Result (or a Promise of it) unchanged
+ * @throws TypeError if result is not a valid Result object, logger lacks info/error, or options are invalid
+ * @see {@link inspect} for ad-hoc callbacks
+ */
+export function logResult<
+	T,
+	E extends Record<string, unknown> | string | Error,
+>(
+	result: Result<T, E>,
+	logger: ResultLogger,
+	options?: LogResultOptions,
+): Result<T, E>;
+export function logResult<
+	T,
+	E extends Record<string, unknown> | string | Error,
+>(
+	promise: Promise<Result<T, E>>,
+	logger: ResultLogger,
+	options?: LogResultOptions,
+): Promise<Result<T, E>>;
+export function logResult<T, E>(
+	result: Result<T, E>,
+	logger: ResultLogger,
+	options?: LogResultOptions,
+): Result<T, E>;
+export function logResult<T, E>(
+	promise: Promise<Result<T, E>>,
+	logger: ResultLogger,
+	options?: LogResultOptions,
+): Promise<Result<T, E>>;
+export function logResult<T, E>(
+	input: Result<T, E> | Promise<Result<T, E>>,
+	logger: ResultLogger,
+	options: LogResultOptions = {},
+): Result<T, E> | Promise<Result<T, E>> {
+	validateLogArgs(logger, options, "logResult()");
+	const now = options.now ?? Date.now;
+
+	if (input && typeof (input as PromiseLike<unknown>).then === "function") {
+		const startedAt = options.startedAt ?? now();
+		return (input as Promise<Result<T, E>>).then((result) => {
+			validateResult(result, "logResult()");
+			emitLog(result, logger, options, now() - startedAt);
+			return result;
+		});
+	}
+
+	const result = input as Result<T, E>;
+	validateResult(result, "logResult()");
+	emitLog(
+		result,
+		logger,
+		options,
+		options.startedAt === undefined ? undefined : now() - options.startedAt,
+	);
+	return result;
 }
 
 /**
@@ -419,7 +1085,10 @@ export function toNullable<T, E>(result: Result<T, E>): T | null {
  *
  * Use for: debugging, logging, side effects, nullable conversions
  *
- * Key functions: inspect(), tap(), tapErr(), fromNullable(), toNullable()
+ * Key functions: inspect(), tap(), tapErr(), fromNullable(), toNullable(), logResult()
+ *
+ * Debug tracing: enableResultTracing() records where each Err was created and
+ * which combinators it passed through; read it with traceOf() or inspect()
  *
  * Generic constraints ensure type safety:
  * - Error types constrained to meaningful types (Record<string, unknown> | string | Error)
@@ -431,6 +1100,8 @@ export function toNullable<T, E>(result: Result<T, E>): T | null {
  * - **Debugging workflows**: inspect() for comprehensive logging with structured errors
  * - **Side effects**: tap() for success actions, tapErr() for structured error handling
  * - **API integration**: fromNullable() with structured errors, toNullable() for compatibility
+ * - **Structured logging**: logResult() with redaction for consistent JSON log records
+ * - **Origin hunting**: enableResultTracing() in development, traceOf() on unexpected Errs
  * - **Performance**: All utilities preserve references and add minimal overhead
  *
  * Other available layers:
@@ -438,5 +1109,5 @@ export function toNullable<T, E>(result: Result<T, E>): T | null {
  * - `result-ts/iter` → core + data transformation
  * - `result-ts/batch` → core + array processing
  * - `result-ts/patterns` → core + advanced patterns
- * - `result-ts/schema` → core + validation with Zod
+ * - `result-ts/schema` → core + Standard Schema validation (Zod, Valibot, ArkType, ...)
  */
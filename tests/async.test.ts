@@ -0,0 +1,270 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+	err,
+	errAsync,
+	fromPromise,
+	fromSafePromise,
+	ok,
+	okAsync,
+	type Result,
+	type ResultAsync,
+	resultAsync,
+} from "../src/async";
+
+interface User {
+	id: number;
+	name: string;
+}
+
+const fetchUser = async (id: number): Promise<Result<User, string>> =>
+	id > 0 ? ok({ id, name: "John" }) : err("User not found");
+
+describe("Async Module - Thenable ResultAsync", () => {
+	describe("resultAsync()", () => {
+		it("should be awaitable and resolve to the wrapped Result", async () => {
+			expect(await resultAsync(ok(1))).toEqual({ type: "Ok", value: 1 });
+			expect(await resultAsync(Promise.resolve(err("x")))).toEqual({
+				type: "Err",
+				error: "x",
+			});
+		});
+
+		it("should accept another ResultAsync", async () => {
+			const inner = okAsync("nested");
+			expect(await resultAsync(inner)).toEqual({
+				type: "Ok",
+				value: "nested",
+			});
+		});
+
+		it("should reject when the source is not a Result", async () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			await expect(resultAsync(Promise.resolve(42 as any))).rejects.toThrow(
+				"ResultAsync: Expected a Result object, got number",
+			);
+		});
+	});
+
+	describe("okAsync() / errAsync()", () => {
+		it("should create resolved ResultAsync values", async () => {
+			expect(await okAsync(5)).toEqual({ type: "Ok", value: 5 });
+			expect(await errAsync("failed")).toEqual({
+				type: "Err",
+				error: "failed",
+			});
+		});
+	});
+
+	describe("map()", () => {
+		it("should accept sync and async mappers", async () => {
+			const result = await okAsync(2)
+				.map((x) => x * 10)
+				.map(async (x) => `${x}!`);
+			expect(result).toEqual({ type: "Ok", value: "20!" });
+		});
+
+		it("should skip mappers for errors", async () => {
+			const mapper = vi.fn();
+			const result = await errAsync("failed").map(mapper);
+			expect(result).toEqual({ type: "Err", error: "failed" });
+			expect(mapper).not.toHaveBeenCalled();
+		});
+
+		it("should validate the mapper", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => okAsync(1).map("nope" as any)).toThrow(
+				"ResultAsync.map(): fn must be a function, got string",
+			);
+		});
+	});
+
+	describe("mapErr()", () => {
+		it("should transform errors with sync or async mappers", async () => {
+			const result = await errAsync("timeout")
+				.mapErr((e) => e.toUpperCase())
+				.mapErr(async (e) => ({ code: e }));
+			expect(result).toEqual({ type: "Err", error: { code: "TIMEOUT" } });
+		});
+
+		it("should leave Ok values untouched", async () => {
+			const result = await okAsync(1).mapErr(() => "never");
+			expect(result).toEqual({ type: "Ok", value: 1 });
+		});
+	});
+
+	describe("andThen()", () => {
+		it("should chain async Result-returning operations without nesting", async () => {
+			const result = await resultAsync(fetchUser(1))
+				.andThen((user) => fetchUser(user.id + 1))
+				.andThen((user) => ok(user.name));
+			expect(result).toEqual({ type: "Ok", value: "John" });
+		});
+
+		it("should short-circuit on the first error", async () => {
+			const next = vi.fn(async () => ok("unreachable"));
+			const result = await resultAsync(fetchUser(-1)).andThen(next);
+			expect(result).toEqual({ type: "Err", error: "User not found" });
+			expect(next).not.toHaveBeenCalled();
+		});
+
+		it("should widen the error type", async () => {
+			const result: Result<number, string | { code: number }> =
+				await resultAsync(fetchUser(1)).andThen((user) =>
+					user.id > 5 ? ok(user.id) : err({ code: 400 }),
+				);
+			expect(result).toEqual({ type: "Err", error: { code: 400 } });
+		});
+
+		it("should accept ResultAsync-returning callbacks", async () => {
+			const result = await okAsync(3).andThen((n) => okAsync(n * 2));
+			expect(result).toEqual({ type: "Ok", value: 6 });
+		});
+	});
+
+	describe("orElse()", () => {
+		it("should recover from errors", async () => {
+			const result = await resultAsync(fetchUser(-1)).orElse(async () =>
+				ok({ id: 0, name: "Guest" }),
+			);
+			expect(result).toEqual({ type: "Ok", value: { id: 0, name: "Guest" } });
+		});
+
+		it("should allow replacing the error", async () => {
+			const result = await errAsync("raw").orElse((e) =>
+				err(new Error(`wrapped: ${e}`)),
+			);
+			expect(result.type).toBe("Err");
+			if (result.type === "Err") {
+				expect(result.error.message).toBe("wrapped: raw");
+			}
+		});
+
+		it("should not call the fallback for Ok", async () => {
+			const fallback = vi.fn();
+			await okAsync(1).orElse(fallback);
+			expect(fallback).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("tap() / tapErr()", () => {
+		it("should run side effects and keep the Result", async () => {
+			const seen: string[] = [];
+			const result = await okAsync("value")
+				.tap(async (v) => {
+					seen.push(`ok:${v}`);
+				})
+				.tapErr((e) => seen.push(`err:${e}`));
+
+			expect(result).toEqual({ type: "Ok", value: "value" });
+			expect(seen).toEqual(["ok:value"]);
+		});
+
+		it("should wait for async side effects before continuing", async () => {
+			const order: string[] = [];
+			await errAsync("boom")
+				.tapErr(async () => {
+					await Promise.resolve();
+					order.push("tapErr");
+				})
+				.mapErr((e) => {
+					order.push("mapErr");
+					return e;
+				});
+			expect(order).toEqual(["tapErr", "mapErr"]);
+		});
+	});
+
+	describe("match()", () => {
+		it("should resolve to the matching handler's value", async () => {
+			const handlers = {
+				Ok: (user: User) => `Hello ${user.name}`,
+				Err: async (error: string) => `Failed: ${error}`,
+			};
+			expect(await resultAsync(fetchUser(1)).match(handlers)).toBe(
+				"Hello John",
+			);
+			expect(await resultAsync(fetchUser(-1)).match(handlers)).toBe(
+				"Failed: User not found",
+			);
+		});
+
+		it("should reject invalid handlers", async () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			await expect(okAsync(1).match({ Ok: () => 1 } as any)).rejects.toThrow(
+				"ResultAsync.match(): handlers.Err must be a function",
+			);
+		});
+	});
+
+	describe("unwrapOr()", () => {
+		it("should resolve to the value or the default", async () => {
+			expect(await okAsync(5).unwrapOr(0)).toBe(5);
+			const failed: ResultAsync<number, string> = errAsync("x");
+			expect(await failed.unwrapOr(0)).toBe(0);
+		});
+	});
+
+	describe("fromPromise()", () => {
+		it("should wrap resolved values in Ok", async () => {
+			const result = await fromPromise(Promise.resolve(42), (e) => e.message);
+			expect(result).toEqual({ type: "Ok", value: 42 });
+		});
+
+		it("should map rejections through the error mapper", async () => {
+			const result = await fromPromise(
+				Promise.reject(new Error("network down")),
+				(error) => ({ code: "FETCH_FAILED", message: error.message }),
+			);
+			expect(result).toEqual({
+				type: "Err",
+				error: { code: "FETCH_FAILED", message: "network down" },
+			});
+		});
+
+		it("should wrap non-Error rejections with cause like handleWithAsync", async () => {
+			const mapper = vi.fn((error: Error) => error);
+			await fromPromise(Promise.reject(404), mapper);
+
+			const received = mapper.mock.calls[0]?.[0];
+			expect(received).toBeInstanceOf(Error);
+			expect(received?.message).toBe("Caught non-Error value: 404");
+			expect(received?.cause).toBe(404);
+		});
+
+		it("should compose into flat pipelines", async () => {
+			const result = await fromPromise(
+				Promise.resolve({ id: 7, name: "Ada" }),
+				(e) => e,
+			)
+				.map((user) => user.name)
+				.andThen((name) =>
+					name.length > 2 ? ok(name) : err(new Error("short")),
+				);
+			expect(result).toEqual({ type: "Ok", value: "Ada" });
+		});
+
+		it("should validate arguments", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => fromPromise(42 as any, (e) => e)).toThrow(
+				"fromPromise(): First argument must be a Promise, got number",
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => fromPromise(Promise.resolve(1), null as any)).toThrow(
+				"fromPromise(): errorMapper must be a function, got object",
+			);
+		});
+	});
+
+	describe("fromSafePromise()", () => {
+		it("should wrap resolved values in Ok", async () => {
+			const result = await fromSafePromise(Promise.resolve("defaults"));
+			expect(result).toEqual({ type: "Ok", value: "defaults" });
+		});
+
+		it("should propagate unexpected rejections", async () => {
+			await expect(
+				fromSafePromise(Promise.reject(new Error("bug"))),
+			).rejects.toThrow("bug");
+		});
+	});
+});
@@ -1,5 +1,7 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 import {
+	AbortError,
+	type AsyncTask,
 	all,
 	allAsync,
 	allSettledAsync,
@@ -9,12 +11,14 @@ import {
 	findFirst,
 	first,
 	isOk,
+	mapConcurrent,
 	ok,
 	oks,
 	partition,
 	partitionWith,
 	type Result,
 	reduce,
+	settleConcurrent,
 } from "../src/batch";
 
 describe("Batch Operations", () => {
@@ -104,6 +108,117 @@ describe("Batch Operations", () => {
 		});
 	});
 
+	describe("allAsync() with failFast", () => {
+		/** Promise that never settles, standing in for a slow call. */
+		const never = <T>() => new Promise<T>(() => {});
+
+		it("should resolve on the first Err without waiting for slow calls", async () => {
+			const result = await allAsync(
+				[never<Result<number, string>>(), Promise.resolve(err("fast failure"))],
+				{ failFast: true },
+			);
+			expect(result).toEqual({
+				type: "Err",
+				error: { index: 1, error: "fast failure" },
+			});
+		});
+
+		it("should abort the shared signal passed to task factories", async () => {
+			const signals: AbortSignal[] = [];
+			const slow = (signal: AbortSignal) => {
+				signals.push(signal);
+				return never<Result<number, string>>();
+			};
+			const failing = async (signal: AbortSignal) => {
+				signals.push(signal);
+				return err("boom");
+			};
+
+			const result = await allAsync([slow, failing, slow], { failFast: true });
+
+			expect(result).toEqual({
+				type: "Err",
+				error: { index: 1, error: "boom" },
+			});
+			expect(signals).toHaveLength(3);
+			expect(new Set(signals).size).toBe(1);
+			expect(signals[0]?.aborted).toBe(true);
+			expect(signals[0]?.reason).toBeInstanceOf(AbortError);
+		});
+
+		it("should combine values in order when everything succeeds", async () => {
+			const delayed = (value: number, ms: number) => () =>
+				new Promise<Result<number, string>>((resolve) =>
+					setTimeout(() => resolve(ok(value)), ms),
+				);
+			const result = await allAsync(
+				[delayed(1, 20), Promise.resolve(ok(2)), null, delayed(3, 5)] as Array<
+					AsyncTask<number, string>
+				>,
+				{ failFast: true },
+			);
+			expect(result).toEqual({ type: "Ok", value: [1, 2, 3] });
+		});
+
+		it("should report the original index when null elements are skipped", async () => {
+			const result = await allAsync(
+				[null, Promise.resolve(err("bad"))] as Array<AsyncTask<number, string>>,
+				{ failFast: true },
+			);
+			expect(result).toEqual({
+				type: "Err",
+				error: { index: 1, error: "bad" },
+			});
+		});
+
+		it("should reject and abort on the first rejection", async () => {
+			let signal: AbortSignal | undefined;
+			const promise = allAsync(
+				[
+					(s: AbortSignal) => {
+						signal = s;
+						return never<Result<number, string>>();
+					},
+					() => Promise.reject(new Error("network down")),
+				],
+				{ failFast: true },
+			);
+			await expect(promise).rejects.toThrow("network down");
+			expect(signal?.aborted).toBe(true);
+		});
+
+		it("should wait for every Result when failFast is false", async () => {
+			const failFast = false as boolean;
+			const results = [Promise.resolve(ok(1)), Promise.resolve(err("bad"))];
+			expect(await allAsync(results, { failFast: false })).toEqual(err("bad"));
+			expect(await allAsync(results, { failFast })).toEqual(err("bad"));
+			expect(await allAsync([Promise.resolve(ok(1))], {})).toEqual(ok([1]));
+		});
+
+		it("should handle empty input and validate options", async () => {
+			expect(await allAsync([], { failFast: true })).toEqual({
+				type: "Ok",
+				value: [],
+			});
+			await expect(
+				// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+				allAsync([], { failFast: "yes" } as any),
+			).rejects.toThrow(
+				"allAsync(): options.failFast must be a boolean, got string",
+			);
+			await expect(
+				// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+				allAsync([], null as any),
+			).rejects.toThrow("allAsync(): options must be an object, got null");
+			await expect(
+				// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+				allAsync([Promise.resolve(42 as any)], { failFast: true }),
+			).rejects.toThrow(
+				"allAsync(): Result at index 0 must be a Result object, got number",
+			);
+		});
+	});
+
 	describe("allSettledAsync()", () => {
 		it("should partition successful and failed async results", async () => {
 			const promises = [
@@ -166,6 +281,186 @@ describe("Batch Operations", () => {
 		});
 	});
 
+	describe("mapConcurrent()", () => {
+		/** Resolves on the next macrotask so tasks overlap like real I/O. */
+		const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+		/** Task tracking how many calls run at once. */
+		const tracked = () => {
+			const stats = { active: 0, peak: 0 };
+			const fn = vi.fn(async (n: number): Promise<Result<number, string>> => {
+				stats.active++;
+				stats.peak = Math.max(stats.peak, stats.active);
+				await tick();
+				stats.active--;
+				return n < 0 ? err(`negative ${n}`) : ok(n * 2);
+			});
+			return { fn, stats };
+		};
+
+		it("should map every item and preserve input order", async () => {
+			const { fn } = tracked();
+			const result = await mapConcurrent([1, 2, 3, 4, 5], fn, {
+				concurrency: 2,
+			});
+			expect(result).toEqual({ type: "Ok", value: [2, 4, 6, 8, 10] });
+			expect(fn).toHaveBeenCalledWith(1, 0, expect.any(AbortSignal));
+		});
+
+		it("should never exceed the concurrency limit", async () => {
+			const { fn, stats } = tracked();
+			const items = Array.from({ length: 50 }, (_, i) => i);
+			await mapConcurrent(items, fn, { concurrency: 3 });
+			expect(fn).toHaveBeenCalledTimes(50);
+			expect(stats.peak).toBe(3);
+		});
+
+		it("should keep order when tasks finish out of order", async () => {
+			const delays = [30, 10, 20];
+			const result = await mapConcurrent(delays, async (ms) => {
+				await new Promise((resolve) => setTimeout(resolve, ms));
+				return ok(ms);
+			});
+			expect(result).toEqual({ type: "Ok", value: [30, 10, 20] });
+		});
+
+		it("should stop starting tasks after the first Err by default", async () => {
+			const { fn } = tracked();
+			const signals: AbortSignal[] = [];
+			const result = await mapConcurrent(
+				[1, -2, 3, 4, 5],
+				(n, _index, signal) => {
+					signals.push(signal);
+					return fn(n);
+				},
+				{ concurrency: 1 },
+			);
+			expect(result).toEqual({
+				type: "Err",
+				error: [{ index: 1, error: "negative -2" }],
+			});
+			expect(fn).toHaveBeenCalledTimes(2);
+			expect(signals[0]?.aborted).toBe(true);
+		});
+
+		it("should collect every indexed error without stopOnError", async () => {
+			const { fn } = tracked();
+			const result = await mapConcurrent([-1, 2, -3, 4], fn, {
+				concurrency: 2,
+				stopOnError: false,
+			});
+			expect(fn).toHaveBeenCalledTimes(4);
+			expect(result).toEqual({
+				type: "Err",
+				error: [
+					{ index: 0, error: "negative -1" },
+					{ index: 2, error: "negative -3" },
+				],
+			});
+		});
+
+		it("should report unstarted items as AbortError when aborted", async () => {
+			const controller = new AbortController();
+			const result = await mapConcurrent(
+				[1, 2, 3],
+				async (n) => {
+					controller.abort("shutdown");
+					return ok(n);
+				},
+				{ concurrency: 1, signal: controller.signal },
+			);
+			if (result.type !== "Err") throw new Error("expected Err");
+			expect(result.error.map((e) => e.index)).toEqual([1, 2]);
+			expect(result.error[0]?.error).toBeInstanceOf(AbortError);
+			expect((result.error[0]?.error as AbortError).cause).toBe("shutdown");
+		});
+
+		it("should rethrow rejections after running tasks settle", async () => {
+			const { fn, stats } = tracked();
+			const promise = mapConcurrent(
+				[1, 2, 3, 4],
+				async (n) => {
+					if (n === 1) throw new Error("boom");
+					return fn(n);
+				},
+				{ concurrency: 2 },
+			);
+			await expect(promise).rejects.toThrow("boom");
+			expect(fn).toHaveBeenCalledTimes(1);
+			expect(stats.active).toBe(0);
+		});
+
+		it("should handle empty input", async () => {
+			const fn = vi.fn();
+			expect(await mapConcurrent([], fn)).toEqual({ type: "Ok", value: [] });
+			expect(fn).not.toHaveBeenCalled();
+		});
+
+		it("should validate arguments and task results", async () => {
+			await expect(
+				// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+				mapConcurrent(null as any, async () => ok(1)),
+			).rejects.toThrow(
+				"mapConcurrent(): First argument must be an array, got object",
+			);
+			await expect(
+				mapConcurrent([1], async () => ok(1), { concurrency: 0 }),
+			).rejects.toThrow(
+				"mapConcurrent(): concurrency must be a positive integer or Infinity, got 0",
+			);
+			await expect(
+				// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+				mapConcurrent([1], async () => 42 as any),
+			).rejects.toThrow(
+				"mapConcurrent(): Result at index 0 must be a Result object, got number",
+			);
+		});
+	});
+
+	describe("settleConcurrent()", () => {
+		it("should keep every Result with indexed errors", async () => {
+			const settled = await settleConcurrent(
+				["a", "", "c"],
+				async (name) => (name ? ok(name.toUpperCase()) : err("empty name")),
+				{ concurrency: 2 },
+			);
+			expect(settled).toEqual({
+				results: [
+					{ type: "Ok", value: "A" },
+					{ type: "Err", error: "empty name" },
+					{ type: "Ok", value: "C" },
+				],
+				oks: ["A", "C"],
+				errors: [{ index: 1, error: "empty name" }],
+			});
+		});
+
+		it("should ignore stopOnError", async () => {
+			const fn = vi.fn(async (n: number) => (n > 0 ? ok(n) : err("bad")));
+			await settleConcurrent([0, 1, 2], fn, {
+				concurrency: 1,
+				stopOnError: true,
+			});
+			expect(fn).toHaveBeenCalledTimes(3);
+		});
+
+		it("should mark unstarted items as aborted", async () => {
+			const controller = new AbortController();
+			controller.abort();
+			const fn = vi.fn(async (n: number) => ok(n));
+			const settled = await settleConcurrent([1, 2], fn, {
+				signal: controller.signal,
+			});
+			expect(fn).not.toHaveBeenCalled();
+			expect(settled.oks).toEqual([]);
+			expect(
+				settled.errors.map((e) =>
+					e.error instanceof AbortError ? e.error._tag : e.error,
+				),
+			).toEqual(["AbortError", "AbortError"]);
+		});
+	});
+
 	describe("oks()", () => {
 		it("should extract all success values", () => {
 			const results = [ok(1), err("failed"), ok(3), err("another")];
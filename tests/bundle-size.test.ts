@@ -63,7 +63,7 @@ describe("Bundle Size Tests - README Claims Verification", () => {
 		console.log(`✅ Iter module: ${size} bytes (target: ~800 bytes)`);
 	});
 
-	it("batch module - should match README claim (~1143 bytes)", async () => {
+	it("batch module - should match README claim (~1191 bytes)", async () => {
 		const importCode = `
       import { all, analyze } from 'result-ts/batch';
       console.log(all, analyze);
@@ -71,32 +71,144 @@ describe("Bundle Size Tests - README Claims Verification", () => {
 
 		const size = await bundleAndMeasure(importCode);
 		expect(size).toBeLessThan(1300); // Updated: current ~1113 bytes + buffer
-		console.log(`✅ Batch module: ${size} bytes (target: ~1143 bytes)`);
+		console.log(`✅ Batch module: ${size} bytes (target: ~1191 bytes)`);
 	});
 
-	it("patterns module - should match README claim (~1282 bytes)", async () => {
+	it("patterns module - should match README claim (~1464 bytes)", async () => {
 		const importCode = `
       import { safe, zip } from 'result-ts/patterns';
       console.log(safe, zip);
     `;
 
 		const size = await bundleAndMeasure(importCode);
-		expect(size).toBeLessThan(1500); // Updated: current ~1252 bytes + buffer
-		console.log(`✅ Patterns module: ${size} bytes (target: ~1282 bytes)`);
+		expect(size).toBeLessThan(1600); // current ~1464 bytes + buffer
+		console.log(`✅ Patterns module: ${size} bytes (target: ~1464 bytes)`);
 	});
 
-	it("schema module - should match README claim (~556 bytes excluding Zod)", async () => {
+	it("schema module - should match README claim (~1158 bytes excluding Zod)", async () => {
 		const importCode = `
       import { validate } from 'result-ts/schema';
       console.log(validate);
     `;
 
 		const size = await bundleAndMeasure(importCode);
-		expect(size).toBeLessThan(600); // 245 bytes target + buffer
+		expect(size).toBeLessThan(1250); // 1158 bytes target + buffer
 		console.log(
-			`✅ Schema module: ${size} bytes (target: ~556 bytes, excluding Zod)`,
+			`✅ Schema module: ${size} bytes (target: ~1158 bytes, excluding Zod)`,
 		);
 	});
+
+	it("schema-zod module - should match README claim (~569 bytes excluding Zod)", async () => {
+		const importCode = `
+      import { resultSchema } from 'result-ts/schema-zod';
+      console.log(resultSchema);
+    `;
+
+		const size = await bundleAndMeasure(importCode);
+		expect(size).toBeLessThan(650); // 569 bytes target + buffer
+		console.log(
+			`✅ Schema-zod module: ${size} bytes (target: ~569 bytes, excluding Zod)`,
+		);
+	});
+
+	it("option module - should match README claim (~774 bytes)", async () => {
+		const importCode = `
+      import { some, mapOption } from 'result-ts/option';
+      console.log(some, mapOption);
+    `;
+
+		const size = await bundleAndMeasure(importCode);
+		expect(size).toBeLessThan(900); // current ~774 bytes + buffer
+		console.log(`✅ Option module: ${size} bytes (target: ~774 bytes)`);
+	});
+
+	it("errors module - should match README claim (~1673 bytes)", async () => {
+		const importCode = `
+      import { taggedError, matchErr } from 'result-ts/errors';
+      console.log(taggedError, matchErr);
+    `;
+
+		const size = await bundleAndMeasure(importCode);
+		expect(size).toBeLessThan(1900); // current ~1673 bytes + buffer
+		console.log(`✅ Errors module: ${size} bytes (target: ~1673 bytes)`);
+	});
+
+	it("async module - should match README claim (~3705 bytes)", async () => {
+		const importCode = `
+      import { fromPromise } from 'result-ts/async';
+      console.log(fromPromise);
+    `;
+
+		const size = await bundleAndMeasure(importCode);
+		expect(size).toBeLessThan(4000); // current ~3705 bytes + buffer
+		console.log(`✅ Async module: ${size} bytes (target: ~3705 bytes)`);
+	});
+
+	it("fp module - should match README claim (~1575 bytes)", async () => {
+		const importCode = `
+      import { pipe, map, unwrapOr } from 'result-ts/fp';
+      console.log(pipe, map, unwrapOr);
+    `;
+
+		const size = await bundleAndMeasure(importCode);
+		expect(size).toBeLessThan(1800); // current ~1575 bytes + buffer
+		console.log(`✅ FP module: ${size} bytes (target: ~1575 bytes)`);
+	});
+
+	it("serde module - should match README claim (~5074 bytes)", async () => {
+		const importCode = `
+      import { serialize, deserialize } from 'result-ts/serde';
+      console.log(serialize, deserialize);
+    `;
+
+		const size = await bundleAndMeasure(importCode);
+		expect(size).toBeLessThan(5500); // current ~5074 bytes + buffer
+		console.log(`✅ Serde module: ${size} bytes (target: ~5074 bytes)`);
+	});
+
+	it("resilience module - should match README claim (~3393 bytes)", async () => {
+		const importCode = `
+      import { retry } from 'result-ts/resilience';
+      console.log(retry);
+    `;
+
+		const size = await bundleAndMeasure(importCode);
+		expect(size).toBeLessThan(3600); // current ~3393 bytes + buffer
+		console.log(`✅ Resilience module: ${size} bytes (target: ~3393 bytes)`);
+	});
+
+	it("stream module - should match README claim (~1057 bytes)", async () => {
+		const importCode = `
+      import { mapOk, collect } from 'result-ts/stream';
+      console.log(mapOk, collect);
+    `;
+
+		const size = await bundleAndMeasure(importCode);
+		expect(size).toBeLessThan(1200); // current ~1057 bytes + buffer
+		console.log(`✅ Stream module: ${size} bytes (target: ~1057 bytes)`);
+	});
+
+	it("unchecked module - should match README claim (~367 bytes)", async () => {
+		const importCode = `
+      import { map, partition, tap } from 'result-ts/unchecked';
+      console.log(map, partition, tap);
+    `;
+
+		const size = await bundleAndMeasure(importCode);
+		expect(size).toBeLessThan(400); // current ~367 bytes + buffer
+		console.log(`✅ Unchecked module: ${size} bytes (target: ~367 bytes)`);
+	});
+
+	it("testing module - should match README claim (~2325 bytes)", async () => {
+		const importCode = `
+      import { resultMatchers, resultSerializer } from 'result-ts/testing';
+      console.log(resultMatchers, resultSerializer);
+    `;
+
+		const size = await bundleAndMeasure(importCode);
+		expect(size).toBeLessThan(2600); // current ~2325 bytes + buffer
+		console.log(`✅ Testing module: ${size} bytes (target: ~2325 bytes)`);
+	});
 });
 
 describe("Bundle Size Tests - Architecture Verification", () => {
@@ -138,18 +250,28 @@ describe("Bundle Size Tests - Architecture Verification", () => {
 			{
 				name: "Array processing",
 				import: `import { all } from 'result-ts/batch'; console.log(all);`,
-				target: 1143,
+				target: 1170,
 			},
 			{
 				name: "Advanced patterns",
 				import: `import { safe } from 'result-ts/patterns'; console.log(safe);`,
 				target: 1282,
 			},
+			{
+				name: "Option values",
+				import: `import { some } from 'result-ts/option'; console.log(some);`,
+				target: 57,
+			},
 			{
 				name: "Validation",
 				import: `import { validate } from 'result-ts/schema'; console.log(validate);`,
 				target: 556,
 			},
+			{
+				name: "Point-free pipe",
+				import: `import { pipe } from 'result-ts/fp'; console.log(pipe);`,
+				target: 237,
+			},
 		];
 
 		console.log("\n=== README Bundle Size Claims Verification ===");
@@ -235,6 +357,32 @@ describe("Bundle Size Tests - Architecture Verification", () => {
 		expect(difference).toBeLessThan(200); // Increased tolerance for code differences
 	});
 
+	it("fp namespace imports only include the operators used", async () => {
+		const namespaceImport = await bundleAndMeasure(`
+      import * as R from 'result-ts/fp';
+      console.log(R.pipe, R.map);
+    `);
+
+		const namedImport = await bundleAndMeasure(`
+      import { pipe, map } from 'result-ts/fp';
+      console.log(pipe, map);
+    `);
+
+		const allOperators = await bundleAndMeasure(`
+      import { pipe, flow, map, mapErr, andThen, mapAsync, mapErrAsync, andThenAsync, tap, tapErr, inspect, unwrapOr, match, reduce } from 'result-ts/fp';
+      console.log(pipe, flow, map, mapErr, andThen, mapAsync, mapErrAsync, andThenAsync, tap, tapErr, inspect, unwrapOr, match, reduce);
+    `);
+
+		console.log(`\n=== FP Namespace Tree-Shaking ===`);
+		console.log(`Namespace import (R.pipe, R.map): ${namespaceImport} bytes`);
+		console.log(`Named import (pipe, map): ${namedImport} bytes`);
+		console.log(`All operators: ${allOperators} bytes`);
+
+		// import * as R must tree-shake exactly like named imports
+		expect(namespaceImport).toBe(namedImport);
+		expect(namespaceImport).toBeLessThan(allOperators);
+	});
+
 	it("unused imports are eliminated", async () => {
 		const usedOnly = await bundleAndMeasure(`
       import { ok, err } from 'result-ts';
@@ -291,6 +439,56 @@ describe("Bundle Size Tests - Regression Prevention", () => {
 				maxSize: 1600, // Updated: allowing for current patterns sizes
 				name: "Advanced patterns",
 			},
+			{
+				import: `import { some, mapOption } from 'result-ts/option'; console.log(some, mapOption);`,
+				maxSize: 1000,
+				name: "Option values",
+			},
+			{
+				import: `import { taggedError, matchErr } from 'result-ts/errors'; console.log(taggedError, matchErr);`,
+				maxSize: 2000,
+				name: "Tagged errors",
+			},
+			{
+				import: `import { fromPromise } from 'result-ts/async'; console.log(fromPromise);`,
+				maxSize: 4000,
+				name: "Async pipelines",
+			},
+			{
+				import: `import { pipe, map, unwrapOr } from 'result-ts/fp'; console.log(pipe, map, unwrapOr);`,
+				maxSize: 1800,
+				name: "Point-free composition",
+			},
+			{
+				import: `import { serialize, deserialize } from 'result-ts/serde'; console.log(serialize, deserialize);`,
+				maxSize: 5600,
+				name: "Structured serialization",
+			},
+			{
+				import: `import { retry } from 'result-ts/resilience'; console.log(retry);`,
+				maxSize: 3700,
+				name: "Retry with backoff",
+			},
+			{
+				import: `import { circuitBreaker } from 'result-ts/resilience'; console.log(circuitBreaker);`,
+				maxSize: 2600,
+				name: "Circuit breaker",
+			},
+			{
+				import: `import { mapOk, collect } from 'result-ts/stream'; console.log(mapOk, collect);`,
+				maxSize: 1300,
+				name: "Stream processing",
+			},
+			{
+				import: `import { map, partition, tap } from 'result-ts/unchecked'; console.log(map, partition, tap);`,
+				maxSize: 450,
+				name: "Unchecked hot paths",
+			},
+			{
+				import: `import { resultMatchers, resultSerializer } from 'result-ts/testing'; console.log(resultMatchers, resultSerializer);`,
+				maxSize: 2700,
+				name: "Test matchers",
+			},
 		];
 
 		console.log(`\n=== README Claims Regression Test ===`);
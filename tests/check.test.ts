@@ -0,0 +1,199 @@
+import { readFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import ts from "typescript";
+import { describe, expect, it } from "vitest";
+import {
+	checkFiles,
+	checkProgram,
+	checkProject,
+	formatUnusedResult,
+	runCheckCli,
+	type UnusedResult,
+} from "../src/check";
+
+const fixtures = resolve(__dirname, "fixtures/check");
+const fixture = (name: string) => join(fixtures, name).replace(/\\/g, "/");
+const project = join(fixtures, "tsconfig.json");
+
+/** Lines of a fixture marked with a trailing `// discarded` comment. */
+const markedLines = (name: string): number[] =>
+	readFileSync(fixture(name), "utf8")
+		.split("\n")
+		.flatMap((line, index) =>
+			line.trimEnd().endsWith("// discarded") ? [index + 1] : [],
+		);
+
+/** Collects CLI output and exit code, run from the fixture directory. */
+const cli = (args: string[], fileExists = ts.sys.fileExists) => {
+	let output = "";
+	const code = runCheckCli(args, {
+		write: (text) => {
+			output += text;
+		},
+		getCurrentDirectory: () => fixtures,
+		fileExists,
+	});
+	return { code, output };
+};
+
+describe("Check Module - Must-Use Result Checker", () => {
+	// One program for the whole fixture project keeps the suite fast
+	const findings = checkProject(project);
+	const inFile = (name: string): UnusedResult[] =>
+		findings.filter((finding) => finding.fileName === fixture(name));
+
+	describe("checkProject()", () => {
+		it("should report every discarded Result marked in the fixture", () => {
+			expect(inFile("discarded.ts").map((finding) => finding.line)).toEqual(
+				markedLines("discarded.ts"),
+			);
+		});
+
+		it("should not report used, assigned or suppressed Results", () => {
+			expect(inFile("used.ts")).toEqual([]);
+			expect(inFile("ignored.ts")).toEqual([]);
+		});
+
+		it("should describe each finding", () => {
+			const [first] = inFile("discarded.ts");
+			expect(first).toEqual({
+				fileName: fixture("discarded.ts"),
+				line: 10,
+				column: 2,
+				text: 'handle(() => JSON.parse("{}"))',
+				type: "Result<any, Error>",
+				async: false,
+				message: "Result is discarded (Result<any, Error>)",
+			});
+		});
+
+		it("should flag Promise<Result> and thenables as async", () => {
+			const asyncTexts = inFile("discarded.ts")
+				.filter((finding) => finding.async)
+				.map((finding) => finding.text);
+			expect(asyncTexts).toEqual(["handleAsync(async () => 1)", "okAsync(1)"]);
+		});
+
+		it("should resolve imports through the project's paths", () => {
+			expect(inFile("aliased.ts").map((finding) => finding.line)).toEqual(
+				markedLines("aliased.ts"),
+			);
+			// Without the project's options "@/index" doesn't resolve
+			expect(checkFiles([fixture("aliased.ts")])).toEqual([]);
+		});
+
+		it("should check only the given files with the project's options", () => {
+			expect(checkProject(project, [fixture("aliased.ts")])).toEqual(
+				inFile("aliased.ts"),
+			);
+			expect(checkProject(project, [fixture("used.ts")])).toEqual([]);
+		});
+
+		it("should throw for unreadable configs", () => {
+			expect(() => checkProject(join(fixtures, "missing.json"))).toThrow(
+				/^checkProject\(\): Cannot load .*missing\.json: /,
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => checkProject(project, "aliased.ts" as any)).toThrow(
+				"checkProject(): fileNames must be an array of file paths",
+			);
+		});
+	});
+
+	describe("checkFiles() / checkProgram()", () => {
+		it("should check only the given files", () => {
+			const result = checkFiles([fixture("discarded.ts")], {
+				baseUrl: resolve(__dirname, ".."),
+				paths: { "@/*": ["src/*"] },
+			});
+			expect(result.map((finding) => finding.line)).toEqual(
+				markedLines("discarded.ts"),
+			);
+			expect(
+				result.every((finding) => finding.fileName === fixture("discarded.ts")),
+			).toBe(true);
+		});
+
+		it("should check an existing program", () => {
+			const program = ts.createProgram([fixture("ignored.ts")], {
+				noEmit: true,
+			});
+			expect(checkProgram(program)).toEqual([]);
+		});
+
+		it("should validate arguments", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => checkProgram({} as any)).toThrow(
+				"checkProgram(): program must be a TypeScript Program, got object",
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => checkFiles("src/index.ts" as any)).toThrow(
+				"checkFiles(): fileNames must be an array of file paths",
+			);
+		});
+	});
+
+	describe("formatUnusedResult()", () => {
+		it("should format findings compiler-style", () => {
+			const [first] = inFile("discarded.ts");
+			if (!first) throw new Error("expected a finding");
+			expect(formatUnusedResult(first, fixtures)).toBe(
+				'discarded.ts:10:2 - Result is discarded (Result<any, Error>): handle(() => JSON.parse("{}"))',
+			);
+			expect(formatUnusedResult(first)).toMatch(/^\/.*discarded\.ts:10:2 - /);
+		});
+	});
+
+	describe("runCheckCli()", () => {
+		it("should exit with 1 and list findings", () => {
+			const { code, output } = cli(["--project", project]);
+			const expected = findings.length;
+			expect(code).toBe(1);
+			expect(output).toContain("discarded.ts:11:2 - Result is discarded");
+			expect(output).toContain(`Found ${expected} discarded Results.`);
+		});
+
+		it("should check the given files with the project's options", () => {
+			const { code, output } = cli(["-p", project, fixture("aliased.ts")]);
+			expect(code).toBe(1);
+			expect(output).toBe(
+				'aliased.ts:5:2 - Result is discarded (Result<any, Error>): handle(() => JSON.parse("{}"))\n\nFound 1 discarded Result.\n',
+			);
+			expect(
+				cli(["-p", join(fixtures, "missing.json"), fixture("used.ts")]).code,
+			).toBe(2);
+		});
+
+		it("should fall back to the tsconfig.json in the current directory", () => {
+			const lookups: string[] = [];
+			const withConfig = cli([fixture("aliased.ts")], (path) => {
+				lookups.push(path);
+				return ts.sys.fileExists(path);
+			});
+			expect(lookups).toEqual([project.replace(/\\/g, "/")]);
+			expect(withConfig.code).toBe(1);
+
+			// Without one, files are checked with plain strict settings
+			expect(cli([fixture("aliased.ts")], () => false)).toEqual({
+				code: 0,
+				output: "",
+			});
+		});
+
+		it("should exit with 0 for clean files", () => {
+			expect(cli([fixture("ignored.ts")])).toEqual({ code: 0, output: "" });
+		});
+
+		it("should exit with 2 on usage and config errors", () => {
+			expect(cli(["--watch"]).code).toBe(2);
+			expect(cli(["-p"]).output).toMatch(/^-p requires a path/);
+			expect(cli(["-p", join(fixtures, "missing.json")]).code).toBe(2);
+		});
+
+		it("should print usage", () => {
+			const { code, output } = cli(["--help"]);
+			expect(code).toBe(0);
+			expect(output).toMatch(/^Usage: result-ts-check/);
+		});
+	});
+});
@@ -1,5 +1,6 @@
-import { describe, expect, it } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import {
+	AbortError,
 	err,
 	handle,
 	handleAsync,
@@ -9,6 +10,7 @@ import {
 	isOk,
 	match,
 	ok,
+	TimeoutError,
 	unwrap,
 	unwrapOr,
 } from "../src/core";
@@ -385,6 +387,153 @@ describe("Core Result Functions", () => {
 		});
 	});
 
+	describe("handleAsync() / handleWithAsync() cancellation", () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		/** Never settles unless its signal aborts - simulates a hung request. */
+		const hang = (signal: AbortSignal): Promise<string> =>
+			new Promise((_, reject) => {
+				signal.addEventListener("abort", () => reject(signal.reason));
+			});
+
+		it("should resolve to Err(TimeoutError) when the timeout elapses", async () => {
+			const pending = handleAsync(hang, { timeoutMs: 1000 });
+			await vi.advanceTimersByTimeAsync(1000);
+			const result = await pending;
+
+			expect(isErr(result)).toBe(true);
+			if (isErr(result)) {
+				expect(result.error).toBeInstanceOf(TimeoutError);
+				expect(result.error.message).toBe(
+					"The operation timed out after 1000ms",
+				);
+				expect((result.error as TimeoutError).timeoutMs).toBe(1000);
+			}
+		});
+
+		it("should resolve normally when the operation finishes in time", async () => {
+			const pending = handleAsync(
+				() =>
+					new Promise<string>((resolve) =>
+						setTimeout(() => resolve("done"), 500),
+					),
+				{ timeoutMs: 1000 },
+			);
+			await vi.advanceTimersByTimeAsync(500);
+			expect(await pending).toEqual({ type: "Ok", value: "done" });
+			expect(vi.getTimerCount()).toBe(0);
+		});
+
+		it("should resolve to Err(AbortError) with the abort reason as cause", async () => {
+			const controller = new AbortController();
+			const pending = handleAsync(hang, { signal: controller.signal });
+			controller.abort("user navigated away");
+			const result = await pending;
+
+			if (isErr(result)) {
+				expect(result.error).toBeInstanceOf(AbortError);
+				expect(result.error.name).toBe("AbortError");
+				expect(result.error.cause).toBe("user navigated away");
+			} else {
+				expect.unreachable("expected Err");
+			}
+		});
+
+		it("should not call the function when the signal is already aborted", async () => {
+			const controller = new AbortController();
+			controller.abort();
+			const fn = vi.fn(hang);
+			const result = await handleAsync(fn, { signal: controller.signal });
+
+			expect(fn).not.toHaveBeenCalled();
+			expect(isErr(result) && result.error instanceof AbortError).toBe(true);
+		});
+
+		it("should pass a signal that aborts so the work can stop", async () => {
+			let received: AbortSignal | undefined;
+			const pending = handleAsync(
+				(signal) => {
+					received = signal;
+					return hang(signal);
+				},
+				{ timeoutMs: 50 },
+			);
+
+			expect(received?.aborted).toBe(false);
+			await vi.advanceTimersByTimeAsync(50);
+			await pending;
+			expect(received?.aborted).toBe(true);
+			expect(received?.reason).toBeInstanceOf(TimeoutError);
+		});
+
+		it("should still capture ordinary failures", async () => {
+			const result = await handleAsync(
+				async () => {
+					throw new Error("boom");
+				},
+				{ timeoutMs: 1000 },
+			);
+			if (isErr(result)) {
+				expect(result.error.message).toBe("boom");
+				expect(result.error).not.toBeInstanceOf(TimeoutError);
+			}
+			expect(vi.getTimerCount()).toBe(0);
+		});
+
+		it("should map cancellation errors through handleWithAsync's mapper", async () => {
+			const controller = new AbortController();
+			const pending = handleWithAsync(
+				hang,
+				(error) => ({
+					code:
+						error instanceof TimeoutError
+							? "TIMEOUT"
+							: error instanceof AbortError
+								? "CANCELLED"
+								: "FAILED",
+				}),
+				{ signal: controller.signal, timeoutMs: 5000 },
+			);
+
+			await vi.advanceTimersByTimeAsync(1000);
+			controller.abort();
+			expect(await pending).toEqual({
+				type: "Err",
+				error: { code: "CANCELLED" },
+			});
+
+			const timedOut = handleWithAsync(hang, (error) => error.name, {
+				timeoutMs: 100,
+			});
+			await vi.advanceTimersByTimeAsync(100);
+			expect(await timedOut).toEqual({ type: "Err", error: "TimeoutError" });
+		});
+
+		it("should not pass a signal without options", async () => {
+			const fn = vi.fn(async (...args: unknown[]) => args.length);
+			expect(await handleAsync(fn)).toEqual({ type: "Ok", value: 0 });
+		});
+
+		it("should reject invalid options", async () => {
+			await expect(
+				// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+				handleAsync(hang, { timeoutMs: -1 } as any),
+			).rejects.toThrow(
+				"handleAsync(): timeoutMs must be a non-negative finite number, got -1",
+			);
+			await expect(
+				// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+				handleWithAsync(hang, (e) => e, { signal: "nope" } as any),
+			).rejects.toThrow("handleWithAsync(): signal must be an AbortSignal");
+		});
+	});
+
 	describe("match()", () => {
 		it("should call Ok handler for Ok Results", () => {
 			const result = match(ok("hello"), {
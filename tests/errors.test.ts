@@ -0,0 +1,394 @@
+import { describe, expect, expectTypeOf, it, vi } from "vitest";
+import {
+	catchTag,
+	causeChain,
+	context,
+	err,
+	findCause,
+	handle,
+	isTagged,
+	matchErr,
+	ok,
+	type Result,
+	rootCause,
+	taggedError,
+	withContext,
+} from "../src/errors";
+
+class NotFound extends taggedError("NotFound") {
+	constructor(readonly id: number) {
+		super(`User ${id} not found`);
+	}
+}
+const Timeout = taggedError("Timeout");
+type Timeout = InstanceType<typeof Timeout>;
+type FetchError = NotFound | Timeout;
+
+describe("Errors Module - Tagged Error Toolkit", () => {
+	describe("taggedError()", () => {
+		it("should create Error subclasses carrying the tag", () => {
+			const error = new Timeout("Upstream took longer than 5s");
+
+			expect(error).toBeInstanceOf(Error);
+			expect(error).toBeInstanceOf(Timeout);
+			expect(error._tag).toBe("Timeout");
+			expect(error.name).toBe("Timeout");
+			expect(error.message).toBe("Upstream took longer than 5s");
+			expect(error.stack).toBeDefined();
+		});
+
+		it("should default the message to the tag", () => {
+			expect(new Timeout().message).toBe("Timeout");
+		});
+
+		it("should support cause chaining", () => {
+			const cause = new Error("socket hang up");
+			const error = new Timeout("Request timed out", { cause });
+			expect(error.cause).toBe(cause);
+		});
+
+		it("should be extendable with structured fields", () => {
+			const error = new NotFound(42);
+			expect(error._tag).toBe("NotFound");
+			expect(error.id).toBe(42);
+			expect(error.message).toBe("User 42 not found");
+			expect(error).toBeInstanceOf(NotFound);
+		});
+
+		it("should create independent classes per call", () => {
+			const A = taggedError("A");
+			const B = taggedError("B");
+			expect(new A()).not.toBeInstanceOf(B);
+		});
+
+		it("should reject invalid tags", () => {
+			expect(() => taggedError("")).toThrow(
+				"taggedError(): tag must be a non-empty string, got empty string",
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => taggedError(42 as any)).toThrow(
+				"taggedError(): tag must be a non-empty string, got number",
+			);
+		});
+	});
+
+	describe("isTagged()", () => {
+		it("should detect tagged values", () => {
+			expect(isTagged(new Timeout())).toBe(true);
+			expect(isTagged({ _tag: "Plain" })).toBe(true);
+			expect(isTagged(new Error("untagged"))).toBe(false);
+			expect(isTagged("NotFound")).toBe(false);
+			expect(isTagged(null)).toBe(false);
+		});
+
+		it("should check a specific tag when provided", () => {
+			expect(isTagged(new NotFound(1), "NotFound")).toBe(true);
+			expect(isTagged(new NotFound(1), "Timeout")).toBe(false);
+		});
+	});
+
+	describe("matchErr()", () => {
+		const handlers = {
+			Ok: (name: string) => `user:${name}`,
+			NotFound: (error: NotFound) => `missing:${error.id}`,
+			Timeout: (error: Timeout) => `timeout:${error.message}`,
+		};
+
+		it("should call the Ok handler for success", () => {
+			const result: Result<string, FetchError> = ok("john");
+			expect(matchErr(result, handlers)).toBe("user:john");
+		});
+
+		it("should dispatch on the error tag", () => {
+			const missing: Result<string, FetchError> = err(new NotFound(7));
+			const slow: Result<string, FetchError> = err(new Timeout("5s"));
+
+			expect(matchErr(missing, handlers)).toBe("missing:7");
+			expect(matchErr(slow, handlers)).toBe("timeout:5s");
+		});
+
+		it("should work with plain tagged objects", () => {
+			type ParseError = { _tag: "Empty" } | { _tag: "TooLong"; max: number };
+			const result: Result<number, ParseError> = err({
+				_tag: "TooLong",
+				max: 10,
+			});
+
+			const message = matchErr(result, {
+				Ok: (n) => n,
+				Empty: () => "empty",
+				TooLong: (error) => `max ${error.max}`,
+			});
+			expect(message).toBe("max 10");
+		});
+
+		it("should only invoke the matching handler", () => {
+			const onOk = vi.fn();
+			const onNotFound = vi.fn();
+			const onTimeout = vi.fn();
+			const result: Result<string, FetchError> = err(new Timeout());
+
+			matchErr(result, {
+				Ok: onOk,
+				NotFound: onNotFound,
+				Timeout: onTimeout,
+			});
+
+			expect(onTimeout).toHaveBeenCalledTimes(1);
+			expect(onOk).not.toHaveBeenCalled();
+			expect(onNotFound).not.toHaveBeenCalled();
+		});
+
+		it("should throw when no handler exists for the runtime tag", () => {
+			const result = err<{ _tag: string }>({ _tag: "Unexpected" }) as Result<
+				string,
+				{ _tag: "Expected" }
+			>;
+			expect(() =>
+				matchErr(result, { Ok: () => 1, Expected: () => 2 }),
+			).toThrow("matchErr(): No handler for error tag 'Unexpected'");
+		});
+
+		it("should throw for untagged errors", () => {
+			const result = err(new Error("plain")) as unknown as Result<
+				string,
+				FetchError
+			>;
+			expect(() => matchErr(result, handlers)).toThrow(
+				"matchErr(): Err value has no string '_tag' property to match on",
+			);
+		});
+
+		it("should validate arguments", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => matchErr(null as any, handlers)).toThrow(
+				"matchErr(): First argument must be a Result object, got object",
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => matchErr(ok("x"), null as any)).toThrow(
+				"matchErr(): handlers must be an object",
+			);
+		});
+	});
+
+	describe("matchErr() types", () => {
+		const declared = (): Result<string, FetchError> => ok("john");
+		const handlers = {
+			Ok: (name: string) => name.length,
+			NotFound: (error: NotFound) => error.id,
+			Timeout: () => "slow",
+		};
+
+		it("should accept Results narrowed by assignment", () => {
+			const okResult: Result<string, FetchError> = ok("john");
+			const errResult: Result<string, FetchError> = err(new NotFound(7));
+
+			expectTypeOf(matchErr(okResult, handlers)).toEqualTypeOf<
+				number | string
+			>();
+			expectTypeOf(matchErr(errResult, handlers)).toEqualTypeOf<
+				number | string
+			>();
+			expect(matchErr(okResult, handlers)).toBe(4);
+			expect(matchErr(errResult, handlers)).toBe(7);
+		});
+
+		it("should infer handler parameters from the Result", () => {
+			matchErr(declared(), {
+				Ok: (value) => expectTypeOf(value).toEqualTypeOf<string>(),
+				NotFound: (error) => expectTypeOf(error).toEqualTypeOf<NotFound>(),
+				Timeout: (error) => expectTypeOf(error).toEqualTypeOf<Timeout>(),
+			});
+		});
+
+		it("should reject missing and unknown handlers", () => {
+			// Type-level only: never called
+			const check = () => {
+				// @ts-expect-error Timeout handler is missing
+				matchErr(declared(), { Ok: () => 1, NotFound: () => 2 });
+				matchErr(declared(), {
+					...handlers,
+					// @ts-expect-error Forbidden is not a tag of FetchError
+					Forbidden: () => 3,
+				});
+				// @ts-expect-error NotFound handler expects a Timeout
+				matchErr(declared(), { ...handlers, NotFound: (e: Timeout) => e });
+			};
+			expect(check).toBeTypeOf("function");
+		});
+	});
+
+	describe("catchTag()", () => {
+		it("should handle errors with the given tag", () => {
+			const result: Result<string, FetchError> = err(new NotFound(3));
+			const recovered = catchTag(result, "NotFound", (error) =>
+				ok(`guest-${error.id}`),
+			);
+			expect(recovered).toEqual({ type: "Ok", value: "guest-3" });
+		});
+
+		it("should leave other errors untouched", () => {
+			const timeout = new Timeout();
+			const result: Result<string, FetchError> = err(timeout);
+			const handler = vi.fn(() => ok("guest"));
+
+			const recovered = catchTag(result, "NotFound", handler);
+
+			expect(recovered).toBe(result);
+			expect(handler).not.toHaveBeenCalled();
+		});
+
+		it("should leave Ok Results untouched", () => {
+			const result: Result<string, FetchError> = ok("john");
+			expect(catchTag(result, "Timeout", () => ok("fallback"))).toBe(result);
+		});
+
+		it("should allow mapping to a new tagged error", () => {
+			const Unavailable = taggedError("Unavailable");
+			const result: Result<string, FetchError> = err(new Timeout());
+
+			const mapped = catchTag(result, "Timeout", (error) =>
+				err(new Unavailable("Service unavailable", { cause: error })),
+			);
+
+			const outcome = matchErr(mapped, {
+				Ok: () => "ok",
+				NotFound: () => "not found",
+				Unavailable: (error) => (error.cause as Timeout)._tag,
+			});
+			expect(outcome).toBe("Timeout");
+		});
+
+		it("should narrow remaining tags for chained handling", () => {
+			const result: Result<string, FetchError> = err(new NotFound(1));
+			const withoutNotFound = catchTag(result, "NotFound", () => ok("guest"));
+
+			// Only the Timeout handler is required now
+			const value = matchErr(withoutNotFound, {
+				Ok: (name) => name,
+				Timeout: () => "timeout",
+			});
+			expect(value).toBe("guest");
+		});
+
+		it("should validate arguments", () => {
+			const result: Result<string, FetchError> = ok("x");
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => catchTag(result, "" as any, () => ok("y"))).toThrow(
+				"catchTag(): tag must be a non-empty string",
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => catchTag(result, "Timeout", null as any)).toThrow(
+				"catchTag(): handler must be a function, got object",
+			);
+		});
+	});
+
+	describe("context() / withContext()", () => {
+		it("should wrap errors with the message and keep the cause", () => {
+			const original = new Error("ECONNRESET");
+			const result = context(err(original), "loading user 42");
+
+			expect(result.type).toBe("Err");
+			if (result.type === "Err") {
+				expect(result.error).toBeInstanceOf(Error);
+				expect(result.error.message).toBe("loading user 42");
+				expect(result.error.cause).toBe(original);
+			}
+		});
+
+		it("should pass Ok values through unchanged", () => {
+			const result = ok({ id: 42 });
+			expect(context(result, "loading user 42")).toBe(result);
+			expect(withContext(result, () => "unused")).toBe(result);
+		});
+
+		it("should build messages lazily from the error", () => {
+			const messageFn = vi.fn((error: string) => `parsing config: ${error}`);
+			withContext(ok(1), messageFn);
+			expect(messageFn).not.toHaveBeenCalled();
+
+			const result = withContext(err("unexpected token"), messageFn);
+			expect(messageFn).toHaveBeenCalledWith("unexpected token");
+			if (result.type === "Err") {
+				expect(result.error.message).toBe("parsing config: unexpected token");
+				expect(result.error.cause).toBe("unexpected token");
+			}
+		});
+
+		it("should validate arguments", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => context(err("x"), 42 as any)).toThrow(
+				"context(): message must be a string, got number",
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => context(null as any, "msg")).toThrow(
+				"context(): First argument must be a Result object, got object",
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => withContext(err("x"), "msg" as any)).toThrow(
+				"withContext(): messageFn must be a function, got string",
+			);
+		});
+	});
+
+	describe("causeChain() / rootCause() / findCause()", () => {
+		const buildNested = () => {
+			const root = new NotFound(42);
+			const user = context(err(root), "loading user 42");
+			const page = context(user, "rendering profile page");
+			if (page.type !== "Err") throw new Error("expected Err");
+			return { root, error: page.error };
+		};
+
+		it("should list the error and all of its causes", () => {
+			const { root, error } = buildNested();
+			const messages = causeChain(error).map((e) => (e as Error).message);
+			expect(messages).toEqual([
+				"rendering profile page",
+				"loading user 42",
+				"User 42 not found",
+			]);
+			expect(causeChain(error)[2]).toBe(root);
+		});
+
+		it("should include non-object causes and stop there", () => {
+			const result = handle(() => {
+				throw 404;
+			});
+			if (result.type === "Err") {
+				expect(causeChain(result.error)).toEqual([result.error, 404]);
+				expect(rootCause(result.error)).toBe(404);
+			}
+		});
+
+		it("should handle errors without causes and circular causes", () => {
+			const single = new Error("alone");
+			expect(causeChain(single)).toEqual([single]);
+			expect(rootCause(single)).toBe(single);
+
+			const a = new Error("a");
+			const b = new Error("b", { cause: a });
+			a.cause = b;
+			expect(causeChain(a)).toEqual([a, b]);
+		});
+
+		it("should find the innermost error by class", () => {
+			const { root, error } = buildNested();
+			const found = findCause(error, NotFound);
+			expect(found).toBe(root);
+			expect(found?.id).toBe(42);
+			expect(rootCause(error)).toBe(root);
+
+			expect(findCause(error, Timeout)).toBeUndefined();
+			expect(findCause(error, Error)).toBe(error);
+		});
+
+		it("should validate the class argument", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => findCause(new Error("x"), "NotFound" as any)).toThrow(
+				"findCause(): errorClass must be a function, got string",
+			);
+		});
+	});
+});
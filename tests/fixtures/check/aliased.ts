@@ -0,0 +1,6 @@
+// Fixture for tests/check.test.ts - imports resolve only through the project's paths
+import { handle } from "@/index";
+
+export const run = (): void => {
+	handle(() => JSON.parse("{}")); // discarded
+};
@@ -0,0 +1,29 @@
+// Fixture for tests/check.test.ts - lines ending in "// discarded" must be reported
+import { okAsync } from "../../../src/async";
+import { err, handle, handleAsync, ok, type Result } from "../../../src/index";
+
+declare const parseId: (input: string) => Result<number, string>;
+declare const maybeLoad: (() => Result<number, string>) | undefined;
+declare const ids: string[];
+
+export const run = async (): Promise<void> => {
+	handle(() => JSON.parse("{}")); // discarded
+	parseId("42"); // discarded
+	ok(1); // discarded
+	handleAsync(async () => 1); // discarded
+	okAsync(1); // discarded
+	await handleAsync(async () => 1); // discarded
+	maybeLoad?.(); // discarded
+	Math.random() > 0.5 ? ok(1) : err("tails"); // discarded
+	ids.forEach((id) => parseId(id)); // discarded
+};
+
+export const runInClass = class {
+	save(): void {
+		this.persist(); // discarded
+	}
+
+	persist(): Result<void, Error> {
+		return ok(undefined);
+	}
+};
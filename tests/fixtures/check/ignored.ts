@@ -0,0 +1,7 @@
+// result-ts-check-ignore-file
+// Fixture for tests/check.test.ts - the whole file is suppressed
+import { handle } from "../../../src/index";
+
+export const run = (): void => {
+	handle(() => JSON.parse("{}"));
+};
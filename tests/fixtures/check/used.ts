@@ -0,0 +1,34 @@
+// Fixture for tests/check.test.ts - nothing here may be reported
+
+import { handle, handleAsync, isOk, ok, type Result } from "../../../src/index";
+import { andThen, map } from "../../../src/iter";
+
+declare const parseId: (input: string) => Result<number, string>;
+declare const ids: string[];
+declare const log: (value: unknown) => void;
+
+export const run = async (): Promise<number> => {
+	const parsed = parseId("1");
+	let latest = parseId("2");
+	if (!isOk(latest)) latest = parseId("2b");
+	log(parseId("3"));
+	const mapped = ids.map((id) => parseId(id));
+	const chained = andThen(
+		map(parsed, (n) => n + 1),
+		(n) => ok(n * 2),
+	);
+	if (isOk(await handleAsync(async () => 1))) log(mapped);
+
+	// Intentional discards
+	void handle(() => JSON.parse("{}"));
+	void handleAsync(async () => 1);
+	// result-ts-check-ignore: warming the cache, failures are retried later
+	parseId("4");
+	parseId("5"); // result-ts-check-ignore
+	/* result-ts-check-ignore */ parseId("6");
+
+	// Not Results
+	log("done");
+	ids.forEach((id) => log(id));
+	return isOk(chained) && isOk(latest) ? chained.value : 0;
+};
@@ -0,0 +1,274 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Result } from "../src/fp";
+import * as R from "../src/fp";
+
+interface User {
+	id: number;
+	name: string;
+}
+
+type ApiError = { status: number };
+type DbError = { code: string };
+
+const fetchUser = (id: number): Result<User, ApiError> =>
+	id > 0 ? R.ok({ id, name: "John" }) : R.err({ status: 404 });
+const loadRoles = (id: number): Result<string[], DbError> =>
+	id === 1 ? R.ok(["admin"]) : R.err({ code: "NO_ROLES" });
+
+describe("FP Module - Data-Last Operators and Composition", () => {
+	describe("map() / mapErr()", () => {
+		it("should transform success values", () => {
+			expect(R.map((x: number) => x * 2)(R.ok(5))).toEqual({
+				type: "Ok",
+				value: 10,
+			});
+			expect(
+				R.pipe(
+					fetchUser(1),
+					R.map((user) => user.name),
+				),
+			).toEqual({
+				type: "Ok",
+				value: "John",
+			});
+		});
+
+		it("should transform error values", () => {
+			expect(
+				R.pipe(
+					fetchUser(-1),
+					R.mapErr((error) => `HTTP ${error.status}`),
+				),
+			).toEqual({ type: "Err", error: "HTTP 404" });
+		});
+
+		it("should validate mappers when the operator is created", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => R.map("nope" as any)).toThrow(
+				"map(): mapper must be a function, got string",
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => R.mapErr(null as any)).toThrow(
+				"mapErr(): mapper must be a function, got object",
+			);
+		});
+
+		it("should keep data-first validation when applied", () => {
+			const double = R.map((x: number) => x * 2);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => double(42 as any)).toThrow(
+				"map(): First argument must be a Result object",
+			);
+		});
+	});
+
+	describe("andThen()", () => {
+		it("should chain Result-returning functions and widen errors", () => {
+			const roles: Result<string[], ApiError | DbError> = R.pipe(
+				fetchUser(1),
+				R.andThen((user) => loadRoles(user.id)),
+			);
+			expect(roles).toEqual({ type: "Ok", value: ["admin"] });
+
+			expect(
+				R.pipe(
+					fetchUser(2),
+					R.andThen((user) => loadRoles(user.id)),
+				),
+			).toEqual({ type: "Err", error: { code: "NO_ROLES" } });
+		});
+
+		it("should short-circuit on errors", () => {
+			const next = vi.fn(loadRoles);
+			const result = R.pipe(
+				fetchUser(-1),
+				R.andThen((user) => next(user.id)),
+			);
+			expect(result).toEqual({ type: "Err", error: { status: 404 } });
+			expect(next).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("async operators", () => {
+		it("should compose Promise<Result> steps", async () => {
+			const result = await R.pipe(
+				Promise.resolve(fetchUser(1)),
+				R.andThenAsync(async (user) => loadRoles(user.id)),
+				R.mapAsync(async (roles) => roles.length),
+			);
+			expect(result).toEqual({ type: "Ok", value: 1 });
+		});
+
+		it("should transform async errors", async () => {
+			const result = await R.pipe(
+				Promise.resolve(fetchUser(-1)),
+				R.mapErrAsync(async (error) => error.status),
+			);
+			expect(result).toEqual({ type: "Err", error: 404 });
+		});
+	});
+
+	describe("tap() / tapErr() / inspect()", () => {
+		it("should run side effects and return the original Result", () => {
+			const seen: string[] = [];
+			const result = R.pipe(
+				fetchUser(1),
+				R.tap((user) => seen.push(`ok:${user.name}`)),
+				R.tapErr((error) => seen.push(`err:${error.status}`)),
+				R.inspect(
+					() => seen.push("inspect:ok"),
+					() => seen.push("inspect:err"),
+				),
+			);
+
+			expect(result).toEqual({ type: "Ok", value: { id: 1, name: "John" } });
+			expect(seen).toEqual(["ok:John", "inspect:ok"]);
+		});
+
+		it("should pass copies to side effects like the data-first versions", () => {
+			const original = R.ok({ count: 1 });
+			R.tap((value: { count: number }) => {
+				value.count = 99;
+			})(original);
+			expect(original.value.count).toBe(1);
+		});
+	});
+
+	describe("unwrapOr() / match() / reduce()", () => {
+		it("should extract values with a default", () => {
+			expect(
+				R.pipe(
+					fetchUser(1),
+					R.map((u) => u.id),
+					R.unwrapOr(0),
+				),
+			).toBe(1);
+			expect(
+				R.pipe(
+					fetchUser(-1),
+					R.map((u) => u.id),
+					R.unwrapOr(0),
+				),
+			).toBe(0);
+		});
+
+		it("should match both branches", () => {
+			const describeUser = R.match({
+				Ok: (user: User) => `Hello ${user.name}`,
+				Err: (error: ApiError) => `Failed with ${error.status}`,
+			});
+			expect(describeUser(fetchUser(1))).toBe("Hello John");
+			expect(describeUser(fetchUser(-1))).toBe("Failed with 404");
+		});
+
+		it("should validate match handlers eagerly", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => R.match({ Ok: () => 1 } as any)).toThrow(
+				"match(): handlers.Err must be a function, got undefined",
+			);
+		});
+
+		it("should fold arrays of Results", () => {
+			const count = R.reduce(
+				{
+					onOk: (acc: number) => acc + 1,
+					onErr: (acc: number) => acc,
+				},
+				0,
+			);
+			expect(count([fetchUser(1), fetchUser(-1), fetchUser(2)])).toBe(2);
+		});
+	});
+
+	describe("pipe()", () => {
+		it("should return the value when no functions are given", () => {
+			expect(R.pipe(5)).toBe(5);
+		});
+
+		it("should apply functions left to right", () => {
+			const result = R.pipe(
+				2,
+				(x) => x + 1,
+				(x) => x * 10,
+				(x) => `${x}`,
+			);
+			expect(result).toBe("30");
+		});
+
+		it("should support 20 typed steps", () => {
+			const inc = R.map((n: number) => n + 1);
+			const start: Result<number, string> = R.ok(0);
+			const result = R.pipe(
+				start,
+				inc,
+				inc,
+				inc,
+				inc,
+				inc,
+				inc,
+				inc,
+				inc,
+				inc,
+				inc,
+				inc,
+				inc,
+				inc,
+				inc,
+				inc,
+				inc,
+				inc,
+				inc,
+				inc,
+				R.unwrapOr(-1),
+			);
+			expect(result).toBe(19);
+		});
+
+		it("should reject non-function steps", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			const pipeAny = R.pipe as any;
+			expect(() => pipeAny(1, (x: number) => x, "nope")).toThrow(
+				"pipe(): step 2 must be a function, got string",
+			);
+		});
+	});
+
+	describe("flow()", () => {
+		it("should build a reusable function", () => {
+			const greet = R.flow(
+				(id: number) => fetchUser(id),
+				R.map((user) => user.name),
+				R.unwrapOr("guest"),
+			);
+			expect(greet(1)).toBe("John");
+			expect(greet(-1)).toBe("guest");
+		});
+
+		it("should forward all arguments to the first function", () => {
+			const add = R.flow(
+				(a: number, b: number) => a + b,
+				(sum) => sum * 2,
+			);
+			expect(add(2, 3)).toBe(10);
+		});
+
+		it("should validate its steps", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			const flowAny = R.flow as any;
+			expect(() => flowAny()).toThrow(
+				"flow(): at least one function is required",
+			);
+			expect(() => flowAny((x: number) => x, 42)).toThrow(
+				"flow(): step 2 must be a function, got number",
+			);
+		});
+	});
+
+	describe("core re-exports", () => {
+		it("should expose core essentials next to the operators", () => {
+			expect(R.isOk(R.ok(1))).toBe(true);
+			expect(R.unwrap(R.ok("value"))).toBe("value");
+			expect(R.handle(() => 1)).toEqual({ type: "Ok", value: 1 });
+		});
+	});
+});
@@ -1,4 +1,4 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 import {
 	andThen,
 	andThenAsync,
@@ -10,7 +10,14 @@ import {
 	mapErr,
 	mapErrAsync,
 	ok,
+	orElse,
+	orElseAsync,
 	type Result,
+	recover,
+	recoverAsync,
+	recoverIf,
+	recoverIfAsync,
+	recoverWith,
 } from "../src/iter";
 
 // ✅ FIXED: Fixed timestamp instead of Date.now()
@@ -470,6 +477,255 @@ describe("Iteration Operations", () => {
 		});
 	});
 
+	describe("orElse()", () => {
+		it("should run the fallback for Err", () => {
+			const cache: Result<string, string> = err("cache miss");
+			const result = orElse(cache, (error) => ok(`db after ${error}`));
+			expect(result).toEqual({ type: "Ok", value: "db after cache miss" });
+		});
+
+		it("should pass Ok through without calling the fallback", () => {
+			const fallback = vi.fn(() => ok(0));
+			expect(orElse(ok(1), fallback)).toEqual({ type: "Ok", value: 1 });
+			expect(fallback).not.toHaveBeenCalled();
+		});
+
+		it("should allow the fallback to fail with a new error type", () => {
+			const result = orElse(err("ENOENT"), () => err({ code: 500 }));
+			expect(result).toEqual({ type: "Err", error: { code: 500 } });
+		});
+
+		it("should validate arguments", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => orElse(null as any, () => ok(1))).toThrow(
+				"orElse(): First argument must be a Result object, got object",
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => orElse(err("x"), "nope" as any)).toThrow(
+				"orElse(): fallback must be a function, got string",
+			);
+		});
+	});
+
+	describe("orElseAsync()", () => {
+		it("should await async fallbacks for Err", async () => {
+			const result = await orElseAsync(
+				Promise.resolve(err("primary down") as Result<string, string>),
+				async () => ok("replica"),
+			);
+			expect(result).toEqual({ type: "Ok", value: "replica" });
+		});
+
+		it("should accept sync fallbacks", async () => {
+			const result = await orElseAsync(Promise.resolve(err("x")), () =>
+				err("still failing"),
+			);
+			expect(result).toEqual({ type: "Err", error: "still failing" });
+		});
+
+		it("should pass Ok through without calling the fallback", async () => {
+			const fallback = vi.fn(async () => ok(0));
+			const result = await orElseAsync(Promise.resolve(ok(1)), fallback);
+			expect(result).toEqual({ type: "Ok", value: 1 });
+			expect(fallback).not.toHaveBeenCalled();
+		});
+
+		it("should validate arguments", async () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			await expect(orElseAsync(ok(1) as any, () => ok(1))).rejects.toThrow(
+				"orElseAsync(): First argument must be a Promise<Result>, got object",
+			);
+		});
+	});
+
+	describe("recover()", () => {
+		it("should turn Err into Ok with the fallback value", () => {
+			const parsed: Result<number, string> = err("Not a number");
+			expect(recover(parsed, () => 0)).toEqual({ type: "Ok", value: 0 });
+		});
+
+		it("should pass the error to the fallback", () => {
+			const result = recover(
+				err({ items: ["cached"] }),
+				(error) => error.items,
+			);
+			expect(result).toEqual({ type: "Ok", value: ["cached"] });
+		});
+
+		it("should leave Ok untouched", () => {
+			const fallback = vi.fn(() => 0);
+			expect(recover(ok(5), fallback)).toEqual({ type: "Ok", value: 5 });
+			expect(fallback).not.toHaveBeenCalled();
+		});
+
+		it("should validate the fallback", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => recover(err("x"), 0 as any)).toThrow(
+				"recover(): fallback must be a function, got number",
+			);
+		});
+	});
+
+	describe("recoverIf()", () => {
+		type ApiError =
+			| { kind: "NotFound"; id: number }
+			| { kind: "Unavailable"; retryAfter: number };
+		const isNotFound = (
+			error: ApiError,
+		): error is { kind: "NotFound"; id: number } => error.kind === "NotFound";
+
+		it("should recover errors that match the predicate", () => {
+			const result: Result<string, ApiError> = err({ kind: "NotFound", id: 7 });
+			expect(recoverIf(result, isNotFound, (e) => `guest-${e.id}`)).toEqual({
+				type: "Ok",
+				value: "guest-7",
+			});
+		});
+
+		it("should keep errors that do not match", () => {
+			const fallback = vi.fn(() => "guest");
+			const result: Result<string, ApiError> = err({
+				kind: "Unavailable",
+				retryAfter: 30,
+			});
+			expect(recoverIf(result, isNotFound, fallback)).toEqual({
+				type: "Err",
+				error: { kind: "Unavailable", retryAfter: 30 },
+			});
+			expect(fallback).not.toHaveBeenCalled();
+		});
+
+		it("should not call the predicate for Ok", () => {
+			const predicate = vi.fn(() => true);
+			expect(recoverIf(ok(1), predicate, () => 0)).toEqual({
+				type: "Ok",
+				value: 1,
+			});
+			expect(predicate).not.toHaveBeenCalled();
+		});
+
+		it("should validate arguments", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => recoverIf(err("x"), null as any, () => 0)).toThrow(
+				"recoverIf(): predicate must be a function, got object",
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => recoverIf(err("x"), () => true, "0" as any)).toThrow(
+				"recoverIf(): fallback must be a function, got string",
+			);
+		});
+	});
+
+	describe("recoverWith()", () => {
+		type ApiError = { kind: "Timeout"; ms: number } | { kind: "Forbidden" };
+		const isTimeout = (
+			error: ApiError,
+		): error is { kind: "Timeout"; ms: number } => error.kind === "Timeout";
+		const timedOut = err({ kind: "Timeout", ms: 500 }) as Result<
+			string,
+			ApiError
+		>;
+
+		it("should run the Result-returning fallback for matching errors", () => {
+			expect(
+				recoverWith(timedOut, isTimeout, (e) => ok(`cached after ${e.ms}ms`)),
+			).toEqual({
+				type: "Ok",
+				value: "cached after 500ms",
+			});
+			expect(recoverWith(timedOut, isTimeout, () => err("cache miss"))).toEqual(
+				{
+					type: "Err",
+					error: "cache miss",
+				},
+			);
+		});
+
+		it("should keep Ok and errors that do not match", () => {
+			const fallback = vi.fn(() => ok("cached"));
+			const forbidden = err({ kind: "Forbidden" }) as Result<string, ApiError>;
+			expect(recoverWith(forbidden, isTimeout, fallback)).toEqual({
+				type: "Err",
+				error: { kind: "Forbidden" },
+			});
+			expect(recoverWith(ok("live"), () => true, fallback)).toEqual({
+				type: "Ok",
+				value: "live",
+			});
+			expect(fallback).not.toHaveBeenCalled();
+		});
+
+		it("should validate arguments", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => recoverWith(err("x"), "yes" as any, () => ok(1))).toThrow(
+				"recoverWith(): predicate must be a function, got string",
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => recoverWith(err("x"), () => true, null as any)).toThrow(
+				"recoverWith(): fallback must be a function, got object",
+			);
+		});
+	});
+
+	describe("recoverAsync()", () => {
+		it("should await async fallback values for Err", async () => {
+			const result = await recoverAsync(
+				Promise.resolve(err("offline") as Result<number, string>),
+				async () => 0,
+			);
+			expect(result).toEqual({ type: "Ok", value: 0 });
+		});
+
+		it("should pass Ok through without calling the fallback", async () => {
+			const fallback = vi.fn(() => 0);
+			const result = await recoverAsync(Promise.resolve(ok(5)), fallback);
+			expect(result).toEqual({ type: "Ok", value: 5 });
+			expect(fallback).not.toHaveBeenCalled();
+		});
+
+		it("should validate arguments", async () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			await expect(recoverAsync(err("x") as any, () => 0)).rejects.toThrow(
+				"recoverAsync(): First argument must be a Promise<Result>, got object",
+			);
+		});
+	});
+
+	describe("recoverIfAsync()", () => {
+		it("should recover matching errors with sync or async fallbacks", async () => {
+			const missing = Promise.resolve(
+				err("not-found") as Result<string, string>,
+			);
+			expect(
+				await recoverIfAsync(
+					missing,
+					(e) => e === "not-found",
+					async () => "guest",
+				),
+			).toEqual({ type: "Ok", value: "guest" });
+		});
+
+		it("should keep errors that do not match", async () => {
+			const fallback = vi.fn(() => "guest");
+			const result = await recoverIfAsync(
+				Promise.resolve(err("forbidden")),
+				(e) => e === "not-found",
+				fallback,
+			);
+			expect(result).toEqual({ type: "Err", error: "forbidden" });
+			expect(fallback).not.toHaveBeenCalled();
+		});
+
+		it("should validate arguments", async () => {
+			await expect(
+				// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+				recoverIfAsync(Promise.resolve(err("x")), () => true, 1 as any),
+			).rejects.toThrow(
+				"recoverIfAsync(): fallback must be a function, got number",
+			);
+		});
+	});
+
 	describe("Integration Tests", () => {
 		it("should work together for complex workflows", () => {
 			// Simulate a user data processing pipeline
@@ -0,0 +1,257 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+	andThenOption,
+	err,
+	filterOption,
+	fromNullableOption,
+	isNone,
+	isSome,
+	mapOption,
+	matchOption,
+	none,
+	type Option,
+	ok,
+	okOr,
+	okOrElse,
+	type Result,
+	some,
+	toNullableOption,
+	toOption,
+	transpose,
+	unwrapOption,
+	unwrapOptionOr,
+} from "../src/option";
+
+describe("Option Module - Some/None and Result Interop", () => {
+	describe("some() and none()", () => {
+		it("should create Some values", () => {
+			expect(some(42)).toEqual({ type: "Some", value: 42 });
+			expect(some(null)).toEqual({ type: "Some", value: null });
+		});
+
+		it("should create None values", () => {
+			expect(none()).toEqual({ type: "None" });
+		});
+	});
+
+	describe("isSome() / isNone()", () => {
+		it("should narrow Options correctly", () => {
+			const option: Option<string> = some("hello");
+			expect(isSome(option)).toBe(true);
+			expect(isNone(option)).toBe(false);
+			if (isSome(option)) {
+				expect(option.value.toUpperCase()).toBe("HELLO");
+			}
+
+			expect(isSome(none())).toBe(false);
+			expect(isNone(none())).toBe(true);
+		});
+	});
+
+	describe("fromNullableOption() / toNullableOption()", () => {
+		it("should convert null and undefined to None", () => {
+			expect(fromNullableOption(null)).toEqual({ type: "None" });
+			expect(fromNullableOption(undefined)).toEqual({ type: "None" });
+		});
+
+		it("should keep falsy non-null values", () => {
+			expect(fromNullableOption(0)).toEqual({ type: "Some", value: 0 });
+			expect(fromNullableOption("")).toEqual({ type: "Some", value: "" });
+			expect(fromNullableOption(false)).toEqual({
+				type: "Some",
+				value: false,
+			});
+		});
+
+		it("should convert Options back to nullable values", () => {
+			expect(toNullableOption(some("x"))).toBe("x");
+			expect(toNullableOption(none())).toBe(null);
+		});
+	});
+
+	describe("mapOption()", () => {
+		it("should transform Some values", () => {
+			expect(mapOption(some(5), (x) => x * 2)).toEqual({
+				type: "Some",
+				value: 10,
+			});
+		});
+
+		it("should leave None untouched without calling the mapper", () => {
+			const mapper = vi.fn((x: number) => x * 2);
+			expect(mapOption(none() as Option<number>, mapper)).toEqual({
+				type: "None",
+			});
+			expect(mapper).not.toHaveBeenCalled();
+		});
+
+		it("should validate arguments", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => mapOption(null as any, (x) => x)).toThrow(
+				"mapOption(): option must be an Option object, got object",
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			const notAnOption = { type: "Ok", value: 1 } as any;
+			expect(() => mapOption(notAnOption, (x) => x)).toThrow(
+				"Invalid option type 'Ok'",
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => mapOption(some(1), "nope" as any)).toThrow(
+				"mapOption(): mapper must be a function, got string",
+			);
+		});
+	});
+
+	describe("andThenOption()", () => {
+		it("should chain Option-returning operations", () => {
+			const user = { name: "John", address: { city: "Paris" } };
+			const city = andThenOption(some(user), (u) =>
+				fromNullableOption(u.address?.city),
+			);
+			expect(city).toEqual({ type: "Some", value: "Paris" });
+		});
+
+		it("should short-circuit on None", () => {
+			const next = vi.fn(() => some(1));
+			expect(andThenOption(none(), next)).toEqual({ type: "None" });
+			expect(next).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("filterOption()", () => {
+		it("should keep values that satisfy the predicate", () => {
+			expect(filterOption(some(20), (age) => age >= 18)).toEqual({
+				type: "Some",
+				value: 20,
+			});
+		});
+
+		it("should drop values that fail the predicate", () => {
+			expect(filterOption(some(12), (age) => age >= 18)).toEqual({
+				type: "None",
+			});
+			expect(filterOption(none(), () => true)).toEqual({ type: "None" });
+		});
+	});
+
+	describe("unwrapOption() / unwrapOptionOr()", () => {
+		it("should extract Some values", () => {
+			expect(unwrapOption(some("value"))).toBe("value");
+			expect(unwrapOptionOr(some(42), 0)).toBe(42);
+		});
+
+		it("should throw or fall back for None", () => {
+			expect(() => unwrapOption(none())).toThrow(
+				"Called unwrapOption() on None",
+			);
+			expect(unwrapOptionOr(none() as Option<number>, 0)).toBe(0);
+		});
+	});
+
+	describe("matchOption()", () => {
+		it("should call the matching handler", () => {
+			const handlers = {
+				Some: (name: string) => `Welcome back, ${name}`,
+				None: () => "Welcome, guest",
+			};
+			expect(matchOption(some("John"), handlers)).toBe("Welcome back, John");
+			expect(matchOption(none(), handlers)).toBe("Welcome, guest");
+		});
+
+		it("should validate handlers", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => matchOption(some(1), null as any)).toThrow(
+				"matchOption(): handlers must be an object",
+			);
+			expect(() =>
+				// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+				matchOption(some(1), { Some: (x: number) => x } as any),
+			).toThrow("matchOption(): handlers.None must be a function");
+		});
+	});
+
+	describe("okOr() / okOrElse()", () => {
+		it("should convert Some to Ok", () => {
+			expect(okOr(some(1), "missing")).toEqual({ type: "Ok", value: 1 });
+			expect(okOrElse(some(1), () => "missing")).toEqual({
+				type: "Ok",
+				value: 1,
+			});
+		});
+
+		it("should convert None to Err", () => {
+			const error = { code: "NOT_FOUND", id: 7 };
+			expect(okOr(none(), error)).toEqual({ type: "Err", error });
+		});
+
+		it("should only compute the error lazily", () => {
+			const errorFn = vi.fn(() => new Error("missing"));
+			okOrElse(some("present"), errorFn);
+			expect(errorFn).not.toHaveBeenCalled();
+
+			const result = okOrElse(none(), errorFn);
+			expect(errorFn).toHaveBeenCalledTimes(1);
+			expect(result.type).toBe("Err");
+		});
+	});
+
+	describe("toOption()", () => {
+		it("should convert Ok to Some and Err to None", () => {
+			expect(toOption(ok("cached"))).toEqual({ type: "Some", value: "cached" });
+			expect(toOption(err("miss"))).toEqual({ type: "None" });
+		});
+
+		it("should validate the Result", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => toOption({ type: "Some", value: 1 } as any)).toThrow(
+				"toOption(): Invalid result type 'Some'",
+			);
+		});
+	});
+
+	describe("transpose()", () => {
+		it("should turn Option<Result> into Result<Option>", () => {
+			const present: Option<Result<number, string>> = some(ok(30));
+			const invalid: Option<Result<number, string>> = some(err("bad age"));
+			const absent: Option<Result<number, string>> = none();
+
+			expect(transpose(present)).toEqual({
+				type: "Ok",
+				value: { type: "Some", value: 30 },
+			});
+			expect(transpose(invalid)).toEqual({ type: "Err", error: "bad age" });
+			expect(transpose(absent)).toEqual({
+				type: "Ok",
+				value: { type: "None" },
+			});
+		});
+
+		it("should turn Result<Option> into Option<Result>", () => {
+			const present: Result<Option<number>, string> = ok(some(30));
+			const absent: Result<Option<number>, string> = ok(none());
+			const failed: Result<Option<number>, string> = err("boom");
+
+			expect(transpose(present)).toEqual({
+				type: "Some",
+				value: { type: "Ok", value: 30 },
+			});
+			expect(transpose(absent)).toEqual({ type: "None" });
+			expect(transpose(failed)).toEqual({
+				type: "Some",
+				value: { type: "Err", error: "boom" },
+			});
+		});
+
+		it("should round-trip", () => {
+			const original: Option<Result<string, string>> = some(ok("x"));
+			expect(transpose(transpose(original))).toEqual(original);
+		});
+
+		it("should reject non-Option, non-Result values", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => transpose(42 as any)).toThrow(
+				"transpose(): Argument must be an Option or Result object, got number",
+			);
+		});
+	});
+});
@@ -1,5 +1,11 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 import {
+	$,
+	applyV,
+	chain,
+	combine,
+	combineAsync,
+	Do,
 	type Err,
 	err,
 	isOk,
@@ -7,8 +13,11 @@ import {
 	type Result,
 	safe,
 	safeAsync,
+	validateAll,
 	yieldFn,
 	zip,
+	zipAllErrors,
+	zipAsync,
 	zipWith,
 } from "../src/patterns";
 
@@ -255,6 +264,57 @@ describe("Pattern Operations", () => {
 		});
 	});
 
+	describe("$()", () => {
+		it("should bind Ok values with yield* in safe()", () => {
+			const result = safe(function* () {
+				const a = yield* $(ok(1));
+				const b = yield* $(ok("two") as Result<string, { code: number }>);
+				return `${a}-${b}`;
+			});
+
+			expect(result).toEqual({ type: "Ok", value: "1-two" });
+		});
+
+		it("should short-circuit on the first Err", () => {
+			const after = vi.fn();
+			const result = safe(function* () {
+				yield* $(ok(1));
+				yield* $(err("failed") as Result<number, string>);
+				after();
+				return 0;
+			});
+
+			expect(result).toEqual({ type: "Err", error: "failed" });
+			expect(after).not.toHaveBeenCalled();
+		});
+
+		it("should await Promise<Result> inputs in safeAsync()", async () => {
+			const result = await safeAsync(async function* () {
+				const user = yield* $(Promise.resolve(ok({ id: 7 })));
+				const posts = yield* $(ok([user.id]));
+				return posts;
+			});
+
+			expect(result).toEqual({ type: "Ok", value: [7] });
+		});
+
+		it("should propagate Errs from Promise inputs in safeAsync()", async () => {
+			const result = await safeAsync(async function* () {
+				yield* $(Promise.resolve(err("not found") as Result<number, string>));
+				return 1;
+			});
+
+			expect(result).toEqual({ type: "Err", error: "not found" });
+		});
+
+		it("should validate the Result", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => $(42 as any)).toThrow(
+				"$(): result must be a Result object, got number",
+			);
+		});
+	});
+
 	describe("zipWith()", () => {
 		it("should combine two successful Results with a function", () => {
 			const result1 = ok(10);
@@ -351,6 +411,504 @@ describe("Pattern Operations", () => {
 				expect(typeof combined.value[1]).toBe("boolean");
 			}
 		});
+
+		it("should combine any number of Results", () => {
+			expect(zip(ok(1), ok("two"), ok(true), ok(null), ok([5]))).toEqual(
+				ok([1, "two", true, null, [5]]),
+			);
+			expect(zip()).toEqual(ok([]));
+			expect(zip(ok(1))).toEqual(ok([1]));
+		});
+
+		it("should return the first error in argument order", () => {
+			expect(zip(ok(1), err("second"), err("third"))).toEqual(err("second"));
+		});
+
+		it("should validate every argument", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => zip(ok(1), ok(2), 3 as any)).toThrow(
+				"zip(): results[2] must be a Result object, got number",
+			);
+		});
+	});
+
+	describe("combine()", () => {
+		it("should combine named Results into an object", () => {
+			expect(combine({ user: ok({ id: 1 }), plan: ok("pro") })).toEqual(
+				ok({ user: { id: 1 }, plan: "pro" }),
+			);
+			expect(combine({})).toEqual(ok({}));
+		});
+
+		it("should return the first error in key order", () => {
+			expect(
+				combine({ user: ok(1), settings: err("no settings"), plan: err("x") }),
+			).toEqual(err("no settings"));
+		});
+
+		it("should validate arguments", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => combine([ok(1)] as any)).toThrow(
+				"combine(): First argument must be an object of Results, got array",
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => combine({ user: 1 } as any)).toThrow(
+				"combine(): results.user must be a Result object, got number",
+			);
+		});
+	});
+
+	describe("zipAsync() / combineAsync()", () => {
+		const delayed = <R>(result: R, ms: number) =>
+			new Promise<R>((resolve) => setTimeout(() => resolve(result), ms));
+
+		it("should await every Promise concurrently", async () => {
+			vi.useFakeTimers();
+			try {
+				const pending = zipAsync(
+					delayed(ok(1), 100),
+					delayed(ok("two"), 100),
+					ok(true),
+				);
+				await vi.advanceTimersByTimeAsync(100);
+				expect(await pending).toEqual(ok([1, "two", true]));
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+
+		it("should return the first error in argument order", async () => {
+			const result = await zipAsync(
+				delayed(err("slow failure"), 20),
+				delayed(err("fast failure"), 1),
+			);
+			expect(result).toEqual(err("slow failure"));
+		});
+
+		it("should combine named Promises into an object", async () => {
+			expect(
+				await combineAsync({
+					user: Promise.resolve(ok({ id: 1 })),
+					notifications: delayed(ok([]), 5),
+				}),
+			).toEqual(ok({ user: { id: 1 }, notifications: [] }));
+			expect(
+				await combineAsync({
+					user: Promise.resolve(ok(1)),
+					billing: Promise.resolve(err("billing down")),
+				}),
+			).toEqual(err("billing down"));
+		});
+
+		it("should validate awaited values", async () => {
+			await expect(
+				// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+				zipAsync(Promise.resolve(ok(1)), Promise.resolve("x" as any)),
+			).rejects.toThrow(
+				"zipAsync(): results[1] must be a Result object, got string",
+			);
+			await expect(
+				// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+				combineAsync({ user: Promise.resolve(null as any) }),
+			).rejects.toThrow(
+				"combineAsync(): results.user must be a Result object, got object",
+			);
+		});
+	});
+
+	describe("zipAllErrors()", () => {
+		it("should combine two Ok values into a tuple", () => {
+			expect(zipAllErrors(ok("Ada"), ok(36))).toEqual(ok(["Ada", 36]));
+		});
+
+		it("should collect errors from both sides in order", () => {
+			expect(zipAllErrors(err("name required"), err("age invalid"))).toEqual(
+				err(["name required", "age invalid"]),
+			);
+			expect(zipAllErrors(ok("Ada"), err("age invalid"))).toEqual(
+				err(["age invalid"]),
+			);
+		});
+
+		it("should fold errors with a merge function", () => {
+			const merge = vi.fn((a: string, b: string) => `${a}; ${b}`);
+			expect(zipAllErrors(err("a"), err("b"), merge)).toEqual(err("a; b"));
+			expect(zipAllErrors(err("a"), ok(1), merge)).toEqual(err("a"));
+			expect(merge).toHaveBeenCalledTimes(1);
+		});
+
+		it("should validate arguments", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => zipAllErrors(ok(1), null as any)).toThrow(
+				"zipAllErrors(): resultB must be a Result object, got object",
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => zipAllErrors(ok(1), ok(2), "x" as any)).toThrow(
+				"zipAllErrors(): merge must be a function, got string",
+			);
+		});
+	});
+
+	describe("applyV()", () => {
+		const createUser = (name: string) => (email: string) => (age: number) => ({
+			name,
+			email,
+			age,
+		});
+
+		it("should apply curried functions when every argument is valid", () => {
+			const user = applyV(
+				applyV(applyV(ok(createUser), ok("Ada")), ok("ada@example.com")),
+				ok(36),
+			);
+			expect(user).toEqual(
+				ok({ name: "Ada", email: "ada@example.com", age: 36 }),
+			);
+		});
+
+		it("should accumulate every invalid argument", () => {
+			const user = applyV(
+				applyV(
+					applyV(ok(createUser), err("name required")),
+					ok("ada@example.com"),
+				),
+				err("age must be positive"),
+			);
+			expect(user).toEqual(err(["name required", "age must be positive"]));
+		});
+
+		it("should fold errors with a merge function", () => {
+			const merge = (a: string, b: string) => `${a}; ${b}`;
+			const result = applyV(
+				applyV(ok(createUser), err("name required"), merge),
+				err("email invalid"),
+				merge,
+			);
+			expect(result).toEqual(err("name required; email invalid"));
+		});
+
+		it("should reject non-function values and non-array accumulated errors", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => applyV(ok(42 as any), ok(1))).toThrow(
+				"applyV(): resultFn must contain a function value, got number",
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => applyV(err("single") as any, ok(1))).toThrow(
+				"applyV(): resultFn error must be a non-empty array of accumulated errors",
+			);
+		});
+	});
+
+	describe("validateAll()", () => {
+		type FieldError = { field: string; message: string };
+		const required = (
+			field: string,
+			value: string,
+		): Result<string, FieldError> =>
+			value ? ok(value) : err({ field, message: `${field} is required` });
+
+		it("should return every value under its key", () => {
+			const form = validateAll({
+				name: required("name", "Ada"),
+				email: required("email", "ada@example.com"),
+			});
+			expect(form).toEqual(ok({ name: "Ada", email: "ada@example.com" }));
+		});
+
+		it("should report every invalid field at once", () => {
+			const form = validateAll({
+				name: required("name", ""),
+				email: required("email", "ada@example.com"),
+				city: required("city", ""),
+			});
+			expect(form).toEqual(
+				err([
+					{ field: "name", message: "name is required" },
+					{ field: "city", message: "city is required" },
+				]),
+			);
+		});
+
+		it("should fold errors with a merge function", () => {
+			const form = validateAll(
+				{ name: err<string>("name"), email: err<string>("email"), ok: ok(1) },
+				(a, b) => `${a}, ${b}`,
+			);
+			expect(form).toEqual(err("name, email"));
+		});
+
+		it("should handle empty objects", () => {
+			expect(validateAll({})).toEqual(ok({}));
+		});
+
+		it("should validate arguments", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => validateAll([ok(1)] as any)).toThrow(
+				"validateAll(): fields must be an object of Results, got array",
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => validateAll({ name: "Ada" } as any)).toThrow(
+				"validateAll(): fields.name must be a Result object, got string",
+			);
+		});
+	});
+
+	describe("chain()", () => {
+		type ApiError = { status: number; message: string };
+		type DbError = { code: string };
+
+		const fetchUser = (id: number): Result<{ id: number }, ApiError> =>
+			id > 0 ? ok({ id }) : err({ status: 404, message: "Not found" });
+		const loadProfile = (id: number): Result<string, DbError> =>
+			id === 1 ? ok("admin") : err({ code: "MISSING_PROFILE" });
+
+		it("should compose steps and widen error types", () => {
+			const success: Result<string, ApiError | DbError> = chain(fetchUser(1))
+				.andThen((user) => loadProfile(user.id))
+				.map((role) => role.toUpperCase())
+				.run();
+			expect(success).toEqual({ type: "Ok", value: "ADMIN" });
+
+			const failure = chain(fetchUser(2))
+				.andThen((user) => loadProfile(user.id))
+				.run();
+			expect(failure).toEqual({
+				type: "Err",
+				error: { code: "MISSING_PROFILE" },
+			});
+		});
+
+		it("should not be thenable, so a stray await cannot hang", async () => {
+			const pipeline = chain(Promise.resolve(ok(1))).map((n) => n + 1);
+			expect("then" in pipeline).toBe(false);
+			expect(await pipeline).toBe(pipeline);
+			expect(await pipeline.runAsync()).toEqual({ type: "Ok", value: 2 });
+		});
+
+		it("should be lazy until run() and re-run every time", () => {
+			const step = vi.fn((n: number) => n + 1);
+			const pipeline = chain(ok(1)).map(step);
+			expect(step).not.toHaveBeenCalled();
+
+			expect(pipeline.run()).toEqual({ type: "Ok", value: 2 });
+			expect(pipeline.run()).toEqual({ type: "Ok", value: 2 });
+			expect(step).toHaveBeenCalledTimes(2);
+		});
+
+		it("should not let branches sharing a prefix affect each other", () => {
+			const base = chain(ok(10));
+			const doubled = base.map((n) => n * 2);
+			const negated = base.map((n) => -n);
+
+			expect(base.run()).toEqual({ type: "Ok", value: 10 });
+			expect(doubled.run()).toEqual({ type: "Ok", value: 20 });
+			expect(negated.run()).toEqual({ type: "Ok", value: -10 });
+		});
+
+		it("should skip success steps after an error", () => {
+			const map = vi.fn((user: { id: number }) => user.id);
+			const tap = vi.fn((id: number) => id);
+			const result = chain(fetchUser(-1)).map(map).tap(tap).run();
+			expect(result).toEqual({
+				type: "Err",
+				error: { status: 404, message: "Not found" },
+			});
+			expect(map).not.toHaveBeenCalled();
+			expect(tap).not.toHaveBeenCalled();
+		});
+
+		it("should transform and recover errors", () => {
+			const mapped = chain(fetchUser(-1))
+				.mapErr((error) => `HTTP ${error.status}`)
+				.run();
+			expect(mapped).toEqual({ type: "Err", error: "HTTP 404" });
+
+			const recovered = chain(fetchUser(-1))
+				.orElse(() => ok({ id: 0 }))
+				.map((user) => user.id)
+				.run();
+			expect(recovered).toEqual({ type: "Ok", value: 0 });
+		});
+
+		it("should run side effects without changing the Result", () => {
+			const events: string[] = [];
+			const ok1 = chain(ok("value"))
+				.tap((value) => events.push(`tap:${value}`))
+				.tapErr(() => events.push("tapErr"))
+				.run();
+			const err1 = chain(err("boom"))
+				.tap(() => events.push("tap"))
+				.tapErr((error) => events.push(`tapErr:${error}`))
+				.run();
+
+			expect(ok1).toEqual({ type: "Ok", value: "value" });
+			expect(err1).toEqual({ type: "Err", error: "boom" });
+			expect(events).toEqual(["tap:value", "tapErr:boom"]);
+		});
+
+		it("should support async steps with runAsync()", async () => {
+			const loadProfileAsync = async (id: number) => loadProfile(id);
+			const result = await chain(fetchUser(1))
+				.andThen((user) => loadProfileAsync(user.id))
+				.map(async (role) => `${role}!`)
+				.tap(async () => {
+					await Promise.resolve();
+				})
+				.runAsync();
+			expect(result).toEqual({ type: "Ok", value: "admin!" });
+		});
+
+		it("should accept a Promise of a Result as initial value", async () => {
+			const result = await chain(Promise.resolve(fetchUser(-1)))
+				.mapErr(async (error) => error.message)
+				.orElse((message) => err({ reason: message }))
+				.runAsync();
+			expect(result).toEqual({ type: "Err", error: { reason: "Not found" } });
+		});
+
+		it("should reject async steps in run()", () => {
+			const pipeline = chain(ok(1)).map(async (n) => n);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing runtime guard
+			expect(() => (pipeline as any).run()).toThrow(
+				"chain().run(): map() step returned a Promise, use runAsync() instead",
+			);
+
+			// biome-ignore lint/suspicious/noExplicitAny: Testing runtime guard
+			const pending = chain(Promise.resolve(ok(1))) as any;
+			expect(() => pending.run()).toThrow(
+				"chain().run(): initial Result is a Promise, use runAsync() instead",
+			);
+		});
+
+		it("should validate inputs", async () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => chain(42 as any)).toThrow(
+				"chain(): initial must be a Result object, got number",
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => chain(ok(1)).map("nope" as any)).toThrow(
+				"chain().map(): fn must be a function, got string",
+			);
+			const notAResult = (() => 42) as unknown as () => Result<number, string>;
+			const invalid = chain(ok(1)).andThen(notAResult);
+			expect(() => invalid.run()).toThrow(
+				"chain().andThen(): callback result must be a Result object, got number",
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			const pending = chain(Promise.resolve("nope" as any));
+			await expect(pending.runAsync()).rejects.toThrow(
+				"chain(): initial must be a Result object, got string",
+			);
+		});
+	});
+
+	describe("Do()", () => {
+		const getUser = (
+			id: number,
+		): Result<{ id: number; name: string }, string> =>
+			id > 0 ? ok({ id, name: "Ada" }) : err("user not found");
+		const getProfile = (userId: number): Result<{ bio: string }, string> =>
+			ok({ bio: `bio of ${userId}` });
+
+		it("should accumulate named bindings", () => {
+			const result = Do()
+				.bind("user", () => getUser(1))
+				.bind("profile", ({ user }) => getProfile(user.id))
+				.let("greeting", ({ user }) => `Hello ${user.name}`)
+				.run();
+
+			expect(result).toEqual(
+				ok({
+					user: { id: 1, name: "Ada" },
+					profile: { bio: "bio of 1" },
+					greeting: "Hello Ada",
+				}),
+			);
+		});
+
+		it("should build a final value with map()", () => {
+			const result = Do()
+				.bind("user", () => getUser(1))
+				.map(({ user }) => user.name.toUpperCase());
+			expect(result).toEqual(ok("ADA"));
+		});
+
+		it("should short-circuit on the first Err", () => {
+			const later = vi.fn(() => ok(1));
+			const mapper = vi.fn();
+			const result = Do()
+				.bind("user", () => getUser(0))
+				.bind("profile", later)
+				.let("x", later)
+				.map(mapper);
+
+			expect(result).toEqual(err("user not found"));
+			expect(later).not.toHaveBeenCalled();
+			expect(mapper).not.toHaveBeenCalled();
+		});
+
+		it("should keep builders sharing a prefix independent", () => {
+			const base = Do().let("a", () => 1);
+			const left = base.let("b", () => 2).run();
+			const right = base.let("c", () => 3).run();
+			expect(left).toEqual(ok({ a: 1, b: 2 }));
+			expect(right).toEqual(ok({ a: 1, c: 3 }));
+			expect(base.run()).toEqual(ok({ a: 1 }));
+		});
+
+		it("should switch to async when a step returns a Promise", async () => {
+			const fetchCart = async () => ok({ total: 42 });
+			const builder = Do()
+				.bind("user", () => getUser(1))
+				.bind("cart", fetchCart)
+				.let("tax", async ({ cart }) => cart.total * 0.2)
+				.bind("profile", ({ user }) => getProfile(user.id));
+
+			expect(await builder.map(({ cart, tax }) => cart.total + tax)).toEqual(
+				ok(50.4),
+			);
+			expect(await builder.run()).toEqual(
+				ok({
+					user: { id: 1, name: "Ada" },
+					cart: { total: 42 },
+					tax: 8.4,
+					profile: { bio: "bio of 1" },
+				}),
+			);
+		});
+
+		it("should short-circuit async builders on the first Err", async () => {
+			const later = vi.fn(async () => ok(1));
+			const result = await Do()
+				.bind("cart", async () => err("cart expired"))
+				.bind("payment", later)
+				.run();
+			expect(result).toEqual(err("cart expired"));
+			expect(later).not.toHaveBeenCalled();
+		});
+
+		it("should return a Promise from map() with an async mapper", async () => {
+			const result = Do()
+				.let("id", () => 7)
+				.map(async ({ id }) => id * 2);
+			expect(result).toBeInstanceOf(Promise);
+			expect(await result).toEqual(ok(14));
+		});
+
+		it("should validate keys, callbacks and callback results", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => Do().bind("", () => ok(1) as any)).toThrow(
+				"Do().bind(): key must be a non-empty string, got empty string",
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => Do().let("x", 1 as any)).toThrow(
+				"Do().let(): fn must be a function, got number",
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => Do().bind("user", () => 42 as any)).toThrow(
+				'Do().bind("user"): callback result must be a Result object, got number',
+			);
+		});
 	});
 
 	describe("Error Handling and Edge Cases", () => {
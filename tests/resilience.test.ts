@@ -0,0 +1,624 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { taggedError } from "../src/errors";
+import {
+	CircuitOpenError,
+	type CircuitTransition,
+	circuitBreaker,
+	err,
+	handleWithAsync,
+	ok,
+	type Result,
+	RetryError,
+	retry,
+	retryOn,
+	TimeoutError,
+} from "../src/resilience";
+
+const Timeout = taggedError("Timeout");
+const Declined = taggedError("Declined");
+type PaymentError =
+	| InstanceType<typeof Timeout>
+	| InstanceType<typeof Declined>;
+
+/** Operation failing with the given errors in order, then succeeding. */
+const flaky = <E>(errors: E[], value = "done") =>
+	vi.fn(async (attempt: number): Promise<Result<string, E>> => {
+		const error = errors[attempt - 1];
+		return error === undefined ? ok(value) : err(error);
+	});
+
+describe("Resilience Module - Retry with Backoff", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	describe("retry()", () => {
+		it("should return the first success without waiting", async () => {
+			const fn = flaky<string>([]);
+			expect(await retry(fn)).toEqual({ type: "Ok", value: "done" });
+			expect(fn).toHaveBeenCalledTimes(1);
+			expect(fn).toHaveBeenCalledWith(1);
+		});
+
+		it("should retry failures with exponential backoff by default", async () => {
+			const fn = flaky(["a", "b"]);
+			const pending = retry(fn, { delay: 100 });
+
+			await vi.advanceTimersByTimeAsync(0);
+			expect(fn).toHaveBeenCalledTimes(1);
+			await vi.advanceTimersByTimeAsync(100);
+			expect(fn).toHaveBeenCalledTimes(2);
+			await vi.advanceTimersByTimeAsync(199);
+			expect(fn).toHaveBeenCalledTimes(2);
+			await vi.advanceTimersByTimeAsync(1);
+			expect(fn).toHaveBeenCalledTimes(3);
+
+			expect(await pending).toEqual({ type: "Ok", value: "done" });
+		});
+
+		it("should record every attempt when attempts run out", async () => {
+			const fn = flaky(["a", "b", "c", "d"]);
+			const pending = retry(fn, { attempts: 3, delay: 50 });
+			await vi.runAllTimersAsync();
+			const result = await pending;
+
+			expect(fn).toHaveBeenCalledTimes(3);
+			if (result.type !== "Err") throw new Error("expected Err");
+			const error = result.error;
+			expect(error).toBeInstanceOf(RetryError);
+			expect(error.reason).toBe("exhausted");
+			expect(error.message).toBe("Operation failed after 3 attempt(s)");
+			expect(error.lastError).toBe("c");
+			expect(error.cause).toBe("c");
+			expect(
+				error.attempts.map((a) => [a.attempt, a.error, a.delayMs]),
+			).toEqual([
+				[1, "a", 50],
+				[2, "b", 100],
+				[3, "c", 0],
+			]);
+		});
+
+		it("should record attempt timing", async () => {
+			vi.setSystemTime(new Date("2024-01-01T00:00:00.000Z"));
+			const start = Date.now();
+			const slow = async (): Promise<Result<string, string>> => {
+				await new Promise((resolve) => setTimeout(resolve, 30));
+				return err("slow failure");
+			};
+
+			const pending = retry(slow, { attempts: 2, delay: 10 });
+			await vi.runAllTimersAsync();
+			const result = await pending;
+
+			if (result.type !== "Err") throw new Error("expected Err");
+			const [first, second] = result.error.attempts;
+			expect(first?.startedAt).toBe(start);
+			expect(first?.durationMs).toBe(30);
+			expect(second?.startedAt).toBe(start + 30 + 10);
+			expect(second?.durationMs).toBe(30);
+		});
+
+		it("should support linear, constant and custom backoff", async () => {
+			const delaysFor = async (
+				backoff: "linear" | "constant" | ((attempt: number) => number),
+			) => {
+				const pending = retry(flaky(["a", "b", "c", "d"]), {
+					attempts: 4,
+					delay: 100,
+					backoff,
+				});
+				await vi.runAllTimersAsync();
+				const result = await pending;
+				if (result.type !== "Err") throw new Error("expected Err");
+				return result.error.attempts.map((a) => a.delayMs);
+			};
+
+			expect(await delaysFor("linear")).toEqual([100, 200, 300, 0]);
+			expect(await delaysFor("constant")).toEqual([100, 100, 100, 0]);
+			expect(await delaysFor((attempt) => attempt * 7)).toEqual([7, 14, 21, 0]);
+		});
+
+		it("should cap delays with maxDelay", async () => {
+			const pending = retry(flaky(["a", "b", "c", "d", "e"]), {
+				attempts: 5,
+				delay: 100,
+				maxDelay: 250,
+			});
+			await vi.runAllTimersAsync();
+			const result = await pending;
+			if (result.type !== "Err") throw new Error("expected Err");
+			expect(result.error.attempts.map((a) => a.delayMs)).toEqual([
+				100, 200, 250, 250, 0,
+			]);
+		});
+
+		it("should apply jitter within the capped delay", async () => {
+			vi.spyOn(Math, "random").mockReturnValue(0.5);
+
+			const full = retry(flaky(["a", "b"]), {
+				attempts: 2,
+				delay: 100,
+				jitter: true,
+			});
+			const partial = retry(flaky(["a", "b"]), {
+				attempts: 2,
+				delay: 100,
+				jitter: 0.2,
+			});
+			await vi.runAllTimersAsync();
+
+			const fullResult = await full;
+			const partialResult = await partial;
+			if (fullResult.type !== "Err" || partialResult.type !== "Err") {
+				throw new Error("expected Err");
+			}
+			expect(fullResult.error.attempts[0]?.delayMs).toBe(50);
+			expect(partialResult.error.attempts[0]?.delayMs).toBe(90);
+		});
+
+		it("should stop immediately when shouldRetry returns false", async () => {
+			const shouldRetry = vi.fn((error: string) => error !== "fatal");
+			const fn = flaky(["transient", "fatal", "never"]);
+			const pending = retry(fn, { attempts: 5, delay: 10, shouldRetry });
+			await vi.runAllTimersAsync();
+			const result = await pending;
+
+			expect(fn).toHaveBeenCalledTimes(2);
+			expect(shouldRetry).toHaveBeenNthCalledWith(1, "transient", 1);
+			expect(shouldRetry).toHaveBeenNthCalledWith(2, "fatal", 2);
+			if (result.type !== "Err") throw new Error("expected Err");
+			expect(result.error.reason).toBe("not-retryable");
+			expect(result.error.lastError).toBe("fatal");
+		});
+
+		it("should abort pending delays through the signal", async () => {
+			const controller = new AbortController();
+			const fn = flaky(["a", "b", "c"]);
+			const pending = retry(fn, {
+				attempts: 3,
+				delay: 1000,
+				signal: controller.signal,
+			});
+
+			await vi.advanceTimersByTimeAsync(500);
+			controller.abort();
+			const result = await pending;
+
+			expect(fn).toHaveBeenCalledTimes(1);
+			if (result.type !== "Err") throw new Error("expected Err");
+			expect(result.error.reason).toBe("aborted");
+			expect(result.error.message).toBe("Retry aborted after 1 attempt(s)");
+			expect(vi.getTimerCount()).toBe(0);
+		});
+
+		it("should not start when the signal is already aborted", async () => {
+			const controller = new AbortController();
+			controller.abort();
+			const fn = flaky<string>([]);
+			const result = await retry(fn, { signal: controller.signal });
+
+			expect(fn).not.toHaveBeenCalled();
+			if (result.type !== "Err") throw new Error("expected Err");
+			expect(result.error.attempts).toEqual([]);
+			expect(result.error.lastError).toBeUndefined();
+		});
+
+		it("should propagate rejections from the operation", async () => {
+			const fn = vi.fn(async () => {
+				throw new Error("bug");
+			});
+			await expect(retry(fn)).rejects.toThrow("bug");
+			expect(fn).toHaveBeenCalledTimes(1);
+		});
+
+		it("should reject operations that do not return a Result", async () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			const fn = vi.fn(async () => ({ ok: true }) as any);
+			await expect(retry(fn)).rejects.toThrow(
+				"retry(): callback result must have a 'type' property (Ok or Err)",
+			);
+			expect(fn).toHaveBeenCalledTimes(1);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			await expect(retry(async () => undefined as any)).rejects.toThrow(
+				"retry(): callback result must be a Result object, got undefined",
+			);
+		});
+
+		it("should validate arguments", async () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			await expect(retry("nope" as any)).rejects.toThrow(
+				"retry(): fn must be a function, got string",
+			);
+			const fn = flaky<string>([]);
+			await expect(retry(fn, { attempts: 0 })).rejects.toThrow(
+				"retry(): attempts must be a positive integer, got 0",
+			);
+			await expect(retry(fn, { delay: -5 })).rejects.toThrow(
+				"retry(): delay must be a non-negative number, got -5",
+			);
+			await expect(
+				// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+				retry(fn, { backoff: "fibonacci" as any }),
+			).rejects.toThrow(
+				"retry(): backoff must be 'exponential', 'linear', 'constant' or a function, got fibonacci",
+			);
+			await expect(retry(fn, { jitter: 2 })).rejects.toThrow(
+				"retry(): jitter must be a boolean or a number between 0 and 1, got 2",
+			);
+		});
+	});
+
+	describe("retryOn()", () => {
+		it("should match errors by tag", () => {
+			const shouldRetry = retryOn("Timeout", "TimeoutError");
+			expect(shouldRetry(new Timeout())).toBe(true);
+			expect(shouldRetry(new TimeoutError(100))).toBe(true);
+			expect(shouldRetry(new Declined())).toBe(false);
+			expect(shouldRetry("Timeout")).toBe(false);
+			expect(shouldRetry(null)).toBe(false);
+		});
+
+		it("should compose with handleWithAsync error mappers", async () => {
+			const responses: Array<"hang" | "declined" | "ok"> = [
+				"hang",
+				"declined",
+				"ok",
+			];
+			const charge = vi.fn((attempt: number) =>
+				handleWithAsync(
+					(signal) =>
+						new Promise<string>((resolve, reject) => {
+							const response = responses[attempt - 1];
+							if (response === "ok") resolve("charged");
+							if (response === "declined") reject(new Error("card declined"));
+							signal.addEventListener("abort", () => reject(signal.reason));
+						}),
+					(error): PaymentError =>
+						error instanceof TimeoutError
+							? new Timeout(error.message)
+							: new Declined(error.message),
+					{ timeoutMs: 1000 },
+				),
+			);
+
+			const pending = retry(charge, {
+				attempts: 3,
+				delay: 100,
+				shouldRetry: retryOn("Timeout"),
+			});
+			await vi.runAllTimersAsync();
+			const result = await pending;
+
+			expect(charge).toHaveBeenCalledTimes(2);
+			if (result.type !== "Err") throw new Error("expected Err");
+			expect(result.error.reason).toBe("not-retryable");
+			expect(result.error.attempts.map((a) => a.error._tag)).toEqual([
+				"Timeout",
+				"Declined",
+			]);
+		});
+
+		it("should validate tags", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => retryOn("Timeout", 42 as any)).toThrow(
+				"retryOn(): tags must be strings, got number",
+			);
+		});
+	});
+});
+
+describe("Resilience Module - Circuit Breaker", () => {
+	/** Manually advanced clock for deterministic state transitions. */
+	const createClock = () => {
+		let time = 0;
+		return {
+			now: () => time,
+			advance: (ms: number) => {
+				time += ms;
+			},
+		};
+	};
+
+	/** Operation whose outcome is controlled by the test. */
+	const controlled = () => {
+		const outcome: { next: Result<string, string> } = { next: ok("up") };
+		const fn = vi.fn(async (_id: number) => outcome.next);
+		return { fn, outcome };
+	};
+
+	it("should pass results through while closed", async () => {
+		const { fn } = controlled();
+		const breaker = circuitBreaker(fn);
+
+		expect(await breaker.call(1)).toEqual({ type: "Ok", value: "up" });
+		expect(fn).toHaveBeenCalledWith(1);
+		expect(breaker.state).toBe("closed");
+		expect(breaker.failures).toBe(0);
+	});
+
+	it("should open after consecutive failures and short-circuit", async () => {
+		const clock = createClock();
+		const { fn, outcome } = controlled();
+		const breaker = circuitBreaker(fn, {
+			failureThreshold: 3,
+			resetTimeout: 1000,
+			now: clock.now,
+		});
+
+		outcome.next = err("down");
+		await breaker.call(1);
+		await breaker.call(1);
+		expect(breaker.state).toBe("closed");
+		await breaker.call(1);
+		expect(breaker.state).toBe("open");
+
+		clock.advance(400);
+		const result = await breaker.call(1);
+		expect(fn).toHaveBeenCalledTimes(3);
+		if (result.type !== "Err") throw new Error("expected Err");
+		expect(result.error).toBeInstanceOf(CircuitOpenError);
+		expect(result.error).toMatchObject({
+			_tag: "CircuitOpenError",
+			state: "open",
+			retryAfterMs: 600,
+		});
+	});
+
+	it("should only count consecutive failures", async () => {
+		const { fn, outcome } = controlled();
+		const breaker = circuitBreaker(fn, { failureThreshold: 2 });
+
+		outcome.next = err("down");
+		await breaker.call(1);
+		outcome.next = ok("up");
+		await breaker.call(1);
+		outcome.next = err("down");
+		await breaker.call(1);
+
+		expect(breaker.state).toBe("closed");
+		expect(breaker.failures).toBe(1);
+	});
+
+	it("should ignore errors rejected by isFailure", async () => {
+		const { fn, outcome } = controlled();
+		const breaker = circuitBreaker(fn, {
+			failureThreshold: 1,
+			isFailure: (error) => error !== "not-found",
+		});
+
+		outcome.next = err("not-found");
+		expect(await breaker.call(1)).toEqual({ type: "Err", error: "not-found" });
+		expect(breaker.state).toBe("closed");
+
+		outcome.next = err("down");
+		await breaker.call(1);
+		expect(breaker.state).toBe("open");
+	});
+
+	it("should close after a successful half-open trial", async () => {
+		const clock = createClock();
+		const { fn, outcome } = controlled();
+		const breaker = circuitBreaker(fn, {
+			failureThreshold: 1,
+			resetTimeout: 1000,
+			now: clock.now,
+		});
+
+		outcome.next = err("down");
+		await breaker.call(1);
+		clock.advance(1000);
+		expect(breaker.state).toBe("half-open");
+
+		outcome.next = ok("up");
+		expect(await breaker.call(1)).toEqual({ type: "Ok", value: "up" });
+		expect(breaker.state).toBe("closed");
+		expect(breaker.failures).toBe(0);
+	});
+
+	it("should reopen after a failed half-open trial", async () => {
+		const clock = createClock();
+		const { fn, outcome } = controlled();
+		const breaker = circuitBreaker(fn, {
+			failureThreshold: 1,
+			resetTimeout: 1000,
+			now: clock.now,
+		});
+
+		outcome.next = err("down");
+		await breaker.call(1);
+		clock.advance(1000);
+		await breaker.call(1);
+
+		expect(fn).toHaveBeenCalledTimes(2);
+		expect(breaker.state).toBe("open");
+		clock.advance(999);
+		expect(breaker.state).toBe("open");
+		clock.advance(1);
+		expect(breaker.state).toBe("half-open");
+	});
+
+	it("should limit concurrent half-open trials to halfOpenMax", async () => {
+		const clock = createClock();
+		let release: (result: Result<string, string>) => void = () => {};
+		const fn = vi.fn(
+			(_id: number) =>
+				new Promise<Result<string, string>>((resolve) => {
+					release = resolve;
+				}),
+		);
+		const breaker = circuitBreaker(fn, {
+			failureThreshold: 1,
+			resetTimeout: 1000,
+			halfOpenMax: 1,
+			now: clock.now,
+		});
+
+		const first = breaker.call(1);
+		release(err("down"));
+		await first;
+		clock.advance(1000);
+
+		const trial = breaker.call(1);
+		const rejected = await breaker.call(2);
+		if (rejected.type !== "Err") throw new Error("expected Err");
+		expect(rejected.error).toMatchObject({
+			state: "half-open",
+			retryAfterMs: 0,
+		});
+		expect(fn).toHaveBeenCalledTimes(2);
+
+		release(ok("up"));
+		expect(await trial).toEqual({ type: "Ok", value: "up" });
+		expect(breaker.state).toBe("closed");
+	});
+
+	it("should count rejections as failures and rethrow them", async () => {
+		const fn = vi.fn(async (): Promise<Result<string, string>> => {
+			throw new Error("socket hang up");
+		});
+		const breaker = circuitBreaker(fn, { failureThreshold: 1 });
+
+		await expect(breaker.call()).rejects.toThrow("socket hang up");
+		expect(breaker.state).toBe("open");
+	});
+
+	it("should emit transition events with the clock time", async () => {
+		const clock = createClock();
+		const { fn, outcome } = controlled();
+		const breaker = circuitBreaker(fn, {
+			failureThreshold: 2,
+			resetTimeout: 500,
+			now: clock.now,
+		});
+		const events: Array<[string, CircuitTransition]> = [];
+		for (const event of ["open", "half-open", "close"] as const) {
+			breaker.on(event, (transition) => events.push([event, transition]));
+		}
+
+		outcome.next = err("down");
+		await breaker.call(1);
+		await breaker.call(1);
+		clock.advance(500);
+		outcome.next = ok("up");
+		await breaker.call(1);
+
+		expect(events).toEqual([
+			["open", { from: "closed", to: "open", at: 0, failures: 2 }],
+			["half-open", { from: "open", to: "half-open", at: 500, failures: 2 }],
+			["close", { from: "half-open", to: "closed", at: 500, failures: 0 }],
+		]);
+	});
+
+	it("should stop notifying after unsubscribe", async () => {
+		const { fn, outcome } = controlled();
+		const breaker = circuitBreaker(fn, { failureThreshold: 1 });
+		const listener = vi.fn();
+		const unsubscribe = breaker.on("open", listener);
+		unsubscribe();
+
+		outcome.next = err("down");
+		await breaker.call(1);
+		expect(breaker.state).toBe("open");
+		expect(listener).not.toHaveBeenCalled();
+	});
+
+	it("should force the circuit closed on reset()", async () => {
+		const { fn, outcome } = controlled();
+		const breaker = circuitBreaker(fn, { failureThreshold: 1 });
+		const onClose = vi.fn();
+		breaker.on("close", onClose);
+
+		outcome.next = err("down");
+		await breaker.call(1);
+		breaker.reset();
+
+		expect(breaker.state).toBe("closed");
+		expect(breaker.failures).toBe(0);
+		expect(onClose).toHaveBeenCalledWith(
+			expect.objectContaining({ from: "open", to: "closed" }),
+		);
+	});
+
+	it("should not let a trial from before reset() free a later trial slot", async () => {
+		const clock = createClock();
+		const pending: Array<(result: Result<string, string>) => void> = [];
+		const fn = vi.fn(
+			(_id: number) =>
+				new Promise<Result<string, string>>((resolve) => {
+					pending.push(resolve);
+				}),
+		);
+		const breaker = circuitBreaker(fn, {
+			failureThreshold: 1,
+			resetTimeout: 1000,
+			now: clock.now,
+		});
+		const trip = async () => {
+			const call = breaker.call(1);
+			pending.pop()?.(err("down"));
+			await call;
+			clock.advance(1000);
+		};
+
+		await trip();
+		const staleTrial = breaker.call(1);
+		const settleStaleTrial = pending.pop();
+		breaker.reset();
+
+		await trip();
+		breaker.call(1); // the only trial allowed in the new half-open period
+		settleStaleTrial?.(ok("up"));
+		await staleTrial;
+
+		const rejected = await breaker.call(2);
+		if (rejected.type !== "Err") throw new Error("expected Err");
+		expect(rejected.error).toMatchObject({ state: "half-open" });
+		expect(fn).toHaveBeenCalledTimes(4);
+	});
+
+	it("should isolate listener errors", async () => {
+		const { fn, outcome } = controlled();
+		const breaker = circuitBreaker(fn, { failureThreshold: 1 });
+		const next = vi.fn();
+		breaker.on("open", () => {
+			throw new Error("metrics down");
+		});
+		breaker.on("open", next);
+
+		outcome.next = err("down");
+		expect(await breaker.call(1)).toEqual({ type: "Err", error: "down" });
+		expect(breaker.state).toBe("open");
+		expect(next).toHaveBeenCalledTimes(1);
+	});
+
+	it("should validate arguments", () => {
+		const { fn } = controlled();
+		// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+		expect(() => circuitBreaker(null as any)).toThrow(
+			"circuitBreaker(): fn must be a function, got object",
+		);
+		expect(() => circuitBreaker(fn, { failureThreshold: 0 })).toThrow(
+			"circuitBreaker(): failureThreshold must be a positive integer, got 0",
+		);
+		expect(() => circuitBreaker(fn, { halfOpenMax: 1.5 })).toThrow(
+			"circuitBreaker(): halfOpenMax must be a positive integer, got 1.5",
+		);
+		expect(() => circuitBreaker(fn, { resetTimeout: -1 })).toThrow(
+			"circuitBreaker(): resetTimeout must be a non-negative number, got -1",
+		);
+		// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+		expect(() => circuitBreaker(fn, { now: 0 as any })).toThrow(
+			"circuitBreaker(): now must be a function, got number",
+		);
+		expect(() =>
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			circuitBreaker(fn).on("open", "nope" as any),
+		).toThrow("circuitBreaker().on(): listener must be a function, got string");
+	});
+});
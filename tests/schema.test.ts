@@ -9,6 +9,7 @@ import {
 	parseResult,
 	parseResultAsync,
 	resultSchema,
+	type StandardSchemaV1,
 	stringErrorSchema,
 	structuredErrorSchema,
 	validate,
@@ -978,4 +979,162 @@ describe("Schema Module - Validation and Parsing", () => {
 			}
 		});
 	});
+
+	describe("Standard Schema support", () => {
+		type Slug = { slug: string };
+
+		// Minimal Standard Schema validator, as Valibot or ArkType would provide
+		const slugSchema: StandardSchemaV1<unknown, Slug> = {
+			"~standard": {
+				version: 1,
+				vendor: "test",
+				validate: (value) => {
+					const slug = (value as { slug?: unknown } | null)?.slug;
+					return typeof slug === "string" && /^[a-z-]+$/.test(slug)
+						? { value: { slug } }
+						: {
+								issues: [
+									{ message: "Invalid slug", path: [{ key: "slug" }] },
+									{ message: "Expected an object" },
+								],
+							};
+				},
+			},
+		};
+
+		// ArkType schemas are callable functions carrying `~standard`
+		const positive = Object.assign((value: unknown) => value, {
+			"~standard": {
+				version: 1 as const,
+				vendor: "test",
+				validate: (value: unknown) =>
+					typeof value === "number" && value > 0
+						? { value }
+						: { issues: [{ message: "Expected a positive number" }] },
+			},
+		}) as StandardSchemaV1<unknown, number>;
+
+		const asyncSchema: StandardSchemaV1<unknown, string> = {
+			"~standard": {
+				version: 1,
+				vendor: "test",
+				validate: async (value) =>
+					value === "taken"
+						? { issues: [{ message: "Already taken", path: ["username"] }] }
+						: { value: String(value) },
+			},
+		};
+
+		it("should validate with non-Zod schemas", () => {
+			expect(validate({ slug: "hello-world" }, slugSchema)).toEqual({
+				type: "Ok",
+				value: { slug: "hello-world" },
+			});
+			expect(validate({ slug: "Hello" }, slugSchema)).toEqual({
+				type: "Err",
+				error: "Validation failed: slug: Invalid slug; Expected an object",
+			});
+			expect(validate(5, positive)).toEqual({ type: "Ok", value: 5 });
+			expect(validate(-1, positive)).toEqual({
+				type: "Err",
+				error: "Validation failed: Expected a positive number",
+			});
+		});
+
+		it("should pass the failure result to validateWith() mappers", () => {
+			const result = validateWith({ slug: 1 }, slugSchema, (failure) => ({
+				messages: failure.issues.map((issue) => issue.message),
+			}));
+			expect(result).toEqual({
+				type: "Err",
+				error: { messages: ["Invalid slug", "Expected an object"] },
+			});
+		});
+
+		it("should keep passing ZodError to mappers for Zod schemas", () => {
+			const result = validateWith({}, UserSchema, (zodError: z.ZodError) => ({
+				isZodError: zodError instanceof z.ZodError,
+				fields: Object.keys(zodError.flatten().fieldErrors).length,
+			}));
+			expect(result).toEqual({
+				type: "Err",
+				error: { isZodError: true, fields: 4 },
+			});
+		});
+
+		it("should support asynchronous Standard Schemas in async variants", async () => {
+			expect(await validateAsync("ada", asyncSchema)).toEqual({
+				type: "Ok",
+				value: "ada",
+			});
+			expect(await validateAsync("taken", asyncSchema)).toEqual({
+				type: "Err",
+				error: "Validation failed: username: Already taken",
+			});
+			expect(
+				await validateWithAsync("taken", asyncSchema, (failure) => ({
+					count: failure.issues.length,
+				})),
+			).toEqual({ type: "Err", error: { count: 1 } });
+			expect(await parseJsonAsync('"ada"', asyncSchema)).toEqual({
+				type: "Ok",
+				value: "ada",
+			});
+		});
+
+		it("should reject asynchronous Standard Schemas in sync variants", () => {
+			expect(() => validate("ada", asyncSchema)).toThrow(
+				"validate(): Schema validation is asynchronous, use validateAsync() instead",
+			);
+			expect(() => parseJson('"ada"', asyncSchema)).toThrow(
+				"parseJson(): Schema validation is asynchronous, use parseJsonAsync() instead",
+			);
+		});
+
+		it("should parse JSON and Results with non-Zod schemas", async () => {
+			expect(parseJson('{"slug":"a-b"}', slugSchema)).toEqual({
+				type: "Ok",
+				value: { slug: "a-b" },
+			});
+			expect(parseJson("{oops", slugSchema)).toMatchObject({
+				type: "Err",
+				error: expect.stringContaining("Invalid JSON:"),
+			});
+			expect(
+				parseResult('{"type":"Ok","value":3}', positive, slugSchema),
+			).toEqual({ type: "Ok", value: { type: "Ok", value: 3 } });
+			expect(
+				parseResult('{"type":"Ok","value":0}', positive, slugSchema),
+			).toEqual({
+				type: "Err",
+				error: "Invalid Ok value: Expected a positive number",
+			});
+			expect(
+				await parseResultAsync(
+					'{"type":"Err","error":"taken"}',
+					positive,
+					asyncSchema,
+				),
+			).toEqual({
+				type: "Err",
+				error: "Invalid Err value: username: Already taken",
+			});
+		});
+
+		it("should validate Standard Schema arguments", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => validate({}, "schema" as any)).toThrow(
+				"validate(): Schema must be a Standard Schema (Zod, Valibot, ArkType, ...), got string",
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => parseJson("{}", { parse: () => ({}) } as any)).toThrow(
+				"parseJson(): Schema must have a '~standard.validate' method (Standard Schema required)",
+			);
+			// Result schema builders still compose Zod schemas
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => resultSchema(slugSchema as any, z.string())).toThrow(
+				"resultSchema(): Schema must have a 'parse' method (Zod schema required)",
+			);
+		});
+	});
 });
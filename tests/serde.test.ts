@@ -0,0 +1,279 @@
+import { describe, expect, it } from "vitest";
+import { taggedError } from "../src/errors";
+import { deserialize, err, ok, type Result, serialize } from "../src/serde";
+
+class NotFound extends taggedError("NotFound") {
+	constructor(readonly id: number) {
+		super(`User ${id} not found`);
+	}
+}
+
+class HttpError extends Error {
+	constructor(
+		message: string,
+		readonly status: number,
+	) {
+		super(message);
+		this.name = "HttpError";
+	}
+}
+
+const roundTrip = <T, E>(
+	result: Result<T, E>,
+	options?: Parameters<typeof deserialize>[1],
+): Result<T, E> => {
+	const parsed = deserialize<T, E>(serialize(result), options);
+	if (parsed.type === "Err") {
+		throw new Error(parsed.error);
+	}
+	return parsed.value;
+};
+
+const errorOf = <E>(result: Result<unknown, E>): E => {
+	if (result.type !== "Err") {
+		throw new Error("Expected Err");
+	}
+	return result.error;
+};
+
+describe("Serde Module - Structured Result Serialization", () => {
+	describe("plain values", () => {
+		it("should round-trip JSON values unchanged", () => {
+			const value = { name: "John", tags: ["a", "b"], nested: { n: 1 } };
+			expect(roundTrip(ok(value))).toEqual({ type: "Ok", value });
+			expect(roundTrip(err("failed"))).toEqual({
+				type: "Err",
+				error: "failed",
+			});
+		});
+
+		it("should keep plain JSON readable", () => {
+			expect(JSON.parse(serialize(ok({ id: 1, name: "John" })))).toEqual({
+				type: "Ok",
+				value: { id: 1, name: "John" },
+			});
+		});
+
+		it("should round-trip values JSON cannot represent", () => {
+			const value = {
+				big: 9007199254740993n,
+				createdAt: new Date("2023-01-01T00:00:00.000Z"),
+				invalidDate: new Date(Number.NaN),
+				lookup: new Map<unknown, unknown>([
+					["a", 1],
+					[{ key: true }, new Set([1, 2])],
+				]),
+				ids: new Set(["x", "y"]),
+				missing: undefined,
+				holes: [1, undefined, 3],
+				special: [
+					Number.NaN,
+					Number.POSITIVE_INFINITY,
+					Number.NEGATIVE_INFINITY,
+					-0,
+				],
+			};
+			const result = roundTrip(ok(value));
+			if (result.type !== "Ok") throw new Error("Expected Ok");
+			const restored = result.value;
+
+			expect(restored.big).toBe(9007199254740993n);
+			expect(restored.createdAt).toEqual(value.createdAt);
+			expect(Number.isNaN(restored.invalidDate.getTime())).toBe(true);
+			expect(restored.lookup).toEqual(value.lookup);
+			expect(restored.ids).toEqual(new Set(["x", "y"]));
+			expect("missing" in restored).toBe(true);
+			expect(restored.missing).toBeUndefined();
+			expect(restored.holes).toEqual([1, undefined, 3]);
+			expect(restored.special[0]).toBeNaN();
+			expect(restored.special.slice(1, 3)).toEqual([
+				Number.POSITIVE_INFINITY,
+				Number.NEGATIVE_INFINITY,
+			]);
+			expect(Object.is(restored.special[3], -0)).toBe(true);
+		});
+
+		it("should not confuse user objects that contain a $type key", () => {
+			const value = { $type: "Error", message: "just data" };
+			expect(roundTrip(ok(value))).toEqual({ type: "Ok", value });
+		});
+
+		it("should use toJSON() like JSON.stringify", () => {
+			const url = new URL("https://example.com/users?id=1");
+			expect(roundTrip(ok({ url }))).toEqual({
+				type: "Ok",
+				value: { url: "https://example.com/users?id=1" },
+			});
+		});
+	});
+
+	describe("errors", () => {
+		it("should keep name, message and stack that JSON.stringify drops", () => {
+			const original = new TypeError("bad input");
+			expect(JSON.stringify(err(original))).toBe('{"type":"Err","error":{}}');
+
+			const restored = errorOf(roundTrip(err(original)));
+			expect(restored).toBeInstanceOf(TypeError);
+			expect(restored.name).toBe("TypeError");
+			expect(restored.message).toBe("bad input");
+			expect(restored.stack).toBe(original.stack);
+		});
+
+		it("should restore genuine Error objects", () => {
+			const restored = errorOf(roundTrip(err(new RangeError("too big"))));
+			expect(Object.prototype.toString.call(restored)).toBe("[object Error]");
+			expect(structuredClone(restored)).toBeInstanceOf(RangeError);
+		});
+
+		it("should omit stacks when requested", () => {
+			const json = serialize(err(new Error("secret internals")), {
+				stack: false,
+			});
+			expect(json).not.toContain("at ");
+			const parsed = deserialize(json);
+			if (parsed.type === "Ok") {
+				expect((errorOf(parsed.value) as Error).stack).toBeUndefined();
+			}
+		});
+
+		it("should restore nested cause chains", () => {
+			const root = new RangeError("port out of range");
+			const middle = new Error("parsing config", { cause: root });
+			const outer = new Error("starting server", { cause: middle });
+
+			const restored = errorOf(roundTrip(err(outer)));
+			const cause = restored.cause as Error;
+			expect(cause.message).toBe("parsing config");
+			expect(cause.cause).toBeInstanceOf(RangeError);
+			expect((cause.cause as Error).message).toBe("port out of range");
+		});
+
+		it("should restore non-Error causes", () => {
+			const restored = errorOf(
+				roundTrip(err(new Error("wrapped", { cause: { code: 42 } }))),
+			);
+			expect(restored.cause).toEqual({ code: 42 });
+		});
+
+		it("should restore AggregateError with its errors", () => {
+			const aggregate = new AggregateError(
+				[new Error("first"), new TypeError("second")],
+				"Multiple failures",
+			);
+			const restored = errorOf(roundTrip(err(aggregate)));
+
+			expect(restored).toBeInstanceOf(AggregateError);
+			expect(restored.message).toBe("Multiple failures");
+			expect(restored.errors).toHaveLength(2);
+			expect(restored.errors[1]).toBeInstanceOf(TypeError);
+		});
+
+		it("should restore custom subclasses from the registry", () => {
+			const restored = errorOf(
+				roundTrip(err(new HttpError("Service unavailable", 503)), {
+					errors: { HttpError },
+				}),
+			);
+			expect(restored).toBeInstanceOf(HttpError);
+			expect(restored.status).toBe(503);
+			expect(restored.name).toBe("HttpError");
+			expect(restored.message).toBe("Service unavailable");
+		});
+
+		it("should restore tagged errors without calling their constructor", () => {
+			const restored = errorOf(
+				roundTrip(err(new NotFound(42)), { errors: { NotFound } }),
+			);
+			expect(restored).toBeInstanceOf(NotFound);
+			expect(restored._tag).toBe("NotFound");
+			expect(restored.id).toBe(42);
+			expect(restored.message).toBe("User 42 not found");
+		});
+
+		it("should fall back to Error for unregistered classes", () => {
+			const restored = errorOf(roundTrip(err(new HttpError("Gone", 410))));
+			expect(restored).toBeInstanceOf(Error);
+			expect(restored).not.toBeInstanceOf(HttpError);
+			expect(restored.name).toBe("HttpError");
+			expect((restored as unknown as { status: number }).status).toBe(410);
+		});
+	});
+
+	describe("serialize() validation", () => {
+		it("should reject invalid Results", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => serialize(null as any)).toThrow(
+				"serialize(): First argument must be a Result object, got object",
+			);
+		});
+
+		it("should reject unsupported values with their path", () => {
+			expect(() => serialize(ok({ handler: () => 1 }))).toThrow(
+				"serialize(): Cannot serialize function at $.value.handler",
+			);
+			expect(() => serialize(err([Symbol("x")]))).toThrow(
+				"serialize(): Cannot serialize symbol at $.error[0]",
+			);
+		});
+
+		it("should reject circular references but allow shared ones", () => {
+			const node: Record<string, unknown> = { name: "loop" };
+			node.self = node;
+			expect(() => serialize(ok(node))).toThrow(
+				"serialize(): Circular reference at $.value.self",
+			);
+
+			const shared = { id: 1 };
+			expect(roundTrip(ok([shared, shared]))).toEqual({
+				type: "Ok",
+				value: [{ id: 1 }, { id: 1 }],
+			});
+		});
+	});
+
+	describe("deserialize() validation", () => {
+		it("should return Err for invalid JSON", () => {
+			const parsed = deserialize("{not json");
+			expect(parsed.type).toBe("Err");
+			if (parsed.type === "Err") {
+				expect(parsed.error).toMatch(/^Invalid JSON: /);
+			}
+		});
+
+		it("should return Err for JSON that is not a Result", () => {
+			expect(deserialize('{"type":"Maybe"}')).toEqual({
+				type: "Err",
+				error:
+					"Invalid serialized Result: expected { type: 'Ok', value } or { type: 'Err', error }",
+			});
+		});
+
+		it("should return Err for unknown encoded types", () => {
+			expect(
+				deserialize('{"type":"Ok","value":{"a":{"$type":"Regex"}}}'),
+			).toEqual({
+				type: "Err",
+				error: "Invalid serialized Result: Unknown $type 'Regex' at $.value.a",
+			});
+		});
+
+		it("should not allow prototype pollution", () => {
+			const parsed = deserialize(
+				'{"type":"Ok","value":{"__proto__":{"polluted":true}}}',
+			);
+			expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+			if (parsed.type === "Ok" && parsed.value.type === "Ok") {
+				const value = parsed.value.value as Record<string, unknown>;
+				expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+				expect(Object.hasOwn(value, "__proto__")).toBe(true);
+			}
+		});
+
+		it("should throw for non-string input", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => deserialize(42 as any)).toThrow(
+				"deserialize(): First argument must be a JSON string, got number",
+			);
+		});
+	});
+});
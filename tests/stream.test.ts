@@ -0,0 +1,342 @@
+import { Readable } from "node:stream";
+import { describe, expect, it, vi } from "vitest";
+import {
+	analyzeStream,
+	andThenOk,
+	collect,
+	err,
+	filterOk,
+	fromReadable,
+	fromReadableStream,
+	mapOk,
+	ok,
+	partitionStream,
+	type Result,
+	takeUntilErr,
+} from "../src/stream";
+
+/** Drains an async iterable into an array. */
+const toArray = async <V>(iterable: AsyncIterable<V>): Promise<V[]> => {
+	const items: V[] = [];
+	for await (const item of iterable) items.push(item);
+	return items;
+};
+
+/** Async source recording how many items were pulled and whether it was closed. */
+const tracked = <T, E>(items: Array<Result<T, E>>) => {
+	const stats = { pulled: 0, closed: false };
+	const source = (async function* () {
+		try {
+			for (const item of items) {
+				stats.pulled++;
+				yield item;
+			}
+		} finally {
+			stats.closed = true;
+		}
+	})();
+	return { source, stats };
+};
+
+const mixed: Array<Result<number, string>> = [
+	ok(1),
+	err("bad row 2"),
+	ok(3),
+	err("bad row 4"),
+	ok(5),
+];
+
+describe("Stream Module - Async Iterable Processing", () => {
+	describe("mapOk()", () => {
+		it("should transform Ok values and pass Errs through", async () => {
+			expect(await toArray(mapOk(mixed, (n) => n * 10))).toEqual([
+				ok(10),
+				err("bad row 2"),
+				ok(30),
+				err("bad row 4"),
+				ok(50),
+			]);
+		});
+
+		it("should await async mappers in order", async () => {
+			const result = await toArray(mapOk([ok(1), ok(2)], async (n) => `#${n}`));
+			expect(result).toEqual([ok("#1"), ok("#2")]);
+		});
+
+		it("should be lazy", async () => {
+			const { source, stats } = tracked([ok(1), ok(2), ok(3)]);
+			const fn = vi.fn((n: number) => n);
+			const mapped = mapOk(source, fn);
+			expect(stats.pulled).toBe(0);
+
+			for await (const _ of mapped) break;
+			expect(stats.pulled).toBe(1);
+			expect(fn).toHaveBeenCalledTimes(1);
+			expect(stats.closed).toBe(true);
+		});
+
+		it("should validate arguments and items", async () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => mapOk(42 as any, (n) => n)).toThrow(
+				"mapOk(): source must be an iterable or async iterable of Results, got number",
+			);
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => mapOk([], "nope" as any)).toThrow(
+				"mapOk(): fn must be a function, got string",
+			);
+			await expect(
+				// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+				toArray(mapOk([ok(1), { type: "Some" } as any], (n) => n)),
+			).rejects.toThrow(
+				"mapOk(): item 1 must be a Result object, got type 'Some'",
+			);
+		});
+	});
+
+	describe("andThenOk()", () => {
+		it("should chain Result-returning steps", async () => {
+			const parse = (line: string): Result<number, string> =>
+				Number.isNaN(Number(line))
+					? err(`not a number: ${line}`)
+					: ok(Number(line));
+			const result = await toArray(
+				andThenOk([ok("1"), ok("x"), err("read failed")], parse),
+			);
+			expect(result).toEqual([
+				ok(1),
+				err("not a number: x"),
+				err("read failed"),
+			]);
+		});
+
+		it("should reject non-Result step results", async () => {
+			await expect(
+				// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+				toArray(andThenOk([ok(1)], () => 1 as any)),
+			).rejects.toThrow(
+				"andThenOk(): item 0 must be a Result object, got number",
+			);
+		});
+	});
+
+	describe("filterOk()", () => {
+		it("should drop failing Ok values but keep every Err", async () => {
+			expect(await toArray(filterOk(mixed, (n) => n > 2))).toEqual([
+				err("bad row 2"),
+				ok(3),
+				err("bad row 4"),
+				ok(5),
+			]);
+		});
+	});
+
+	describe("takeUntilErr()", () => {
+		it("should stop after the first Err and close the source", async () => {
+			const { source, stats } = tracked(mixed);
+			expect(await toArray(takeUntilErr(source))).toEqual([
+				ok(1),
+				err("bad row 2"),
+			]);
+			expect(stats.pulled).toBe(2);
+			expect(stats.closed).toBe(true);
+		});
+
+		it("should yield everything when there is no Err", async () => {
+			expect(await toArray(takeUntilErr([ok(1), ok(2)]))).toEqual([
+				ok(1),
+				ok(2),
+			]);
+		});
+	});
+
+	describe("partitionStream()", () => {
+		it("should split values and errors when consumed concurrently", async () => {
+			const { oks, errors } = partitionStream(tracked(mixed).source);
+			const [values, failures] = await Promise.all([
+				toArray(oks),
+				toArray(errors),
+			]);
+			expect(values).toEqual([1, 3, 5]);
+			expect(failures).toEqual(["bad row 2", "bad row 4"]);
+		});
+
+		it("should buffer for the side read later", async () => {
+			const { oks, errors } = partitionStream(mixed);
+			expect(await toArray(oks)).toEqual([1, 3, 5]);
+			expect(await toArray(errors)).toEqual(["bad row 2", "bad row 4"]);
+		});
+
+		it("should close the source once both sides stop", async () => {
+			const { source, stats } = tracked(mixed);
+			const { oks, errors } = partitionStream(source);
+			for await (const _ of oks) break;
+			expect(stats.closed).toBe(false);
+			for await (const _ of errors) break;
+			expect(stats.closed).toBe(true);
+			expect(stats.pulled).toBe(2);
+		});
+
+		it("should keep serving the other side after one side stops", async () => {
+			const { source, stats } = tracked(mixed);
+			const { oks, errors } = partitionStream(source);
+			for await (const _ of oks) break;
+			expect(await toArray(errors)).toEqual(["bad row 2", "bad row 4"]);
+			expect(await toArray(oks)).toEqual([]);
+			expect(stats.pulled).toBe(5);
+			expect(stats.closed).toBe(true);
+		});
+	});
+
+	describe("collect()", () => {
+		it("should collect all Ok values", async () => {
+			expect(await collect([ok(1), ok(2), ok(3)])).toEqual(ok([1, 2, 3]));
+		});
+
+		it("should return the first Err and stop reading", async () => {
+			const { source, stats } = tracked(mixed);
+			expect(await collect(source)).toEqual(err("bad row 2"));
+			expect(stats.pulled).toBe(2);
+			expect(stats.closed).toBe(true);
+		});
+	});
+
+	describe("analyzeStream()", () => {
+		it("should count incrementally and report progress", async () => {
+			const progress = vi.fn();
+			const stats = await analyzeStream(mixed, progress);
+
+			expect(stats).toEqual({
+				okCount: 3,
+				errorCount: 2,
+				total: 5,
+				hasErrors: true,
+				isEmpty: false,
+			});
+			expect(progress).toHaveBeenCalledTimes(5);
+			expect(progress).toHaveBeenNthCalledWith(2, {
+				okCount: 1,
+				errorCount: 1,
+				total: 2,
+				hasErrors: true,
+				isEmpty: false,
+			});
+		});
+
+		it("should handle empty sources", async () => {
+			expect(await analyzeStream([])).toEqual({
+				okCount: 0,
+				errorCount: 0,
+				total: 0,
+				hasErrors: false,
+				isEmpty: true,
+			});
+		});
+
+		it("should validate onProgress", async () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			await expect(analyzeStream([], 1 as any)).rejects.toThrow(
+				"analyzeStream(): onProgress must be a function, got number",
+			);
+		});
+	});
+
+	describe("fromReadable()", () => {
+		it("should wrap every chunk in Ok", async () => {
+			const readable = Readable.from(["a", "b"], { objectMode: true });
+			expect(await toArray(fromReadable(readable))).toEqual([ok("a"), ok("b")]);
+		});
+
+		it("should split NDJSON lines across chunk boundaries", async () => {
+			const readable = Readable.from([
+				Buffer.from('{"id":1}\n{"id"'),
+				Buffer.from(':2}\r\n\n{"id":3}'),
+			]);
+			const records = andThenOk(
+				fromReadable(readable, { lines: true }),
+				(line) => ok(JSON.parse(line) as { id: number }),
+			);
+			expect(await collect(mapOk(records, (record) => record.id))).toEqual(
+				ok([1, 2, 3]),
+			);
+		});
+
+		it("should decode multi-byte characters split across chunks", async () => {
+			const bytes = Buffer.from("café\n");
+			const readable = Readable.from([bytes.subarray(0, 4), bytes.subarray(4)]);
+			expect(await toArray(fromReadable(readable, { lines: true }))).toEqual([
+				ok("café"),
+			]);
+		});
+
+		it("should end with Err when the stream fails", async () => {
+			const readable = new Readable({
+				read() {
+					this.push("partial");
+					this.destroy(new Error("disk read failed"));
+				},
+			});
+			const items = await toArray(fromReadable(readable));
+			expect(items.at(-1)).toEqual(err(new Error("disk read failed")));
+		});
+
+		it("should validate the readable", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => fromReadable({} as any)).toThrow(
+				"fromReadable(): readable must be async iterable, got object",
+			);
+		});
+	});
+
+	describe("fromReadableStream()", () => {
+		it("should read chunks and release the lock", async () => {
+			const stream = new ReadableStream<string>({
+				start(controller) {
+					controller.enqueue("line 1\nline");
+					controller.enqueue(" 2\n");
+					controller.close();
+				},
+			});
+			expect(
+				await toArray(fromReadableStream(stream, { lines: true })),
+			).toEqual([ok("line 1"), ok("line 2")]);
+			expect(stream.locked).toBe(false);
+		});
+
+		it("should end with Err when the stream errors", async () => {
+			let pulls = 0;
+			const stream = new ReadableStream<string>({
+				pull(controller) {
+					if (pulls++ === 0) {
+						controller.enqueue("chunk");
+					} else {
+						controller.error(new Error("connection reset"));
+					}
+				},
+			});
+			expect(await toArray(fromReadableStream(stream))).toEqual([
+				ok("chunk"),
+				err(new Error("connection reset")),
+			]);
+		});
+
+		it("should cancel the stream when the consumer stops early", async () => {
+			const cancel = vi.fn();
+			const stream = new ReadableStream<number>({
+				pull(controller) {
+					controller.enqueue(1);
+				},
+				cancel,
+			});
+			for await (const _ of fromReadableStream(stream)) break;
+			expect(cancel).toHaveBeenCalledTimes(1);
+			expect(stream.locked).toBe(false);
+		});
+
+		it("should validate the stream", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => fromReadableStream(null as any)).toThrow(
+				"fromReadableStream(): stream must be a ReadableStream, got null",
+			);
+		});
+	});
+});
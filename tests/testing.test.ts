@@ -0,0 +1,233 @@
+import { describe, expect, it, vi } from "vitest";
+import { taggedError } from "../src/errors";
+import {
+	anyErr,
+	anyOk,
+	err,
+	errMatching,
+	errTag,
+	type MatcherContext,
+	ok,
+	okWith,
+	type Result,
+	type ResultMatchers,
+	resultMatchers,
+	resultSerializer,
+} from "../src/testing";
+
+declare module "vitest" {
+	// biome-ignore lint/suspicious/noExplicitAny: Mirrors vitest's own Assertion<T = any>
+	interface Assertion<T = any> extends ResultMatchers<T> {}
+	interface AsymmetricMatchersContaining extends ResultMatchers {}
+}
+
+expect.extend(resultMatchers);
+expect.addSnapshotSerializer(resultSerializer);
+
+const NotFound = taggedError("NotFound");
+
+/** Matcher context with uncoloured output, for asserting on messages. */
+const context = (isNot = false): MatcherContext => ({
+	isNot,
+	equals: Object.is,
+	utils: {
+		printExpected: (value) => JSON.stringify(value),
+		printReceived: (value) => JSON.stringify(value),
+		iterableEquality: () => undefined,
+		subsetEquality: () => undefined,
+	},
+});
+
+const findUser = (id: number): Result<{ id: number; name: string }, Error> =>
+	id > 0 ? ok({ id, name: "Ada" }) : err(new NotFound(`user ${id}`));
+
+describe("Testing Module - Matchers and Serializer", () => {
+	describe("toBeOk() / toBeErr()", () => {
+		it("should check the Result variant", () => {
+			expect(ok(1)).toBeOk();
+			expect(err("nope")).toBeErr();
+			expect(ok(1)).not.toBeErr();
+			expect(err("nope")).not.toBeOk();
+		});
+
+		it("should fail for values that are not Results", () => {
+			expect({ type: "Some", value: 1 }).not.toBeOk();
+			expect(null).not.toBeErr();
+			expect(resultMatchers.toBeOk.call(context(), 42).message()).toBe(
+				"expected an Ok Result, received 42 (not a Result)",
+			);
+		});
+
+		it("should describe the received Result in failure messages", () => {
+			expect(resultMatchers.toBeOk.call(context(), err("boom"))).toEqual({
+				pass: false,
+				message: expect.any(Function),
+			});
+			expect(resultMatchers.toBeOk.call(context(), err("boom")).message()).toBe(
+				'expected an Ok Result, received Err("boom")',
+			);
+			expect(resultMatchers.toBeErr.call(context(true), err(1)).message()).toBe(
+				"expected not an Err Result, received Err(1)",
+			);
+		});
+	});
+
+	describe("toBeOkWith()", () => {
+		it("should deeply compare Ok values", () => {
+			expect(findUser(1)).toBeOkWith({ id: 1, name: "Ada" });
+			expect(findUser(1)).not.toBeOkWith({ id: 1 });
+			expect(findUser(-1)).not.toBeOkWith({ id: -1, name: "Ada" });
+			expect(ok([1, new Date(0)])).toBeOkWith([1, new Date(0)]);
+			expect(ok(new Map([["a", { n: 1 }]]))).toBeOkWith(
+				new Map([["a", { n: 1 }]]),
+			);
+		});
+
+		it("should honour nested asymmetric matchers", () => {
+			expect(findUser(7)).toBeOkWith({
+				id: expect.any(Number),
+				name: expect.stringMatching(/^A/),
+			});
+		});
+
+		it("should use the framework's equality and custom testers", () => {
+			class Money {
+				constructor(readonly cents: number) {}
+			}
+			// Compares whole cents, so fractional rounding noise is ignored
+			const sameMoney = (a: unknown, b: unknown) =>
+				a instanceof Money && b instanceof Money
+					? Math.round(a.cents) === Math.round(b.cents)
+					: undefined;
+
+			expect(ok({ total: new Money(100.2) })).not.toBeOkWith({
+				total: new Money(100),
+			});
+			expect.addEqualityTesters([sameMoney]);
+			expect(ok({ total: new Money(100.2), note: "x" })).toBeOkWith({
+				total: new Money(100),
+				note: "x",
+			});
+			expect(err({ total: new Money(100.2), note: "x" })).toBeErrMatching({
+				total: new Money(100),
+			});
+		});
+
+		it("should print the expected value in failure messages", () => {
+			expect(
+				resultMatchers.toBeOkWith.call(context(), ok(2), 1).message(),
+			).toBe("expected Ok(1), received Ok(2)");
+		});
+	});
+
+	describe("toBeErrMatching()", () => {
+		it("should match partial error objects", () => {
+			const failed = err({
+				code: "E_TIMEOUT",
+				meta: { retries: 3, host: "a" },
+			});
+			expect(failed).toBeErrMatching({ code: "E_TIMEOUT" });
+			expect(failed).toBeErrMatching({ meta: { retries: 3 } });
+			expect(failed).not.toBeErrMatching({ code: "E_REFUSED" });
+		});
+
+		it("should match strings and RegExps against the error or its message", () => {
+			expect(err("connection reset by peer")).toBeErrMatching("reset");
+			expect(err(new Error("connection reset"))).toBeErrMatching(/reset$/);
+			expect(err(new Error("timeout"))).toBeErrMatching({ message: "timeout" });
+			expect(err({ code: 1 })).not.toBeErrMatching("code");
+			expect(ok("reset")).not.toBeErrMatching("reset");
+		});
+	});
+
+	describe("toBeErrTag()", () => {
+		it("should match the error _tag", () => {
+			expect(findUser(-1)).toBeErrTag("NotFound");
+			expect(err({ _tag: "Conflict" })).toBeErrTag("Conflict");
+			expect(findUser(-1)).not.toBeErrTag("Conflict");
+			expect(err("NotFound")).not.toBeErrTag("NotFound");
+		});
+
+		it("should validate the tag", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => expect(err("x")).toBeErrTag(1 as any)).toThrow(
+				"toBeErrTag(): tag must be a string, got number",
+			);
+		});
+	});
+
+	describe("asymmetric matchers", () => {
+		it("should match Results nested in other values", () => {
+			const response = {
+				user: findUser(1),
+				settings: findUser(-1),
+				history: [ok(1), err("gone")],
+			};
+			expect(response).toEqual({
+				user: okWith({ id: 1, name: expect.any(String) }),
+				settings: errTag("NotFound"),
+				history: [anyOk(), anyErr()],
+			});
+			expect(response).not.toEqual({
+				user: anyErr(),
+				settings: errTag("NotFound"),
+				history: [anyOk(), anyErr()],
+			});
+		});
+
+		it("should work in call assertions", () => {
+			const onResult = vi.fn();
+			onResult(err({ code: "E_TIMEOUT", attempt: 2 }));
+			expect(onResult).toHaveBeenCalledWith(errMatching({ code: "E_TIMEOUT" }));
+		});
+
+		it("should be available from expect after extend()", () => {
+			expect([ok(1), err("x")]).toEqual([
+				expect.toBeOkWith(1),
+				expect.toBeErrMatching("x"),
+			]);
+		});
+
+		it("should describe themselves", () => {
+			expect(okWith({ id: 1 }).toAsymmetricMatcher()).toBe('okWith({"id":1})');
+			expect(errMatching(/reset/).toString()).toBe("errMatching(/reset/)");
+			expect(errTag("NotFound").toString()).toBe('errTag("NotFound")');
+			expect(anyOk().asymmetricMatch({ type: "Ok" })).toBe(false);
+		});
+
+		it("should validate errTag()", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => errTag(undefined as any)).toThrow(
+				"errTag(): tag must be a string, got undefined",
+			);
+		});
+	});
+
+	describe("resultSerializer", () => {
+		it("should print Results as Ok(...) and Err(...)", () => {
+			expect(ok({ port: 8080 })).toMatchInlineSnapshot(`
+				Ok({
+				  "port": 8080,
+				})
+			`);
+			expect(err("missing")).toMatchInlineSnapshot(`Err("missing")`);
+		});
+
+		it("should print nested Results", () => {
+			expect([ok(1), err({ code: 404 })]).toMatchInlineSnapshot(`
+				[
+				  Ok(1),
+				  Err({
+				    "code": 404,
+				  }),
+				]
+			`);
+		});
+
+		it("should only handle Result-shaped values", () => {
+			expect(resultSerializer.test(ok(1))).toBe(true);
+			expect(resultSerializer.test({ type: "Ok" })).toBe(false);
+			expect(resultSerializer.test("Ok")).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,519 @@
+import { describe, expect, it, vi } from "vitest";
+import * as async from "../src/async";
+import * as batch from "../src/batch";
+import * as errors from "../src/errors";
+import * as fp from "../src/fp";
+import * as core from "../src/index";
+import * as iter from "../src/iter";
+import * as option from "../src/option";
+import * as patterns from "../src/patterns";
+import * as resilience from "../src/resilience";
+import * as schema from "../src/schema";
+import * as serde from "../src/serde";
+import * as stream from "../src/stream";
+import {
+	all,
+	analyze,
+	andThen,
+	andThenAsync,
+	err,
+	errs,
+	findFirst,
+	first,
+	fromNullable,
+	inspect,
+	map,
+	mapAsync,
+	mapErr,
+	mapErrAsync,
+	match,
+	ok,
+	oks,
+	orElse,
+	orElseAsync,
+	partition,
+	partitionWith,
+	type Result,
+	recover,
+	recoverAsync,
+	recoverIf,
+	recoverIfAsync,
+	recoverWith,
+	reduce,
+	tap,
+	tapErr,
+	toNullable,
+	unwrap,
+	unwrapOr,
+} from "../src/unchecked";
+import * as uncheckedAsync from "../src/unchecked/async";
+import * as uncheckedErrors from "../src/unchecked/errors";
+import * as uncheckedFp from "../src/unchecked/fp";
+import * as uncheckedOption from "../src/unchecked/option";
+import * as uncheckedPatterns from "../src/unchecked/patterns";
+import * as uncheckedResilience from "../src/unchecked/resilience";
+import * as uncheckedSchema from "../src/unchecked/schema";
+import * as uncheckedSerde from "../src/unchecked/serde";
+import * as uncheckedStream from "../src/unchecked/stream";
+import * as utils from "../src/utils";
+
+const okUser: Result<{ id: number; tags: string[] }, string> = ok({
+	id: 1,
+	tags: ["admin"],
+});
+const errUser: Result<{ id: number; tags: string[] }, string> = err("missing");
+const samples = [okUser, errUser];
+
+const mixed: Array<Result<number, string>> = [
+	ok(1),
+	err("bad 2"),
+	ok(3),
+	err("bad 4"),
+];
+const batches = [mixed, [ok(1), ok(2)], [err("a"), err("b")], []];
+
+// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+const notAFunction = "not a function" as any;
+
+const layers = [
+	["option", option, uncheckedOption],
+	["errors", errors, uncheckedErrors],
+	["fp", fp, uncheckedFp],
+	["async", async, uncheckedAsync],
+	["patterns", patterns, uncheckedPatterns],
+	["stream", stream, uncheckedStream],
+	["resilience", resilience, uncheckedResilience],
+	["serde", serde, uncheckedSerde],
+	["schema", schema, uncheckedSchema],
+] as const;
+
+// Deprecated re-exports that the unchecked schema layer leaves to result-ts/schema-zod
+const deprecated = [
+	"numberErrorSchema",
+	"resultSchema",
+	"stringErrorSchema",
+	"structuredErrorSchema",
+];
+
+const numberSchema: schema.StandardSchemaV1<unknown, number> = {
+	"~standard": {
+		version: 1,
+		vendor: "test",
+		validate: (value) =>
+			typeof value === "number"
+				? { value }
+				: { issues: [{ message: "Expected number" }] },
+	},
+};
+
+describe("Unchecked Module - Hot Paths Without Validation", () => {
+	describe("parity with validated layers", () => {
+		it("should match core essentials", () => {
+			const handlers = {
+				Ok: (user: { id: number }) => `user ${user.id}`,
+				Err: (error: string) => `error ${error}`,
+			};
+			for (const result of samples) {
+				expect(match(result, handlers)).toEqual(core.match(result, handlers));
+				expect(unwrapOr(result, { id: 0, tags: [] })).toEqual(
+					core.unwrapOr(result, { id: 0, tags: [] }),
+				);
+			}
+			expect(unwrap(okUser)).toEqual(core.unwrap(okUser));
+		});
+
+		it("should throw the same errors from unwrap()", () => {
+			const cause = { code: 404 };
+			expect(() => unwrap(err(new TypeError("boom")))).toThrow(TypeError);
+			expect(() => unwrap(err("failed"))).toThrow("failed");
+			try {
+				unwrap(err(cause));
+			} catch (error) {
+				expect((error as Error).message).toBe("Unwrap failed: [object Object]");
+				expect((error as Error).cause).toBe(cause);
+			}
+		});
+
+		it("should match iteration operations", () => {
+			const double = (user: { id: number }) => user.id * 2;
+			const next = (user: { id: number }) =>
+				user.id > 0 ? ok(user.id) : err("invalid");
+			const fallback = (error: string) => ok(error.length);
+			for (const result of samples) {
+				expect(map(result, double)).toEqual(iter.map(result, double));
+				expect(mapErr(result, (e) => e.toUpperCase())).toEqual(
+					iter.mapErr(result, (e) => e.toUpperCase()),
+				);
+				expect(andThen(result, next)).toEqual(iter.andThen(result, next));
+				expect(orElse(result, fallback)).toEqual(iter.orElse(result, fallback));
+				expect(recover(result, () => null)).toEqual(
+					iter.recover(result, () => null),
+				);
+				expect(
+					recoverIf(
+						result,
+						(e) => e === "missing",
+						() => 0,
+					),
+				).toEqual(
+					iter.recoverIf(
+						result,
+						(e) => e === "missing",
+						() => 0,
+					),
+				);
+				expect(
+					recoverWith(
+						result,
+						(e) => e === "missing",
+						() => ok(0),
+					),
+				).toEqual(
+					iter.recoverWith(
+						result,
+						(e) => e === "missing",
+						() => ok(0),
+					),
+				);
+			}
+		});
+
+		it("should match async iteration operations", async () => {
+			for (const result of samples) {
+				expect(
+					await mapAsync(Promise.resolve(result), async (u) => u.id),
+				).toEqual(
+					await iter.mapAsync(Promise.resolve(result), async (u) => u.id),
+				);
+				expect(
+					await mapErrAsync(Promise.resolve(result), async (e) => e.length),
+				).toEqual(
+					await iter.mapErrAsync(
+						Promise.resolve(result),
+						async (e) => e.length,
+					),
+				);
+				expect(
+					await andThenAsync(Promise.resolve(result), async (u) => ok(u.id)),
+				).toEqual(
+					await iter.andThenAsync(Promise.resolve(result), async (u) =>
+						ok(u.id),
+					),
+				);
+				expect(
+					await orElseAsync(Promise.resolve(result), async () => ok(0)),
+				).toEqual(
+					await iter.orElseAsync(Promise.resolve(result), async () => ok(0)),
+				);
+				expect(
+					await recoverAsync(Promise.resolve(result), async () => 0),
+				).toEqual(
+					await iter.recoverAsync(Promise.resolve(result), async () => 0),
+				);
+				expect(
+					await recoverIfAsync(
+						Promise.resolve(result),
+						(e) => e === "missing",
+						async () => 0,
+					),
+				).toEqual(
+					await iter.recoverIfAsync(
+						Promise.resolve(result),
+						(e) => e === "missing",
+						async () => 0,
+					),
+				);
+			}
+		});
+
+		it("should match batch operations", () => {
+			const reducer = {
+				onOk: (acc: string, value: number, i: number) => `${acc}+${value}@${i}`,
+				onErr: (acc: string, error: string, i: number) =>
+					`${acc}!${error}@${i}`,
+			};
+			for (const results of batches) {
+				expect(all(results)).toEqual(batch.all(results));
+				expect(oks(results)).toEqual(batch.oks(results));
+				expect(errs(results)).toEqual(batch.errs(results));
+				expect(partition(results)).toEqual(batch.partition(results));
+				expect(partitionWith(results)).toEqual(batch.partitionWith(results));
+				expect(analyze(results)).toEqual(batch.analyze(results));
+				expect(findFirst(results)).toEqual(batch.findFirst(results));
+				expect(first(results)).toEqual(batch.first(results));
+				expect(reduce(results, reducer, "")).toEqual(
+					batch.reduce(results, reducer, ""),
+				);
+			}
+		});
+
+		it("should skip null/undefined batch elements like the validated layer", () => {
+			const sparse = [ok(1), null, err("bad"), undefined] as Array<
+				Result<number, string>
+			>;
+			expect(all(sparse)).toEqual(batch.all(sparse));
+			expect(partition(sparse)).toEqual(batch.partition(sparse));
+			expect(analyze(sparse)).toEqual(batch.analyze(sparse));
+			expect(findFirst(sparse)).toEqual(batch.findFirst(sparse));
+			expect(first(sparse.slice(1))).toEqual(batch.first(sparse.slice(1)));
+		});
+
+		it("should record the same trace steps", () => {
+			utils.enableResultTracing();
+			try {
+				const unchecked = map(andThen(err("missing"), ok), (x) => x);
+				const validated = iter.map(iter.andThen(err("missing"), ok), (x) => x);
+				expect(utils.traceOf(unchecked)?.steps).toEqual(["andThen()", "map()"]);
+				expect(utils.traceOf(unchecked)?.steps).toEqual(
+					utils.traceOf(validated)?.steps,
+				);
+
+				const none = first([err("a"), err("b")]);
+				expect(utils.traceOf(none)?.stack).toContain("unchecked.test.ts");
+			} finally {
+				utils.disableResultTracing();
+			}
+		});
+
+		it("should match utility functions", () => {
+			for (const result of samples) {
+				expect(toNullable(result)).toEqual(utils.toNullable(result));
+			}
+			for (const value of [0, "", null, undefined, { id: 1 }]) {
+				expect(fromNullable(value, "absent")).toEqual(
+					utils.fromNullable(value, "absent"),
+				);
+			}
+			expect(fromNullable(null)).toEqual(utils.fromNullable(null));
+		});
+	});
+
+	describe("tap() / tapErr() / inspect()", () => {
+		it("should pass the original value instead of a clone", () => {
+			const seen = vi.fn();
+			expect(tap(okUser, seen)).toBe(okUser);
+			expect(seen).toHaveBeenCalledTimes(1);
+			expect(seen.mock.calls[0]?.[0]).toBe(
+				(okUser as { value: unknown }).value,
+			);
+		});
+
+		it("should pass the original error instead of a clone", () => {
+			const cause = { code: 500 };
+			const failed = err(cause);
+			const seen = vi.fn();
+			expect(tapErr(failed, seen)).toBe(failed);
+			expect(seen.mock.calls[0]?.[0]).toBe(cause);
+		});
+
+		it("should only call the callback for its variant", () => {
+			const onOk = vi.fn();
+			const onErr = vi.fn();
+			tap(errUser, onOk);
+			tapErr(okUser, onErr);
+			expect(onOk).not.toHaveBeenCalled();
+			expect(onErr).not.toHaveBeenCalled();
+		});
+
+		it("should allow omitted inspect() callbacks", () => {
+			const onErr = vi.fn();
+			expect(inspect(okUser)).toBe(okUser);
+			expect(inspect(errUser, undefined, onErr)).toBe(errUser);
+			expect(onErr).toHaveBeenCalledWith("missing");
+		});
+	});
+
+	describe("skipped validation", () => {
+		it("should not produce descriptive TypeErrors", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			const notAResult = { type: "Some", value: 1 } as any;
+			expect(() => iter.map(notAResult, (x) => x)).toThrow(
+				"map(): Invalid Result type 'Some'",
+			);
+			expect(map(notAResult, (x) => x)).toBe(notAResult);
+		});
+	});
+});
+
+describe("Unchecked Layers - result-ts/unchecked/<layer>", () => {
+	it.each(layers)(
+		"should export the same names as result-ts/%s",
+		(_, checked, unchecked) => {
+			const names = Object.keys(checked).filter(
+				(name) => !deprecated.includes(name),
+			);
+			expect(Object.keys(unchecked).sort()).toEqual(names.sort());
+		},
+	);
+
+	describe("parity with validated layers", () => {
+		it("should match option and tagged error operations", () => {
+			class NotFound extends errors.taggedError("NotFound") {}
+			const handlers = {
+				Ok: (n: number) => n,
+				NotFound: (e: NotFound) => e.message,
+			};
+			for (const result of [ok(1), err(new NotFound("gone"))]) {
+				expect(uncheckedOption.toOption(result)).toEqual(
+					option.toOption(result),
+				);
+				expect(uncheckedErrors.matchErr(result, handlers)).toEqual(
+					errors.matchErr(result, handlers),
+				);
+				expect(uncheckedErrors.context(result, "loading")).toEqual(
+					errors.context(result, "loading"),
+				);
+			}
+			const some = option.some(2);
+			expect(uncheckedOption.mapOption(some, (n) => n * 2)).toEqual(
+				option.mapOption(some, (n) => n * 2),
+			);
+			expect(uncheckedOption.okOr(option.none(), "empty")).toEqual(
+				option.okOr(option.none(), "empty"),
+			);
+		});
+
+		it("should match fp, async and pattern operations", async () => {
+			const double = (n: number) => n * 2;
+			for (const result of mixed) {
+				expect(uncheckedFp.pipe(result, uncheckedFp.map(double))).toEqual(
+					fp.pipe(result, fp.map(double)),
+				);
+				expect(
+					await uncheckedAsync.resultAsync(result).map(double).andThen(ok),
+				).toEqual(await async.resultAsync(result).map(double).andThen(ok));
+			}
+			expect(uncheckedPatterns.zip(ok(1), err("b"))).toEqual(
+				patterns.zip(ok(1), err("b")),
+			);
+			expect(uncheckedPatterns.zipAllErrors(err("a"), err("b"))).toEqual(
+				patterns.zipAllErrors(err("a"), err("b")),
+			);
+			expect(
+				await uncheckedPatterns.combineAsync({
+					a: ok(1),
+					b: Promise.resolve(ok(2)),
+				}),
+			).toEqual(
+				await patterns.combineAsync({ a: ok(1), b: Promise.resolve(ok(2)) }),
+			);
+			expect(uncheckedPatterns.chain(ok(1)).map(double).run()).toEqual(
+				patterns.chain(ok(1)).map(double).run(),
+			);
+		});
+
+		it("should match stream, retry, serde and schema operations", async () => {
+			expect(
+				await uncheckedStream.collect(uncheckedStream.mapOk(mixed, String)),
+			).toEqual(await stream.collect(stream.mapOk(mixed, String)));
+			expect(await uncheckedStream.analyzeStream(mixed)).toEqual(
+				await stream.analyzeStream(mixed),
+			);
+			// map() passes an index as the second argument, which must not be taken for options
+			expect(
+				await Promise.all([mixed, mixed.slice(1)].map(uncheckedStream.collect)),
+			).toEqual(await Promise.all([mixed, mixed.slice(1)].map(stream.collect)));
+
+			const options = { attempts: 2, delay: 0 };
+			const summarize = (
+				result: Result<unknown, resilience.RetryError<string>>,
+			) =>
+				result.type === "Err"
+					? [result.error.reason, result.error.attempts.map((a) => a.error)]
+					: result;
+			expect(
+				summarize(
+					await uncheckedResilience.retry(async () => err("down"), options),
+				),
+			).toEqual(
+				summarize(await resilience.retry(async () => err("down"), options)),
+			);
+
+			for (const result of [ok(new Date(0)), err(new RangeError("bad"))]) {
+				const json = serde.serialize(result);
+				expect(uncheckedSerde.serialize(result)).toBe(json);
+				expect(uncheckedSerde.deserialize(json)).toEqual(
+					serde.deserialize(json),
+				);
+			}
+
+			for (const json of ["1", '"1"', "{"]) {
+				expect(uncheckedSchema.parseJson(json, numberSchema)).toEqual(
+					schema.parseJson(json, numberSchema),
+				);
+			}
+			const stored = '{"type":"Err","error":"x"}';
+			expect(
+				uncheckedSchema.parseResult(stored, numberSchema, numberSchema),
+			).toEqual(schema.parseResult(stored, numberSchema, numberSchema));
+		});
+	});
+
+	describe("skipped validation", () => {
+		it("should not check callbacks that are never called", async () => {
+			expect(() => option.mapOption(option.none(), notAFunction)).toThrow(
+				"mapOption():",
+			);
+			expect(uncheckedOption.mapOption(option.none(), notAFunction)).toEqual(
+				option.none(),
+			);
+
+			expect(() => errors.withContext(ok(1), notAFunction)).toThrow(
+				"withContext():",
+			);
+			expect(uncheckedErrors.withContext(ok(1), notAFunction)).toEqual(ok(1));
+
+			expect(() => fp.map(notAFunction)).toThrow("map():");
+			expect(uncheckedFp.map(notAFunction)(err("x"))).toEqual(err("x"));
+
+			expect(() => async.errAsync("x").map(notAFunction)).toThrow(
+				"ResultAsync.map():",
+			);
+			expect(await uncheckedAsync.errAsync("x").map(notAFunction)).toEqual(
+				err("x"),
+			);
+
+			await expect(
+				resilience.retry(async () => ok(1), { shouldRetry: notAFunction }),
+			).rejects.toThrow("retry():");
+			expect(
+				await uncheckedResilience.retry(async () => ok(1), {
+					shouldRetry: notAFunction,
+				}),
+			).toEqual(ok(1));
+
+			expect(() => schema.validateWith(1, numberSchema, notAFunction)).toThrow(
+				"validateWith():",
+			);
+			expect(
+				uncheckedSchema.validateWith(1, numberSchema, notAFunction),
+			).toEqual(ok(1));
+		});
+
+		it("should not check Results inside patterns and streams", async () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			const notAResult = { type: "Some", value: 1 } as any;
+			expect(() => patterns.zip(ok(1), notAResult)).toThrow("zip():");
+			expect(() => uncheckedPatterns.zip(ok(1), notAResult)).not.toThrow();
+
+			await expect(stream.collect([ok(1), notAResult])).rejects.toThrow(
+				"collect():",
+			);
+			await expect(
+				uncheckedStream.collect([ok(1), notAResult]),
+			).resolves.toBeDefined();
+		});
+
+		it("should return undefined from matchErr() for a tag without a handler", () => {
+			const Timeout = errors.taggedError("Timeout");
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			const handlers = { Ok: () => "ok" } as any;
+			expect(() => errors.matchErr(err(new Timeout("slow")), handlers)).toThrow(
+				"matchErr():",
+			);
+			expect(
+				uncheckedErrors.matchErr(err(new Timeout("slow")), handlers),
+			).toBeUndefined();
+		});
+	});
+});
@@ -1,15 +1,27 @@
-import { describe, expect, it, vi } from "vitest";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { all, first } from "../src/batch";
+import { map as mapFp, pipe } from "../src/fp";
+import { andThen, map, mapErr } from "../src/iter";
+import { chain, Do, safe, validateAll, zip } from "../src/patterns";
 import type { Result } from "../src/types";
 import {
+	CloneError,
+	disableResultTracing,
+	enableResultTracing,
 	err,
 	fromNullable,
+	handle,
 	inspect,
 	isErr,
 	isOk,
+	logResult,
 	ok,
+	type ResultLogger,
+	setCloneOptions,
 	tap,
 	tapErr,
 	toNullable,
+	traceOf,
 } from "../src/utils";
 
 describe("Utils Module - Debugging and Conversion Utilities", () => {
@@ -532,6 +544,539 @@ describe("Utils Module - Debugging and Conversion Utilities", () => {
 		});
 	});
 
+	describe("enableResultTracing() / traceOf()", () => {
+		afterEach(() => {
+			disableResultTracing();
+		});
+
+		const findUser = (id: number): Result<{ id: number }, string> =>
+			id > 0 ? ok({ id }) : err("not found");
+
+		it("should not record traces while disabled", () => {
+			expect(traceOf(err("not found"))).toBeUndefined();
+			expect(traceOf(ok(1))).toBeUndefined();
+		});
+
+		it("should record the creation site of err()", () => {
+			enableResultTracing();
+			const trace = traceOf(findUser(0));
+
+			expect(trace?.steps).toEqual([]);
+			expect(trace?.stack.split("\n")[0]).toContain("findUser");
+			expect(trace?.stack).toContain("utils.test.ts");
+		});
+
+		it("should record the combinators an Err passes through", () => {
+			enableResultTracing();
+			const result = map(
+				andThen(findUser(0), (user) => ok(user.id)),
+				(id) => id * 2,
+			);
+			const described = mapErr(result, (error) => ({ message: error }));
+
+			expect(traceOf(result)?.steps).toEqual(["andThen()", "map()"]);
+			expect(traceOf(described)?.steps).toEqual([
+				"andThen()",
+				"map()",
+				"mapErr()",
+			]);
+			expect(traceOf(described)?.stack).toBe(traceOf(result)?.stack);
+		});
+
+		it("should trace Errs from handle() and batch functions", () => {
+			enableResultTracing();
+			const thrown = handle(() => {
+				throw new Error("boom");
+			});
+			const failed = all([findUser(1), findUser(0)]);
+			const none = first([findUser(0), findUser(-1)]);
+
+			expect(traceOf(thrown)?.stack.split("\n")[0]).toContain("utils.test.ts");
+			expect(traceOf(failed)?.steps).toEqual(["all()"]);
+			expect(traceOf(none)?.steps).toEqual([]);
+			expect(traceOf(none)?.stack.split("\n")[0]).toContain("utils.test.ts");
+		});
+
+		it("should record the steps of patterns and fp pipelines", () => {
+			enableResultTracing();
+			const steps = (result: Result<unknown, unknown>) =>
+				traceOf(result)?.steps;
+
+			expect(steps(zip(ok(1), findUser(0)))).toEqual(["zip()"]);
+			expect(
+				steps(
+					chain(findUser(0))
+						.map((user) => user.id)
+						.tap(() => {})
+						.andThen((id) => ok(id))
+						.mapErr((error) => error.length)
+						.run(),
+				),
+			).toEqual(["chain().map()", "chain().andThen()", "chain().mapErr()"]);
+			expect(
+				steps(
+					Do()
+						.bind("user", () => findUser(0))
+						.let("id", ({ user }) => user.id)
+						.run(),
+				),
+			).toEqual(["Do().let()"]);
+			expect(
+				steps(
+					safe(function* () {
+						return yield findUser(0);
+					}),
+				),
+			).toEqual(["safe()"]);
+			expect(steps(validateAll({ a: findUser(0), b: findUser(-1) }))).toEqual([
+				"validateAll()",
+			]);
+			expect(
+				steps(
+					pipe(
+						findUser(0),
+						mapFp((user) => user.id),
+					),
+				),
+			).toEqual(["map()"]);
+		});
+
+		it("should keep steps per Err and at most the last 32", () => {
+			enableResultTracing();
+			const shared = findUser(0);
+			map(shared, (user) => user.id);
+			const snapshot = traceOf(shared);
+			map(shared, (user) => user.id);
+
+			expect(snapshot?.steps).toEqual(["map()"]);
+			expect(traceOf(shared)?.steps).toEqual(["map()", "map()"]);
+
+			let result: Result<{ id: number }, unknown> = findUser(0);
+			for (let i = 0; i < 40; i++) {
+				result = mapErr(result, () => i);
+			}
+			const trace = traceOf(result);
+			expect(trace?.steps).toHaveLength(32);
+			expect(trace?.steps.at(-1)).toBe("mapErr()");
+		});
+
+		it("should keep traces readable after disabling", () => {
+			enableResultTracing();
+			const result = findUser(0);
+			disableResultTracing();
+
+			expect(traceOf(result)).toBeDefined();
+			expect(traceOf(map(result, (user) => user.id))?.steps).toEqual([]);
+			expect(traceOf(err("later"))).toBeUndefined();
+		});
+
+		it("should pass the trace to inspect() onErr", () => {
+			enableResultTracing();
+			const onErr = vi.fn();
+			inspect(
+				andThen(findUser(0), (user) => ok(user)),
+				undefined,
+				onErr,
+			);
+
+			expect(onErr).toHaveBeenCalledWith("not found", {
+				stack: expect.stringContaining("findUser"),
+				steps: ["andThen()"],
+			});
+		});
+
+		it("should leave Result shapes unchanged", () => {
+			enableResultTracing();
+			expect(findUser(0)).toEqual({ type: "Err", error: "not found" });
+			expect(Object.keys(findUser(0))).toEqual(["type", "error"]);
+		});
+
+		it("should validate the Result", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => traceOf(null as any)).toThrow(
+				"traceOf(): First argument must be a Result object, got object",
+			);
+		});
+	});
+
+	describe("clone strategies", () => {
+		afterEach(() => {
+			setCloneOptions({ clone: "structured", strict: false });
+		});
+
+		it("should deep-freeze the original value with clone: 'freeze'", () => {
+			const user = { name: "John", settings: { theme: "dark" } };
+			const result = ok(user);
+			let seen: typeof user | undefined;
+
+			tap(
+				result,
+				(value) => {
+					seen = value;
+					expect(() => {
+						value.settings.theme = "light";
+					}).toThrow(TypeError);
+				},
+				{ clone: "freeze" },
+			);
+
+			expect(seen).toBe(user);
+			expect(Object.isFrozen(user)).toBe(true);
+			expect(Object.isFrozen(user.settings)).toBe(true);
+			expect(user.settings.theme).toBe("dark");
+		});
+
+		it("should freeze circular graphs and leave typed arrays usable", () => {
+			const node: { bytes: Uint8Array; self?: unknown } = {
+				bytes: new Uint8Array([1, 2]),
+			};
+			node.self = node;
+
+			tapErr(err(node), () => {}, { clone: "freeze" });
+
+			expect(Object.isFrozen(node)).toBe(true);
+			expect(Object.isFrozen(node.bytes)).toBe(false);
+		});
+
+		it("should pass the original value with clone: 'none'", () => {
+			const error = { code: 500 };
+			const onErr = vi.fn();
+
+			inspect(err(error), undefined, onErr, { clone: "none" });
+
+			expect(onErr.mock.calls[0]?.[0]).toBe(error);
+		});
+
+		it("should use a custom clone function for objects only", () => {
+			const clone = vi.fn((value: unknown) => ({ ...(value as object) }));
+			const original = { id: 1 };
+			const fn = vi.fn();
+
+			tap(ok(original), fn, { clone });
+			tap(ok(42), fn, { clone });
+
+			expect(clone).toHaveBeenCalledTimes(1);
+			expect(fn.mock.calls[0]?.[0]).toEqual(original);
+			expect(fn.mock.calls[0]?.[0]).not.toBe(original);
+			expect(fn.mock.calls[1]?.[0]).toBe(42);
+		});
+
+		it("should throw CloneError in strict mode instead of degrading", () => {
+			const withFunction = { id: 1, format: () => "user" };
+			const fn = vi.fn();
+
+			// Non-strict silently falls back to a JSON copy
+			tap(ok(withFunction), fn);
+			expect(fn).toHaveBeenCalledWith({ id: 1 });
+
+			try {
+				tap(ok(withFunction), fn, { strict: true });
+				expect.unreachable();
+			} catch (error) {
+				expect(error).toBeInstanceOf(CloneError);
+				expect((error as CloneError)._tag).toBe("CloneError");
+				expect((error as CloneError).strategy).toBe("structured");
+				expect((error as Error).message).toBe(
+					"tap(): value cannot be cloned with structuredClone",
+				);
+				expect((error as Error).cause).toBeDefined();
+			}
+			expect(fn).toHaveBeenCalledTimes(1);
+		});
+
+		it("should reject values that would lose their prototype in strict mode", () => {
+			class Money {
+				constructor(readonly cents: number) {}
+				format() {
+					return `$${this.cents / 100}`;
+				}
+			}
+			class NotFound extends Error {}
+			const fn = vi.fn();
+
+			expect(() =>
+				tap(ok({ total: new Money(100) }), fn, { strict: true }),
+			).toThrow(
+				'tap(): Money instances lose their prototype when cloned with structuredClone, use clone: "freeze" or a custom clone function',
+			);
+			expect(() =>
+				tapErr(err(new NotFound("gone")), fn, { strict: true }),
+			).toThrow(CloneError);
+			expect(fn).not.toHaveBeenCalled();
+
+			// Plain data and built-ins structuredClone recreates are still copied
+			const value = {
+				at: new Date(0),
+				tags: new Set(["a"]),
+				bytes: new Uint8Array([1]),
+				error: new TypeError("bad"),
+				bare: Object.create(null),
+			};
+			tap(ok(value), fn, { strict: true });
+			expect(fn.mock.calls[0]?.[0]).toEqual(value);
+			expect(fn.mock.calls[0]?.[0]).not.toBe(value);
+		});
+
+		it("should report values that cannot be deep-frozen in strict mode", () => {
+			const cache = { entries: new Map([["a", 1]]) };
+
+			expect(() =>
+				inspect(ok(cache), () => {}, undefined, {
+					clone: "freeze",
+					strict: true,
+				}),
+			).toThrow(
+				'inspect(): Map values cannot be deep-frozen, use clone: "structured" or a custom clone function',
+			);
+		});
+
+		it("should apply global defaults and let per-call options override them", () => {
+			const previous = setCloneOptions({ clone: "none" });
+			expect(previous).toEqual({ clone: "structured", strict: false });
+
+			const value = { id: 1 };
+			const fn = vi.fn();
+			tap(ok(value), fn);
+			tap(ok(value), fn, { clone: "structured" });
+
+			expect(fn.mock.calls[0]?.[0]).toBe(value);
+			expect(fn.mock.calls[1]?.[0]).not.toBe(value);
+			expect(setCloneOptions(previous)).toEqual({
+				clone: "none",
+				strict: false,
+			});
+		});
+
+		it("should validate options", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => tap(ok(1), () => {}, { clone: "deep" as any })).toThrow(
+				'tap(): options.clone must be "structured", "freeze", "none" or a function, got "deep"',
+			);
+			expect(() =>
+				// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+				tapErr(err("x"), () => {}, { strict: "yes" as any }),
+			).toThrow("tapErr(): options.strict must be a boolean, got string");
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => setCloneOptions(null as any)).toThrow(
+				"setCloneOptions(): options must be an object, got null",
+			);
+		});
+	});
+
+	describe("logResult()", () => {
+		const createLogger = () => ({
+			info: vi.fn(),
+			error: vi.fn(),
+		});
+
+		it("should log Ok outcomes at info with a redacted value", () => {
+			const logger = createLogger();
+			const user = {
+				email: "a@example.com",
+				password: "hunter2",
+				session: { token: "abc", expires: 60 },
+			};
+			const result = ok(user);
+
+			expect(
+				logResult(result, logger, {
+					name: "createUser",
+					redact: ["password", "token"],
+				}),
+			).toBe(result);
+			expect(logger.info).toHaveBeenCalledWith("createUser succeeded", {
+				name: "createUser",
+				outcome: "ok",
+				value: {
+					email: "a@example.com",
+					password: "[REDACTED]",
+					session: { token: "[REDACTED]", expires: 60 },
+				},
+			});
+			expect(user.password).toBe("hunter2");
+		});
+
+		it("should log Err outcomes at error with the cause chain", () => {
+			const logger = createLogger();
+			const root = new TypeError("socket hang up");
+			const error = new Error("fetch failed", { cause: root });
+
+			logResult(err(error), logger, { name: "fetchUser" });
+
+			expect(logger.error).toHaveBeenCalledWith(
+				"fetchUser failed: fetch failed",
+				{
+					name: "fetchUser",
+					outcome: "err",
+					error: {
+						name: "Error",
+						message: "fetch failed",
+						cause: { name: "TypeError", message: "socket hang up" },
+					},
+				},
+			);
+		});
+
+		it("should describe string and object errors", () => {
+			const logger = createLogger();
+			logResult(err("not found"), logger);
+			logResult(
+				err({ _tag: "ValidationError", field: "email", secret: "x" }),
+				logger,
+				{ redact: ["secret"] },
+			);
+
+			expect(logger.error.mock.calls[0]?.[1].error).toEqual({
+				message: "not found",
+			});
+			expect(logger.error.mock.calls[1]?.[1].error).toEqual({
+				name: "ValidationError",
+				message:
+					'{"_tag":"ValidationError","field":"email","secret":"[REDACTED]"}',
+				details: {
+					_tag: "ValidationError",
+					field: "email",
+					secret: "[REDACTED]",
+				},
+			});
+		});
+
+		it("should redact dotted paths from the root with wildcards", () => {
+			const logger = createLogger();
+			logResult(
+				ok({
+					user: { email: "a@example.com", name: "Ann" },
+					items: [{ sku: "A1", token: "t1" }],
+					email: "kept@example.com",
+				}),
+				logger,
+				{ redact: ["user.email", "items.*.token"] },
+			);
+
+			expect(logger.info.mock.calls[0]?.[1].value).toEqual({
+				user: { email: "[REDACTED]", name: "Ann" },
+				items: [{ sku: "A1", token: "[REDACTED]" }],
+				email: "kept@example.com",
+			});
+		});
+
+		it("should describe object errors holding BigInts", () => {
+			const logger = createLogger();
+			logResult(err({ _tag: "Overflow", limit: 10n }), logger);
+
+			expect(logger.error.mock.calls[0]?.[1].error).toEqual({
+				name: "Overflow",
+				message: '{"_tag":"Overflow","limit":"10"}',
+				details: { _tag: "Overflow", limit: 10n },
+			});
+		});
+
+		it("should redact Map values and Set elements", () => {
+			const logger = createLogger();
+			logResult(
+				ok({
+					headers: new Map([
+						["authorization", "Bearer abc"],
+						["accept", "json"],
+					]),
+					tokens: new Set([{ token: "t1", id: 1 }]),
+				}),
+				logger,
+				{ redact: ["authorization", "tokens.*.token"] },
+			);
+
+			expect(logger.info.mock.calls[0]?.[1].value).toEqual({
+				headers: new Map([
+					["authorization", "[REDACTED]"],
+					["accept", "json"],
+				]),
+				tokens: new Set([{ token: "[REDACTED]", id: 1 }]),
+			});
+		});
+
+		it("should handle circular values", () => {
+			const logger = createLogger();
+			const node: Record<string, unknown> = { id: 1 };
+			node.self = node;
+			logResult(ok(node), logger);
+
+			expect(logger.info.mock.calls[0]?.[1].value).toEqual({
+				id: 1,
+				self: "[Circular]",
+			});
+		});
+
+		it("should honor levels and fall back when methods are missing", () => {
+			const logger: ResultLogger & { warn: ReturnType<typeof vi.fn> } = {
+				...createLogger(),
+				warn: vi.fn(),
+			};
+			logResult(ok(1), logger, { level: { ok: "debug", err: "warn" } });
+			logResult(err("x"), logger, { level: { ok: "debug", err: "warn" } });
+
+			expect(logger.info).toHaveBeenCalledTimes(1);
+			expect(logger.warn).toHaveBeenCalledTimes(1);
+			expect(logger.error).not.toHaveBeenCalled();
+		});
+
+		it("should omit the value when includeValue is false", () => {
+			const logger = createLogger();
+			logResult(ok({ big: "payload" }), logger, { includeValue: false });
+			expect(logger.info.mock.calls[0]?.[1]).toEqual({
+				name: "result",
+				outcome: "ok",
+			});
+		});
+
+		it("should measure durations from startedAt or Promise settlement", async () => {
+			const logger = createLogger();
+			let time = 1000;
+			const now = () => time;
+
+			logResult(ok(1), logger, { startedAt: 400, now });
+			expect(logger.info.mock.calls[0]?.[1].durationMs).toBe(600);
+
+			const pending = logResult(Promise.resolve(err("timeout")), logger, {
+				now,
+			});
+			time = 1250;
+			expect(await pending).toEqual(err("timeout"));
+			expect(logger.error.mock.calls[0]?.[1].durationMs).toBe(250);
+		});
+
+		it("should work with console", () => {
+			const info = vi.spyOn(console, "info").mockImplementation(() => {});
+			logResult(ok("done"), console, { name: "job" });
+			expect(info).toHaveBeenCalledWith("job succeeded", {
+				name: "job",
+				outcome: "ok",
+				value: "done",
+			});
+			info.mockRestore();
+		});
+
+		it("should validate arguments", () => {
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => logResult(ok(1), { info: () => {} } as any)).toThrow(
+				"logResult(): logger must have info and error methods",
+			);
+			expect(() =>
+				// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+				logResult(ok(1), createLogger(), { level: "trace" as any }),
+			).toThrow(
+				"logResult(): level must be one of debug, info, warn, error, got trace",
+			);
+			expect(() =>
+				// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+				logResult(ok(1), createLogger(), { redact: [""] as any }),
+			).toThrow("logResult(): redact must be an array of non-empty strings");
+			// biome-ignore lint/suspicious/noExplicitAny: Testing invalid input
+			expect(() => logResult(null as any, createLogger())).toThrow(
+				"logResult(): First argument must be a Result object, got object",
+			);
+		});
+	});
+
 	describe("Integration Tests", () => {
 		it("should work together for debugging workflows", () => {
 			const debugLog: string[] = [];